@@ -0,0 +1,202 @@
+import { Metadata } from "next";
+import { headers } from "next/headers";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { BarChart3, Home } from "lucide-react";
+import {
+  readStoredEvents,
+  resolveAnalyticsSinkName,
+  resolveJsonlPath,
+} from "@/lib/analyticsSinks";
+import { checkAdminAccess } from "@/lib/adminAuth";
+import {
+  buildFunnelReport,
+  formatDuration,
+  formatPercent,
+  FUNNEL_NAMES,
+  parseSince,
+  type FunnelReport,
+} from "@/lib/funnelReport";
+import { cn } from "@/lib/utils";
+
+export const metadata: Metadata = {
+  title: "Funnel Report | ACFS Admin",
+  robots: { index: false, follow: false },
+};
+
+// Reads the events file on every request
+export const dynamic = "force-dynamic";
+
+// Streaming keeps memory flat while reading; the cap bounds what is kept
+const DEFAULT_SINCE = "30d";
+const MAX_EVENTS = 200_000;
+
+const RANGES = [
+  { label: "All time", since: "all" },
+  { label: "30 days", since: "30d" },
+  { label: "7 days", since: "7d" },
+  { label: "24 hours", since: "24h" },
+] as const;
+
+function FunnelTable({ report }: { report: FunnelReport }) {
+  return (
+    <section className="rounded-2xl border border-white/10 bg-white/[0.02] p-6">
+      <div className="mb-5 flex flex-wrap items-baseline justify-between gap-2">
+        <h2 className="text-xl font-semibold text-white">{report.title}</h2>
+        <p className="text-sm text-white/50">
+          {report.sessions} sessions · {report.completedSessions} finished (
+          {formatPercent(report.completionRate)})
+        </p>
+      </div>
+
+      {report.sessions === 0 ? (
+        <p className="text-sm text-white/50">No funnel events in this range.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-left text-sm">
+            <thead className="text-xs uppercase tracking-wide text-white/40">
+              <tr>
+                <th className="pb-3 pr-4 font-medium">Step</th>
+                <th className="pb-3 pr-4 font-medium">Reached</th>
+                <th className="pb-3 pr-4 text-right font-medium">Completed</th>
+                <th className="pb-3 pr-4 text-right font-medium">Dropped off</th>
+                <th className="pb-3 text-right font-medium">Median time</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-white/5">
+              {report.steps.map((step) => (
+                <tr key={step.step} className="text-white/80">
+                  <td className="py-2.5 pr-4">
+                    <span className="mr-2 font-mono text-white/40">{step.step}</span>
+                    {step.title}
+                  </td>
+                  <td className="py-2.5 pr-4">
+                    <div className="flex items-center gap-3">
+                      <div className="h-2 w-32 overflow-hidden rounded-full bg-white/10">
+                        <div
+                          className="h-full rounded-full bg-primary"
+                          style={{ width: `${Math.round(step.reachRate * 100)}%` }}
+                        />
+                      </div>
+                      <span className="tabular-nums">
+                        {step.reached}{" "}
+                        <span className="text-white/40">({formatPercent(step.reachRate)})</span>
+                      </span>
+                    </div>
+                  </td>
+                  <td className="py-2.5 pr-4 text-right tabular-nums">{step.completed}</td>
+                  <td
+                    className={cn(
+                      "py-2.5 pr-4 text-right tabular-nums",
+                      step.dropOffRate >= 0.25 && "text-amber-400"
+                    )}
+                  >
+                    {step.reached > 0
+                      ? `${step.droppedOff} (${formatPercent(step.dropOffRate)})`
+                      : "-"}
+                  </td>
+                  <td
+                    className="py-2.5 text-right tabular-nums"
+                    title={`${step.timedSessions} sessions with enter and complete times`}
+                  >
+                    {formatDuration(step.medianSeconds)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </section>
+  );
+}
+
+/**
+ * Internal funnel report built from the JSONL analytics sink. Only served
+ * when ANALYTICS_SINK=jsonl, so deployments sending events to GA4 don't
+ * expose it, and only to requests carrying ADMIN_TOKEN (proxy.ts challenges
+ * for it; this check covers deployments where the proxy doesn't run).
+ */
+export default async function FunnelAdminPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ since?: string }>;
+}) {
+  if (resolveAnalyticsSinkName(process.env.ANALYTICS_SINK) !== "jsonl") {
+    notFound();
+  }
+  if (checkAdminAccess((await headers()).get("authorization")) !== "granted") {
+    notFound();
+  }
+
+  const { since: sinceParam = DEFAULT_SINCE } = await searchParams;
+  const since = parseSince(sinceParam);
+  const events = await readStoredEvents(resolveJsonlPath(), { since, limit: MAX_EVENTS });
+  const truncated = events.length >= MAX_EVENTS;
+  const reports = FUNNEL_NAMES.map((funnel) => buildFunnelReport(events, funnel, { since }));
+
+  return (
+    <div className="relative min-h-screen overflow-x-hidden bg-black">
+      <div className="relative mx-auto max-w-6xl px-6 py-10 md:px-12 md:py-16">
+        <div className="mb-10 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="flex h-10 w-10 items-center justify-center rounded-xl border border-white/20 bg-primary/20">
+              <BarChart3 className="h-5 w-5 text-white" />
+            </div>
+            <div>
+              <h1 className="text-2xl font-bold tracking-tight text-white">Funnel report</h1>
+              <p className="text-sm text-white/50">
+                {truncated ? `Latest ${MAX_EVENTS} stored events` : `${events.length} stored events`}
+                {since && ` · since ${since.toISOString().slice(0, 16).replace("T", " ")} UTC`}
+              </p>
+            </div>
+          </div>
+          <Link
+            href="/"
+            className="group flex items-center gap-2 text-white/50 transition-colors hover:text-white"
+          >
+            <Home className="h-4 w-4" />
+            <span className="text-sm font-medium">Home</span>
+          </Link>
+        </div>
+
+        <nav className="mb-8 flex flex-wrap gap-2" aria-label="Date range">
+          {RANGES.map((range) => {
+            const active = sinceParam === range.since;
+            return (
+              <Link
+                key={range.label}
+                href={
+                  range.since === DEFAULT_SINCE
+                    ? "/admin/funnel"
+                    : `/admin/funnel?since=${range.since}`
+                }
+                className={cn(
+                  "rounded-full border px-3 py-1 text-sm transition-colors",
+                  active
+                    ? "border-primary/50 bg-primary/20 text-white"
+                    : "border-white/10 text-white/50 hover:text-white"
+                )}
+              >
+                {range.label}
+              </Link>
+            );
+          })}
+        </nav>
+
+        <div className="space-y-8">
+          {reports.map((report) => (
+            <FunnelTable key={report.funnel} report={report} />
+          ))}
+        </div>
+
+        <p className="mt-8 text-xs text-white/40">
+          Median time runs from entering a step to completing it. Drop-off
+          counts sessions whose furthest step is that one and that never
+          finished. The same numbers are available offline with{" "}
+          <code className="font-mono">bun run scripts/funnel-report.ts</code>.
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  decodeProgressBundle,
+  MAX_ENCODED_BUNDLE_LENGTH,
+  ProgressBundleError,
+} from '@/lib/progressBundle';
+import {
+  getProgressSyncSecret,
+  signProgressPayload,
+  verifyProgressCode,
+} from '@/lib/progressSigning';
+
+const MAX_REQUEST_BODY_BYTES = MAX_ENCODED_BUNDLE_LENGTH + 200;
+
+/**
+ * Progress codes for continuing on another device
+ *
+ * POST /api/progress
+ * Body: { payload } (output of encodeProgressBundle) -> { code }
+ *   Validates the bundle and signs it. Anyone can have a bundle signed, so
+ *   the signature only shows the code is intact, not who made it.
+ * Body: { code } -> { valid }
+ *   Checks the code was signed here and not modified since. The client
+ *   decodes and validates the bundle itself once this passes.
+ */
+export async function POST(request: NextRequest) {
+  const secret = getProgressSyncSecret();
+  if (!secret) {
+    return NextResponse.json({ error: 'Progress sync not configured' }, { status: 503 });
+  }
+
+  const contentLength = Number(request.headers.get('content-length') ?? 0);
+  if (contentLength > MAX_REQUEST_BODY_BYTES) {
+    return NextResponse.json({ error: 'Payload too large' }, { status: 413 });
+  }
+
+  let body: { payload?: unknown; code?: unknown } | null;
+  try {
+    const text = await request.text();
+    if (text.length > MAX_REQUEST_BODY_BYTES) {
+      return NextResponse.json({ error: 'Payload too large' }, { status: 413 });
+    }
+    body = JSON.parse(text);
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON' }, { status: 400 });
+  }
+
+  if (typeof body?.code === 'string') {
+    return NextResponse.json({ valid: verifyProgressCode(body.code, secret) !== null });
+  }
+
+  if (typeof body?.payload !== 'string') {
+    return NextResponse.json({ error: 'Missing payload or code' }, { status: 400 });
+  }
+
+  try {
+    // Only sign what a restore would accept
+    decodeProgressBundle(body.payload);
+  } catch (error) {
+    if (error instanceof ProgressBundleError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    throw error;
+  }
+
+  return NextResponse.json({ code: signProgressPayload(body.payload, secret) });
+}
+
+// Lets the page know whether to offer sync at all
+export async function GET() {
+  return NextResponse.json({ configured: getProgressSyncSecret() !== null });
+}
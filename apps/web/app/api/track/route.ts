@@ -1,48 +1,36 @@
 import { NextRequest, NextResponse } from 'next/server';
-
-const GA_MEASUREMENT_ID_RAW = process.env.NEXT_PUBLIC_GA_MEASUREMENT_ID;
-const GA_API_SECRET_RAW = process.env.GA_API_SECRET;
-
-function sanitizeGaMeasurementId(value: unknown): string | undefined {
-  if (typeof value !== 'string') return undefined;
-
-  let cleaned = value.trim();
-  if (!cleaned) return undefined;
-
-  // Handle accidental quoting in env var values (common copy/paste mistake).
-  if (
-    (cleaned.startsWith('"') && cleaned.endsWith('"')) ||
-    (cleaned.startsWith("'") && cleaned.endsWith("'"))
-  ) {
-    cleaned = cleaned.slice(1, -1).trim();
-  }
-
-  // Remove common trailing garbage (escaped newlines, whitespace sequences)
-  // that can appear from misconfigured env vars or Vercel CLI pulls.
-  cleaned = cleaned.replace(/\\n$/, '').replace(/\s+$/, '');
-
-  // Extract valid GA4 measurement ID (G-XXXXXXXXXX).
-  // Use extraction rather than strict matching to handle edge cases.
-  const match = cleaned.match(/^(G-[A-Z0-9]+)/i);
-  if (match) return match[1];
-
-  return undefined;
-}
-
-function sanitizeGaApiSecret(value: unknown): string | undefined {
-  if (typeof value !== 'string') return undefined;
-  // Remove trailing escaped newlines from Vercel CLI pulls
-  const cleaned = value.trim().replace(/\\n$/, '');
-  if (!cleaned || cleaned.length > 200) return undefined;
-  return cleaned;
-}
-
-const GA_MEASUREMENT_ID = sanitizeGaMeasurementId(GA_MEASUREMENT_ID_RAW);
-const GA_API_SECRET = sanitizeGaApiSecret(GA_API_SECRET_RAW);
-
-// Rate limiting configuration
+import {
+  AnalyticsSinkError,
+  createAnalyticsSink,
+  type EventParams,
+  type TrackedEvent,
+} from '@/lib/analyticsSinks';
+import {
+  classifyUserAgent,
+  createRateLimitStore,
+  createSlidingWindowLimiter,
+  type RateLimiter,
+  type RateLimitResult,
+} from '@/lib/rateLimit';
+
+const sink = createAnalyticsSink();
+
+// Rate limiting configuration (RATE_LIMIT_STORE picks where counters live)
 const RATE_LIMIT_WINDOW_MS = 60_000; // 1 minute
-const RATE_LIMIT_MAX_REQUESTS = 60; // 60 requests per minute per IP
+const RATE_LIMIT_MAX_REQUESTS_PER_IP = 60;
+const RATE_LIMIT_MAX_REQUESTS_PER_CLIENT = 30; // one browser batches ~10 events per request
+
+const rateLimitStore = createRateLimitStore();
+const ipLimiter = createSlidingWindowLimiter({
+  store: rateLimitStore,
+  limit: RATE_LIMIT_MAX_REQUESTS_PER_IP,
+  windowMs: RATE_LIMIT_WINDOW_MS,
+});
+const clientLimiter = createSlidingWindowLimiter({
+  store: rateLimitStore,
+  limit: RATE_LIMIT_MAX_REQUESTS_PER_CLIENT,
+  windowMs: RATE_LIMIT_WINDOW_MS,
+});
 const MAX_EVENTS_PER_REQUEST = 10;
 const MAX_CLIENT_ID_LENGTH = 100;
 const MAX_EVENT_NAME_LENGTH = 40;
@@ -54,7 +42,6 @@ const MAX_USER_ID_LENGTH = 64;
 const MAX_USER_PROPERTIES = 10;
 const MAX_USER_PROPERTY_KEY_LENGTH = 24;
 const MAX_USER_PROPERTY_STRING_LENGTH = 120;
-const GA_FETCH_TIMEOUT_MS = 3000;
 
 class PayloadTooLargeError extends Error {
   override name = 'PayloadTooLargeError';
@@ -98,23 +85,6 @@ async function readJsonBodyWithLimit(request: NextRequest): Promise<unknown> {
   }
 }
 
-// Simple in-memory rate limiter (resets on server restart)
-const rateLimitMap = new Map<string, { count: number; resetTime: number }>();
-
-// Cleanup interval tracking - cleanup runs every ~100 requests to bound memory
-let requestsSinceCleanup = 0;
-const CLEANUP_INTERVAL = 100;
-const MAX_MAP_SIZE = 10000; // Hard limit to prevent runaway growth
-
-function cleanupExpiredEntries(): void {
-  const now = Date.now();
-  for (const [ip, record] of rateLimitMap.entries()) {
-    if (now > record.resetTime) {
-      rateLimitMap.delete(ip);
-    }
-  }
-}
-
 function isPlainObject(value: unknown): value is Record<string, unknown> {
   return typeof value === 'object' && value !== null && !Array.isArray(value);
 }
@@ -159,6 +129,11 @@ function normalizeIP(raw: string): string {
   return 'unknown';
 }
 
+// Do-Not-Track and Global Privacy Control both mean "don't track me"
+function hasPrivacySignal(request: NextRequest): boolean {
+  return request.headers.get('sec-gpc') === '1' || request.headers.get('dnt') === '1';
+}
+
 function getClientIP(request: NextRequest): string {
   const requestIP = (request as unknown as { ip?: string }).ip;
   const forwardedFor =
@@ -176,33 +151,28 @@ function getClientIP(request: NextRequest): string {
   );
 }
 
-function isRateLimited(ip: string): boolean {
-  const now = Date.now();
-
-  // Periodic cleanup to prevent unbounded memory growth
-  requestsSinceCleanup++;
-  if (requestsSinceCleanup >= CLEANUP_INTERVAL || rateLimitMap.size > MAX_MAP_SIZE) {
-    cleanupExpiredEntries();
-    requestsSinceCleanup = 0;
+// Fails open: analytics isn't worth an outage when the store is unreachable
+async function checkRateLimit(limiter: RateLimiter, key: string): Promise<RateLimitResult | null> {
+  try {
+    return await limiter.check(key);
+  } catch (error) {
+    console.error('Rate limiter error:', error);
+    return null;
   }
+}
 
-  const record = rateLimitMap.get(ip);
-
-  if (!record || now > record.resetTime) {
-    // Hard cap: don't allow unbounded growth if IP signal becomes untrusted/unique.
-    if (!record && rateLimitMap.size >= MAX_MAP_SIZE) {
-      return true;
+function rateLimitedResponse(result: RateLimitResult): NextResponse {
+  return NextResponse.json(
+    { error: 'Rate limit exceeded' },
+    {
+      status: 429,
+      headers: {
+        'Retry-After': result.retryAfterSeconds.toString(),
+        'RateLimit-Limit': result.limit.toString(),
+        'RateLimit-Remaining': result.remaining.toString(),
+      },
     }
-    rateLimitMap.set(ip, { count: 1, resetTime: now + RATE_LIMIT_WINDOW_MS });
-    return false;
-  }
-
-  if (record.count >= RATE_LIMIT_MAX_REQUESTS) {
-    return true;
-  }
-
-  record.count++;
-  return false;
+  );
 }
 
 // Validate event name: alphanumeric and underscores only, starts with letter
@@ -228,10 +198,10 @@ function isValidParamKey(key: string): boolean {
   return /^[a-zA-Z][a-zA-Z0-9_]*$/.test(key);
 }
 
-function sanitizeEventParams(params: unknown): Record<string, string | number | boolean> {
+function sanitizeEventParams(params: unknown): EventParams {
   if (!isPlainObject(params)) return {};
 
-  const sanitized: Record<string, string | number | boolean> = {};
+  const sanitized: EventParams = {};
   let count = 0;
 
   for (const [key, value] of Object.entries(params)) {
@@ -288,17 +258,17 @@ function sanitizeUserProperties(
   return count > 0 ? sanitized : undefined;
 }
 
-interface EventPayload {
-  name: string;
-  params?: Record<string, string | number | boolean>;
-}
-
 /**
- * Server-side GA4 Measurement Protocol endpoint
- * Bypasses ad blockers and provides reliable tracking
+ * Server-side event collection endpoint
+ * Bypasses ad blockers and provides reliable tracking. Events go to the sink
+ * selected by ANALYTICS_SINK (GA4 Measurement Protocol by default).
+ *
+ * Events are only accepted with analytics consent: the body must carry
+ * consent: 'granted', and requests with a DNT or Sec-GPC header are refused.
+ * Bots are refused, and requests are rate limited per IP and per client_id.
  *
  * POST /api/track
- * Body: { client_id, events: [{ name, params }], user_id?, user_properties? }
+ * Body: { client_id, consent, events: [{ name, params }], user_id?, user_properties? }
  */
 export async function POST(request: NextRequest) {
   const contentType = request.headers.get('content-type') || '';
@@ -314,19 +284,25 @@ export async function POST(request: NextRequest) {
     }
   }
 
-  // Rate limiting
-  const clientIP = getClientIP(request);
-  if (isRateLimited(clientIP)) {
+  if (hasPrivacySignal(request)) {
     return NextResponse.json(
-      { error: 'Rate limit exceeded' },
-      {
-        status: 429,
-        headers: { 'Retry-After': Math.ceil(RATE_LIMIT_WINDOW_MS / 1000).toString() },
-      }
+      { error: 'Tracking disabled by browser privacy signal' },
+      { status: 403 }
     );
   }
 
-  if (!GA_MEASUREMENT_ID || !GA_API_SECRET) {
+  // Events only come from our client-side code running in a browser
+  if (classifyUserAgent(request.headers.get('user-agent')) !== 'browser') {
+    return NextResponse.json({ error: 'Automated traffic not accepted' }, { status: 403 });
+  }
+
+  // Rate limiting, per IP before reading the body and per client_id after
+  const ipLimit = await checkRateLimit(ipLimiter, `ip:${getClientIP(request)}`);
+  if (ipLimit && !ipLimit.allowed) {
+    return rateLimitedResponse(ipLimit);
+  }
+
+  if (!sink.configured) {
     return NextResponse.json(
       { error: 'Analytics not configured' },
       { status: 503 }
@@ -339,6 +315,10 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
     }
 
+    if (rawBody.consent !== 'granted') {
+      return NextResponse.json({ error: 'Analytics consent required' }, { status: 403 });
+    }
+
     const clientId = rawBody.client_id;
     const events = rawBody.events;
     const userId = rawBody.user_id;
@@ -364,6 +344,11 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const clientLimit = await checkRateLimit(clientLimiter, `client:${clientId}`);
+    if (clientLimit && !clientLimit.allowed) {
+      return rateLimitedResponse(clientLimit);
+    }
+
     // Limit number of events per request
     if (events.length > MAX_EVENTS_PER_REQUEST) {
       return NextResponse.json(
@@ -380,7 +365,7 @@ export async function POST(request: NextRequest) {
 
     const sanitizedUserProperties = sanitizeUserProperties(userProperties);
 
-    const sanitizedEvents: EventPayload[] = [];
+    const sanitizedEvents: TrackedEvent[] = [];
 
     // Validate all event names
     for (const event of events) {
@@ -407,51 +392,13 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'No valid events' }, { status: 400 });
     }
 
-    // Build the Measurement Protocol payload
-    const payload = {
+    await sink.send({
       client_id: clientId,
-      events: sanitizedEvents.map(event => ({
-        name: event.name,
-        params: {
-          ...event.params,
-          engagement_time_msec: 100,
-          session_id: sessionId,
-        },
-      })),
+      session_id: sessionId,
+      events: sanitizedEvents,
       ...(userId && { user_id: userId }),
       ...(sanitizedUserProperties && { user_properties: sanitizedUserProperties }),
-    };
-
-    // Send to GA4 Measurement Protocol
-    const controller = new AbortController();
-    const timeout = setTimeout(() => controller.abort(), GA_FETCH_TIMEOUT_MS);
-
-    let response: Response;
-    try {
-      const endpoint = new URL('https://www.google-analytics.com/mp/collect');
-      endpoint.searchParams.set('measurement_id', GA_MEASUREMENT_ID);
-      endpoint.searchParams.set('api_secret', GA_API_SECRET);
-
-      response = await fetch(
-        endpoint.toString(),
-        {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify(payload),
-          signal: controller.signal,
-        }
-      );
-    } finally {
-      clearTimeout(timeout);
-    }
-
-    if (!response.ok) {
-      console.error('GA4 MP error:', response.status, await response.text());
-      return NextResponse.json(
-        { error: 'Failed to send to analytics' },
-        { status: 502 }
-      );
-    }
+    });
 
     return NextResponse.json({ success: true });
   } catch (error) {
@@ -462,6 +409,12 @@ export async function POST(request: NextRequest) {
     if (error instanceof SyntaxError) {
       return NextResponse.json({ error: 'Invalid JSON' }, { status: 400 });
     }
+    if (error instanceof AnalyticsSinkError) {
+      return NextResponse.json(
+        { error: 'Failed to send to analytics' },
+        { status: 502 }
+      );
+    }
 
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
   }
@@ -470,7 +423,9 @@ export async function POST(request: NextRequest) {
 // Health check endpoint
 export async function GET() {
   return NextResponse.json({
-    configured: !!(GA_MEASUREMENT_ID && GA_API_SECRET),
-    measurementId: GA_MEASUREMENT_ID ? `${GA_MEASUREMENT_ID.slice(0, 4)}...` : null,
+    configured: sink.configured,
+    sink: sink.name,
+    rateLimitStore: rateLimitStore.name,
+    ...sink.details,
   });
 }
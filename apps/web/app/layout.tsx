@@ -4,6 +4,7 @@ import { JetBrains_Mono, Instrument_Sans } from "next/font/google";
 import { QueryProvider } from "@/components/query-provider";
 import { AnalyticsProvider } from "@/components/analytics-provider";
 import { ThirdPartyScripts } from "@/components/third-party-scripts";
+import { ConsentBanner, PrivacySettingsLink } from "@/components/consent-banner";
 import { MotionProvider } from "@/components/motion/motion-provider";
 import "./globals.css";
 
@@ -86,8 +87,10 @@ export default function RootLayout({
           <QueryProvider>
             <MotionProvider>
               <AnalyticsProvider>{children}</AnalyticsProvider>
+              <PrivacySettingsLink />
             </MotionProvider>
           </QueryProvider>
+          <ConsentBanner />
         </Suspense>
       </body>
     </html>
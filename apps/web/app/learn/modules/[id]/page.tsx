@@ -0,0 +1,264 @@
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { Metadata } from "next";
+import type { ReactNode } from "react";
+import {
+  ArrowLeft,
+  ArrowUpRight,
+  CheckCircle2,
+  Download,
+  GitFork,
+  Home,
+  Layers,
+  StickyNote,
+} from "lucide-react";
+import {
+  TOOL_CATALOG,
+  WEB_TOOL_ENTRIES,
+  getModuleHref,
+  getToolCatalogEntry,
+} from "@/lib/toolCatalog";
+
+interface Props {
+  params: Promise<{ id: string }>;
+}
+
+// Every manifest module gets a page; anything else is a 404
+export const dynamicParams = false;
+
+export async function generateStaticParams() {
+  return TOOL_CATALOG.map((entry) => ({ id: entry.id }));
+}
+
+export async function generateMetadata({ params }: Props): Promise<Metadata> {
+  const { id } = await params;
+  const entry = getToolCatalogEntry(id);
+
+  if (!entry) {
+    return { title: "Module Not Found" };
+  }
+
+  return {
+    title: `${WEB_TOOL_ENTRIES[id]?.name ?? id} (${id}) | ACFS Modules`,
+    description: entry.description,
+  };
+}
+
+const RUN_AS_LABELS: Record<string, string> = {
+  target_user: "Your user (ubuntu)",
+  root: "root",
+  current: "Installer's user",
+};
+
+function Section({
+  icon,
+  title,
+  children,
+}: {
+  icon: ReactNode;
+  title: string;
+  children: ReactNode;
+}) {
+  return (
+    <section className="mt-8">
+      <div className="mb-3 flex items-center gap-2">
+        <span className="text-primary">{icon}</span>
+        <h2 className="text-sm font-semibold uppercase tracking-wider text-white/70">
+          {title}
+        </h2>
+      </div>
+      {children}
+    </section>
+  );
+}
+
+function CommandList({ commands }: { commands: string[] }) {
+  return (
+    <div className="space-y-2">
+      {commands.map((command, index) => (
+        <pre
+          key={index}
+          className="overflow-x-auto rounded-xl border border-white/[0.08] bg-black/40 p-4 font-mono text-sm text-white/90"
+        >
+          {command}
+        </pre>
+      ))}
+    </div>
+  );
+}
+
+function ModuleLinks({ ids, empty }: { ids: string[]; empty: string }) {
+  if (ids.length === 0) {
+    return <p className="text-sm text-white/40">{empty}</p>;
+  }
+  return (
+    <div className="flex flex-wrap gap-2">
+      {ids.map((id) => (
+        <Link
+          key={id}
+          href={getModuleHref(id)}
+          className="rounded-lg border border-white/[0.08] bg-white/[0.03] px-3 py-1.5 font-mono text-sm text-white/80 transition-colors hover:border-primary/40 hover:text-primary"
+        >
+          {id}
+        </Link>
+      ))}
+    </div>
+  );
+}
+
+export default async function ModulePage({ params }: Props) {
+  const { id } = await params;
+  const entry = getToolCatalogEntry(id);
+
+  if (!entry) {
+    notFound();
+  }
+
+  const name = WEB_TOOL_ENTRIES[id]?.name ?? id;
+  const facts = [
+    { label: "Phase", value: String(entry.phase) },
+    { label: "Category", value: entry.category },
+    { label: "Runs as", value: RUN_AS_LABELS[entry.run_as] ?? entry.run_as },
+    { label: "Required", value: entry.optional ? "No (failures are warnings)" : "Yes" },
+  ];
+
+  return (
+    <div className="relative min-h-screen overflow-x-hidden bg-black">
+      <div className="pointer-events-none fixed inset-0">
+        <div className="absolute inset-0 bg-[radial-gradient(ellipse_80%_50%_at_50%_-20%,_rgba(var(--primary-rgb),0.15),_transparent)]" />
+        <div className="absolute inset-0 bg-[linear-gradient(to_right,rgba(255,255,255,0.02)_1px,transparent_1px),linear-gradient(to_bottom,rgba(255,255,255,0.02)_1px,transparent_1px)] bg-[size:80px_80px]" />
+      </div>
+
+      <div className="relative mx-auto max-w-3xl px-6 py-10 md:px-12 md:py-16">
+        <div className="mb-10 flex items-center justify-between">
+          <Link
+            href="/learn/modules"
+            className="group flex items-center gap-2 text-white/50 transition-colors hover:text-white"
+          >
+            <ArrowLeft className="h-4 w-4 transition-transform group-hover:-translate-x-1" />
+            <span className="text-sm font-medium">All modules</span>
+          </Link>
+          <Link
+            href="/"
+            className="group flex items-center gap-2 text-white/50 transition-colors hover:text-white"
+          >
+            <Home className="h-4 w-4" />
+            <span className="text-sm font-medium">Home</span>
+          </Link>
+        </div>
+
+        <div className="rounded-2xl border border-white/[0.08] bg-white/[0.03] p-8 backdrop-blur-xl md:p-10">
+          <p className="mb-2 font-mono text-sm text-primary">{entry.id}</p>
+          <h1 className="mb-3 text-3xl font-bold tracking-tight text-white md:text-4xl">
+            {name}
+          </h1>
+          <p className="text-lg text-white/60">{entry.description}</p>
+
+          <dl className="mt-8 grid gap-4 sm:grid-cols-2">
+            {facts.map((fact) => (
+              <div
+                key={fact.label}
+                className="rounded-xl border border-white/[0.06] bg-white/[0.02] px-4 py-3"
+              >
+                <dt className="text-xs uppercase tracking-wider text-white/40">
+                  {fact.label}
+                </dt>
+                <dd className="mt-1 text-white/90">{fact.value}</dd>
+              </div>
+            ))}
+          </dl>
+
+          {(entry.aliases.length > 0 || entry.tags.length > 0) && (
+            <div className="mt-6 flex flex-wrap gap-2 text-sm">
+              {entry.aliases.map((alias) => (
+                <span
+                  key={`alias:${alias}`}
+                  className="rounded-full border border-primary/30 bg-primary/10 px-3 py-1 font-mono text-primary"
+                >
+                  alias {alias}
+                </span>
+              ))}
+              {entry.tags.map((tag) => (
+                <span
+                  key={`tag:${tag}`}
+                  className="rounded-full border border-white/[0.08] bg-white/[0.03] px-3 py-1 text-white/60"
+                >
+                  #{tag}
+                </span>
+              ))}
+            </div>
+          )}
+
+          {entry.docs_url && (
+            <a
+              href={entry.docs_url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="group mt-8 flex w-full items-center justify-center gap-3 rounded-xl border border-white/10 bg-white/10 px-6 py-4 font-semibold text-white transition-all duration-300 hover:border-white/20 hover:bg-white/15"
+            >
+              <span>Documentation</span>
+              <ArrowUpRight className="h-5 w-5 transition-transform group-hover:-translate-y-1 group-hover:translate-x-1" />
+            </a>
+          )}
+
+          <Section icon={<Download className="h-4 w-4" />} title="Install">
+            {entry.verified_installer && (
+              <p className="mb-3 text-sm text-white/60">
+                Runs the upstream{" "}
+                <code className="font-mono text-white/90">{entry.verified_installer}</code>{" "}
+                installer after checking it against the SHA-256 pinned in{" "}
+                <code className="font-mono text-white/90">checksums.yaml</code>.
+              </p>
+            )}
+            {entry.install.length > 0 ? (
+              <CommandList commands={entry.install} />
+            ) : (
+              !entry.verified_installer && (
+                <p className="text-sm text-white/40">No install steps.</p>
+              )
+            )}
+          </Section>
+
+          <Section icon={<CheckCircle2 className="h-4 w-4" />} title="Verify">
+            {entry.verify.length > 0 ? (
+              <CommandList commands={entry.verify} />
+            ) : (
+              <p className="text-sm text-white/40">No verify commands.</p>
+            )}
+          </Section>
+
+          <Section icon={<GitFork className="h-4 w-4" />} title="Depends on">
+            <ModuleLinks ids={entry.dependencies} empty="Nothing; this module can install first." />
+          </Section>
+
+          <Section icon={<Layers className="h-4 w-4" />} title="Needed by">
+            <ModuleLinks ids={entry.dependents} empty="No other module depends on this one." />
+            <Link
+              href="/learn/modules/graph"
+              className="mt-4 inline-flex items-center gap-1 text-sm font-medium text-primary hover:underline"
+            >
+              Explore the dependency graph
+              <ArrowUpRight className="h-3.5 w-3.5" />
+            </Link>
+          </Section>
+
+          {entry.notes.length > 0 && (
+            <Section icon={<StickyNote className="h-4 w-4" />} title="Notes">
+              <ul className="list-disc space-y-1 pl-5 text-sm text-white/60">
+                {entry.notes.map((note) => (
+                  <li key={note}>{note}</li>
+                ))}
+              </ul>
+            </Section>
+          )}
+        </div>
+
+        <p className="mt-8 text-center text-sm text-white/40">
+          Generated from{" "}
+          <code className="font-mono">acfs.manifest.yaml</code>, the same file
+          the installer runs from.
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+import { Metadata } from "next";
+import Link from "next/link";
+import { ArrowLeft, GitFork, Home } from "lucide-react";
+import { DependencyGraph } from "@/components/dependency-graph";
+
+export const metadata: Metadata = {
+  title: "Dependency Graph | ACFS Learning Hub",
+  description:
+    "Explore how ACFS modules depend on each other: what each one needs installed first and what has to be skipped along with it.",
+};
+
+export default function ModuleGraphPage() {
+  return (
+    <div className="relative min-h-screen overflow-x-hidden bg-black">
+      <div className="pointer-events-none fixed inset-0">
+        <div className="absolute inset-0 bg-[radial-gradient(ellipse_80%_50%_at_50%_-20%,_rgba(var(--primary-rgb),0.15),_transparent)]" />
+        <div className="absolute inset-0 bg-[linear-gradient(to_right,rgba(255,255,255,0.02)_1px,transparent_1px),linear-gradient(to_bottom,rgba(255,255,255,0.02)_1px,transparent_1px)] bg-[size:80px_80px]" />
+      </div>
+
+      <div className="relative mx-auto max-w-7xl px-6 py-10 md:px-12 md:py-16">
+        <div className="mb-10 flex items-center justify-between">
+          <Link
+            href="/learn/modules"
+            className="group flex items-center gap-2 text-white/50 transition-colors hover:text-white"
+          >
+            <ArrowLeft className="h-4 w-4 transition-transform group-hover:-translate-x-1" />
+            <span className="text-sm font-medium">All modules</span>
+          </Link>
+          <Link
+            href="/"
+            className="group flex items-center gap-2 text-white/50 transition-colors hover:text-white"
+          >
+            <Home className="h-4 w-4" />
+            <span className="text-sm font-medium">Home</span>
+          </Link>
+        </div>
+
+        <div className="mb-10 text-center">
+          <div className="mb-5 inline-flex h-14 w-14 items-center justify-center rounded-2xl border border-white/20 bg-gradient-to-br from-primary/30 to-violet-500/30">
+            <GitFork className="h-7 w-7 text-white" />
+          </div>
+          <h1 className="mb-3 text-4xl font-bold tracking-tight text-white">
+            Dependency Graph
+          </h1>
+          <p className="mx-auto max-w-2xl text-white/50">
+            How the installer&apos;s modules depend on each other. Pick a
+            module to see everything it pulls in and everything that would be
+            skipped without it.
+          </p>
+        </div>
+
+        <DependencyGraph />
+      </div>
+    </div>
+  );
+}
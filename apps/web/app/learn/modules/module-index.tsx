@@ -0,0 +1,137 @@
+"use client";
+
+import Link from "next/link";
+import { useMemo, useState } from "react";
+import { ArrowLeft, ChevronRight, GitFork, Home, Package, Search } from "lucide-react";
+import {
+  TOOL_CATALOG,
+  WEB_TOOL_ENTRIES,
+  getModuleHref,
+  type ToolCatalogEntry,
+} from "@/lib/toolCatalog";
+
+function matches(entry: ToolCatalogEntry, query: string): boolean {
+  const haystack = [
+    entry.id,
+    entry.description,
+    WEB_TOOL_ENTRIES[entry.id]?.name ?? "",
+    entry.verified_installer ?? "",
+    ...entry.aliases,
+    ...entry.tags,
+    // Install and verify steps name the binaries, so "rg" finds cli.modern
+    ...entry.install,
+    ...entry.verify,
+  ]
+    .join(" ")
+    .toLowerCase();
+  return haystack.includes(query);
+}
+
+export function ModuleIndex() {
+  const [query, setQuery] = useState("");
+
+  const phases = useMemo(() => {
+    const normalizedQuery = query.trim().toLowerCase();
+    const byPhase = new Map<number, ToolCatalogEntry[]>();
+    for (const entry of TOOL_CATALOG) {
+      if (normalizedQuery && !matches(entry, normalizedQuery)) continue;
+      byPhase.set(entry.phase, [...(byPhase.get(entry.phase) ?? []), entry]);
+    }
+    return [...byPhase.entries()].sort(([a], [b]) => a - b);
+  }, [query]);
+
+  return (
+    <div className="relative min-h-screen overflow-x-hidden bg-black">
+      <div className="pointer-events-none fixed inset-0">
+        <div className="absolute inset-0 bg-[radial-gradient(ellipse_80%_50%_at_50%_-20%,_rgba(var(--primary-rgb),0.15),_transparent)]" />
+        <div className="absolute inset-0 bg-[linear-gradient(to_right,rgba(255,255,255,0.02)_1px,transparent_1px),linear-gradient(to_bottom,rgba(255,255,255,0.02)_1px,transparent_1px)] bg-[size:80px_80px]" />
+      </div>
+
+      <div className="relative mx-auto max-w-4xl px-6 py-10 md:px-12 md:py-16">
+        <div className="mb-10 flex items-center justify-between">
+          <Link
+            href="/learn"
+            className="group flex items-center gap-2 text-white/50 transition-colors hover:text-white"
+          >
+            <ArrowLeft className="h-4 w-4 transition-transform group-hover:-translate-x-1" />
+            <span className="text-sm font-medium">Learning Hub</span>
+          </Link>
+          <Link
+            href="/"
+            className="group flex items-center gap-2 text-white/50 transition-colors hover:text-white"
+          >
+            <Home className="h-4 w-4" />
+            <span className="text-sm font-medium">Home</span>
+          </Link>
+        </div>
+
+        <div className="mb-10 text-center">
+          <div className="mb-5 inline-flex h-14 w-14 items-center justify-center rounded-2xl border border-white/20 bg-gradient-to-br from-primary/30 to-violet-500/30">
+            <Package className="h-7 w-7 text-white" />
+          </div>
+          <h1 className="mb-3 text-4xl font-bold tracking-tight text-white">
+            Installed Modules
+          </h1>
+          <p className="mx-auto max-w-2xl text-white/50">
+            Everything the installer sets up, in the order it runs. Search for
+            a command to find out which module installed it.
+          </p>
+          <Link
+            href="/learn/modules/graph"
+            className="mt-4 inline-flex items-center gap-2 text-sm font-medium text-primary hover:underline"
+          >
+            <GitFork className="h-4 w-4" />
+            Explore the dependency graph
+          </Link>
+        </div>
+
+        <div className="relative mb-10">
+          <Search className="absolute left-5 top-1/2 h-5 w-5 -translate-y-1/2 text-white/30" />
+          <input
+            type="text"
+            placeholder="Search modules or commands (e.g. rg, tmux, claude)..."
+            value={query}
+            onChange={(event) => setQuery(event.target.value)}
+            className="w-full rounded-xl border border-white/[0.08] bg-white/[0.03] py-4 pl-14 pr-5 text-white placeholder:text-white/30 focus:border-primary/50 focus:outline-none"
+          />
+        </div>
+
+        {phases.length === 0 ? (
+          <p className="py-16 text-center text-white/40">
+            No module matches &ldquo;{query}&rdquo;.
+          </p>
+        ) : (
+          <div className="space-y-10">
+            {phases.map(([phase, entries]) => (
+              <section key={phase}>
+                <h2 className="mb-4 text-sm font-semibold uppercase tracking-wider text-white/50">
+                  Phase {phase}
+                </h2>
+                <div className="grid gap-3 sm:grid-cols-2">
+                  {entries.map((entry) => (
+                    <Link
+                      key={entry.id}
+                      href={getModuleHref(entry.id)}
+                      className="group flex items-center gap-4 rounded-xl border border-white/[0.06] bg-white/[0.02] p-4 transition-all duration-300 hover:border-white/[0.12] hover:bg-white/[0.04]"
+                    >
+                      <div className="min-w-0 flex-1">
+                        <div className="font-medium text-white transition-colors group-hover:text-primary">
+                          {WEB_TOOL_ENTRIES[entry.id]?.name ?? entry.id}
+                        </div>
+                        <div className="font-mono text-xs text-white/40">{entry.id}</div>
+                        <div className="mt-1 truncate text-sm text-white/50">
+                          {entry.description}
+                        </div>
+                      </div>
+                      <ChevronRight className="h-4 w-4 shrink-0 text-white/30 transition-transform group-hover:translate-x-0.5" />
+                    </Link>
+                  ))}
+                </div>
+              </section>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
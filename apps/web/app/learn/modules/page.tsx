@@ -0,0 +1,12 @@
+import { Metadata } from "next";
+import { ModuleIndex } from "./module-index";
+
+export const metadata: Metadata = {
+  title: "Installed Modules | ACFS Learning Hub",
+  description:
+    "Every module the ACFS installer sets up: what it installs, how it is verified and what depends on it.",
+};
+
+export default function ModulesPage() {
+  return <ModuleIndex />;
+}
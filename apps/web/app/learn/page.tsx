@@ -13,6 +13,7 @@ import {
   Home,
   List,
   Lock,
+  Package,
   Play,
   Terminal,
   Sparkles,
@@ -501,6 +502,13 @@ export default function LearnDashboard() {
                   desc: "Definitions for all jargon terms",
                   gradient: "from-amber-500/10 to-amber-500/5",
                 },
+                {
+                  href: "/learn/modules",
+                  icon: Package,
+                  title: "Installed Modules",
+                  desc: "What installed each tool, and how",
+                  gradient: "from-cyan-500/10 to-cyan-500/5",
+                },
               ].map((item, index) => (
                 <motion.div
                   key={item.href}
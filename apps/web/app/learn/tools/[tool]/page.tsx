@@ -20,6 +20,7 @@ import {
   Wrench,
 } from "lucide-react";
 import { motion } from "@/components/motion";
+import { getToolDocsUrl } from "@/lib/toolCatalog";
 
 type ToolId =
   | "claude-code"
@@ -58,7 +59,7 @@ const TOOLS: Record<ToolId, ToolCard> = {
     icon: <Bot className="h-8 w-8" />,
     gradient: "from-orange-500/20 via-amber-500/20 to-orange-500/20",
     glowColor: "rgba(251,146,60,0.4)",
-    docsUrl: "https://docs.anthropic.com/en/docs/claude-code",
+    docsUrl: getToolDocsUrl("agents.claude"),
     docsLabel: "Anthropic Docs",
     quickCommand: "cc",
     relatedTools: ["codex-cli", "gemini-cli", "ntm"],
@@ -70,7 +71,7 @@ const TOOLS: Record<ToolId, ToolCard> = {
     icon: <GraduationCap className="h-8 w-8" />,
     gradient: "from-emerald-500/20 via-teal-500/20 to-emerald-500/20",
     glowColor: "rgba(52,211,153,0.4)",
-    docsUrl: "https://github.com/openai/codex",
+    docsUrl: getToolDocsUrl("agents.codex"),
     docsLabel: "GitHub",
     quickCommand: "cod",
     relatedTools: ["claude-code", "gemini-cli", "ntm"],
@@ -82,7 +83,7 @@ const TOOLS: Record<ToolId, ToolCard> = {
     icon: <Search className="h-8 w-8" />,
     gradient: "from-blue-500/20 via-indigo-500/20 to-blue-500/20",
     glowColor: "rgba(99,102,241,0.4)",
-    docsUrl: "https://github.com/google-gemini/gemini-cli",
+    docsUrl: getToolDocsUrl("agents.gemini"),
     docsLabel: "GitHub",
     quickCommand: "gmi",
     relatedTools: ["claude-code", "codex-cli", "ntm"],
@@ -94,7 +95,7 @@ const TOOLS: Record<ToolId, ToolCard> = {
     icon: <LayoutGrid className="h-8 w-8" />,
     gradient: "from-sky-500/20 via-blue-500/20 to-sky-500/20",
     glowColor: "rgba(56,189,248,0.4)",
-    docsUrl: "https://github.com/Dicklesworthstone/named_tmux_manager",
+    docsUrl: getToolDocsUrl("stack.ntm"),
     docsLabel: "GitHub",
     quickCommand: "ntm spawn myproject --cc=2",
     relatedTools: ["claude-code", "codex-cli", "agent-mail"],
@@ -106,7 +107,7 @@ const TOOLS: Record<ToolId, ToolCard> = {
     icon: <GitBranch className="h-8 w-8" />,
     gradient: "from-emerald-500/20 via-teal-500/20 to-emerald-500/20",
     glowColor: "rgba(52,211,153,0.4)",
-    docsUrl: "https://github.com/Dicklesworthstone/beads_viewer",
+    docsUrl: getToolDocsUrl("stack.beads_viewer"),
     docsLabel: "GitHub",
     quickCommand: "bd ready",
     relatedTools: ["agent-mail", "ubs"],
@@ -118,7 +119,7 @@ const TOOLS: Record<ToolId, ToolCard> = {
     icon: <KeyRound className="h-8 w-8" />,
     gradient: "from-violet-500/20 via-purple-500/20 to-violet-500/20",
     glowColor: "rgba(139,92,246,0.4)",
-    docsUrl: "https://github.com/Dicklesworthstone/mcp_agent_mail",
+    docsUrl: getToolDocsUrl("stack.mcp_agent_mail"),
     docsLabel: "GitHub",
     relatedTools: ["ntm", "beads", "cass"],
   },
@@ -129,7 +130,7 @@ const TOOLS: Record<ToolId, ToolCard> = {
     icon: <ShieldCheck className="h-8 w-8" />,
     gradient: "from-rose-500/20 via-red-500/20 to-rose-500/20",
     glowColor: "rgba(244,63,94,0.4)",
-    docsUrl: "https://github.com/Dicklesworthstone/ultimate_bug_scanner",
+    docsUrl: getToolDocsUrl("stack.ultimate_bug_scanner"),
     docsLabel: "GitHub",
     quickCommand: "ubs .",
     relatedTools: ["beads", "slb"],
@@ -141,7 +142,7 @@ const TOOLS: Record<ToolId, ToolCard> = {
     icon: <Search className="h-8 w-8" />,
     gradient: "from-cyan-500/20 via-sky-500/20 to-cyan-500/20",
     glowColor: "rgba(34,211,238,0.4)",
-    docsUrl: "https://github.com/Dicklesworthstone/coding_agent_session_search",
+    docsUrl: getToolDocsUrl("stack.cass"),
     docsLabel: "GitHub",
     quickCommand: "cass search 'auth error' --robot",
     relatedTools: ["cm", "agent-mail"],
@@ -153,7 +154,7 @@ const TOOLS: Record<ToolId, ToolCard> = {
     icon: <Wrench className="h-8 w-8" />,
     gradient: "from-fuchsia-500/20 via-pink-500/20 to-fuchsia-500/20",
     glowColor: "rgba(217,70,239,0.4)",
-    docsUrl: "https://github.com/Dicklesworthstone/cass_memory_system",
+    docsUrl: getToolDocsUrl("stack.cm"),
     docsLabel: "GitHub",
     quickCommand: "cm context 'my task' --json",
     relatedTools: ["cass", "beads"],
@@ -165,7 +166,7 @@ const TOOLS: Record<ToolId, ToolCard> = {
     icon: <Wrench className="h-8 w-8" />,
     gradient: "from-amber-500/20 via-orange-500/20 to-amber-500/20",
     glowColor: "rgba(251,146,60,0.4)",
-    docsUrl: "https://github.com/Dicklesworthstone/coding_agent_account_manager",
+    docsUrl: getToolDocsUrl("stack.caam"),
     docsLabel: "GitHub",
     relatedTools: ["claude-code", "codex-cli", "gemini-cli"],
   },
@@ -176,7 +177,7 @@ const TOOLS: Record<ToolId, ToolCard> = {
     icon: <ShieldCheck className="h-8 w-8" />,
     gradient: "from-yellow-500/20 via-orange-500/20 to-yellow-500/20",
     glowColor: "rgba(251,191,36,0.4)",
-    docsUrl: "https://github.com/Dicklesworthstone/simultaneous_launch_button",
+    docsUrl: getToolDocsUrl("stack.slb"),
     docsLabel: "GitHub",
     relatedTools: ["ubs", "beads"],
   },
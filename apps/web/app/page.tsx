@@ -1115,6 +1115,12 @@ export default function HomePage() {
                 >
                   Agent Mail
                 </a>
+                <Link
+                  href="/sync"
+                  className="transition-colors hover:text-foreground"
+                >
+                  Sync progress
+                </Link>
               </div>
 
               <p className="text-xs text-muted-foreground">
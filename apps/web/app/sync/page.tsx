@@ -0,0 +1,42 @@
+import { Metadata } from "next";
+import Link from "next/link";
+import { Home, RefreshCw } from "lucide-react";
+import { ProgressSync } from "@/components/progress-sync";
+
+export const metadata: Metadata = {
+  title: "Sync Progress | Agent Flywheel",
+  description:
+    "Move your wizard and Learning Hub progress to another device with a progress link.",
+  robots: { index: false, follow: false },
+};
+
+export default function SyncPage() {
+  return (
+    <div className="relative min-h-screen overflow-x-hidden bg-background">
+      <div className="pointer-events-none fixed inset-0 bg-gradient-cosmic opacity-50" />
+      <div className="pointer-events-none fixed inset-0 bg-grid-pattern opacity-20" />
+
+      <div className="relative mx-auto max-w-2xl px-6 py-10 md:py-16">
+        <div className="mb-10 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="flex h-10 w-10 items-center justify-center rounded-xl bg-primary/20">
+              <RefreshCw className="h-5 w-5 text-primary" />
+            </div>
+            <h1 className="text-2xl font-bold tracking-tight text-foreground">
+              Sync your progress
+            </h1>
+          </div>
+          <Link
+            href="/"
+            className="flex items-center gap-2 text-sm text-muted-foreground transition-colors hover:text-foreground"
+          >
+            <Home className="h-4 w-4" />
+            Home
+          </Link>
+        </div>
+
+        <ProgressSync />
+      </div>
+    </div>
+  );
+}
@@ -3,7 +3,7 @@
 import Link from "next/link";
 import { usePathname, useRouter } from "next/navigation";
 import { useCallback, useMemo } from "react";
-import { Terminal, Home, ChevronLeft, ChevronRight } from "lucide-react";
+import { Terminal, Home, ChevronLeft, ChevronRight, Smartphone } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Stepper, StepperMobile } from "@/components/stepper";
 import { WIZARD_STEPS, getStepBySlug } from "@/lib/wizardSteps";
@@ -124,7 +124,18 @@ export default function WizardLayout({
             </div>
 
             {/* Sidebar footer */}
-            <div className="border-t border-border/50 p-4">
+            <div className="space-y-1 border-t border-border/50 p-4">
+              <Button
+                asChild
+                variant="ghost"
+                size="sm"
+                className="w-full justify-start text-muted-foreground hover:text-foreground"
+              >
+                <Link href="/sync">
+                  <Smartphone className="mr-2 h-4 w-4" />
+                  Continue on another device
+                </Link>
+              </Button>
               <Button
                 asChild
                 variant="ghost"
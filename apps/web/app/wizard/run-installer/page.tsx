@@ -1,6 +1,6 @@
 "use client";
 
-import { useCallback, useState } from "react";
+import { useCallback, useMemo, useState } from "react";
 import { useRouter } from "next/navigation";
 import {
   Sparkles,
@@ -14,9 +14,13 @@ import {
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { CommandCard } from "@/components/command-card";
+import { InstallCommandBuilder } from "@/components/install-command-builder";
 import { AlertCard, OutputPreview, DetailsSection } from "@/components/alert-card";
 import { TrackedLink } from "@/components/tracked-link";
 import { markStepComplete } from "@/lib/wizardSteps";
+import { getInstallGroups } from "@/lib/toolCatalog";
+import { buildInstallCommand, validateInstallerOptions } from "@/lib/installCommand";
+import { useInstallerOptions } from "@/lib/userPreferences";
 import { useWizardAnalytics } from "@/lib/hooks/useWizardAnalytics";
 import { withCurrentSearch } from "@/lib/utils";
 import {
@@ -29,38 +33,20 @@ import {
 } from "@/components/simpler-guide";
 import { Jargon } from "@/components/jargon";
 
-const INSTALL_COMMAND = `curl -fsSL "https://raw.githubusercontent.com/Dicklesworthstone/agentic_coding_flywheel_setup/main/install.sh?$(date +%s)" | bash -s -- --yes --mode vibe`;
-
-const WHAT_IT_INSTALLS = [
-  {
-    category: "Shell & Terminal UX",
-    items: ["zsh + oh-my-zsh + powerlevel10k", "atuin (shell history)", "fzf", "zoxide", "lsd"],
-  },
-  {
-    category: "Languages & Package Managers",
-    items: ["bun (JavaScript/TypeScript)", "uv (Python)", "rust/cargo", "go"],
-  },
-  {
-    category: "Dev Tools",
-    items: ["tmux", "ripgrep", "ast-grep", "lazygit", "bat"],
-  },
-  {
-    category: "Coding Agents",
-    items: ["Claude Code", "Codex CLI", "Gemini CLI"],
-  },
-  {
-    category: "Cloud & Database",
-    items: ["PostgreSQL 18", "Vault", "Wrangler", "Supabase CLI", "Vercel CLI"],
-  },
-  {
-    category: "Dicklesworthstone Stack",
-    items: ["ntm", "mcp_agent_mail", "beads_viewer", "and 5 more tools"],
-  },
-];
+const WHAT_IT_INSTALLS = getInstallGroups();
 
 export default function RunInstallerPage() {
   const router = useRouter();
   const [isNavigating, setIsNavigating] = useState(false);
+  const [installerOptions, setInstallerOptions] = useInstallerOptions();
+  const installCommand = useMemo(
+    () => buildInstallCommand(installerOptions),
+    [installerOptions]
+  );
+  const selectionErrors = useMemo(
+    () => validateInstallerOptions(installerOptions),
+    [installerOptions]
+  );
 
   // Analytics tracking for this wizard step
   const { markComplete } = useWizardAnalytics({
@@ -134,8 +120,17 @@ export default function RunInstallerPage() {
         <h2 className="text-xl font-semibold">
           Paste this command in your SSH session
         </h2>
+        {selectionErrors.length > 0 && (
+          <AlertCard variant="warning" title="Fix your custom selection first">
+            <ul className="list-disc list-inside space-y-1 text-sm">
+              {selectionErrors.map((error) => (
+                <li key={error}>{error}</li>
+              ))}
+            </ul>
+          </AlertCard>
+        )}
         <CommandCard
-          command={INSTALL_COMMAND}
+          command={installCommand}
           description="Agent Flywheel installer one-liner"
           runLocation="vps"
           showCheckbox
@@ -144,6 +139,14 @@ export default function RunInstallerPage() {
         />
       </div>
 
+      {/* Custom install */}
+      <DetailsSection summary="Customize the install (mode, user, modules)">
+        <InstallCommandBuilder
+          options={installerOptions}
+          onChange={setInstallerOptions}
+        />
+      </DetailsSection>
+
       {/* Connection drop reassurance */}
       <AlertCard variant="info" icon={Wifi} title="What if my connection drops?">
         <div className="space-y-2">
@@ -238,6 +241,12 @@ export default function RunInstallerPage() {
                 Tells the installer to use &quot;vibe&quot; mode — installs all the recommended tools for the agentic coding workflow.
               </p>
             </div>
+            <div>
+              <code className="text-[oklch(0.75_0.18_195)]">--only / --skip &lt;module&gt;</code>
+              <p className="mt-1 font-sans text-muted-foreground">
+                Only appear if you customize the install. The installer adds whatever the chosen modules depend on.
+              </p>
+            </div>
           </div>
           <AlertCard variant="info" title="Is curl | bash safe?">
             <p className="text-sm">
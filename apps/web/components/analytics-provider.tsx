@@ -4,7 +4,10 @@ import { useEffect, useCallback, useRef, type ReactNode, Suspense } from 'react'
 import { usePathname, useSearchParams } from 'next/navigation';
 import Script from 'next/script';
 import {
+  ANALYTICS_TRANSPORT,
   GA_MEASUREMENT_ID,
+  flushAnalyticsQueue,
+  isAnalyticsConfigured,
   trackSessionStart,
   trackPagePerformance,
   trackScrollDepth,
@@ -14,6 +17,7 @@ import {
   sendEvent,
 } from '@/lib/analytics';
 import { safeGetItem, safeSetItem } from '@/lib/utils';
+import { useConsent } from '@/lib/consent';
 
 interface AnalyticsProviderProps {
   children: ReactNode;
@@ -26,32 +30,35 @@ interface AnalyticsProviderProps {
 function AnalyticsTracker() {
   const pathname = usePathname();
   const searchParams = useSearchParams();
-  const gaId = GA_MEASUREMENT_ID?.trim();
+  const gaId = ANALYTICS_TRANSPORT === 'ga4' ? GA_MEASUREMENT_ID?.trim() : undefined;
   const scrollDepthsReached = useRef<Set<number>>(new Set());
   const pageStartTime = useRef<number>(0);
   const timeIntervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
   const hasInitializedGa = useRef<boolean>(false);
 
-  // Initialize GA stub early (no inline script injection)
+  // Initialize GA stub early (no inline script injection), then send anything
+  // tracked before consent was granted
   useEffect(() => {
-    if (!gaId) return;
+    if (gaId) {
+      window.dataLayer = window.dataLayer || [];
+      if (!window.gtag) {
+        window.gtag = ((...args: unknown[]) => {
+          window.dataLayer.push(args);
+        }) as unknown as Window['gtag'];
+      }
 
-    window.dataLayer = window.dataLayer || [];
-    if (!window.gtag) {
-      window.gtag = ((...args: unknown[]) => {
-        window.dataLayer.push(args);
-      }) as unknown as Window['gtag'];
+      if (!hasInitializedGa.current) {
+        window.gtag('js', new Date());
+        hasInitializedGa.current = true;
+      }
     }
 
-    if (!hasInitializedGa.current) {
-      window.gtag('js', new Date());
-      hasInitializedGa.current = true;
-    }
+    flushAnalyticsQueue();
   }, [gaId]);
 
   // Track page views on route change
   useEffect(() => {
-    if (!gaId) return;
+    if (!isAnalyticsConfigured) return;
 
     const url = pathname + (searchParams?.toString() ? `?${searchParams.toString()}` : '');
 
@@ -60,21 +67,25 @@ function AnalyticsTracker() {
     pageStartTime.current = Date.now();
 
     // Track pageview
-    window.gtag?.('config', gaId, {
-      page_path: url,
-      page_title: document.title,
-      cookie_flags: 'SameSite=None;Secure',
-      send_page_view: true,
-      allow_google_signals: true,
-      allow_ad_personalization_signals: false,
-      custom_map: {
-        dimension1: 'user_type',
-        dimension2: 'wizard_step',
-        dimension3: 'selected_os',
-        dimension4: 'vps_provider',
-        dimension5: 'terminal_app',
-      },
-    });
+    if (gaId) {
+      window.gtag?.('config', gaId, {
+        page_path: url,
+        page_title: document.title,
+        cookie_flags: 'SameSite=None;Secure',
+        send_page_view: true,
+        allow_google_signals: true,
+        allow_ad_personalization_signals: false,
+        custom_map: {
+          dimension1: 'user_type',
+          dimension2: 'wizard_step',
+          dimension3: 'selected_os',
+          dimension4: 'vps_provider',
+          dimension5: 'terminal_app',
+        },
+      });
+    } else {
+      sendEvent('page_view', { page_path: url, page_title: document.title });
+    }
 
     // Track page performance after load
     if (document.readyState === 'complete') {
@@ -90,7 +101,7 @@ function AnalyticsTracker() {
 
   // Initialize session tracking on mount
   useEffect(() => {
-    if (!gaId) return;
+    if (!isAnalyticsConfigured) return;
 
     // Get or create user ID
     const userId = getOrCreateUserId();
@@ -117,11 +128,11 @@ function AnalyticsTracker() {
       visit_count: visitCount,
       is_returning_user: visitCount > 1,
     });
-  }, [gaId]);
+  }, []);
 
   // Scroll depth tracking
   const handleScroll = useCallback(() => {
-    if (!gaId) return;
+    if (!isAnalyticsConfigured) return;
 
     const scrollTop = window.scrollY;
     const docHeight = document.documentElement.scrollHeight - window.innerHeight;
@@ -135,19 +146,19 @@ function AnalyticsTracker() {
         trackScrollDepth(milestone, pathname);
       }
     }
-  }, [pathname, gaId]);
+  }, [pathname]);
 
   // Set up scroll tracking
   useEffect(() => {
-    if (!gaId) return;
+    if (!isAnalyticsConfigured) return;
 
     window.addEventListener('scroll', handleScroll, { passive: true });
     return () => window.removeEventListener('scroll', handleScroll);
-  }, [handleScroll, gaId]);
+  }, [handleScroll]);
 
   // Time on page tracking
   useEffect(() => {
-    if (!gaId) return;
+    if (!isAnalyticsConfigured) return;
 
     const timeCheckpoints = [30, 60, 120, 300, 600]; // seconds
     let lastCheckpoint = 0;
@@ -168,11 +179,11 @@ function AnalyticsTracker() {
         clearInterval(timeIntervalRef.current);
       }
     };
-  }, [pathname, gaId]);
+  }, [pathname]);
 
   // Track visibility changes (tab switching)
   useEffect(() => {
-    if (!gaId) return;
+    if (!isAnalyticsConfigured) return;
 
     const handleVisibilityChange = () => {
       if (document.hidden) {
@@ -190,11 +201,11 @@ function AnalyticsTracker() {
 
     document.addEventListener('visibilitychange', handleVisibilityChange);
     return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
-  }, [pathname, gaId]);
+  }, [pathname]);
 
   // Track page exit
   useEffect(() => {
-    if (!gaId) return;
+    if (!isAnalyticsConfigured) return;
 
     const handleBeforeUnload = () => {
       const timeSpent = Math.floor((Date.now() - pageStartTime.current) / 1000);
@@ -211,34 +222,38 @@ function AnalyticsTracker() {
 
     window.addEventListener('beforeunload', handleBeforeUnload);
     return () => window.removeEventListener('beforeunload', handleBeforeUnload);
-  }, [pathname, gaId]);
+  }, [pathname]);
 
   return null; // This component only tracks, doesn't render anything
 }
 
 /**
  * Analytics Provider Component
- * Handles GA4 initialization, pageview tracking, and engagement metrics
+ * Handles GA4 initialization (ga4 transport), pageview tracking, and engagement metrics.
+ * Nothing loads or tracks until the visitor grants analytics consent.
  *
  * IMPORTANT: useSearchParams is isolated in AnalyticsTracker with its own Suspense
  * to prevent SSR bailout for the entire app tree.
  */
 export function AnalyticsProvider({ children }: AnalyticsProviderProps) {
-  const gaId = GA_MEASUREMENT_ID?.trim();
+  const gaId = ANALYTICS_TRANSPORT === 'ga4' ? GA_MEASUREMENT_ID?.trim() : undefined;
+  const { analytics } = useConsent();
 
-  if (!gaId) {
+  if (!isAnalyticsConfigured || analytics !== 'granted') {
     return <>{children}</>;
   }
 
-  const gaExternalScriptProps = {
-    src: `https://www.googletagmanager.com/gtag/js?id=${encodeURIComponent(gaId)}`,
-    strategy: 'afterInteractive' as const,
-  };
+  const gaExternalScriptProps = gaId
+    ? {
+        src: `https://www.googletagmanager.com/gtag/js?id=${encodeURIComponent(gaId)}`,
+        strategy: 'afterInteractive' as const,
+      }
+    : null;
 
   return (
     <>
-      {/* Google Analytics Script */}
-      <Script {...gaExternalScriptProps} />
+      {/* Google Analytics Script (ga4 transport only) */}
+      {gaExternalScriptProps && <Script {...gaExternalScriptProps} />}
       {/* Analytics tracker wrapped in Suspense to prevent SSR bailout */}
       <Suspense fallback={null}>
         <AnalyticsTracker />
@@ -6,7 +6,12 @@ import { Check, Copy, Terminal, CheckCircle2, Server, Monitor } from "lucide-rea
 import { motion, AnimatePresence } from "@/components/motion";
 import { Button } from "@/components/ui/button";
 import { Checkbox } from "@/components/ui/checkbox";
-import { cn, safeGetItem, safeSetItem } from "@/lib/utils";
+import { cn } from "@/lib/utils";
+import {
+  getCompletionFromStorage,
+  getCompletionKey,
+  setCompletionInStorage,
+} from "@/lib/commandCompletion";
 import { useDetectedOS, useUserOS } from "@/lib/userPreferences";
 import { useReducedMotion } from "@/lib/hooks/useReducedMotion";
 import { springs } from "@/components/motion";
@@ -36,26 +41,11 @@ type OS = "mac" | "windows" | "linux";
 
 type CheckedState = boolean | "indeterminate";
 
-const COMPLETION_KEY_PREFIX = "acfs-command-";
-
 // Query keys for TanStack Query
 export const commandCompletionKeys = {
   completion: (key: string) => ["commandCompletion", key] as const,
 };
 
-function getCompletionKey(persistKey: string | undefined): string | null {
-  return persistKey ? `${COMPLETION_KEY_PREFIX}${persistKey}` : null;
-}
-
-function getCompletionFromStorage(key: string | null): boolean {
-  if (!key) return false;
-  return safeGetItem(key) === "true";
-}
-
-function setCompletionInStorage(key: string, completed: boolean): void {
-  safeSetItem(key, completed ? "true" : "false");
-}
-
 /**
  * Badge showing whether a command runs on VPS or locally
  */
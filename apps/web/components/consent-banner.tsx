@@ -0,0 +1,160 @@
+"use client";
+
+import { useState } from "react";
+import { ShieldCheck } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { isAnalyticsConfigured } from "@/lib/analytics";
+import {
+  closeConsentPreferences,
+  openConsentPreferences,
+  setConsent,
+  useConsent,
+  type ConsentCategory,
+} from "@/lib/consent";
+import { HAS_THIRD_PARTY_SCRIPTS } from "@/components/third-party-scripts";
+
+const CATEGORIES: Array<{ id: ConsentCategory; title: string; description: string }> = [
+  {
+    id: "essential",
+    title: "Essential",
+    description:
+      "Remembers your wizard progress, OS and VPS IP in this browser. Never leaves your device.",
+  },
+  {
+    id: "analytics",
+    title: "Analytics",
+    description:
+      "Anonymous usage events (which steps people finish, where they get stuck) so we can improve the guide.",
+  },
+];
+
+const HAS_TRACKING = isAnalyticsConfigured || HAS_THIRD_PARTY_SCRIPTS;
+
+/**
+ * Consent banner with per-category choices. Shown until the visitor decides,
+ * and again when reopened via openConsentPreferences(). Browsers sending
+ * Do-Not-Track or Global Privacy Control are never asked: analytics stays off.
+ */
+export function ConsentBanner() {
+  const { consent, privacySignal, preferencesOpen } = useConsent();
+  const [showDetails, setShowDetails] = useState(false);
+  const [analyticsChoice, setAnalyticsChoice] = useState<boolean | null>(null);
+
+  const visible = HAS_TRACKING && (preferencesOpen || (!consent && !privacySignal));
+  if (!visible) return null;
+
+  const analyticsChecked = !privacySignal && (analyticsChoice ?? consent?.analytics ?? false);
+
+  const decide = (analytics: boolean) => {
+    const revoked = consent?.analytics === true && !analytics;
+    setConsent({ analytics });
+    setShowDetails(false);
+    setAnalyticsChoice(null);
+    // Scripts that already loaded can't be unloaded; start clean without them
+    if (revoked) window.location.reload();
+  };
+
+  return (
+    <div
+      role="dialog"
+      aria-live="polite"
+      aria-label="Privacy choices"
+      className="fixed inset-x-0 bottom-0 z-[60] p-4 pb-[max(1rem,env(safe-area-inset-bottom))]"
+    >
+      <div className="mx-auto max-w-2xl rounded-2xl border border-border/50 bg-card/95 p-5 shadow-2xl backdrop-blur-md">
+        <div className="flex items-start gap-3">
+          <ShieldCheck className="mt-0.5 h-5 w-5 shrink-0 text-primary" />
+          <div className="space-y-1 text-sm">
+            <p className="font-medium text-foreground">Your privacy choices</p>
+            <p className="text-muted-foreground">
+              We only collect anonymous analytics if you say yes. Essential
+              storage keeps the wizard working and stays in your browser.
+            </p>
+          </div>
+        </div>
+
+        {(showDetails || preferencesOpen) && (
+          <div className="mt-4 space-y-3">
+            {CATEGORIES.map((category) => {
+              const essential = category.id === "essential";
+              return (
+                <label
+                  key={category.id}
+                  className="flex items-start gap-3 rounded-lg border border-border/40 p-3 text-sm"
+                >
+                  <Checkbox
+                    checked={essential || analyticsChecked}
+                    disabled={essential || privacySignal}
+                    onCheckedChange={(checked) => setAnalyticsChoice(checked === true)}
+                    className="mt-0.5"
+                  />
+                  <span>
+                    <span className="block font-medium text-foreground">
+                      {category.title}
+                      {essential && (
+                        <span className="ml-2 text-xs text-muted-foreground">Always on</span>
+                      )}
+                    </span>
+                    <span className="block text-muted-foreground">{category.description}</span>
+                    {!essential && privacySignal && (
+                      <span className="mt-1 block text-xs text-muted-foreground">
+                        Off because your browser sends Do-Not-Track or Global Privacy Control.
+                      </span>
+                    )}
+                  </span>
+                </label>
+              );
+            })}
+          </div>
+        )}
+
+        <div className="mt-4 flex flex-wrap justify-end gap-2">
+          {showDetails || preferencesOpen ? (
+            <>
+              {preferencesOpen && (
+                <Button variant="ghost" size="sm" onClick={closeConsentPreferences}>
+                  Cancel
+                </Button>
+              )}
+              <Button size="sm" onClick={() => decide(analyticsChecked)}>
+                Save choices
+              </Button>
+            </>
+          ) : (
+            <>
+              <Button variant="ghost" size="sm" onClick={() => setShowDetails(true)}>
+                Choose
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => decide(false)}>
+                Essential only
+              </Button>
+              <Button size="sm" onClick={() => decide(true)}>
+                Allow analytics
+              </Button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * "Privacy settings" link for the site-wide footer, so the choices can be
+ * changed from any page. Hidden when the build has nothing to consent to.
+ */
+export function PrivacySettingsLink() {
+  if (!HAS_TRACKING) return null;
+  return (
+    <footer className="px-4 pb-[max(1.5rem,env(safe-area-inset-bottom))] pt-6 text-center text-xs text-muted-foreground">
+      <button
+        type="button"
+        onClick={openConsentPreferences}
+        className="transition-colors hover:text-foreground"
+      >
+        Privacy settings
+      </button>
+    </footer>
+  );
+}
@@ -0,0 +1,344 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import Link from "next/link";
+import { ArrowUpRight, Search, X } from "lucide-react";
+import { cn } from "@/lib/utils";
+import {
+  WEB_TOOL_ENTRIES,
+  getModuleHref,
+  getToolCatalogEntry,
+} from "@/lib/toolCatalog";
+import {
+  getDependencyClosure,
+  getGraphColumns,
+  getGraphEdges,
+  getDependentClosure,
+  searchModuleIds,
+  type GraphGrouping,
+} from "@/lib/moduleGraph";
+
+// Layout constants
+const COLUMN_WIDTH = 200;
+const NODE_WIDTH = 168;
+const NODE_HEIGHT = 40;
+const ROW_GAP = 14;
+const HEADER_HEIGHT = 36;
+const PADDING = 16;
+
+type Point = { x: number; y: number };
+
+// Horizontal S-curve from the right edge of one node to the left edge of another
+function getEdgePath(from: Point, to: Point) {
+  const start = { x: from.x + NODE_WIDTH, y: from.y + NODE_HEIGHT / 2 };
+  const end = { x: to.x, y: to.y + NODE_HEIGHT / 2 };
+  const pull = Math.max(40, Math.abs(end.x - start.x) / 2);
+  return `M ${start.x} ${start.y} C ${start.x + pull} ${start.y}, ${end.x - pull} ${end.y}, ${end.x} ${end.y}`;
+}
+
+function ModuleChips({
+  ids,
+  empty,
+  onSelect,
+}: {
+  ids: string[];
+  empty: string;
+  onSelect: (id: string) => void;
+}) {
+  if (ids.length === 0) {
+    return <p className="text-sm text-muted-foreground">{empty}</p>;
+  }
+  return (
+    <div className="flex flex-wrap gap-1.5">
+      {ids.map((id) => (
+        <button
+          key={id}
+          type="button"
+          onClick={() => onSelect(id)}
+          className="rounded-md border border-border/50 bg-muted/30 px-2 py-1 font-mono text-xs text-foreground/80 transition-colors hover:border-primary/40 hover:text-primary"
+        >
+          {id}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+function ModuleDetailPanel({
+  moduleId,
+  upstream,
+  downstream,
+  onSelect,
+  onClose,
+}: {
+  moduleId: string;
+  upstream: string[];
+  downstream: string[];
+  onSelect: (id: string) => void;
+  onClose: () => void;
+}) {
+  const entry = getToolCatalogEntry(moduleId);
+  if (!entry) return null;
+
+  return (
+    <div className="rounded-2xl border border-border/50 bg-card/50 p-5 backdrop-blur-sm">
+      <div className="mb-4 flex items-start justify-between gap-3">
+        <div className="min-w-0">
+          <p className="font-mono text-xs text-primary">{entry.id}</p>
+          <h3 className="text-lg font-semibold text-foreground">
+            {WEB_TOOL_ENTRIES[entry.id]?.name ?? entry.id}
+          </h3>
+          <p className="mt-1 text-sm text-muted-foreground">{entry.description}</p>
+        </div>
+        <button
+          type="button"
+          onClick={onClose}
+          aria-label="Clear selection"
+          className="rounded-lg p-1.5 text-muted-foreground transition-colors hover:bg-muted/50 hover:text-foreground"
+        >
+          <X className="h-4 w-4" />
+        </button>
+      </div>
+
+      <div className="space-y-4">
+        <div>
+          <h4 className="mb-2 text-xs font-semibold uppercase tracking-wider text-sky-400">
+            Installed first ({upstream.length})
+          </h4>
+          <ModuleChips
+            ids={upstream}
+            empty="No dependencies."
+            onSelect={onSelect}
+          />
+        </div>
+        <div>
+          <h4 className="mb-2 text-xs font-semibold uppercase tracking-wider text-amber-400">
+            Must be skipped with it ({downstream.length})
+          </h4>
+          <ModuleChips
+            ids={downstream}
+            empty="Nothing depends on it, so it can be skipped on its own."
+            onSelect={onSelect}
+          />
+        </div>
+        <Link
+          href={getModuleHref(entry.id)}
+          className="inline-flex items-center gap-1 text-sm font-medium text-primary hover:underline"
+        >
+          Module details
+          <ArrowUpRight className="h-3.5 w-3.5" />
+        </Link>
+      </div>
+    </div>
+  );
+}
+
+export function DependencyGraph() {
+  const [grouping, setGrouping] = useState<GraphGrouping>("phase");
+  const [query, setQuery] = useState("");
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [hoveredId, setHoveredId] = useState<string | null>(null);
+
+  const activeId = selectedId ?? hoveredId;
+
+  const columns = useMemo(() => getGraphColumns(grouping), [grouping]);
+  const edges = useMemo(() => getGraphEdges(), []);
+
+  const positions = useMemo(() => {
+    const result: Record<string, Point> = {};
+    columns.forEach((column, columnIndex) => {
+      column.moduleIds.forEach((id, rowIndex) => {
+        result[id] = {
+          x: PADDING + columnIndex * COLUMN_WIDTH,
+          y: HEADER_HEIGHT + PADDING + rowIndex * (NODE_HEIGHT + ROW_GAP),
+        };
+      });
+    });
+    return result;
+  }, [columns]);
+
+  const width = PADDING * 2 + columns.length * COLUMN_WIDTH - (COLUMN_WIDTH - NODE_WIDTH);
+  const height =
+    HEADER_HEIGHT +
+    PADDING * 2 +
+    Math.max(...columns.map((column) => column.moduleIds.length)) * (NODE_HEIGHT + ROW_GAP);
+
+  const matches = useMemo(
+    () => (query.trim() ? searchModuleIds(query) : null),
+    [query]
+  );
+
+  const { upstream, downstream } = useMemo(
+    () =>
+      activeId
+        ? {
+            upstream: getDependencyClosure(activeId),
+            downstream: getDependentClosure(activeId),
+          }
+        : { upstream: [], downstream: [] },
+    [activeId]
+  );
+  const upstreamSet = useMemo(() => new Set(upstream), [upstream]);
+  const downstreamSet = useMemo(() => new Set(downstream), [downstream]);
+
+  const isInClosure = (id: string) =>
+    id === activeId || upstreamSet.has(id) || downstreamSet.has(id);
+
+  const edgeHighlight = (from: string, to: string): "up" | "down" | null => {
+    if (!activeId) return null;
+    const upChain = (id: string) => id === activeId || upstreamSet.has(id);
+    const downChain = (id: string) => id === activeId || downstreamSet.has(id);
+    if (upChain(from) && upChain(to)) return "up";
+    if (downChain(from) && downChain(to)) return "down";
+    return null;
+  };
+
+  const selectedUpstream = selectedId ? getDependencyClosure(selectedId) : [];
+  const selectedDownstream = selectedId ? getDependentClosure(selectedId) : [];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col gap-3 sm:flex-row sm:items-center">
+        <div className="relative flex-1">
+          <Search className="absolute left-4 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+          <input
+            type="text"
+            placeholder="Search modules (id or description)..."
+            value={query}
+            onChange={(event) => setQuery(event.target.value)}
+            className="w-full rounded-xl border border-border/50 bg-muted/30 py-3 pl-11 pr-4 text-sm text-foreground placeholder:text-muted-foreground focus:border-primary/50 focus:outline-none"
+          />
+        </div>
+        <div className="flex gap-1 rounded-xl border border-border/50 bg-muted/30 p-1">
+          {(["phase", "category"] as const).map((option) => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => setGrouping(option)}
+              className={cn(
+                "rounded-lg px-4 py-2 text-sm font-medium capitalize transition-colors",
+                grouping === option
+                  ? "bg-primary/20 text-foreground"
+                  : "text-muted-foreground hover:text-foreground"
+              )}
+            >
+              By {option}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-[1fr,340px]">
+        <div className="overflow-x-auto rounded-2xl border border-border/50 bg-card/30">
+          <div className="relative" style={{ width, height }}>
+            <svg className="absolute inset-0" width={width} height={height} aria-hidden="true">
+              {edges.map(({ from, to }) => {
+                const fromPos = positions[from];
+                const toPos = positions[to];
+                if (!fromPos || !toPos) return null;
+                const highlight = edgeHighlight(from, to);
+                return (
+                  <path
+                    key={`${from}-${to}`}
+                    d={getEdgePath(fromPos, toPos)}
+                    fill="none"
+                    stroke={
+                      highlight === "up"
+                        ? "#38bdf8"
+                        : highlight === "down"
+                          ? "#fbbf24"
+                          : "currentColor"
+                    }
+                    strokeWidth={highlight ? 2 : 1}
+                    strokeOpacity={highlight ? 0.9 : activeId ? 0.08 : 0.25}
+                    className="text-muted-foreground transition-all duration-300"
+                  />
+                );
+              })}
+            </svg>
+
+            {columns.map((column, columnIndex) => (
+              <div
+                key={column.key}
+                className="absolute text-xs font-semibold uppercase tracking-wider text-muted-foreground"
+                style={{ left: PADDING + columnIndex * COLUMN_WIDTH, top: PADDING, width: NODE_WIDTH }}
+              >
+                {column.label}
+              </div>
+            ))}
+
+            {columns.flatMap((column) =>
+              column.moduleIds.map((id) => {
+                const position = positions[id];
+                const dimmed =
+                  (activeId !== null && !isInClosure(id)) ||
+                  (matches !== null && !matches.has(id));
+                return (
+                  <button
+                    key={id}
+                    type="button"
+                    onClick={() => setSelectedId((prev) => (prev === id ? null : id))}
+                    onMouseEnter={() => setHoveredId(id)}
+                    onMouseLeave={() => setHoveredId(null)}
+                    title={getToolCatalogEntry(id)?.description}
+                    className={cn(
+                      "absolute truncate rounded-lg border px-3 text-left font-mono text-xs transition-all duration-300",
+                      id === activeId
+                        ? "border-primary bg-primary/20 text-foreground shadow-lg shadow-primary/20"
+                        : upstreamSet.has(id)
+                          ? "border-sky-400/60 bg-sky-400/10 text-foreground"
+                          : downstreamSet.has(id)
+                            ? "border-amber-400/60 bg-amber-400/10 text-foreground"
+                            : "border-border/60 bg-background/80 text-foreground/80 hover:border-primary/40",
+                      dimmed && "opacity-30"
+                    )}
+                    style={{
+                      left: position.x,
+                      top: position.y,
+                      width: NODE_WIDTH,
+                      height: NODE_HEIGHT,
+                    }}
+                  >
+                    {id}
+                  </button>
+                );
+              })
+            )}
+          </div>
+        </div>
+
+        <div className="space-y-4">
+          {selectedId ? (
+            <ModuleDetailPanel
+              moduleId={selectedId}
+              upstream={selectedUpstream}
+              downstream={selectedDownstream}
+              onSelect={setSelectedId}
+              onClose={() => setSelectedId(null)}
+            />
+          ) : (
+            <div className="rounded-2xl border border-dashed border-border/60 bg-muted/20 p-5 text-sm text-muted-foreground">
+              Select a module to see what it needs installed first and what
+              you would have to skip along with it.
+            </div>
+          )}
+          <div className="space-y-2 text-xs text-muted-foreground">
+            <p>
+              <span className="mr-2 inline-block h-2 w-2 rounded-full bg-sky-400" />
+              Installed first (transitive dependencies)
+            </p>
+            <p>
+              <span className="mr-2 inline-block h-2 w-2 rounded-full bg-amber-400" />
+              Must be skipped with it (transitive dependents; the installer
+              refuses to skip a module something selected depends on)
+            </p>
+            <p>
+              The generator refuses manifests with dependency cycles, so this
+              graph is always acyclic.
+            </p>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,251 @@
+"use client";
+
+import { useMemo } from "react";
+import { AlertTriangle, RotateCcw, Wrench } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { TOOL_CATALOG, type ToolCatalogEntry } from "@/lib/toolCatalog";
+import {
+  WORKSPACE_ROOT,
+  getDefaultModuleIds,
+  getMissingDependencies,
+  getModuleTags,
+  getModulesWithTag,
+  getSelectedModules,
+  isValidTargetUser,
+  withDependencies,
+  type InstallMode,
+  type InstallerOptions,
+} from "@/lib/installCommand";
+
+const MODES: Array<{ id: InstallMode; description: string }> = [
+  {
+    id: "vibe",
+    description: "Passwordless sudo, agents run without permission prompts. Best for a throwaway VPS.",
+  },
+  {
+    id: "safe",
+    description: "No passwordless sudo, agents ask before acting. Best for long-lived servers.",
+  },
+];
+
+const MODULES_BY_PHASE = [...TOOL_CATALOG.reduce((byPhase, entry) => {
+  byPhase.set(entry.phase, [...(byPhase.get(entry.phase) ?? []), entry]);
+  return byPhase;
+}, new Map<number, ToolCatalogEntry[]>())].sort(([a], [b]) => a - b);
+
+const TAGS = getModuleTags();
+
+function sameAsDefaults(modules: string[]): boolean {
+  const defaults = getDefaultModuleIds();
+  return (
+    modules.length === defaults.length &&
+    defaults.every((id) => modules.includes(id))
+  );
+}
+
+export interface InstallCommandBuilderProps {
+  options: InstallerOptions;
+  onChange: (options: InstallerOptions) => void;
+}
+
+export function InstallCommandBuilder({ options, onChange }: InstallCommandBuilderProps) {
+  const selected = useMemo(() => getSelectedModules(options), [options]);
+  const selectedSet = useMemo(() => new Set(selected), [selected]);
+  const missing = useMemo(() => getMissingDependencies(selected), [selected]);
+  const userValid = isValidTargetUser(options.targetUser);
+
+  const setModules = (modules: string[]) => {
+    onChange({ ...options, modules: sameAsDefaults(modules) ? null : modules });
+  };
+
+  const toggleModule = (id: string) => {
+    setModules(
+      selectedSet.has(id)
+        ? selected.filter((moduleId) => moduleId !== id)
+        : [...selected, id]
+    );
+  };
+
+  const toggleTag = (tag: string) => {
+    const tagged = getModulesWithTag(tag);
+    const allSelected = tagged.every((id) => selectedSet.has(id));
+    setModules(
+      allSelected
+        ? selected.filter((id) => !tagged.includes(id))
+        : [...new Set([...selected, ...tagged])]
+    );
+  };
+
+  return (
+    <div className="space-y-6 text-sm">
+      {/* Mode */}
+      <div className="space-y-2">
+        <h4 className="font-medium text-foreground">Mode</h4>
+        <div className="grid gap-2 sm:grid-cols-2">
+          {MODES.map((mode) => (
+            <button
+              key={mode.id}
+              type="button"
+              onClick={() => onChange({ ...options, mode: mode.id })}
+              className={cn(
+                "rounded-lg border p-3 text-left transition-colors",
+                options.mode === mode.id
+                  ? "border-primary/50 bg-primary/10"
+                  : "border-border/50 hover:border-primary/30"
+              )}
+            >
+              <div className="font-mono text-xs font-semibold text-foreground">
+                --mode {mode.id}
+              </div>
+              <p className="mt-1 text-xs text-muted-foreground">{mode.description}</p>
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* User and workspace */}
+      <div className="grid gap-4 sm:grid-cols-2">
+        <label className="space-y-2">
+          <span className="block font-medium text-foreground">Target user</span>
+          <input
+            type="text"
+            value={options.targetUser}
+            onChange={(event) =>
+              onChange({ ...options, targetUser: event.target.value.trim() })
+            }
+            aria-invalid={!userValid}
+            className={cn(
+              "w-full rounded-lg border bg-muted/30 px-3 py-2 font-mono text-sm text-foreground focus:outline-none",
+              userValid ? "border-border/50 focus:border-primary/50" : "border-destructive/60"
+            )}
+          />
+          <span className="block text-xs text-muted-foreground">
+            The account that owns the tools. Anything other than ubuntu is
+            passed as <code className="font-mono">TARGET_USER</code>.
+          </span>
+        </label>
+        <div className="space-y-2">
+          <span className="block font-medium text-foreground">Workspace root</span>
+          <div className="rounded-lg border border-border/50 bg-muted/10 px-3 py-2 font-mono text-sm text-muted-foreground">
+            {WORKSPACE_ROOT}
+          </div>
+          <span className="block text-xs text-muted-foreground">
+            Fixed by the installer; projects always live here.
+          </span>
+        </div>
+      </div>
+
+      {/* Tags */}
+      <div className="space-y-2">
+        <h4 className="font-medium text-foreground">Select by tag</h4>
+        <div className="flex flex-wrap gap-1.5">
+          {TAGS.map((tag) => {
+            const active = getModulesWithTag(tag).every((id) => selectedSet.has(id));
+            return (
+              <button
+                key={tag}
+                type="button"
+                onClick={() => toggleTag(tag)}
+                className={cn(
+                  "rounded-md border px-2 py-1 font-mono text-xs transition-colors",
+                  active
+                    ? "border-primary/50 bg-primary/10 text-foreground"
+                    : "border-border/50 text-muted-foreground hover:text-foreground"
+                )}
+              >
+                #{tag}
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      {/* Modules */}
+      <div className="space-y-3">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <h4 className="font-medium text-foreground">
+            Modules ({selected.length} of {TOOL_CATALOG.length})
+          </h4>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            disabled={options.modules === null}
+            onClick={() => onChange({ ...options, modules: null })}
+          >
+            <RotateCcw className="h-3.5 w-3.5" />
+            Recommended selection
+          </Button>
+        </div>
+
+        {missing.length > 0 && (
+          <div className="rounded-lg border border-[oklch(0.78_0.16_75/0.4)] bg-[oklch(0.78_0.16_75/0.08)] p-3">
+            <div className="flex items-start gap-2">
+              <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0 text-[oklch(0.78_0.16_75)]" />
+              <div className="space-y-1">
+                <p className="font-medium text-foreground">
+                  The installer would refuse this selection
+                </p>
+                <ul className="space-y-0.5 text-xs text-muted-foreground">
+                  {missing.map(({ moduleId, missing: deps }) => (
+                    <li key={moduleId}>
+                      <code className="font-mono">{moduleId}</code> needs{" "}
+                      <code className="font-mono">{deps.join(", ")}</code>
+                    </li>
+                  ))}
+                </ul>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  className="mt-2"
+                  onClick={() => setModules(withDependencies(selected))}
+                >
+                  <Wrench className="h-3.5 w-3.5" />
+                  Add missing dependencies
+                </Button>
+              </div>
+            </div>
+          </div>
+        )}
+
+        <div className="max-h-96 space-y-4 overflow-y-auto pr-1">
+          {MODULES_BY_PHASE.map(([phase, entries]) => (
+            <div key={phase}>
+              <h5 className="mb-1.5 text-xs font-semibold uppercase tracking-wider text-muted-foreground">
+                Phase {phase}
+              </h5>
+              <div className="grid gap-1 sm:grid-cols-2">
+                {entries.map((entry) => (
+                  <label
+                    key={entry.id}
+                    className="flex cursor-pointer items-start gap-2 rounded-md px-2 py-1.5 hover:bg-muted/30"
+                  >
+                    <Checkbox
+                      checked={selectedSet.has(entry.id)}
+                      onCheckedChange={() => toggleModule(entry.id)}
+                      className="mt-0.5"
+                    />
+                    <span className="min-w-0">
+                      <span className="block font-mono text-xs text-foreground">
+                        {entry.id}
+                        {!entry.enabled_by_default && (
+                          <span className="ml-1.5 text-muted-foreground">(off by default)</span>
+                        )}
+                      </span>
+                      <span className="block truncate text-xs text-muted-foreground">
+                        {entry.description}
+                      </span>
+                    </span>
+                  </label>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
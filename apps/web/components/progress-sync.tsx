@@ -0,0 +1,282 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Check, Copy, Download, Link2, Loader2, Smartphone } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { AlertCard } from "@/components/alert-card";
+import { WIZARD_STEPS } from "@/lib/wizardSteps";
+import { TOTAL_LESSONS } from "@/lib/lessons";
+import type { ProgressBundle } from "@/lib/progressBundle";
+import {
+  applyProgressBundle,
+  collectProgressBundle,
+  createProgressCode,
+  getPendingVpsIPChange,
+  getProgressQrCode,
+  getProgressSyncUrl,
+  redeemProgressCode,
+} from "@/lib/progressSync";
+
+const OS_LABELS = { mac: "macOS", windows: "Windows", linux: "Linux" } as const;
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : "Something went wrong. Try again.";
+}
+
+function ProgressSummary({ bundle }: { bundle: ProgressBundle }) {
+  const items = [
+    { label: "Wizard steps", value: `${bundle.steps.length} of ${WIZARD_STEPS.length}` },
+    { label: "Lessons", value: `${bundle.lessons.length} of ${TOTAL_LESSONS}` },
+    { label: "Commands run", value: String(bundle.commands.length) },
+    { label: "Computer", value: bundle.os ? OS_LABELS[bundle.os] : "Not chosen" },
+    { label: "VPS IP", value: bundle.vpsIP ?? "Not set" },
+  ];
+
+  return (
+    <dl className="grid grid-cols-2 gap-x-6 gap-y-2 text-sm sm:grid-cols-3">
+      {items.map((item) => (
+        <div key={item.label}>
+          <dt className="text-xs text-muted-foreground">{item.label}</dt>
+          <dd className="font-mono text-foreground">{item.value}</dd>
+        </div>
+      ))}
+    </dl>
+  );
+}
+
+function ExportPanel() {
+  const [local, setLocal] = useState<ProgressBundle | null>(null);
+  const [link, setLink] = useState<string | null>(null);
+  const [qrCode, setQrCode] = useState<string | null>(null);
+  const [creating, setCreating] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setLocal(collectProgressBundle());
+  }, []);
+
+  const handleCreate = async () => {
+    setCreating(true);
+    setError(null);
+    try {
+      const url = getProgressSyncUrl(await createProgressCode());
+      setQrCode(await getProgressQrCode(url));
+      setLink(url);
+    } catch (err) {
+      setError(errorMessage(err));
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!link) return;
+    try {
+      await navigator.clipboard.writeText(link);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      // Clipboard blocked; the link is selectable in the field
+    }
+  };
+
+  return (
+    <section className="space-y-4 rounded-2xl border border-border/50 bg-card/50 p-6">
+      <div className="flex items-center gap-2">
+        <Link2 className="h-5 w-5 text-primary" />
+        <h2 className="text-lg font-semibold text-foreground">Take your progress with you</h2>
+      </div>
+      <p className="text-sm text-muted-foreground">
+        Create a link on this device, then open it on the other one or scan its
+        QR code with your phone. Anyone with the link can restore this
+        progress, including your VPS IP, so only send it to yourself.
+      </p>
+
+      {local && <ProgressSummary bundle={local} />}
+
+      {link ? (
+        <div className="space-y-4">
+          <div className="flex gap-2">
+            <input
+              readOnly
+              value={link}
+              aria-label="Progress link"
+              onFocus={(event) => event.currentTarget.select()}
+              className="min-w-0 flex-1 rounded-lg border border-border/50 bg-background px-3 py-2 font-mono text-xs text-foreground"
+            />
+            <Button variant="outline" size="sm" onClick={handleCopy}>
+              {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+              {copied ? "Copied" : "Copy"}
+            </Button>
+          </div>
+          {qrCode ? (
+            // eslint-disable-next-line @next/next/no-img-element -- generated data URL, nothing for next/image to optimize
+            <img
+              src={qrCode}
+              alt="QR code for the progress link"
+              width={240}
+              height={240}
+              className="rounded-lg bg-white"
+            />
+          ) : (
+            <p className="text-xs text-muted-foreground">
+              This link holds too much progress for a QR code; copy it instead.
+            </p>
+          )}
+        </div>
+      ) : (
+        <Button onClick={handleCreate} disabled={creating || !local}>
+          {creating ? <Loader2 className="h-4 w-4 animate-spin" /> : <Link2 className="h-4 w-4" />}
+          Create progress link
+        </Button>
+      )}
+
+      {error && <AlertCard variant="error">{error}</AlertCard>}
+    </section>
+  );
+}
+
+function ImportPanel() {
+  const [input, setInput] = useState("");
+  const [pending, setPending] = useState<ProgressBundle | null>(null);
+  const [ipChange, setIpChange] = useState<{ from: string; to: string } | null>(null);
+  const [checking, setChecking] = useState(false);
+  const [restored, setRestored] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const check = useCallback(async (value: string) => {
+    setChecking(true);
+    setError(null);
+    setPending(null);
+    try {
+      const bundle = await redeemProgressCode(value);
+      setPending(bundle);
+      setIpChange(getPendingVpsIPChange(bundle));
+    } catch (err) {
+      setError(errorMessage(err));
+    } finally {
+      setChecking(false);
+    }
+  }, []);
+
+  // Opened from a progress link: the code is in the fragment
+  useEffect(() => {
+    const code = window.location.hash.slice(1);
+    if (!code) return;
+    // Keep the code out of the address bar and history once read
+    window.history.replaceState(window.history.state, "", window.location.pathname);
+    void check(code);
+  }, [check]);
+
+  const handleRestore = (replaceVpsIP: boolean) => {
+    if (!pending) return;
+    applyProgressBundle(pending, { replaceVpsIP });
+    setRestored(true);
+  };
+
+  if (restored && pending) {
+    const nextStep =
+      WIZARD_STEPS.find((step) => !pending.steps.includes(step.id)) ??
+      WIZARD_STEPS[WIZARD_STEPS.length - 1];
+    return (
+      <AlertCard variant="success" title="Progress restored">
+        <p className="mb-3">Pick up where you left off:</p>
+        <div className="flex flex-wrap gap-2">
+          {/* Full page loads so every page rereads the restored storage */}
+          <Button size="sm" onClick={() => window.location.assign(`/wizard/${nextStep.slug}`)}>
+            Continue the wizard
+          </Button>
+          <Button size="sm" variant="outline" onClick={() => window.location.assign("/learn")}>
+            Learning hub
+          </Button>
+        </div>
+      </AlertCard>
+    );
+  }
+
+  return (
+    <section className="space-y-4 rounded-2xl border border-border/50 bg-card/50 p-6">
+      <div className="flex items-center gap-2">
+        <Smartphone className="h-5 w-5 text-primary" />
+        <h2 className="text-lg font-semibold text-foreground">Continue on this device</h2>
+      </div>
+
+      {pending ? (
+        <>
+          <p className="text-sm text-muted-foreground">
+            This link restores the progress below. Completed steps, lessons and
+            commands are added to what this device already has; the computer
+            is replaced. Only restore links you made yourself.
+          </p>
+          <ProgressSummary bundle={pending} />
+          {ipChange && (
+            <AlertCard variant="warning" title="Different VPS IP">
+              This link would change your VPS IP from{" "}
+              <span className="font-mono">{ipChange.from}</span> to{" "}
+              <span className="font-mono">{ipChange.to}</span>. Commands you copy
+              from the wizard connect to that address, so only switch if it is
+              your server.
+            </AlertCard>
+          )}
+          <div className="flex flex-wrap gap-2">
+            {ipChange ? (
+              <>
+                <Button onClick={() => handleRestore(false)}>
+                  <Download className="h-4 w-4" />
+                  Restore, keep {ipChange.from}
+                </Button>
+                <Button variant="outline" onClick={() => handleRestore(true)}>
+                  Restore and use {ipChange.to}
+                </Button>
+              </>
+            ) : (
+              <Button onClick={() => handleRestore(false)}>
+                <Download className="h-4 w-4" />
+                Restore progress
+              </Button>
+            )}
+            <Button variant="ghost" onClick={() => setPending(null)}>
+              Cancel
+            </Button>
+          </div>
+        </>
+      ) : (
+        <form
+          className="flex gap-2"
+          onSubmit={(event) => {
+            event.preventDefault();
+            if (input.trim()) void check(input);
+          }}
+        >
+          <input
+            value={input}
+            onChange={(event) => setInput(event.target.value)}
+            placeholder="Paste a progress link or code"
+            aria-label="Progress link or code"
+            className="min-w-0 flex-1 rounded-lg border border-border/50 bg-background px-3 py-2 font-mono text-xs text-foreground placeholder:text-muted-foreground"
+          />
+          <Button type="submit" variant="outline" disabled={checking || !input.trim()}>
+            {checking && <Loader2 className="h-4 w-4 animate-spin" />}
+            Check
+          </Button>
+        </form>
+      )}
+
+      {error && <AlertCard variant="error">{error}</AlertCard>}
+    </section>
+  );
+}
+
+/**
+ * Export this browser's progress as a signed link and QR code, or restore
+ * one made on another device
+ */
+export function ProgressSync() {
+  return (
+    <div className="space-y-6">
+      <ImportPanel />
+      <ExportPanel />
+    </div>
+  );
+}
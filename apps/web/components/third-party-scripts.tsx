@@ -5,6 +5,7 @@ import { useEffect } from 'react';
 import { usePathname } from 'next/navigation';
 import { Analytics } from '@vercel/analytics/react';
 import { SpeedInsights } from '@vercel/speed-insights/next';
+import { useConsent } from '@/lib/consent';
 
 // Environment variables for third-party services
 // Note: GA4 is handled by AnalyticsProvider to avoid duplicate scripts
@@ -26,17 +27,24 @@ const ENABLE_VERCEL_ANALYTICS = process.env.NEXT_PUBLIC_ENABLE_VERCEL_ANALYTICS
 // Only enable Speed Insights when explicitly configured (requires Vercel Pro)
 const ENABLE_SPEED_INSIGHTS = process.env.NEXT_PUBLIC_ENABLE_SPEED_INSIGHTS === 'true';
 
+/** Whether any third-party script is configured (all need analytics consent) */
+export const HAS_THIRD_PARTY_SCRIPTS =
+  !!GTM_ID || !!CLARITY_PROJECT_ID || ENABLE_VERCEL_ANALYTICS || ENABLE_SPEED_INSIGHTS;
+
 /**
  * Third-party scripts manager (non-GA4)
  * Handles: GTM, Microsoft Clarity, Vercel Analytics
  * Note: GA4 is loaded by AnalyticsProvider for comprehensive tracking
+ * Nothing loads until the visitor grants analytics consent.
  */
 export function ThirdPartyScripts() {
   const pathname = usePathname();
+  const { analytics } = useConsent();
+  const consented = analytics === 'granted';
 
   // Track virtual pageviews for GTM on SPA navigation
   useEffect(() => {
-    if (!GTM_ID) return;
+    if (!GTM_ID || !consented) return;
 
     window.dataLayer = window.dataLayer || [];
     window.dataLayer.push({
@@ -44,7 +52,9 @@ export function ThirdPartyScripts() {
       page_path: pathname,
       page_title: document.title,
     });
-  }, [pathname]);
+  }, [pathname, consented]);
+
+  if (!consented) return null;
 
   return (
     <>
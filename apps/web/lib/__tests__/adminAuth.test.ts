@@ -0,0 +1,36 @@
+import { describe, test, expect } from 'bun:test';
+import { checkAdminAccess, getAdminToken } from '../adminAuth';
+
+const TOKEN = 'a-long-enough-admin-token';
+
+function basic(user: string, password: string): string {
+  return `Basic ${btoa(`${user}:${password}`)}`;
+}
+
+describe('getAdminToken', () => {
+  test('requires a token of at least 16 characters', () => {
+    expect(getAdminToken({ ADMIN_TOKEN: ` ${TOKEN} ` } as unknown as NodeJS.ProcessEnv)).toBe(TOKEN);
+    expect(getAdminToken({} as NodeJS.ProcessEnv)).toBeNull();
+    expect(getAdminToken({ ADMIN_TOKEN: 'short' } as unknown as NodeJS.ProcessEnv)).toBeNull();
+  });
+});
+
+describe('checkAdminAccess', () => {
+  test('is disabled without a token', () => {
+    expect(checkAdminAccess(basic('admin', TOKEN), null)).toBe('disabled');
+  });
+
+  test('accepts the token as Basic password or Bearer token', () => {
+    expect(checkAdminAccess(basic('anyone', TOKEN), TOKEN)).toBe('granted');
+    expect(checkAdminAccess(`Bearer ${TOKEN}`, TOKEN)).toBe('granted');
+  });
+
+  test('refuses missing, wrong or malformed credentials', () => {
+    expect(checkAdminAccess(null, TOKEN)).toBe('unauthorized');
+    expect(checkAdminAccess(basic('admin', `${TOKEN}x`), TOKEN)).toBe('unauthorized');
+    expect(checkAdminAccess(basic('admin', TOKEN.slice(0, -1)), TOKEN)).toBe('unauthorized');
+    expect(checkAdminAccess(`Bearer ${TOKEN.toUpperCase()}`, TOKEN)).toBe('unauthorized');
+    expect(checkAdminAccess('Basic !!!', TOKEN)).toBe('unauthorized');
+    expect(checkAdminAccess(`Basic ${btoa(TOKEN)}`, TOKEN)).toBe('unauthorized');
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, test, expect } from 'bun:test';
+import { createConsentQueue, type AnalyticsConsent } from '../consent';
+
+function setup(initial: AnalyticsConsent, ready = true) {
+  const state = { consent: initial, ready };
+  const sent: string[] = [];
+  const queue = createConsentQueue({
+    getConsent: () => state.consent,
+    isReady: () => state.ready,
+    maxSize: 3,
+  });
+  const track = (name: string) => queue.run(() => sent.push(name));
+  return { state, sent, queue, track };
+}
+
+describe('createConsentQueue', () => {
+  test('holds calls while pending and sends them in order on grant', () => {
+    const { state, sent, queue, track } = setup('pending');
+    track('page_view');
+    track('wizard_step');
+    expect(sent).toEqual([]);
+    expect(queue.size()).toBe(2);
+
+    state.consent = 'granted';
+    queue.onConsentChange();
+    expect(sent).toEqual(['page_view', 'wizard_step']);
+    expect(queue.size()).toBe(0);
+
+    track('lesson_complete');
+    expect(sent).toEqual(['page_view', 'wizard_step', 'lesson_complete']);
+  });
+
+  test('drops held calls on deny and ignores later ones', () => {
+    const { state, sent, queue, track } = setup('pending');
+    track('page_view');
+
+    state.consent = 'denied';
+    queue.onConsentChange();
+    expect(queue.size()).toBe(0);
+
+    track('wizard_step');
+    state.consent = 'granted';
+    queue.onConsentChange();
+    expect(sent).toEqual([]);
+  });
+
+  test('waits for the transport after consent is granted', () => {
+    const { state, sent, queue, track } = setup('granted', false);
+    track('page_view');
+    queue.flush();
+    expect(sent).toEqual([]);
+
+    state.ready = true;
+    queue.flush();
+    expect(sent).toEqual(['page_view']);
+  });
+
+  test('caps the number of held calls', () => {
+    const { queue, track } = setup('pending');
+    for (let i = 0; i < 5; i++) track(`event_${i}`);
+    expect(queue.size()).toBe(3);
+  });
+});
@@ -0,0 +1,235 @@
+import { describe, test, expect } from 'bun:test';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { parseStoredEvents, readStoredEvents, type EventParams, type StoredEvent } from '../analyticsSinks';
+import {
+  buildFunnelReport,
+  formatDuration,
+  getEventTime,
+  median,
+  parseSince,
+  rebuildFunnelSessions,
+} from '../funnelReport';
+
+const T0 = Date.parse('2026-03-01T10:00:00Z');
+
+function event(name: string, secondsAfterT0: number, params: EventParams): StoredEvent {
+  return {
+    received_at: new Date(T0 + secondsAfterT0 * 1000).toISOString(),
+    client_id: 'abc.123',
+    session_id: 123,
+    name,
+    params,
+  };
+}
+
+function wizardStep(funnelId: string, step: number, enteredAt: number, completedAt?: number) {
+  const params = { funnel_id: funnelId, step_number: step, total_steps: 3 };
+  const events = [event('funnel_step_enter', enteredAt, { ...params, step_title: `Title ${step}` })];
+  if (completedAt !== undefined) {
+    events.push(event('funnel_step_complete', completedAt, { ...params, step_name: `step-${step}` }));
+  }
+  return events;
+}
+
+// An event the browser recorded at `clientSeconds` (sendEvent's timestamp param)
+// that reached the server at `receivedSeconds`
+function sentLater(name: string, clientSeconds: number, receivedSeconds: number, params: EventParams): StoredEvent {
+  return event(name, receivedSeconds, { ...params, timestamp: new Date(T0 + clientSeconds * 1000).toISOString() });
+}
+
+describe('rebuildFunnelSessions', () => {
+  test('replays enter/complete events into per-session step timestamps', () => {
+    const sessions = rebuildFunnelSessions(
+      [...wizardStep('f1', 2, 100, 160), ...wizardStep('f1', 1, 0, 90)],
+      'wizard'
+    );
+
+    expect(sessions).toHaveLength(1);
+    expect(sessions[0]).toEqual({
+      sessionId: 'f1',
+      startedAt: new Date(T0).toISOString(),
+      maxStepReached: 2,
+      completedSteps: [1, 2],
+      stepTimestamps: {
+        1: { entered: new Date(T0).toISOString(), completed: new Date(T0 + 90_000).toISOString() },
+        2: {
+          entered: new Date(T0 + 100_000).toISOString(),
+          completed: new Date(T0 + 160_000).toISOString(),
+        },
+      },
+    });
+  });
+
+  test('ignores events without a funnel_id', () => {
+    const sessions = rebuildFunnelSessions(
+      [
+        event('lesson_complete', 0, { lesson_id: 0, lesson_slug: 'welcome' }),
+        event('lesson_view', 5, { funnel_id: 'l1', lesson_id: 0 }),
+      ],
+      'lessons'
+    );
+
+    expect(sessions.map((session) => session.sessionId)).toEqual(['l1']);
+    expect(sessions[0].completedSteps).toEqual([]);
+  });
+});
+
+describe('buildFunnelReport', () => {
+  const events = [
+    // Finishes all three steps
+    ...wizardStep('a', 1, 0, 60),
+    ...wizardStep('a', 2, 60, 180),
+    ...wizardStep('a', 3, 180, 200),
+    // Stops on step 2
+    ...wizardStep('b', 1, 0, 120),
+    ...wizardStep('b', 2, 120),
+    // Never gets past step 1
+    ...wizardStep('c', 1, 0),
+  ];
+
+  test('counts reach, completion and drop-off per step', () => {
+    const report = buildFunnelReport(events, 'wizard');
+
+    expect(report.sessions).toBe(3);
+    expect(report.completedSessions).toBe(1);
+    expect(report.steps.map((step) => [step.step, step.reached, step.completed, step.droppedOff])).toEqual([
+      [1, 3, 2, 1],
+      [2, 2, 1, 1],
+      [3, 1, 1, 0],
+    ]);
+    expect(report.steps[1].dropOffRate).toBe(0.5);
+    expect(report.steps[0].title).toBe('Title 1');
+  });
+
+  test('reports the median time from entering to completing each step', () => {
+    const report = buildFunnelReport(events, 'wizard');
+
+    expect(report.steps.map((step) => step.medianSeconds)).toEqual([90, 120, 20]);
+    expect(report.steps.map((step) => step.timedSessions)).toEqual([2, 1, 1]);
+  });
+
+  test('lists steps nobody reached up to total_steps', () => {
+    const report = buildFunnelReport(wizardStep('a', 1, 0), 'wizard');
+
+    expect(report.steps.map((step) => step.step)).toEqual([1, 2, 3]);
+    expect(report.steps[2]).toMatchObject({ title: 'Step 3', reached: 0, medianSeconds: null });
+  });
+
+  test('skips durations where the step was re-entered after completing it', () => {
+    const report = buildFunnelReport(
+      [...wizardStep('a', 1, 0, 30), event('funnel_step_enter', 60, { funnel_id: 'a', step_number: 1 })],
+      'wizard'
+    );
+
+    expect(report.steps[0].medianSeconds).toBeNull();
+  });
+
+  test('only considers events since the given date', () => {
+    const report = buildFunnelReport(events, 'wizard', { since: new Date(T0 + 100_000) });
+
+    expect(report.firstEventAt).toBe(new Date(T0 + 120_000).toISOString());
+    expect(report.steps[0].reached).toBe(0);
+  });
+
+  test('times steps by when the browser recorded them, not when they arrived', () => {
+    const params = (funnelId: string, step: number) => ({ funnel_id: funnelId, step_number: step, total_steps: 2 });
+    const report = buildFunnelReport(
+      [
+        // Batched: enter and complete of each step arrive in the same request
+        sentLater('funnel_step_enter', 0, 40, params('batched', 1)),
+        sentLater('funnel_step_complete', 40, 40, params('batched', 1)),
+        sentLater('funnel_step_enter', 41, 100, params('batched', 2)),
+        sentLater('funnel_step_complete', 100, 100, params('batched', 2)),
+        // Queued until the visitor accepted analytics at 600s, then sent at once
+        sentLater('funnel_step_enter', 0, 600, params('queued', 1)),
+        sentLater('funnel_step_complete', 80, 600, params('queued', 1)),
+        sentLater('funnel_step_enter', 81, 600, params('queued', 2)),
+        sentLater('funnel_step_complete', 200, 600, params('queued', 2)),
+      ],
+      'wizard'
+    );
+
+    expect(report.completedSessions).toBe(2);
+    expect(report.steps.map((step) => step.medianSeconds)).toEqual([60, 89]);
+    expect(report.steps.map((step) => step.timedSessions)).toEqual([2, 2]);
+  });
+
+  test('numbers lessons from zero', () => {
+    const report = buildFunnelReport(
+      [
+        event('lesson_view', 0, { funnel_id: 'l1', lesson_id: 0, lesson_title: 'Welcome', total_lessons: 2 }),
+        event('lesson_complete', 300, { funnel_id: 'l1', lesson_id: 0, total_lessons: 2 }),
+      ],
+      'lessons'
+    );
+
+    expect(report.steps.map((step) => [step.step, step.title])).toEqual([
+      [0, 'Welcome'],
+      [1, 'Lesson 1'],
+    ]);
+    expect(report.steps[0].medianSeconds).toBe(300);
+    expect(report.steps[0].droppedOff).toBe(1);
+  });
+});
+
+describe('parseStoredEvents', () => {
+  test('skips blank, malformed and foreign lines', () => {
+    const good = event('page_view', 0, { page_path: '/' });
+    const text = [JSON.stringify(good), '', '{"received_at":', JSON.stringify({ foo: 1 })].join('\n');
+
+    expect(parseStoredEvents(text)).toEqual([good]);
+  });
+});
+
+describe('readStoredEvents', () => {
+  test('streams the file, keeping events since a date up to a limit', async () => {
+    const dir = mkdtempSync(path.join(tmpdir(), 'acfs-events-'));
+    try {
+      const file = path.join(dir, 'events.jsonl');
+      const stored = [0, 10, 20, 30, 40].map((seconds) => event('page_view', seconds, { page_path: `/${seconds}` }));
+      writeFileSync(file, [...stored.map((e) => JSON.stringify(e)), '{"received_at":'].join('\n'));
+
+      expect(await readStoredEvents(file)).toEqual(stored);
+      expect(await readStoredEvents(file, { since: new Date(T0 + 15_000) })).toEqual(stored.slice(2));
+      expect(await readStoredEvents(file, { limit: 2 })).toEqual(stored.slice(3));
+      expect(await readStoredEvents(path.join(dir, 'missing.jsonl'))).toEqual([]);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('helpers', () => {
+  test('getEventTime prefers a valid client timestamp', () => {
+    expect(getEventTime(sentLater('page_view', 5, 60, {}))).toBe(new Date(T0 + 5000).toISOString());
+    expect(getEventTime(event('page_view', 60, { timestamp: 'yesterday' }))).toBe(
+      new Date(T0 + 60_000).toISOString()
+    );
+    expect(getEventTime(event('page_view', 60, {}))).toBe(new Date(T0 + 60_000).toISOString());
+  });
+
+  test('median handles odd, even and empty inputs', () => {
+    expect(median([5, 1, 3])).toBe(3);
+    expect(median([4, 1, 3, 2])).toBe(2.5);
+    expect(median([])).toBeNull();
+  });
+
+  test('parseSince accepts relative durations and dates', () => {
+    const now = new Date('2026-03-08T00:00:00Z');
+
+    expect(parseSince('7d', now)?.toISOString()).toBe('2026-03-01T00:00:00.000Z');
+    expect(parseSince('12h', now)?.toISOString()).toBe('2026-03-07T12:00:00.000Z');
+    expect(parseSince('2026-01-01', now)?.toISOString()).toBe('2026-01-01T00:00:00.000Z');
+    expect(parseSince('soon', now)).toBeNull();
+    expect(parseSince(undefined, now)).toBeNull();
+  });
+
+  test('formatDuration stays compact', () => {
+    expect(formatDuration(null)).toBe('-');
+    expect(formatDuration(42.4)).toBe('42s');
+    expect(formatDuration(200)).toBe('3m 20s');
+    expect(formatDuration(3900)).toBe('1h 05m');
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, test, expect } from 'bun:test';
+import {
+  buildInstallCommand,
+  DEFAULT_INSTALLER_OPTIONS,
+  getDefaultModuleIds,
+  getSelectionFlags,
+  validateInstallerOptions,
+  withDependencies,
+  type InstallerOptions,
+} from '../installCommand';
+
+function options(overrides: Partial<InstallerOptions>): InstallerOptions {
+  return { ...DEFAULT_INSTALLER_OPTIONS, ...overrides };
+}
+
+describe('getSelectionFlags', () => {
+  test('passes no selection flags for the default selection', () => {
+    expect(getSelectionFlags(DEFAULT_INSTALLER_OPTIONS)).toEqual([]);
+    expect(getSelectionFlags(options({ modules: getDefaultModuleIds() }))).toEqual([]);
+  });
+
+  test('skips the defaults left out of a default subset', () => {
+    const modules = getDefaultModuleIds().filter((id) => id !== 'stack.slb' && id !== 'tools.atuin');
+    const selection = options({ modules });
+
+    expect(validateInstallerOptions(selection)).toEqual([]);
+    expect(getSelectionFlags(selection)).toEqual(['--skip', 'tools.atuin', '--skip', 'stack.slb']);
+  });
+
+  test('names only the modules no other selected module depends on', () => {
+    const selection = options({ modules: ['base.system', 'lang.bun', 'cloud.vercel'] });
+
+    expect(validateInstallerOptions(selection)).toEqual([]);
+    expect(getSelectionFlags(selection)).toEqual(['--only', 'cloud.vercel']);
+    expect(buildInstallCommand(selection)).toEndWith('bash -s -- --yes --mode vibe --only cloud.vercel');
+  });
+});
+
+describe('validateInstallerOptions', () => {
+  test('reports a selected module whose dependency is missing', () => {
+    expect(validateInstallerOptions(options({ modules: ['base.system', 'cloud.vercel'] }))).toEqual([
+      'cloud.vercel needs lang.bun.',
+    ]);
+    expect(withDependencies(['cloud.vercel'])).toEqual(['base.system', 'lang.bun', 'cloud.vercel']);
+  });
+
+  test('reports unknown modules and an empty selection', () => {
+    expect(validateInstallerOptions(options({ modules: ['tools.nope'] }))).toEqual([
+      'Unknown modules: tools.nope.',
+      'Select at least one module.',
+    ]);
+  });
+
+  test('accepts a non-default target user and rejects an invalid one', () => {
+    expect(validateInstallerOptions(options({ targetUser: 'dev_1' }))).toEqual([]);
+    expect(validateInstallerOptions(options({ targetUser: 'Root' }))).toEqual([
+      'Invalid target user "Root" (expected a lowercase user name like "ubuntu").',
+    ]);
+  });
+});
+
+describe('buildInstallCommand', () => {
+  test('sets TARGET_USER for bash only when it differs from the default', () => {
+    expect(buildInstallCommand(DEFAULT_INSTALLER_OPTIONS)).not.toContain('TARGET_USER=');
+    expect(buildInstallCommand(options({ targetUser: 'dev', mode: 'safe' }))).toEndWith(
+      '| TARGET_USER=dev bash -s -- --yes --mode safe'
+    );
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, test, expect } from 'bun:test';
+import {
+  getDependencyClosure,
+  getDependentClosure,
+  getGraphColumns,
+  getGraphEdges,
+  searchModuleIds,
+} from '../moduleGraph';
+import { DEFAULT_INSTALLER_OPTIONS, getDefaultModuleIds, validateInstallerOptions } from '../installCommand';
+import { TOOL_CATALOG } from '../toolCatalog';
+
+describe('searchModuleIds', () => {
+  test('matches ids and descriptions, ignoring case and surrounding spaces', () => {
+    expect(searchModuleIds('  VERCEL ')).toEqual(new Set(['cloud.vercel']));
+    expect(searchModuleIds('mesh vpn')).toEqual(new Set(['network.tailscale']));
+    expect(searchModuleIds('no such module')).toEqual(new Set());
+  });
+});
+
+describe('getDependencyClosure', () => {
+  test('walks dependencies depth-first, each module once', () => {
+    expect(getDependencyClosure('stack.ultimate_bug_scanner')).toEqual([
+      'lang.bun',
+      'base.system',
+      'lang.uv',
+      'tools.ast_grep',
+      'lang.rust',
+    ]);
+  });
+
+  test('is empty for roots and unknown modules', () => {
+    expect(getDependencyClosure('base.system')).toEqual([]);
+    expect(getDependencyClosure('tools.nope')).toEqual([]);
+  });
+});
+
+describe('getDependentClosure', () => {
+  test('includes modules that depend on it through another module', () => {
+    expect(getDependentClosure('lang.rust')).toEqual([
+      'tools.ast_grep',
+      'stack.ultimate_bug_scanner',
+      'stack.cass',
+      'stack.cm',
+    ]);
+    expect(getDependentClosure('cloud.vercel')).toEqual([]);
+  });
+
+  test('is exactly what has to be skipped alongside a deselected module', () => {
+    const defaults = getDefaultModuleIds();
+    const withoutRust = defaults.filter((id) => id !== 'lang.rust');
+    expect(validateInstallerOptions({ ...DEFAULT_INSTALLER_OPTIONS, modules: withoutRust })).not.toEqual([]);
+
+    const skipped = new Set(['lang.rust', ...getDependentClosure('lang.rust')]);
+    const remaining = defaults.filter((id) => !skipped.has(id));
+    expect(validateInstallerOptions({ ...DEFAULT_INSTALLER_OPTIONS, modules: remaining })).toEqual([]);
+  });
+});
+
+describe('graph layout', () => {
+  test('places every module in one column, phases in install order', () => {
+    const columns = getGraphColumns('phase');
+    expect(columns.map((column) => Number(column.key))).toEqual(
+      [...new Set(TOOL_CATALOG.map((entry) => entry.phase))].sort((a, b) => a - b)
+    );
+    expect(columns.flatMap((column) => column.moduleIds).sort()).toEqual(
+      TOOL_CATALOG.map((entry) => entry.id).sort()
+    );
+  });
+
+  test('has one edge per declared dependency', () => {
+    expect(getGraphEdges()).toContainEqual({ from: 'lang.bun', to: 'cloud.vercel' });
+    expect(getGraphEdges()).toHaveLength(TOOL_CATALOG.reduce((sum, entry) => sum + entry.dependencies.length, 0));
+  });
+});
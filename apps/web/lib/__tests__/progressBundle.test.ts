@@ -0,0 +1,148 @@
+import { describe, test, expect } from 'bun:test';
+import {
+  decodeProgressBundle,
+  encodeProgressBundle,
+  extractProgressCode,
+  getVpsIPChange,
+  PROGRESS_BUNDLE_VERSION,
+  ProgressBundleError,
+  validateProgressBundle,
+  type ProgressBundle,
+} from '../progressBundle';
+import { getProgressSyncSecret, signProgressPayload, verifyProgressCode } from '../progressSigning';
+import { getProgressQrCode } from '../progressSync';
+
+const SECRET = 'test-secret-that-is-long-enough-for-hmac';
+
+const BUNDLE: ProgressBundle = {
+  version: PROGRESS_BUNDLE_VERSION,
+  steps: [1, 2, 3, 5],
+  lessons: [0, 1],
+  os: 'mac',
+  vpsIP: '203.0.113.7',
+  commands: ['auth-claude-code', 'generate-ssh-key'],
+};
+
+function encodeWire(wire: unknown): string {
+  return Buffer.from(JSON.stringify(wire)).toString('base64url');
+}
+
+describe('progress bundle encoding', () => {
+  test('round-trips a bundle', () => {
+    expect(decodeProgressBundle(encodeProgressBundle(BUNDLE))).toEqual(BUNDLE);
+  });
+
+  test('omits empty fields to keep codes short', () => {
+    const empty: ProgressBundle = {
+      version: PROGRESS_BUNDLE_VERSION,
+      steps: [],
+      lessons: [],
+      os: null,
+      vpsIP: null,
+      commands: [],
+    };
+    const encoded = encodeProgressBundle(empty);
+
+    expect(Buffer.from(encoded, 'base64url').toString()).toBe('{"v":1}');
+    expect(decodeProgressBundle(encoded)).toEqual(empty);
+  });
+
+  test('produces URL-safe output', () => {
+    expect(encodeProgressBundle(BUNDLE)).toMatch(/^[A-Za-z0-9_-]+$/);
+  });
+
+  test('rejects garbage', () => {
+    for (const input of ['', 'not base64!', encodeWire([1, 2]), 'x'.repeat(5000)]) {
+      expect(() => decodeProgressBundle(input)).toThrow(ProgressBundleError);
+    }
+  });
+});
+
+describe('validateProgressBundle', () => {
+  test('dedupes and sorts ids', () => {
+    const bundle = validateProgressBundle({ v: 1, s: [3, 1, 3], l: [2, 0], c: ['b', 'a', 'b'] });
+
+    expect(bundle.steps).toEqual([1, 3]);
+    expect(bundle.lessons).toEqual([0, 2]);
+    expect(bundle.commands).toEqual(['a', 'b']);
+  });
+
+  test('explains codes from a newer version', () => {
+    expect(() => validateProgressBundle({ v: PROGRESS_BUNDLE_VERSION + 1 })).toThrow('newer version');
+  });
+
+  test.each([
+    ['steps out of range', { v: 1, s: [0] }],
+    ['fractional lesson', { v: 1, l: [1.5] }],
+    ['lesson past the end', { v: 1, l: [10_000] }],
+    ['unknown OS', { v: 1, o: 'beos' }],
+    ['invalid IP', { v: 1, i: '999.1.1.1' }],
+    ['command key with spaces', { v: 1, c: ['rm -rf'] }],
+    ['too many commands', { v: 1, c: Array.from({ length: 101 }, (_, i) => `cmd-${i}`) }],
+    ['missing version', { s: [1] }],
+  ])('rejects %s', (_label, wire) => {
+    expect(() => validateProgressBundle(wire)).toThrow(ProgressBundleError);
+  });
+});
+
+describe('extractProgressCode', () => {
+  test('accepts a bare code or a sync link', () => {
+    expect(extractProgressCode('  abc.def  ')).toBe('abc.def');
+    expect(extractProgressCode('https://example.com/sync#abc.def')).toBe('abc.def');
+  });
+});
+
+describe('progress code signatures', () => {
+  const payload = encodeProgressBundle(BUNDLE);
+
+  test('verifies codes it signed', () => {
+    expect(verifyProgressCode(signProgressPayload(payload, SECRET), SECRET)).toBe(payload);
+  });
+
+  test('rejects a modified or truncated payload', () => {
+    const code = signProgressPayload(payload, SECRET);
+    const signature = code.slice(code.lastIndexOf('.'));
+    const forged = encodeProgressBundle({ ...BUNDLE, vpsIP: '198.51.100.66' });
+
+    expect(verifyProgressCode(`${forged}${signature}`, SECRET)).toBeNull();
+    expect(verifyProgressCode(`${payload.slice(0, -4)}${signature}`, SECRET)).toBeNull();
+    expect(verifyProgressCode(code.slice(0, -2), SECRET)).toBeNull();
+  });
+
+  test('rejects other secrets and unsigned codes', () => {
+    const code = signProgressPayload(payload, SECRET);
+
+    expect(verifyProgressCode(code, `${SECRET}-rotated`)).toBeNull();
+    expect(verifyProgressCode(payload, SECRET)).toBeNull();
+    expect(verifyProgressCode(`${payload}.`, SECRET)).toBeNull();
+  });
+
+  test('requires a long enough secret', () => {
+    expect(getProgressSyncSecret({} as NodeJS.ProcessEnv)).toBeNull();
+    expect(getProgressSyncSecret({ PROGRESS_SYNC_SECRET: 'short' } as unknown as NodeJS.ProcessEnv)).toBeNull();
+    expect(getProgressSyncSecret({ PROGRESS_SYNC_SECRET: SECRET } as unknown as NodeJS.ProcessEnv)).toBe(SECRET);
+  });
+});
+
+describe('getProgressQrCode', () => {
+  test('renders a link as a PNG data URL', async () => {
+    const code = signProgressPayload(encodeProgressBundle(BUNDLE), SECRET);
+    expect(await getProgressQrCode(`https://agent-flywheel.com/sync#${code}`)).toStartWith('data:image/png;base64,');
+  });
+
+  test('gives up on links too long for a QR code', async () => {
+    expect(await getProgressQrCode(`https://agent-flywheel.com/sync#${'a'.repeat(4000)}`)).toBeNull();
+  });
+});
+
+describe('getVpsIPChange', () => {
+  test('reports an incoming IP that would replace a different stored one', () => {
+    expect(getVpsIPChange(BUNDLE, '198.51.100.66')).toEqual({ from: '198.51.100.66', to: '203.0.113.7' });
+  });
+
+  test('needs no confirmation when nothing changes', () => {
+    expect(getVpsIPChange(BUNDLE, null)).toBeNull();
+    expect(getVpsIPChange(BUNDLE, ' 203.0.113.7 ')).toBeNull();
+    expect(getVpsIPChange({ ...BUNDLE, vpsIP: null }, '198.51.100.66')).toBeNull();
+  });
+});
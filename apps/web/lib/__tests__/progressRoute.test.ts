@@ -0,0 +1,72 @@
+import { afterEach, describe, test, expect } from 'bun:test';
+import { NextRequest } from 'next/server';
+import { GET, POST } from '../../app/api/progress/route';
+import { encodeProgressBundle, PROGRESS_BUNDLE_VERSION } from '../progressBundle';
+
+const SECRET = 'test-secret-that-is-long-enough-for-hmac';
+
+const PAYLOAD = encodeProgressBundle({
+  version: PROGRESS_BUNDLE_VERSION,
+  steps: [1, 2],
+  lessons: [0],
+  os: 'linux',
+  vpsIP: '203.0.113.7',
+  commands: [],
+});
+
+function progressRequest(body: unknown): NextRequest {
+  return new NextRequest('http://localhost/api/progress', {
+    method: 'POST',
+    headers: { 'content-type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+}
+
+async function signPayload(payload: string): Promise<string> {
+  const response = await POST(progressRequest({ payload }));
+  expect(response.status).toBe(200);
+  return (await response.json()).code;
+}
+
+afterEach(() => {
+  delete process.env.PROGRESS_SYNC_SECRET;
+});
+
+describe('/api/progress', () => {
+  test('is unavailable without a secret', async () => {
+    expect(await (await GET()).json()).toEqual({ configured: false });
+    expect((await POST(progressRequest({ payload: PAYLOAD }))).status).toBe(503);
+  });
+
+  test('verifies the codes it signs', async () => {
+    process.env.PROGRESS_SYNC_SECRET = SECRET;
+    const code = await signPayload(PAYLOAD);
+
+    expect(code.startsWith(`${PAYLOAD}.`)).toBe(true);
+    expect(await (await POST(progressRequest({ code }))).json()).toEqual({ valid: true });
+  });
+
+  test('rejects codes changed after signing', async () => {
+    process.env.PROGRESS_SYNC_SECRET = SECRET;
+    const code = await signPayload(PAYLOAD);
+    const signature = code.slice(code.lastIndexOf('.'));
+    const altered = encodeProgressBundle({
+      version: PROGRESS_BUNDLE_VERSION,
+      steps: [1, 2],
+      lessons: [0],
+      os: 'linux',
+      vpsIP: '198.51.100.66',
+      commands: [],
+    });
+
+    for (const tampered of [`${altered}${signature}`, code.slice(0, -3)]) {
+      expect(await (await POST(progressRequest({ code: tampered }))).json()).toEqual({ valid: false });
+    }
+  });
+
+  test('refuses to sign an invalid bundle', async () => {
+    process.env.PROGRESS_SYNC_SECRET = SECRET;
+    const response = await POST(progressRequest({ payload: 'not-a-bundle' }));
+    expect(response.status).toBe(400);
+  });
+});
@@ -0,0 +1,309 @@
+import { describe, test, expect, beforeAll, afterAll } from 'bun:test';
+import net from 'net';
+import {
+  classifyUserAgent,
+  createMemoryRateLimitStore,
+  createRateLimitStore,
+  createRedisRateLimitStore,
+  createSlidingWindowLimiter,
+  RateLimitStoreError,
+  type RateLimitStore,
+} from '../rateLimit';
+import { createRedisClient, encodeCommand, parseReply, type RedisClient } from '../redisClient';
+
+const WINDOW_MS = 60_000;
+
+function limiterAt(store: RateLimitStore, limit: number) {
+  const clock = { now: 0 };
+  const limiter = createSlidingWindowLimiter({
+    store,
+    limit,
+    windowMs: WINDOW_MS,
+    now: () => clock.now,
+  });
+  return { clock, limiter };
+}
+
+/**
+ * In-process server speaking just enough RESP for the Redis store:
+ * AUTH, MULTI/EXEC, INCRBY, PEXPIRE and GET.
+ */
+function startFakeRedis(password?: string) {
+  const data = new Map<string, string>();
+  const expiries = new Map<string, number>();
+  const reply = (value: string | number | null): string => {
+    if (value === null) return '$-1\r\n';
+    if (typeof value === 'number') return `:${value}\r\n`;
+    return `$${Buffer.byteLength(value)}\r\n${value}\r\n`;
+  };
+
+  const execute = (args: string[]): string => {
+    const [command, key, value] = args;
+    switch (command.toUpperCase()) {
+      case 'INCRBY': {
+        const next = Number(data.get(key) ?? 0) + Number(value);
+        data.set(key, String(next));
+        return reply(next);
+      }
+      case 'PEXPIRE':
+        expiries.set(key, Number(value));
+        return reply(1);
+      case 'GET':
+        return reply(data.get(key) ?? null);
+      default:
+        return `-ERR unknown command '${command}'\r\n`;
+    }
+  };
+
+  const server = net.createServer((socket) => {
+    let buffer = Buffer.alloc(0);
+    let queued: string[][] | null = null;
+    let authed = !password;
+
+    socket.on('data', (chunk) => {
+      buffer = Buffer.concat([buffer, chunk]);
+      let out = '';
+      let parsed = parseReply(buffer);
+      while (parsed) {
+        const args = parsed.reply as string[];
+        buffer = buffer.subarray(parsed.offset);
+        const command = args[0].toUpperCase();
+
+        if (command === 'AUTH') {
+          authed = args[args.length - 1] === password;
+          out += authed ? '+OK\r\n' : '-WRONGPASS invalid password\r\n';
+        } else if (!authed) {
+          out += '-NOAUTH Authentication required.\r\n';
+        } else if (command === 'MULTI') {
+          queued = [];
+          out += '+OK\r\n';
+        } else if (command === 'EXEC') {
+          const commands = queued ?? [];
+          queued = null;
+          out += `*${commands.length}\r\n${commands.map(execute).join('')}`;
+        } else if (queued) {
+          queued.push(args);
+          out += '+QUEUED\r\n';
+        } else {
+          out += execute(args);
+        }
+        parsed = parseReply(buffer);
+      }
+      if (out) socket.write(out);
+    });
+  });
+
+  return { server, data, expiries };
+}
+
+describe('createSlidingWindowLimiter', () => {
+  test('allows up to the limit within a window', async () => {
+    const { limiter } = limiterAt(createMemoryRateLimitStore(), 3);
+
+    const results = [];
+    for (let i = 0; i < 4; i++) results.push(await limiter.check('ip:1'));
+
+    expect(results.map((r) => r.allowed)).toEqual([true, true, true, false]);
+    expect(results.map((r) => r.remaining)).toEqual([2, 1, 0, 0]);
+    expect(results[3].retryAfterSeconds).toBeGreaterThan(0);
+  });
+
+  test('keeps keys independent', async () => {
+    const { limiter } = limiterAt(createMemoryRateLimitStore(), 1);
+
+    expect((await limiter.check('ip:1')).allowed).toBe(true);
+    expect((await limiter.check('ip:1')).allowed).toBe(false);
+    expect((await limiter.check('ip:2')).allowed).toBe(true);
+  });
+
+  test('weights the previous window by its remaining overlap', async () => {
+    const { clock, limiter } = limiterAt(createMemoryRateLimitStore(), 10);
+
+    clock.now = 0;
+    for (let i = 0; i < 10; i++) await limiter.check('k');
+
+    // Half way through the next window, 10 * 0.5 = 5 requests still count
+    clock.now = WINDOW_MS * 1.5;
+    const results = [];
+    for (let i = 0; i < 6; i++) results.push(await limiter.check('k'));
+    expect(results.map((r) => r.allowed)).toEqual([true, true, true, true, true, false]);
+  });
+
+  test('forgets windows older than the previous one', async () => {
+    const { clock, limiter } = limiterAt(createMemoryRateLimitStore(), 2);
+
+    await limiter.check('k');
+    await limiter.check('k');
+    expect((await limiter.check('k')).allowed).toBe(false);
+
+    clock.now = WINDOW_MS * 2;
+    expect((await limiter.check('k')).allowed).toBe(true);
+  });
+
+  test('Retry-After points at the first moment a request fits again', async () => {
+    const { clock, limiter } = limiterAt(createMemoryRateLimitStore(), 2);
+
+    clock.now = 15_000;
+    await limiter.check('k');
+    await limiter.check('k');
+    const denied = await limiter.check('k');
+    expect(denied.allowed).toBe(false);
+    // 3 hits this window: wait 45s for it to end, then until 3 * (1 - x) + 1 <= 2
+    expect(denied.retryAfterSeconds).toBe(45 + 40);
+
+    clock.now = 15_000 + denied.retryAfterSeconds * 1000;
+    expect((await limiter.check('k')).allowed).toBe(true);
+  });
+
+  test('counts the cost of a request', async () => {
+    const { limiter } = limiterAt(createMemoryRateLimitStore(), 10);
+
+    expect((await limiter.check('k', 8)).remaining).toBe(2);
+    expect((await limiter.check('k', 3)).allowed).toBe(false);
+  });
+});
+
+describe('createMemoryRateLimitStore', () => {
+  test('drops the oldest counters past maxKeys', async () => {
+    const store = createMemoryRateLimitStore({ maxKeys: 2 });
+
+    await store.hit('a', 0, WINDOW_MS, 1);
+    await store.hit('b', 0, WINDOW_MS, 1);
+    await store.hit('c', 0, WINDOW_MS, 1);
+
+    expect((await store.hit('b', 0, WINDOW_MS, 1)).current).toBe(2);
+    // 'a' was evicted to make room for 'c'
+    expect((await store.hit('a', 0, WINDOW_MS, 1)).current).toBe(1);
+  });
+
+  test('reports the previous window', async () => {
+    const store = createMemoryRateLimitStore();
+
+    await store.hit('k', 0, WINDOW_MS, 4);
+    expect(await store.hit('k', WINDOW_MS, WINDOW_MS, 1)).toEqual({ current: 1, previous: 4 });
+  });
+});
+
+describe('createRedisRateLimitStore', () => {
+  const fake = startFakeRedis('s3cret');
+  let client: RedisClient;
+
+  beforeAll(async () => {
+    await new Promise<void>((resolve) => fake.server.listen(0, '127.0.0.1', resolve));
+    const { port } = fake.server.address() as net.AddressInfo;
+    client = createRedisClient(`redis://:s3cret@127.0.0.1:${port}`);
+  });
+
+  afterAll(async () => {
+    client.close();
+    await new Promise((resolve) => fake.server.close(resolve));
+  });
+
+  test('counts hits in a transaction and expires them after two windows', async () => {
+    const store = createRedisRateLimitStore(client, 'test:');
+
+    expect(await store.hit('ip:1', 0, WINDOW_MS, 1)).toEqual({ current: 1, previous: 0 });
+    expect(await store.hit('ip:1', 0, WINDOW_MS, 2)).toEqual({ current: 3, previous: 0 });
+    expect(await store.hit('ip:1', WINDOW_MS, WINDOW_MS, 1)).toEqual({ current: 1, previous: 3 });
+
+    expect(fake.data.get('test:ip:1:0')).toBe('3');
+    expect(fake.expiries.get('test:ip:1:0')).toBe(2 * WINDOW_MS);
+  });
+
+  test('drives the sliding window limiter', async () => {
+    const { limiter } = limiterAt(createRedisRateLimitStore(client, 'limiter:'), 2);
+
+    const results = [];
+    for (let i = 0; i < 3; i++) results.push((await limiter.check('client:abc')).allowed);
+    expect(results).toEqual([true, true, false]);
+  });
+
+  test('fails when the server rejects the credentials', async () => {
+    const { port } = fake.server.address() as net.AddressInfo;
+    const badClient = createRedisClient(`redis://:wrong@127.0.0.1:${port}`);
+    const store = createRedisRateLimitStore(badClient);
+
+    await expect(store.hit('k', 0, WINDOW_MS, 1)).rejects.toThrow('WRONGPASS');
+    badClient.close();
+  });
+
+  test('rejects an aborted transaction', async () => {
+    const aborted: RedisClient = {
+      pipeline: async () => ['OK', 'QUEUED', 'QUEUED', 'QUEUED', null],
+      close: () => {},
+    };
+
+    await expect(createRedisRateLimitStore(aborted).hit('k', 0, WINDOW_MS, 1)).rejects.toThrow(
+      RateLimitStoreError
+    );
+  });
+});
+
+describe('createRateLimitStore', () => {
+  test('defaults to memory', () => {
+    expect(createRateLimitStore({} as NodeJS.ProcessEnv).name).toBe('memory');
+  });
+
+  test('uses redis when a URL is configured', () => {
+    const env = {
+      RATE_LIMIT_STORE: 'redis',
+      RATE_LIMIT_REDIS_URL: 'redis://localhost:6379',
+    } as unknown as NodeJS.ProcessEnv;
+    expect(createRateLimitStore(env).name).toBe('redis');
+  });
+
+  test('falls back to memory when redis is misconfigured', () => {
+    const missing = { RATE_LIMIT_STORE: 'redis' } as unknown as NodeJS.ProcessEnv;
+    const invalid = {
+      RATE_LIMIT_STORE: 'redis',
+      RATE_LIMIT_REDIS_URL: 'http://localhost',
+    } as unknown as NodeJS.ProcessEnv;
+    expect(createRateLimitStore(missing).name).toBe('memory');
+    expect(createRateLimitStore(invalid).name).toBe('memory');
+  });
+});
+
+describe('redis protocol helpers', () => {
+  test('encodes commands as arrays of bulk strings', () => {
+    expect(encodeCommand(['INCRBY', 'k', 2])).toBe('*3\r\n$6\r\nINCRBY\r\n$1\r\nk\r\n$1\r\n2\r\n');
+  });
+
+  test('parses nested replies and waits for complete ones', () => {
+    const full = Buffer.from('*3\r\n:1\r\n$-1\r\n$2\r\nhi\r\n');
+    expect(parseReply(full)).toEqual({ reply: [1, null, 'hi'], offset: full.length });
+    expect(parseReply(full.subarray(0, full.length - 3))).toBeNull();
+  });
+});
+
+describe('classifyUserAgent', () => {
+  test('accepts browsers', () => {
+    expect(
+      classifyUserAgent(
+        'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/131.0.0.0 Safari/537.36'
+      )
+    ).toBe('browser');
+    expect(
+      classifyUserAgent(
+        'Mozilla/5.0 (iPhone; CPU iPhone OS 18_1 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/18.1 Mobile/15E148 Safari/604.1'
+      )
+    ).toBe('browser');
+  });
+
+  test('flags crawlers, headless browsers and HTTP libraries', () => {
+    for (const userAgent of [
+      'Mozilla/5.0 (compatible; Googlebot/2.1; +http://www.google.com/bot.html)',
+      'Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) HeadlessChrome/131.0.0.0 Safari/537.36',
+      'curl/8.5.0',
+      'python-requests/2.32.3',
+      'Go-http-client/1.1',
+      `Mozilla/5.0 ${'x'.repeat(600)}`,
+    ]) {
+      expect(classifyUserAgent(userAgent)).toBe('bot');
+    }
+  });
+
+  test('flags a missing user agent', () => {
+    expect(classifyUserAgent(null)).toBe('missing');
+    expect(classifyUserAgent('   ')).toBe('missing');
+  });
+});
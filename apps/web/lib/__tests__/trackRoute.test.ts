@@ -0,0 +1,63 @@
+import { beforeAll, describe, test, expect } from 'bun:test';
+import { NextRequest } from 'next/server';
+
+const BROWSER_UA = 'Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/126.0 Safari/537.36';
+
+let POST: (request: NextRequest) => Promise<Response>;
+
+beforeAll(async () => {
+  // The route picks its sink when loaded; 'none' accepts and drops events
+  process.env.ANALYTICS_SINK = 'none';
+  ({ POST } = await import('../../app/api/track/route'));
+});
+
+let nextIp = 1;
+
+function trackRequest(body: unknown, headers: Record<string, string> = {}): NextRequest {
+  return new NextRequest('http://localhost/api/track', {
+    method: 'POST',
+    headers: {
+      'content-type': 'application/json',
+      'user-agent': BROWSER_UA,
+      // A fresh IP per request keeps the per-IP limiter out of the way
+      'x-forwarded-for': `198.51.100.${nextIp++}`,
+      ...headers,
+    },
+    body: JSON.stringify(body),
+  });
+}
+
+const EVENTS = [{ name: 'page_view', params: { page_path: '/' } }];
+
+describe('POST /api/track consent', () => {
+  test('accepts events sent with consent granted', async () => {
+    const response = await POST(trackRequest({ client_id: '123.456', consent: 'granted', events: EVENTS }));
+    expect(response.status).toBe(200);
+  });
+
+  test('refuses requests without granted consent', async () => {
+    for (const consent of [undefined, 'pending', 'denied', true]) {
+      const response = await POST(trackRequest({ client_id: '123.456', consent, events: EVENTS }));
+      expect(response.status).toBe(403);
+      expect(await response.json()).toEqual({ error: 'Analytics consent required' });
+    }
+  });
+
+  test('refuses requests carrying Do-Not-Track or Global Privacy Control', async () => {
+    const privacyHeaders: Array<Record<string, string>> = [{ dnt: '1' }, { 'sec-gpc': '1' }];
+    for (const header of privacyHeaders) {
+      const response = await POST(
+        trackRequest({ client_id: '123.456', consent: 'granted', events: EVENTS }, header)
+      );
+      expect(response.status).toBe(403);
+      expect(await response.json()).toEqual({ error: 'Tracking disabled by browser privacy signal' });
+    }
+  });
+
+  test('ignores DNT and GPC headers set to 0', async () => {
+    const response = await POST(
+      trackRequest({ client_id: '123.456', consent: 'granted', events: EVENTS }, { dnt: '0', 'sec-gpc': '0' })
+    );
+    expect(response.status).toBe(200);
+  });
+});
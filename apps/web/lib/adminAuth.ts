@@ -0,0 +1,63 @@
+/**
+ * Access control for /admin pages
+ *
+ * Admin pages are off unless ADMIN_TOKEN is set. With it, requests need HTTP
+ * Basic auth with the token as password (any user name), or
+ * `Authorization: Bearer <token>` for scripts. Checked in proxy.ts and again
+ * by each page.
+ */
+
+export type AdminAccess = 'disabled' | 'unauthorized' | 'granted';
+
+const MIN_ADMIN_TOKEN_LENGTH = 16;
+
+export const ADMIN_AUTH_REALM = 'ACFS admin';
+
+/**
+ * ADMIN_TOKEN, or null when unset or too short to be worth guessing
+ */
+export function getAdminToken(env: NodeJS.ProcessEnv = process.env): string | null {
+  const token = env.ADMIN_TOKEN?.trim();
+  if (!token) return null;
+  if (token.length < MIN_ADMIN_TOKEN_LENGTH) {
+    console.warn(`ADMIN_TOKEN must be at least ${MIN_ADMIN_TOKEN_LENGTH} characters; admin pages disabled`);
+    return null;
+  }
+  return token;
+}
+
+// Walks the whole secret so the time taken doesn't reveal a matching prefix
+function constantTimeEqual(presented: string, secret: string): boolean {
+  let diff = presented.length ^ secret.length;
+  for (let i = 0; i < secret.length; i++) {
+    diff |= (presented.charCodeAt(i) || 0) ^ secret.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+function getPresentedToken(authorization: string | null): string | null {
+  const match = /^(Basic|Bearer)\s+(.+)$/i.exec(authorization?.trim() ?? '');
+  if (!match) return null;
+  if (match[1].toLowerCase() === 'bearer') return match[2];
+
+  let decoded: string;
+  try {
+    decoded = atob(match[2]);
+  } catch {
+    return null;
+  }
+  const separator = decoded.indexOf(':');
+  return separator === -1 ? null : decoded.slice(separator + 1);
+}
+
+/**
+ * Decide access from an Authorization header value
+ */
+export function checkAdminAccess(
+  authorization: string | null,
+  token: string | null = getAdminToken()
+): AdminAccess {
+  if (!token) return 'disabled';
+  const presented = getPresentedToken(authorization);
+  return presented !== null && constantTimeEqual(presented, token) ? 'granted' : 'unauthorized';
+}
@@ -6,6 +6,14 @@
 
 import { safeGetItem, safeSetItem, safeGetJSON, safeSetJSON } from './utils';
 import { TOTAL_STEPS } from './wizardSteps';
+import {
+  createGtagTransport,
+  createServerTransport,
+  noopTransport,
+  resolveAnalyticsTransportName,
+  type AnalyticsTransport,
+} from './analyticsTransport';
+import { createConsentQueue, getAnalyticsConsent, subscribeConsent } from './consent';
 
 // Types for GA4 events
 declare global {
@@ -56,10 +64,10 @@ function sanitizeGaMeasurementId(value: unknown): string | undefined {
 const GA_MEASUREMENT_ID_RAW = process.env.NEXT_PUBLIC_GA_MEASUREMENT_ID;
 export const GA_MEASUREMENT_ID = sanitizeGaMeasurementId(GA_MEASUREMENT_ID_RAW);
 
-// Check if analytics is available
-export const isAnalyticsEnabled = (): boolean => {
-  return typeof window !== 'undefined' && !!GA_MEASUREMENT_ID && !!window.gtag;
-};
+// Where events go (see lib/analyticsTransport.ts)
+export const ANALYTICS_TRANSPORT = resolveAnalyticsTransportName(
+  process.env.NEXT_PUBLIC_ANALYTICS_TRANSPORT
+);
 
 const GA_CLIENT_ID_STORAGE_KEY = 'ga_client_id';
 const MAX_GA_CLIENT_ID_LENGTH = 100;
@@ -135,29 +143,71 @@ const getClientId = (): string => {
   return normalized;
 };
 
+const transport: AnalyticsTransport =
+  ANALYTICS_TRANSPORT === 'ga4'
+    ? createGtagTransport(GA_MEASUREMENT_ID)
+    : ANALYTICS_TRANSPORT === 'server'
+      ? createServerTransport({ endpoint: '/api/track', getClientId })
+      : noopTransport;
+
+/** Whether the build is configured to send analytics at all */
+export const isAnalyticsConfigured = transport.configured;
+
+// Check if analytics is available
+export const isAnalyticsEnabled = (): boolean => {
+  return typeof window !== 'undefined' && transport.isReady();
+};
+
+// Calls made before the visitor has chosen (or before gtag has loaded) wait
+// here. They are sent once analytics consent is granted and dropped if it is
+// denied; DNT/GPC count as denied (see lib/consent.ts).
+const consentQueue = createConsentQueue({
+  getConsent: getAnalyticsConsent,
+  isReady: isAnalyticsEnabled,
+});
+
+function whenConsented(call: () => void): void {
+  if (typeof window === 'undefined' || !isAnalyticsConfigured) return;
+  consentQueue.run(call);
+}
+
+/**
+ * Send queued calls once consent is granted and the transport is ready.
+ * AnalyticsProvider calls this after loading gtag.
+ */
+export const flushAnalyticsQueue = (): void => {
+  consentQueue.flush();
+};
+
+if (typeof window !== 'undefined') {
+  subscribeConsent(consentQueue.onConsentChange);
+}
+
 /**
  * Server-side event tracking via Measurement Protocol
- * Bypasses ad blockers for reliable tracking
+ * Bypasses ad blockers for reliable tracking. Only needed alongside gtag: with
+ * the server transport every event already goes through /api/track.
  */
 export const sendServerEvent = async (
   eventName: string,
   params?: Record<string, string | number | boolean>
 ): Promise<void> => {
   if (typeof window === 'undefined') return;
-  if (!GA_MEASUREMENT_ID) return;
+  if (ANALYTICS_TRANSPORT !== 'ga4' || !GA_MEASUREMENT_ID) return;
 
-  try {
-    await fetch('/api/track', {
+  whenConsented(() => {
+    fetch('/api/track', {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({
         client_id: getClientId(),
+        consent: 'granted',
         events: [{ name: eventName, params }],
       }),
+    }).catch(() => {
+      // Silently fail - don't disrupt user experience
     });
-  } catch {
-    // Silently fail - don't disrupt user experience
-  }
+  });
 };
 
 // ============================================================
@@ -165,18 +215,17 @@ export const sendServerEvent = async (
 // ============================================================
 
 /**
- * Send a custom event to GA4
+ * Send a custom event through the configured transport
  */
 export const sendEvent = (
   eventName: string,
   parameters?: Record<string, unknown>
 ): void => {
-  if (!isAnalyticsEnabled()) return;
-
-  window.gtag('event', eventName, {
+  const params = {
     ...parameters,
     timestamp: new Date().toISOString(),
-  });
+  };
+  whenConsented(() => transport.sendEvent(eventName, params));
 };
 
 /**
@@ -185,9 +234,7 @@ export const sendEvent = (
 export const setUserProperties = (
   properties: Record<string, string | number | boolean>
 ): void => {
-  if (!isAnalyticsEnabled()) return;
-
-  window.gtag('set', 'user_properties', properties);
+  whenConsented(() => transport.setUserProperties(properties));
 };
 
 // ============================================================
@@ -769,7 +816,7 @@ export const trackExperimentVariant = (
 
 const FUNNEL_STORAGE_KEY = 'acfs_funnel_data';
 
-interface FunnelData {
+export interface FunnelData {
   sessionId: string;
   startedAt: string;
   currentStep: number;
@@ -0,0 +1,331 @@
+/**
+ * Analytics sinks for /api/track
+ *
+ * The route validates and sanitizes incoming events; a sink decides where they
+ * land. Selected with ANALYTICS_SINK:
+ *   ga4   - forward to the GA4 Measurement Protocol (default)
+ *   jsonl - append one JSON line per event to ANALYTICS_JSONL_PATH
+ *   none  - accept and drop
+ *
+ * Server-only: imports node:fs.
+ */
+
+import { createReadStream } from 'fs';
+import { appendFile, mkdir } from 'fs/promises';
+import path from 'path';
+import { createInterface } from 'readline';
+
+export type AnalyticsSinkName = 'ga4' | 'jsonl' | 'none';
+
+export type EventParams = Record<string, string | number | boolean>;
+
+export interface TrackedEvent {
+  name: string;
+  params: EventParams;
+}
+
+/** A sanitized /api/track request */
+export interface TrackBatch {
+  client_id: string;
+  session_id: number;
+  user_id?: string;
+  user_properties?: Record<string, { value: string | number }>;
+  events: TrackedEvent[];
+}
+
+/** One line of the JSONL sink */
+export interface StoredEvent {
+  received_at: string;
+  client_id: string;
+  session_id: number;
+  user_id?: string;
+  user_properties?: Record<string, string | number>;
+  name: string;
+  params: EventParams;
+}
+
+export interface AnalyticsSink {
+  name: AnalyticsSinkName;
+  /** False when the sink is missing required settings */
+  configured: boolean;
+  /** Non-secret details reported by GET /api/track */
+  details: Record<string, string | null>;
+  send(batch: TrackBatch): Promise<void>;
+}
+
+export class AnalyticsSinkError extends Error {
+  override name = 'AnalyticsSinkError';
+}
+
+const GA_FETCH_TIMEOUT_MS = 3000;
+const DEFAULT_JSONL_PATH = path.join('.analytics', 'events.jsonl');
+
+function stripEnvValue(value: string): string {
+  let cleaned = value.trim();
+
+  // Handle accidental quoting in env var values (common copy/paste mistake).
+  if (
+    (cleaned.startsWith('"') && cleaned.endsWith('"')) ||
+    (cleaned.startsWith("'") && cleaned.endsWith("'"))
+  ) {
+    cleaned = cleaned.slice(1, -1).trim();
+  }
+
+  // Remove common trailing garbage (escaped newlines, whitespace sequences)
+  // that can appear from misconfigured env vars or Vercel CLI pulls.
+  return cleaned.replace(/\\n$/, '').replace(/\s+$/, '');
+}
+
+export function sanitizeGaMeasurementId(value: unknown): string | undefined {
+  if (typeof value !== 'string') return undefined;
+
+  const cleaned = stripEnvValue(value);
+  if (!cleaned) return undefined;
+
+  // Extract valid GA4 measurement ID (G-XXXXXXXXXX).
+  // Use extraction rather than strict matching to handle edge cases.
+  const match = cleaned.match(/^(G-[A-Z0-9]+)/i);
+  if (match) return match[1];
+
+  return undefined;
+}
+
+export function sanitizeGaApiSecret(value: unknown): string | undefined {
+  if (typeof value !== 'string') return undefined;
+  // Remove trailing escaped newlines from Vercel CLI pulls
+  const cleaned = value.trim().replace(/\\n$/, '');
+  if (!cleaned || cleaned.length > 200) return undefined;
+  return cleaned;
+}
+
+/**
+ * GA4 Measurement Protocol sink
+ */
+export function createGa4Sink(
+  measurementId: string | undefined,
+  apiSecret: string | undefined
+): AnalyticsSink {
+  return {
+    name: 'ga4',
+    configured: !!(measurementId && apiSecret),
+    details: { measurementId: measurementId ? `${measurementId.slice(0, 4)}...` : null },
+    async send(batch) {
+      if (!measurementId || !apiSecret) {
+        throw new AnalyticsSinkError('GA4 sink is not configured');
+      }
+
+      const payload = {
+        client_id: batch.client_id,
+        events: batch.events.map((event) => ({
+          name: event.name,
+          params: {
+            ...event.params,
+            engagement_time_msec: 100,
+            session_id: batch.session_id,
+          },
+        })),
+        ...(batch.user_id && { user_id: batch.user_id }),
+        ...(batch.user_properties && { user_properties: batch.user_properties }),
+      };
+
+      const controller = new AbortController();
+      const timeout = setTimeout(() => controller.abort(), GA_FETCH_TIMEOUT_MS);
+
+      let response: Response;
+      try {
+        const endpoint = new URL('https://www.google-analytics.com/mp/collect');
+        endpoint.searchParams.set('measurement_id', measurementId);
+        endpoint.searchParams.set('api_secret', apiSecret);
+
+        response = await fetch(endpoint.toString(), {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(payload),
+          signal: controller.signal,
+        });
+      } finally {
+        clearTimeout(timeout);
+      }
+
+      if (!response.ok) {
+        console.error('GA4 MP error:', response.status, await response.text());
+        throw new AnalyticsSinkError(`GA4 responded with ${response.status}`);
+      }
+    },
+  };
+}
+
+/**
+ * Flatten a batch into one stored record per event
+ */
+export function toStoredEvents(batch: TrackBatch, receivedAt: Date): StoredEvent[] {
+  const userProperties = batch.user_properties
+    ? Object.fromEntries(
+        Object.entries(batch.user_properties).map(([key, { value }]) => [key, value])
+      )
+    : undefined;
+
+  return batch.events.map((event) => ({
+    received_at: receivedAt.toISOString(),
+    client_id: batch.client_id,
+    session_id: batch.session_id,
+    ...(batch.user_id && { user_id: batch.user_id }),
+    ...(userProperties && { user_properties: userProperties }),
+    name: event.name,
+    params: event.params,
+  }));
+}
+
+/**
+ * Append-only JSONL sink: one event per line, queryable offline with jq
+ * or DuckDB
+ */
+export function createJsonlSink(filePath: string): AnalyticsSink {
+  let directoryReady = false;
+
+  return {
+    name: 'jsonl',
+    configured: true,
+    details: {},
+    async send(batch) {
+      const lines = toStoredEvents(batch, new Date())
+        .map((event) => JSON.stringify(event))
+        .join('\n');
+
+      try {
+        if (!directoryReady) {
+          await mkdir(path.dirname(filePath), { recursive: true });
+          directoryReady = true;
+        }
+        // A single append per batch keeps concurrent requests from interleaving lines.
+        await appendFile(filePath, `${lines}\n`, 'utf-8');
+      } catch (error) {
+        console.error('JSONL sink error:', error);
+        throw new AnalyticsSinkError('Failed to write analytics events');
+      }
+    },
+  };
+}
+
+function isStoredEvent(value: unknown): value is StoredEvent {
+  if (typeof value !== 'object' || value === null) return false;
+  const event = value as Record<string, unknown>;
+  return (
+    typeof event.received_at === 'string' &&
+    typeof event.client_id === 'string' &&
+    typeof event.name === 'string' &&
+    typeof event.params === 'object' &&
+    event.params !== null
+  );
+}
+
+function parseStoredEventLine(line: string): StoredEvent | null {
+  if (!line.trim()) return null;
+  try {
+    const parsed: unknown = JSON.parse(line);
+    return isStoredEvent(parsed) ? parsed : null;
+  } catch {
+    // A crash mid-append can leave a partial last line
+    return null;
+  }
+}
+
+/**
+ * Parse JSONL sink output, skipping blank, truncated or foreign lines
+ */
+export function parseStoredEvents(text: string): StoredEvent[] {
+  return text
+    .split('\n')
+    .map(parseStoredEventLine)
+    .filter((event): event is StoredEvent => event !== null);
+}
+
+export interface ReadStoredEventsOptions {
+  /** Skip events received before this moment */
+  since?: Date | null;
+  /** Keep only the most recent events (the file is append-only, so the last lines) */
+  limit?: number;
+}
+
+/**
+ * Stream what the JSONL sink has written, line by line, so only the events
+ * that pass `since` and `limit` are held in memory. A missing file means no
+ * events yet.
+ */
+export async function readStoredEvents(
+  filePath: string,
+  options: ReadStoredEventsOptions = {}
+): Promise<StoredEvent[]> {
+  const sinceIso = options.since?.toISOString();
+  const limit = options.limit ?? Infinity;
+  let events: StoredEvent[] = [];
+
+  const lines = createInterface({
+    input: createReadStream(filePath, { encoding: 'utf-8' }),
+    crlfDelay: Infinity,
+  });
+  try {
+    for await (const line of lines) {
+      const event = parseStoredEventLine(line);
+      if (!event || (sinceIso && event.received_at < sinceIso)) continue;
+      events.push(event);
+      // Trim in chunks rather than shifting on every line
+      if (events.length >= limit * 2) events = events.slice(-limit);
+    }
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw error;
+  }
+  return events.length > limit ? events.slice(-limit) : events;
+}
+
+export const noopSink: AnalyticsSink = {
+  name: 'none',
+  configured: true,
+  details: {},
+  async send() {
+    // Intentionally drops events
+  },
+};
+
+/**
+ * Resolve ANALYTICS_SINK. Unknown values disable tracking rather than falling
+ * back to GA4, so a typo never sends data to Google by accident.
+ */
+export function resolveAnalyticsSinkName(value: string | undefined): AnalyticsSinkName | null {
+  const cleaned = value ? stripEnvValue(value).toLowerCase() : '';
+  if (!cleaned) return 'ga4';
+  if (cleaned === 'ga4' || cleaned === 'jsonl' || cleaned === 'none') return cleaned;
+  return null;
+}
+
+/**
+ * Absolute path of the JSONL sink's file (ANALYTICS_JSONL_PATH)
+ */
+export function resolveJsonlPath(env: NodeJS.ProcessEnv = process.env): string {
+  return path.resolve(
+    env.ANALYTICS_JSONL_PATH ? stripEnvValue(env.ANALYTICS_JSONL_PATH) : DEFAULT_JSONL_PATH
+  );
+}
+
+/**
+ * Build the sink selected by the environment
+ */
+export function createAnalyticsSink(env: NodeJS.ProcessEnv = process.env): AnalyticsSink {
+  const name = resolveAnalyticsSinkName(env.ANALYTICS_SINK);
+
+  switch (name) {
+    case 'ga4':
+      return createGa4Sink(
+        sanitizeGaMeasurementId(env.NEXT_PUBLIC_GA_MEASUREMENT_ID),
+        sanitizeGaApiSecret(env.GA_API_SECRET)
+      );
+    case 'jsonl':
+      return createJsonlSink(resolveJsonlPath(env));
+    case 'none':
+      return noopSink;
+    default:
+      console.warn(`Unknown ANALYTICS_SINK "${env.ANALYTICS_SINK}"; analytics disabled`);
+      return { ...noopSink, configured: false };
+  }
+}
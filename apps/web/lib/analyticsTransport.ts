@@ -0,0 +1,121 @@
+/**
+ * Client-side analytics transports
+ *
+ * sendEvent/setUserProperties in lib/analytics.ts go through one of these,
+ * selected at build time with NEXT_PUBLIC_ANALYTICS_TRANSPORT:
+ *   ga4    - gtag.js in the browser (default)
+ *   server - POST to /api/track, which stores events via ANALYTICS_SINK
+ *   none   - drop everything
+ */
+
+export type AnalyticsTransportName = 'ga4' | 'server' | 'none';
+
+export type UserProperties = Record<string, string | number | boolean>;
+
+export interface AnalyticsTransport {
+  name: AnalyticsTransportName;
+  /** Whether the site is configured to send anything with this transport */
+  configured: boolean;
+  /** Whether events can be sent right now (e.g. gtag has loaded) */
+  isReady(): boolean;
+  sendEvent(eventName: string, parameters: Record<string, unknown>): void;
+  setUserProperties(properties: UserProperties): void;
+}
+
+/**
+ * Resolve NEXT_PUBLIC_ANALYTICS_TRANSPORT. Unknown values disable tracking
+ * rather than falling back to GA4.
+ */
+export function resolveAnalyticsTransportName(
+  value: string | undefined
+): AnalyticsTransportName {
+  const cleaned = value?.trim().toLowerCase() ?? '';
+  if (!cleaned) return 'ga4';
+  if (cleaned === 'ga4' || cleaned === 'server' || cleaned === 'none') return cleaned;
+  return 'none';
+}
+
+export function createGtagTransport(measurementId: string | undefined): AnalyticsTransport {
+  return {
+    name: 'ga4',
+    configured: !!measurementId,
+    isReady: () => typeof window !== 'undefined' && !!measurementId && !!window.gtag,
+    sendEvent(eventName, parameters) {
+      window.gtag('event', eventName, parameters);
+    },
+    setUserProperties(properties) {
+      window.gtag('set', 'user_properties', properties);
+    },
+  };
+}
+
+// /api/track accepts at most 10 events per request
+const SERVER_BATCH_SIZE = 10;
+const SERVER_FLUSH_DELAY_MS = 1000;
+
+/**
+ * Batches events and POSTs them to the site's own /api/track endpoint.
+ * User properties are kept in memory and attached to every batch. lib/analytics
+ * only hands events over after consent, so batches are marked as consented.
+ */
+export function createServerTransport(options: {
+  endpoint: string;
+  getClientId: () => string;
+}): AnalyticsTransport {
+  let queue: Array<{ name: string; params: Record<string, unknown> }> = [];
+  let flushTimer: ReturnType<typeof setTimeout> | null = null;
+  const userProperties: Record<string, { value: string | number }> = {};
+
+  const flush = () => {
+    if (flushTimer) {
+      clearTimeout(flushTimer);
+      flushTimer = null;
+    }
+    while (queue.length > 0) {
+      const events = queue.slice(0, SERVER_BATCH_SIZE);
+      queue = queue.slice(SERVER_BATCH_SIZE);
+      const body = JSON.stringify({
+        client_id: options.getClientId(),
+        consent: 'granted',
+        events,
+        ...(Object.keys(userProperties).length > 0 && { user_properties: userProperties }),
+      });
+      // keepalive lets page_exit and friends survive navigation
+      fetch(options.endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body,
+        keepalive: true,
+      }).catch(() => {
+        // Silently fail - don't disrupt user experience
+      });
+    }
+  };
+
+  return {
+    name: 'server',
+    configured: true,
+    isReady: () => typeof window !== 'undefined',
+    sendEvent(eventName, parameters) {
+      queue.push({ name: eventName, params: parameters });
+      if (queue.length >= SERVER_BATCH_SIZE || eventName === 'page_exit') {
+        flush();
+      } else if (!flushTimer) {
+        flushTimer = setTimeout(flush, SERVER_FLUSH_DELAY_MS);
+      }
+    },
+    setUserProperties(properties) {
+      for (const [key, value] of Object.entries(properties)) {
+        userProperties[key] = { value: typeof value === 'boolean' ? String(value) : value };
+      }
+    },
+  };
+}
+
+export const noopTransport: AnalyticsTransport = {
+  name: 'none',
+  configured: false,
+  isReady: () => false,
+  sendEvent() {},
+  setUserProperties() {},
+};
@@ -0,0 +1,52 @@
+/**
+ * Command Completion Storage
+ *
+ * The "I ran this" checkboxes on CommandCard persist one localStorage entry
+ * per command, keyed by the card's persistKey.
+ */
+
+import { safeGetItem, safeSetItem } from "./utils";
+
+const COMPLETION_KEY_PREFIX = "acfs-command-";
+
+export function getCompletionKey(persistKey: string | undefined): string | null {
+  return persistKey ? `${COMPLETION_KEY_PREFIX}${persistKey}` : null;
+}
+
+export function getCompletionFromStorage(key: string | null): boolean {
+  if (!key) return false;
+  return safeGetItem(key) === "true";
+}
+
+export function setCompletionInStorage(key: string, completed: boolean): void {
+  safeSetItem(key, completed ? "true" : "false");
+}
+
+/**
+ * persistKeys of every command marked as run in this browser
+ */
+export function getCompletedCommands(): string[] {
+  if (typeof window === "undefined") return [];
+  const completed: string[] = [];
+  try {
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      if (key?.startsWith(COMPLETION_KEY_PREFIX) && getCompletionFromStorage(key)) {
+        completed.push(key.slice(COMPLETION_KEY_PREFIX.length));
+      }
+    }
+  } catch {
+    // localStorage unavailable (private mode, disabled storage)
+  }
+  return completed.sort();
+}
+
+/**
+ * Mark commands as run (never unmarks any)
+ */
+export function addCompletedCommands(persistKeys: string[]): void {
+  for (const persistKey of persistKeys) {
+    const key = getCompletionKey(persistKey);
+    if (key) setCompletionInStorage(key, true);
+  }
+}
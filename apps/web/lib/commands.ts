@@ -1,3 +1,5 @@
+import { getToolCatalogEntry } from "./toolCatalog";
+
 export type CommandCategory =
   | "agents"
   | "search"
@@ -14,6 +16,9 @@ export interface CommandRef {
   category: CommandCategory;
   example: string;
   aliases?: string[];
+  /** Manifest module that installs the command */
+  moduleId: string;
+  /** Defaults to the module's docs_url from the tool catalog */
   docsUrl?: string;
 }
 
@@ -59,12 +64,13 @@ export const COMMAND_CATEGORIES: Array<{
   },
 ];
 
-export const COMMANDS: CommandRef[] = [
+const COMMAND_LIST: CommandRef[] = [
   {
     name: "cc",
     fullName: "Claude Code",
     description: "Anthropic coding agent (alias for claude).",
     category: "agents",
+    moduleId: "agents.claude",
     example: 'cc "fix the auth bug in auth.ts"',
     aliases: ["claude"],
     docsUrl: "/learn/agent-commands",
@@ -74,6 +80,7 @@ export const COMMANDS: CommandRef[] = [
     fullName: "Codex CLI",
     description: "OpenAI coding agent (alias for codex).",
     category: "agents",
+    moduleId: "agents.codex",
     example: 'cod "add tests for utils.ts"',
     aliases: ["codex"],
     docsUrl: "/learn/agent-commands",
@@ -83,6 +90,7 @@ export const COMMANDS: CommandRef[] = [
     fullName: "Gemini CLI",
     description: "Google coding agent (alias for gemini).",
     category: "agents",
+    moduleId: "agents.gemini",
     example: 'gmi "review this PR"',
     aliases: ["gemini"],
     docsUrl: "/learn/agent-commands",
@@ -92,6 +100,7 @@ export const COMMANDS: CommandRef[] = [
     fullName: "ripgrep",
     description: "Ultra-fast code search.",
     category: "search",
+    moduleId: "cli.modern",
     example: 'rg "TODO" ./apps',
     aliases: ["grep"],
   },
@@ -100,6 +109,7 @@ export const COMMANDS: CommandRef[] = [
     fullName: "fd-find",
     description: "Fast file finder.",
     category: "search",
+    moduleId: "cli.modern",
     example: 'fd "*.ts"',
     aliases: ["find", "fdfind"],
   },
@@ -108,6 +118,7 @@ export const COMMANDS: CommandRef[] = [
     fullName: "Fuzzy Finder",
     description: "Interactive fuzzy search for files and commands.",
     category: "search",
+    moduleId: "cli.modern",
     example: "fzf",
   },
   {
@@ -115,6 +126,7 @@ export const COMMANDS: CommandRef[] = [
     fullName: "ast-grep",
     description: "Structural code search and replace.",
     category: "search",
+    moduleId: "tools.ast_grep",
     example: 'sg -p "foo($A)" -r "bar($A)"',
   },
   {
@@ -122,6 +134,7 @@ export const COMMANDS: CommandRef[] = [
     fullName: "Git",
     description: "Version control system.",
     category: "git",
+    moduleId: "base.system",
     example: "git status",
   },
   {
@@ -129,6 +142,7 @@ export const COMMANDS: CommandRef[] = [
     fullName: "LazyGit",
     description: "Terminal UI for Git.",
     category: "git",
+    moduleId: "cli.modern",
     example: "lazygit",
     aliases: ["lg"],
   },
@@ -137,6 +151,7 @@ export const COMMANDS: CommandRef[] = [
     fullName: "Named Tmux Manager",
     description: "Session management for agents and workflows.",
     category: "system",
+    moduleId: "stack.ntm",
     example: "ntm new acfs",
   },
   {
@@ -144,6 +159,7 @@ export const COMMANDS: CommandRef[] = [
     fullName: "tmux",
     description: "Terminal multiplexer.",
     category: "system",
+    moduleId: "cli.modern",
     example: "tmux new -s work",
   },
   {
@@ -151,6 +167,7 @@ export const COMMANDS: CommandRef[] = [
     fullName: "LSDeluxe",
     description: "Modern ls replacement (eza fallback).",
     category: "system",
+    moduleId: "cli.modern",
     example: "lsd -la",
     aliases: ["eza", "ls"],
   },
@@ -159,6 +176,7 @@ export const COMMANDS: CommandRef[] = [
     fullName: "bat",
     description: "Cat with syntax highlighting.",
     category: "system",
+    moduleId: "cli.modern",
     example: "bat README.md",
     aliases: ["cat", "batcat"],
   },
@@ -167,6 +185,7 @@ export const COMMANDS: CommandRef[] = [
     fullName: "zoxide",
     description: "Smart cd replacement.",
     category: "system",
+    moduleId: "tools.zoxide",
     example: "z project",
   },
   {
@@ -174,6 +193,7 @@ export const COMMANDS: CommandRef[] = [
     fullName: "atuin",
     description: "Shell history sync with powerful search.",
     category: "system",
+    moduleId: "tools.atuin",
     example: "atuin search ssh",
   },
   {
@@ -181,6 +201,7 @@ export const COMMANDS: CommandRef[] = [
     fullName: "direnv",
     description: "Directory-specific env vars.",
     category: "system",
+    moduleId: "cli.modern",
     example: "direnv allow",
   },
   {
@@ -188,6 +209,7 @@ export const COMMANDS: CommandRef[] = [
     fullName: "Beads CLI",
     description: "Task graph management.",
     category: "stack",
+    moduleId: "stack.mcp_agent_mail",
     example: "bd ready",
   },
   {
@@ -195,6 +217,7 @@ export const COMMANDS: CommandRef[] = [
     fullName: "Beads Viewer",
     description: "Issue and workflow viewer (use --robot-* flags).",
     category: "stack",
+    moduleId: "stack.beads_viewer",
     example: "bv --robot-triage",
   },
   {
@@ -202,6 +225,7 @@ export const COMMANDS: CommandRef[] = [
     fullName: "Ultimate Bug Scanner",
     description: "Static analysis with guardrails.",
     category: "stack",
+    moduleId: "stack.ultimate_bug_scanner",
     example: "ubs .",
   },
   {
@@ -209,6 +233,7 @@ export const COMMANDS: CommandRef[] = [
     fullName: "CASS",
     description: "Session search across agents.",
     category: "stack",
+    moduleId: "stack.cass",
     example: "cass health",
   },
   {
@@ -216,6 +241,7 @@ export const COMMANDS: CommandRef[] = [
     fullName: "CASS Memory",
     description: "Procedural memory for agent workflows.",
     category: "stack",
+    moduleId: "stack.cm",
     example: 'cm context "auth flow"',
   },
   {
@@ -223,6 +249,7 @@ export const COMMANDS: CommandRef[] = [
     fullName: "CAAM",
     description: "Agent account manager.",
     category: "stack",
+    moduleId: "stack.caam",
     example: "caam status",
   },
   {
@@ -230,6 +257,7 @@ export const COMMANDS: CommandRef[] = [
     fullName: "Simultaneous Launch Button",
     description: "Two-person rule for dangerous commands.",
     category: "stack",
+    moduleId: "stack.slb",
     example: "slb",
   },
   {
@@ -237,6 +265,7 @@ export const COMMANDS: CommandRef[] = [
     fullName: "Agent Mail",
     description: "Agent coordination and messaging.",
     category: "stack",
+    moduleId: "stack.mcp_agent_mail",
     example: "am status",
   },
   {
@@ -244,6 +273,7 @@ export const COMMANDS: CommandRef[] = [
     fullName: "Bun",
     description: "JS/TS runtime and package manager.",
     category: "languages",
+    moduleId: "lang.bun",
     example: "bun install",
   },
   {
@@ -251,6 +281,7 @@ export const COMMANDS: CommandRef[] = [
     fullName: "uv",
     description: "Fast Python package manager.",
     category: "languages",
+    moduleId: "lang.uv",
     example: "uv venv",
   },
   {
@@ -258,6 +289,7 @@ export const COMMANDS: CommandRef[] = [
     fullName: "Rust Cargo",
     description: "Rust package manager.",
     category: "languages",
+    moduleId: "lang.rust",
     example: "cargo build",
   },
   {
@@ -265,6 +297,7 @@ export const COMMANDS: CommandRef[] = [
     fullName: "Go",
     description: "Go toolchain.",
     category: "languages",
+    moduleId: "lang.go",
     example: "go test ./...",
   },
   {
@@ -272,6 +305,7 @@ export const COMMANDS: CommandRef[] = [
     fullName: "Wrangler",
     description: "Cloudflare CLI.",
     category: "cloud",
+    moduleId: "cloud.wrangler",
     example: "wrangler whoami",
   },
   {
@@ -279,6 +313,7 @@ export const COMMANDS: CommandRef[] = [
     fullName: "Supabase CLI",
     description: "Supabase management tools.",
     category: "cloud",
+    moduleId: "cloud.supabase",
     example: "supabase status",
   },
   {
@@ -286,6 +321,7 @@ export const COMMANDS: CommandRef[] = [
     fullName: "Vercel CLI",
     description: "Vercel deployment tools.",
     category: "cloud",
+    moduleId: "cloud.vercel",
     example: "vercel whoami",
   },
   {
@@ -293,6 +329,7 @@ export const COMMANDS: CommandRef[] = [
     fullName: "PostgreSQL Client",
     description: "Connect to PostgreSQL databases.",
     category: "cloud",
+    moduleId: "db.postgres18",
     example: "psql -h localhost -U postgres",
   },
   {
@@ -300,6 +337,15 @@ export const COMMANDS: CommandRef[] = [
     fullName: "Vault CLI",
     description: "HashiCorp Vault secrets manager.",
     category: "cloud",
+    moduleId: "tools.vault",
     example: "vault status",
   },
 ];
+
+export const COMMANDS: CommandRef[] = COMMAND_LIST.map((command) => ({
+  ...command,
+  docsUrl:
+    command.docsUrl ??
+    getToolCatalogEntry(command.moduleId)?.docs_url ??
+    undefined,
+}));
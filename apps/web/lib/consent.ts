@@ -0,0 +1,218 @@
+/**
+ * Privacy consent state
+ *
+ * Two categories: essential (always on: localStorage for wizard progress and
+ * preferences) and analytics (our event tracking plus GTM, Clarity and Vercel
+ * Analytics). Analytics stays off until the visitor opts in, and is always off
+ * when the browser sends Do-Not-Track or Global Privacy Control.
+ */
+
+import { useSyncExternalStore } from 'react';
+import { safeGetJSON, safeSetJSON } from './utils';
+
+export type ConsentCategory = 'essential' | 'analytics';
+
+export interface ConsentChoices {
+  analytics: boolean;
+}
+
+export interface StoredConsent extends ConsentChoices {
+  version: typeof CONSENT_VERSION;
+  decidedAt: string;
+}
+
+/** granted/denied once decided; pending until the visitor chooses */
+export type AnalyticsConsent = 'granted' | 'denied' | 'pending';
+
+export interface ConsentSnapshot {
+  consent: StoredConsent | null;
+  /** DNT or GPC is set; analytics is denied regardless of the stored choice */
+  privacySignal: boolean;
+  analytics: AnalyticsConsent;
+  /** The banner was reopened from "Privacy settings" */
+  preferencesOpen: boolean;
+}
+
+// Bump when categories change so visitors are asked again
+const CONSENT_VERSION = 1;
+const CONSENT_STORAGE_KEY = 'acfs_consent';
+
+declare global {
+  interface Navigator {
+    globalPrivacyControl?: boolean;
+  }
+  interface Window {
+    doNotTrack?: string | null;
+  }
+}
+
+/**
+ * Whether the browser asks not to be tracked (Do-Not-Track or GPC)
+ */
+export function hasPrivacySignal(): boolean {
+  if (typeof window === 'undefined') return false;
+  return (
+    navigator.globalPrivacyControl === true ||
+    navigator.doNotTrack === '1' ||
+    window.doNotTrack === '1'
+  );
+}
+
+export function getStoredConsent(): StoredConsent | null {
+  const stored = safeGetJSON<StoredConsent>(CONSENT_STORAGE_KEY);
+  if (!stored || stored.version !== CONSENT_VERSION || typeof stored.analytics !== 'boolean') {
+    return null;
+  }
+  return stored;
+}
+
+export function getAnalyticsConsent(): AnalyticsConsent {
+  if (typeof window === 'undefined') return 'pending';
+  if (hasPrivacySignal()) return 'denied';
+  const stored = getStoredConsent();
+  if (!stored) return 'pending';
+  return stored.analytics ? 'granted' : 'denied';
+}
+
+// --- Change notification (for useSyncExternalStore and the analytics queue) ---
+
+const listeners = new Set<() => void>();
+let preferencesOpen = false;
+let snapshot: ConsentSnapshot | null = null;
+
+function notify(): void {
+  snapshot = null;
+  for (const listener of listeners) listener();
+}
+
+function handleStorage(event: StorageEvent): void {
+  if (event.key === CONSENT_STORAGE_KEY) notify();
+}
+
+export function subscribeConsent(listener: () => void): () => void {
+  // Keep tabs in sync when the choice is made in another one
+  if (listeners.size === 0 && typeof window !== 'undefined') {
+    window.addEventListener('storage', handleStorage);
+  }
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0 && typeof window !== 'undefined') {
+      window.removeEventListener('storage', handleStorage);
+    }
+  };
+}
+
+// --- Queue for calls made before the visitor has chosen ---
+
+export interface ConsentQueueOptions {
+  getConsent: () => AnalyticsConsent;
+  /** Whether calls can be delivered right now (e.g. gtag has loaded) */
+  isReady: () => boolean;
+  maxSize?: number;
+}
+
+export interface ConsentQueue {
+  /** Run the call now if allowed, hold it while consent is pending, drop it if denied */
+  run(call: () => void): void;
+  /** Run held calls once consent is granted and the transport is ready */
+  flush(): void;
+  /** Subscriber for consent changes: drop held calls on denial, flush otherwise */
+  onConsentChange(): void;
+  size(): number;
+}
+
+export function createConsentQueue({
+  getConsent,
+  isReady,
+  maxSize = 100,
+}: ConsentQueueOptions): ConsentQueue {
+  let calls: Array<() => void> = [];
+
+  const flush = () => {
+    if (getConsent() !== 'granted' || !isReady()) return;
+    const pending = calls;
+    calls = [];
+    for (const call of pending) call();
+  };
+
+  return {
+    run(call) {
+      const consent = getConsent();
+      if (consent === 'denied') return;
+      if (consent === 'granted' && isReady()) {
+        call();
+        return;
+      }
+      if (calls.length < maxSize) {
+        calls.push(call);
+      }
+    },
+    flush,
+    onConsentChange() {
+      if (getConsent() === 'denied') {
+        calls = [];
+      } else {
+        flush();
+      }
+    },
+    size: () => calls.length,
+  };
+}
+
+/**
+ * Record the visitor's choices
+ */
+export function setConsent(choices: ConsentChoices): void {
+  const stored: StoredConsent = {
+    version: CONSENT_VERSION,
+    decidedAt: new Date().toISOString(),
+    analytics: choices.analytics,
+  };
+  safeSetJSON(CONSENT_STORAGE_KEY, stored);
+  preferencesOpen = false;
+  notify();
+}
+
+/**
+ * Show the banner again so the visitor can change their choices
+ */
+export function openConsentPreferences(): void {
+  preferencesOpen = true;
+  notify();
+}
+
+export function closeConsentPreferences(): void {
+  preferencesOpen = false;
+  notify();
+}
+
+function getSnapshot(): ConsentSnapshot {
+  if (!snapshot) {
+    snapshot = {
+      consent: getStoredConsent(),
+      privacySignal: hasPrivacySignal(),
+      analytics: getAnalyticsConsent(),
+      preferencesOpen,
+    };
+  }
+  return snapshot;
+}
+
+const SERVER_SNAPSHOT: ConsentSnapshot = {
+  consent: null,
+  privacySignal: false,
+  analytics: 'pending',
+  preferencesOpen: false,
+};
+
+function getServerSnapshot(): ConsentSnapshot {
+  return SERVER_SNAPSHOT;
+}
+
+/**
+ * Hook for the current consent state (pending during SSR)
+ */
+export function useConsent(): ConsentSnapshot {
+  return useSyncExternalStore(subscribeConsent, getSnapshot, getServerSnapshot);
+}
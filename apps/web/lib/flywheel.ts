@@ -12,10 +12,13 @@
 // deliver 10x what any single tool can achieve alone.
 // ============================================================
 
+import { getToolDocsUrl } from "./toolCatalog";
+
 export type FlywheelTool = {
   id: string;
   name: string;
   shortName: string;
+  /** Repository URL (docs_url of the tool's manifest module) */
   href: string;
   icon: string;
   color: string;
@@ -320,7 +323,7 @@ export const flywheelTools: FlywheelTool[] = [
     id: "ntm",
     name: "Named Tmux Manager",
     shortName: "NTM",
-    href: "https://github.com/Dicklesworthstone/ntm",
+    href: getToolDocsUrl("stack.ntm"),
     icon: "LayoutGrid",
     color: "from-sky-400 to-blue-500",
     tagline: "The agent cockpit",
@@ -358,7 +361,7 @@ export const flywheelTools: FlywheelTool[] = [
     id: "mail",
     name: "MCP Agent Mail",
     shortName: "Mail",
-    href: "https://github.com/Dicklesworthstone/mcp_agent_mail",
+    href: getToolDocsUrl("stack.mcp_agent_mail"),
     icon: "Mail",
     color: "from-violet-400 to-purple-500",
     tagline: "Gmail for your agents",
@@ -397,7 +400,7 @@ export const flywheelTools: FlywheelTool[] = [
     id: "ubs",
     name: "Ultimate Bug Scanner",
     shortName: "UBS",
-    href: "https://github.com/Dicklesworthstone/ultimate_bug_scanner",
+    href: getToolDocsUrl("stack.ultimate_bug_scanner"),
     icon: "Bug",
     color: "from-rose-400 to-red-500",
     tagline: "Polyglot static analysis",
@@ -433,7 +436,7 @@ export const flywheelTools: FlywheelTool[] = [
     id: "bv",
     name: "Beads Viewer",
     shortName: "BV",
-    href: "https://github.com/Dicklesworthstone/beads_viewer",
+    href: getToolDocsUrl("stack.beads_viewer"),
     icon: "GitBranch",
     color: "from-emerald-400 to-teal-500",
     tagline: "Task dependency graphs",
@@ -472,7 +475,7 @@ export const flywheelTools: FlywheelTool[] = [
     id: "cass",
     name: "Coding Agent Session Search",
     shortName: "CASS",
-    href: "https://github.com/Dicklesworthstone/coding_agent_session_search",
+    href: getToolDocsUrl("stack.cass"),
     icon: "Search",
     color: "from-cyan-400 to-sky-500",
     tagline: "Instant search across all agents",
@@ -509,7 +512,7 @@ export const flywheelTools: FlywheelTool[] = [
     id: "cm",
     name: "CASS Memory System",
     shortName: "CM",
-    href: "https://github.com/Dicklesworthstone/cass_memory_system",
+    href: getToolDocsUrl("stack.cm"),
     icon: "Brain",
     color: "from-pink-400 to-fuchsia-500",
     tagline: "Persistent agent memory",
@@ -547,7 +550,7 @@ export const flywheelTools: FlywheelTool[] = [
     id: "caam",
     name: "Coding Agent Account Manager",
     shortName: "CAAM",
-    href: "https://github.com/Dicklesworthstone/coding_agent_account_manager",
+    href: getToolDocsUrl("stack.caam"),
     icon: "KeyRound",
     color: "from-amber-400 to-orange-500",
     tagline: "Instant auth switching",
@@ -582,7 +585,7 @@ export const flywheelTools: FlywheelTool[] = [
     id: "slb",
     name: "Simultaneous Launch Button",
     shortName: "SLB",
-    href: "https://github.com/Dicklesworthstone/simultaneous_launch_button",
+    href: getToolDocsUrl("stack.slb"),
     icon: "ShieldCheck",
     color: "from-yellow-400 to-amber-500",
     tagline: "Two-person rule for agents",
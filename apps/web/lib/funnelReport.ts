@@ -0,0 +1,302 @@
+/**
+ * First-party funnel reporting
+ *
+ * Rebuilds each visitor's wizard and lesson funnels from stored /api/track
+ * events (the JSONL sink) and summarizes them: how many sessions reached each
+ * step, where they dropped off, and the median time spent per step. Pure
+ * functions, shared by scripts/funnel-report.ts and /admin/funnel.
+ */
+
+import type { FunnelData } from './analytics';
+import type { StoredEvent } from './analyticsSinks';
+
+export type FunnelName = 'wizard' | 'lessons';
+
+export const FUNNEL_NAMES: FunnelName[] = ['wizard', 'lessons'];
+
+interface FunnelDefinition {
+  title: string;
+  stepLabel: string;
+  firstStep: number;
+  enterEvent: string;
+  completeEvent: string;
+  stepParam: string;
+  titleParam: string;
+  totalParam: string;
+}
+
+// Event and parameter names sent by trackFunnelStep* / trackLesson* in lib/analytics
+const FUNNELS: Record<FunnelName, FunnelDefinition> = {
+  wizard: {
+    title: 'Setup wizard',
+    stepLabel: 'Step',
+    firstStep: 1,
+    enterEvent: 'funnel_step_enter',
+    completeEvent: 'funnel_step_complete',
+    stepParam: 'step_number',
+    titleParam: 'step_title',
+    totalParam: 'total_steps',
+  },
+  lessons: {
+    title: 'Learning hub',
+    stepLabel: 'Lesson',
+    firstStep: 0,
+    enterEvent: 'lesson_view',
+    completeEvent: 'lesson_complete',
+    stepParam: 'lesson_id',
+    titleParam: 'lesson_title',
+    totalParam: 'total_lessons',
+  },
+};
+
+/**
+ * One visitor's funnel rebuilt from their events, in the shape the browser
+ * keeps in localStorage. A step can be missing `entered` when its enter event
+ * was never received.
+ */
+export interface FunnelSession
+  extends Pick<FunnelData, 'sessionId' | 'startedAt' | 'maxStepReached' | 'completedSteps'> {
+  stepTimestamps: Record<number, Partial<FunnelData['stepTimestamps'][number]>>;
+}
+
+export interface FunnelStepStats {
+  step: number;
+  title: string;
+  /** Sessions that entered the step */
+  reached: number;
+  /** reached / all sessions */
+  reachRate: number;
+  completed: number;
+  /** Sessions whose furthest step is this one and that never finished the funnel */
+  droppedOff: number;
+  /** droppedOff / reached */
+  dropOffRate: number;
+  /** Median seconds from entering to completing the step, null without timed sessions */
+  medianSeconds: number | null;
+  /** Sessions with both timestamps for the step */
+  timedSessions: number;
+}
+
+export interface FunnelReport {
+  funnel: FunnelName;
+  title: string;
+  sessions: number;
+  /** Sessions that completed the last step */
+  completedSessions: number;
+  completionRate: number;
+  /** received_at of the first and last event considered */
+  firstEventAt: string | null;
+  lastEventAt: string | null;
+  steps: FunnelStepStats[];
+}
+
+function getStepNumber(event: StoredEvent, param: string): number | null {
+  const value = event.params[param];
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0 ? value : null;
+}
+
+/**
+ * When the browser recorded the event: the `timestamp` param sendEvent adds,
+ * falling back to received_at. Events reach the server in batches and only
+ * after analytics consent, so received_at can lag by seconds or minutes and
+ * gives a whole batch the same time.
+ */
+export function getEventTime(event: StoredEvent): string {
+  const timestamp = event.params.timestamp;
+  if (typeof timestamp === 'string') {
+    const parsed = Date.parse(timestamp);
+    if (!Number.isNaN(parsed)) return new Date(parsed).toISOString();
+  }
+  return event.received_at;
+}
+
+/**
+ * Group a funnel's events by funnel_id and replay them the way lib/analytics
+ * updates FunnelData: entering a step overwrites its `entered` time and
+ * completing one overwrites `completed`. Times are client times (getEventTime).
+ */
+export function rebuildFunnelSessions(events: StoredEvent[], funnel: FunnelName): FunnelSession[] {
+  const definition = FUNNELS[funnel];
+  const sessions = new Map<string, FunnelSession>();
+
+  const ordered = events
+    .filter((event) => event.name === definition.enterEvent || event.name === definition.completeEvent)
+    .map((event) => ({ event, time: getEventTime(event) }))
+    .sort((a, b) => a.time.localeCompare(b.time));
+
+  for (const { event, time } of ordered) {
+    // Server-side duplicates of lesson_complete carry no funnel_id
+    const funnelId = event.params.funnel_id;
+    const step = getStepNumber(event, definition.stepParam);
+    if (typeof funnelId !== 'string' || !funnelId || step === null) continue;
+
+    let session = sessions.get(funnelId);
+    if (!session) {
+      session = {
+        sessionId: funnelId,
+        startedAt: time,
+        maxStepReached: definition.firstStep - 1,
+        completedSteps: [],
+        stepTimestamps: {},
+      };
+      sessions.set(funnelId, session);
+    }
+
+    if (event.name === definition.enterEvent) {
+      session.stepTimestamps[step] = { ...session.stepTimestamps[step], entered: time };
+      session.maxStepReached = Math.max(session.maxStepReached, step);
+    } else {
+      session.stepTimestamps[step] = { ...session.stepTimestamps[step], completed: time };
+      if (!session.completedSteps.includes(step)) {
+        session.completedSteps.push(step);
+        session.completedSteps.sort((a, b) => a - b);
+      }
+    }
+  }
+
+  return [...sessions.values()];
+}
+
+export function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+/**
+ * Steps are numbered from the funnel's first step up to the largest
+ * total_steps/total_lessons seen, so steps nobody reached still show up.
+ * Titles come from the most recent event that named the step.
+ */
+function collectSteps(events: StoredEvent[], definition: FunnelDefinition): Map<number, string> {
+  const titles = new Map<number, string>();
+  let lastStep = definition.firstStep - 1;
+
+  for (const event of events) {
+    if (event.name !== definition.enterEvent && event.name !== definition.completeEvent) continue;
+    const step = getStepNumber(event, definition.stepParam);
+    if (step === null) continue;
+
+    const total = event.params[definition.totalParam];
+    if (typeof total === 'number' && Number.isInteger(total) && total > 0 && total < 1000) {
+      lastStep = Math.max(lastStep, definition.firstStep + total - 1);
+    }
+    lastStep = Math.max(lastStep, step);
+
+    const title = event.params[definition.titleParam];
+    if (typeof title === 'string' && title) titles.set(step, title);
+  }
+
+  const steps = new Map<number, string>();
+  for (let step = definition.firstStep; step <= lastStep; step++) {
+    steps.set(step, titles.get(step) ?? `${definition.stepLabel} ${step}`);
+  }
+  return steps;
+}
+
+function rate(part: number, whole: number): number {
+  return whole > 0 ? part / whole : 0;
+}
+
+/**
+ * Summarize a funnel from stored events. Pass `since` to only consider events
+ * received at or after that moment.
+ */
+export function buildFunnelReport(
+  events: StoredEvent[],
+  funnel: FunnelName,
+  options: { since?: Date | null } = {}
+): FunnelReport {
+  const definition = FUNNELS[funnel];
+  const sinceIso = options.since?.toISOString();
+  const considered = sinceIso ? events.filter((event) => event.received_at >= sinceIso) : events;
+
+  const steps = collectSteps(considered, definition);
+  const sessions = rebuildFunnelSessions(considered, funnel);
+  const lastStep = Math.max(definition.firstStep, ...steps.keys());
+  const finished = sessions.filter((session) => session.completedSteps.includes(lastStep));
+
+  const stepStats: FunnelStepStats[] = [...steps].map(([step, title]) => {
+    let reached = 0;
+    let completed = 0;
+    let droppedOff = 0;
+    const durations: number[] = [];
+
+    for (const session of sessions) {
+      const timestamps = session.stepTimestamps[step];
+      if (timestamps?.completed) completed++;
+      if (!timestamps?.entered) continue;
+
+      reached++;
+      if (session.maxStepReached === step && !session.completedSteps.includes(lastStep)) {
+        droppedOff++;
+      }
+      if (timestamps.completed) {
+        const seconds =
+          (Date.parse(timestamps.completed) - Date.parse(timestamps.entered)) / 1000;
+        // Re-entering a step after completing it leaves `entered` later than `completed`
+        if (Number.isFinite(seconds) && seconds >= 0) durations.push(seconds);
+      }
+    }
+
+    return {
+      step,
+      title,
+      reached,
+      reachRate: rate(reached, sessions.length),
+      completed,
+      droppedOff,
+      dropOffRate: rate(droppedOff, reached),
+      medianSeconds: median(durations),
+      timedSessions: durations.length,
+    };
+  });
+
+  const receivedAt = considered.map((event) => event.received_at).sort();
+
+  return {
+    funnel,
+    title: definition.title,
+    sessions: sessions.length,
+    completedSessions: finished.length,
+    completionRate: rate(finished.length, sessions.length),
+    firstEventAt: receivedAt[0] ?? null,
+    lastEventAt: receivedAt[receivedAt.length - 1] ?? null,
+    steps: stepStats,
+  };
+}
+
+/**
+ * Parse a "since" filter: a relative duration (30m, 12h, 7d) or anything
+ * Date.parse understands. Returns null for empty or unparseable input.
+ */
+export function parseSince(value: string | null | undefined, now = new Date()): Date | null {
+  const trimmed = value?.trim() ?? '';
+  if (!trimmed) return null;
+
+  const relative = /^(\d+)([mhd])$/.exec(trimmed);
+  if (relative) {
+    const unitMs = { m: 60_000, h: 3_600_000, d: 86_400_000 }[relative[2] as 'm' | 'h' | 'd'];
+    return new Date(now.getTime() - Number(relative[1]) * unitMs);
+  }
+
+  const parsed = Date.parse(trimmed);
+  return Number.isNaN(parsed) ? null : new Date(parsed);
+}
+
+/**
+ * Compact duration for reports: 45s, 3m 20s, 1h 05m
+ */
+export function formatDuration(seconds: number | null): string {
+  if (seconds === null) return '-';
+  const total = Math.round(seconds);
+  if (total < 60) return `${total}s`;
+  const minutes = Math.floor(total / 60);
+  if (minutes < 60) return `${minutes}m ${String(total % 60).padStart(2, '0')}s`;
+  return `${Math.floor(minutes / 60)}h ${String(minutes % 60).padStart(2, '0')}m`;
+}
+
+export function formatPercent(value: number): string {
+  return `${Math.round(value * 100)}%`;
+}
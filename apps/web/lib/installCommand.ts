@@ -0,0 +1,195 @@
+/**
+ * Installer command builder for the wizard.
+ *
+ * Turns a mode, target user and module selection into the exact
+ * `curl ... | bash -s -- ...` one-liner, using only flags install.sh parses
+ * (--yes, --mode, --only, --skip) and its TARGET_USER override.
+ */
+
+import { TOOL_CATALOG } from "./toolCatalog";
+import { getDependencyClosure } from "./moduleGraph";
+
+export const INSTALL_SCRIPT_URL =
+  "https://raw.githubusercontent.com/Dicklesworthstone/agentic_coding_flywheel_setup/main/install.sh";
+
+/** Defaults from acfs.manifest.yaml; install.sh uses the same values */
+export const DEFAULT_TARGET_USER = "ubuntu";
+export const WORKSPACE_ROOT = "/data/projects";
+
+export type InstallMode = "vibe" | "safe";
+
+export interface InstallerOptions {
+  mode: InstallMode;
+  targetUser: string;
+  /** Modules to install, or null for the installer's default selection */
+  modules: string[] | null;
+}
+
+export const DEFAULT_INSTALLER_OPTIONS: InstallerOptions = {
+  mode: "vibe",
+  targetUser: DEFAULT_TARGET_USER,
+  modules: null,
+};
+
+export interface MissingDependency {
+  moduleId: string;
+  missing: string[];
+}
+
+const MODULE_IDS = new Set(TOOL_CATALOG.map((entry) => entry.id));
+
+// Same pattern install.sh enforces for TARGET_USER
+const TARGET_USER_PATTERN = /^[a-z_][a-z0-9_-]*$/;
+
+export function isValidTargetUser(user: string): boolean {
+  return TARGET_USER_PATTERN.test(user);
+}
+
+/**
+ * Modules a plain install runs (enabled_by_default), in install order
+ */
+export function getDefaultModuleIds(): string[] {
+  return TOOL_CATALOG.filter((entry) => entry.enabled_by_default).map(
+    (entry) => entry.id
+  );
+}
+
+/**
+ * Every tag used in the catalog, sorted
+ */
+export function getModuleTags(): string[] {
+  return [...new Set(TOOL_CATALOG.flatMap((entry) => entry.tags))].sort();
+}
+
+/**
+ * Module ids carrying a tag, in install order
+ */
+export function getModulesWithTag(tag: string): string[] {
+  return TOOL_CATALOG.filter((entry) => entry.tags.includes(tag)).map(
+    (entry) => entry.id
+  );
+}
+
+/**
+ * The selection as a list of module ids, in install order
+ */
+export function getSelectedModules(options: InstallerOptions): string[] {
+  if (options.modules === null) return getDefaultModuleIds();
+  const selected = new Set(options.modules);
+  return TOOL_CATALOG.filter((entry) => selected.has(entry.id)).map(
+    (entry) => entry.id
+  );
+}
+
+/**
+ * Selected modules whose direct dependencies are not all selected.
+ * install.sh rejects a --skip that removes a dependency of a selected module,
+ * so the builder requires the selection to be closed under dependencies.
+ */
+export function getMissingDependencies(selected: string[]): MissingDependency[] {
+  const selectedSet = new Set(selected);
+  return TOOL_CATALOG.filter((entry) => selectedSet.has(entry.id)).flatMap(
+    (entry) => {
+      const missing = entry.dependencies.filter((id) => !selectedSet.has(id));
+      return missing.length > 0 ? [{ moduleId: entry.id, missing }] : [];
+    }
+  );
+}
+
+/**
+ * The selection plus everything it depends on, in install order
+ */
+export function withDependencies(selected: string[]): string[] {
+  const result = new Set(selected);
+  for (const id of selected) {
+    for (const dependency of getDependencyClosure(id)) {
+      result.add(dependency);
+    }
+  }
+  return TOOL_CATALOG.filter((entry) => result.has(entry.id)).map(
+    (entry) => entry.id
+  );
+}
+
+/**
+ * Problems that would make install.sh refuse the command
+ */
+export function validateInstallerOptions(options: InstallerOptions): string[] {
+  const errors: string[] = [];
+  if (!isValidTargetUser(options.targetUser)) {
+    errors.push(
+      `Invalid target user "${options.targetUser}" (expected a lowercase user name like "ubuntu").`
+    );
+  }
+  const unknown = (options.modules ?? []).filter((id) => !MODULE_IDS.has(id));
+  if (unknown.length > 0) {
+    errors.push(`Unknown modules: ${unknown.join(", ")}.`);
+  }
+  const selected = getSelectedModules(options);
+  if (selected.length === 0) {
+    errors.push("Select at least one module.");
+  }
+  for (const { moduleId, missing } of getMissingDependencies(selected)) {
+    errors.push(`${moduleId} needs ${missing.join(", ")}.`);
+  }
+  return errors;
+}
+
+/**
+ * Selection flags for install.sh.
+ *
+ * A subset of the defaults becomes --skip for each default left out; any
+ * other selection becomes --only for each module not already pulled in as a
+ * dependency of another selected module (install.sh adds dependencies itself).
+ */
+export function getSelectionFlags(options: InstallerOptions): string[] {
+  const selected = getSelectedModules(options);
+  const defaults = getDefaultModuleIds();
+  const selectedSet = new Set(selected);
+  const defaultSet = new Set(defaults);
+
+  if (selected.every((id) => defaultSet.has(id))) {
+    return defaults
+      .filter((id) => !selectedSet.has(id))
+      .flatMap((id) => ["--skip", id]);
+  }
+
+  const implied = new Set(selected.flatMap((id) => getDependencyClosure(id)));
+  return selected
+    .filter((id) => !implied.has(id))
+    .flatMap((id) => ["--only", id]);
+}
+
+/**
+ * The full one-liner to paste into the VPS
+ */
+export function buildInstallCommand(options: InstallerOptions): string {
+  const env =
+    options.targetUser !== DEFAULT_TARGET_USER
+      ? `TARGET_USER=${options.targetUser} `
+      : "";
+  const args = ["--yes", "--mode", options.mode, ...getSelectionFlags(options)];
+  return `curl -fsSL "${INSTALL_SCRIPT_URL}?$(date +%s)" | ${env}bash -s -- ${args.join(" ")}`;
+}
+
+/**
+ * Parse stored options, dropping anything malformed
+ */
+export function parseInstallerOptions(value: unknown): InstallerOptions {
+  if (typeof value !== "object" || value === null) {
+    return DEFAULT_INSTALLER_OPTIONS;
+  }
+  const raw = value as Record<string, unknown>;
+  return {
+    mode: raw.mode === "safe" ? "safe" : "vibe",
+    targetUser:
+      typeof raw.targetUser === "string" && raw.targetUser.trim()
+        ? raw.targetUser.trim()
+        : DEFAULT_TARGET_USER,
+    modules: Array.isArray(raw.modules)
+      ? raw.modules.filter(
+          (id): id is string => typeof id === "string" && MODULE_IDS.has(id)
+        )
+      : null,
+  };
+}
@@ -0,0 +1,30 @@
+/**
+ * IP address validation
+ *
+ * Kept free of React so API routes can validate addresses too.
+ */
+
+/**
+ * Validate an IP address (IPv4 or IPv6).
+ */
+export function isValidIP(ip: string): boolean {
+  const normalized = ip.trim();
+
+  // IPv4 validation
+  const ipv4Pattern = /^(\d{1,3}\.){3}\d{1,3}$/;
+  if (ipv4Pattern.test(normalized)) {
+    const parts = normalized.split(".");
+    return parts.every((part) => {
+      const num = parseInt(part, 10);
+      return num >= 0 && num <= 255;
+    });
+  }
+
+  // IPv6 validation (full, compressed, and mixed formats)
+  // Matches: 2001:db8::1, ::1, fe80::1%eth0, 2001:db8:85a3::8a2e:370:7334, etc.
+  const ipv6Pattern = /^(([0-9a-fA-F]{1,4}:){7}[0-9a-fA-F]{1,4}|([0-9a-fA-F]{1,4}:){1,7}:|([0-9a-fA-F]{1,4}:){1,6}:[0-9a-fA-F]{1,4}|([0-9a-fA-F]{1,4}:){1,5}(:[0-9a-fA-F]{1,4}){1,2}|([0-9a-fA-F]{1,4}:){1,4}(:[0-9a-fA-F]{1,4}){1,3}|([0-9a-fA-F]{1,4}:){1,3}(:[0-9a-fA-F]{1,4}){1,4}|([0-9a-fA-F]{1,4}:){1,2}(:[0-9a-fA-F]{1,4}){1,5}|[0-9a-fA-F]{1,4}:((:[0-9a-fA-F]{1,4}){1,6})|:((:[0-9a-fA-F]{1,4}){1,7}|:)|fe80:(:[0-9a-fA-F]{0,4}){0,4}%[0-9a-zA-Z]+|::(ffff(:0{1,4})?:)?((25[0-5]|(2[0-4]|1?[0-9])?[0-9])\.){3}(25[0-5]|(2[0-4]|1?[0-9])?[0-9])|([0-9a-fA-F]{1,4}:){1,4}:((25[0-5]|(2[0-4]|1?[0-9])?[0-9])\.){3}(25[0-5]|(2[0-4]|1?[0-9])?[0-9]))$/;
+
+  // Remove zone ID (e.g., %eth0, %br-abc123, %my_iface) for validation
+  const ipWithoutZone = normalized.replace(/%[a-zA-Z0-9_-]+$/, "");
+  return ipv6Pattern.test(ipWithoutZone);
+}
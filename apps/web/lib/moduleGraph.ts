@@ -0,0 +1,94 @@
+/**
+ * Dependency graph helpers for the module explorer: the graph and search
+ * functions from @acfs/manifest, run over the generated tool catalog.
+ */
+
+import {
+  getDependents,
+  getTransitiveDependencies,
+  searchModules,
+  type ModuleGraph,
+} from "../../../packages/manifest/src/utils";
+import { TOOL_CATALOG, type ToolCatalogEntry } from "./toolCatalog";
+
+const CATALOG_GRAPH: ModuleGraph<ToolCatalogEntry> = { modules: TOOL_CATALOG };
+
+export type GraphGrouping = "phase" | "category";
+
+export interface GraphColumn {
+  key: string;
+  label: string;
+  moduleIds: string[];
+}
+
+/**
+ * Modules a module needs installed first, directly or indirectly
+ */
+export function getDependencyClosure(moduleId: string): string[] {
+  return getTransitiveDependencies(CATALOG_GRAPH, moduleId).map(
+    (entry) => entry.id
+  );
+}
+
+/**
+ * Modules that depend on this one, directly or through another module. The
+ * installer refuses to skip a module while any of these is selected
+ * ("Selection error: X depends on skipped Y"), so they have to be skipped too.
+ */
+export function getDependentClosure(moduleId: string): string[] {
+  const dependents = new Set<string>();
+  const queue = [moduleId];
+  while (queue.length > 0) {
+    for (const dependent of getDependents(CATALOG_GRAPH, queue.shift()!)) {
+      if (!dependents.has(dependent.id) && dependent.id !== moduleId) {
+        dependents.add(dependent.id);
+        queue.push(dependent.id);
+      }
+    }
+  }
+  return TOOL_CATALOG.filter((entry) => dependents.has(entry.id)).map(
+    (entry) => entry.id
+  );
+}
+
+/**
+ * Ids of modules whose id or description contains the query
+ */
+export function searchModuleIds(query: string): Set<string> {
+  return new Set(
+    searchModules(CATALOG_GRAPH, query.trim()).map((entry) => entry.id)
+  );
+}
+
+/**
+ * Columns for the graph: one per phase (install order) or per category
+ * (in order of first appearance in the manifest)
+ */
+export function getGraphColumns(grouping: GraphGrouping): GraphColumn[] {
+  const keyOf = (entry: ToolCatalogEntry) =>
+    grouping === "phase" ? String(entry.phase) : entry.category;
+  const columns = new Map<string, GraphColumn>();
+  for (const entry of TOOL_CATALOG) {
+    const key = keyOf(entry);
+    const column = columns.get(key) ?? {
+      key,
+      label: grouping === "phase" ? `Phase ${key}` : key,
+      moduleIds: [],
+    };
+    column.moduleIds.push(entry.id);
+    columns.set(key, column);
+  }
+  const ordered = [...columns.values()];
+  return grouping === "phase"
+    ? ordered.sort((a, b) => Number(a.key) - Number(b.key))
+    : ordered;
+}
+
+/**
+ * Every dependency edge, from the dependency to the module that needs it
+ */
+export function getGraphEdges(): Array<{ from: string; to: string }> {
+  return TOOL_CATALOG.flatMap((entry) =>
+    entry.dependencies.map((dependency) => ({ from: dependency, to: entry.id }))
+  );
+}
@@ -0,0 +1,185 @@
+/**
+ * Progress Bundle
+ *
+ * A compact, versioned snapshot of a visitor's progress (wizard steps,
+ * lessons, chosen OS, VPS IP and commands marked as run) for continuing on
+ * another device. Pure functions with no React or storage access; collecting
+ * and restoring live in progressSync.ts.
+ *
+ * The server signs encoded bundles (progressSigning.ts) so altered or
+ * truncated codes are rejected. Anyone can have a bundle signed, though, so
+ * restoring still validates every field, and a VPS IP that would replace a
+ * different stored one needs confirming (getVpsIPChange).
+ */
+
+import { isValidIP } from "./ipAddress";
+import { TOTAL_LESSONS } from "./lessons";
+import type { OperatingSystem } from "./userPreferences";
+
+// Bump when the wire format changes; older codes must keep decoding
+export const PROGRESS_BUNDLE_VERSION = 1;
+
+export interface ProgressBundle {
+  version: typeof PROGRESS_BUNDLE_VERSION;
+  /** Completed wizard steps */
+  steps: number[];
+  /** Completed lesson ids */
+  lessons: number[];
+  os: OperatingSystem | null;
+  vpsIP: string | null;
+  /** persistKeys of commands marked "I ran this" */
+  commands: string[];
+}
+
+/** Short keys keep codes (and the URLs carrying them) small */
+interface ProgressBundleWire {
+  v: number;
+  s?: number[];
+  l?: number[];
+  o?: string;
+  i?: string;
+  c?: string[];
+}
+
+export class ProgressBundleError extends Error {
+  override name = "ProgressBundleError";
+}
+
+// Upper bound only; the wizard drops steps it doesn't know when restoring
+const MAX_WIZARD_STEP = 50;
+const MAX_COMMANDS = 100;
+const COMMAND_KEY_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+export const MAX_ENCODED_BUNDLE_LENGTH = 4000;
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function readIds(value: unknown, field: string, min: number, max: number): number[] {
+  if (value === undefined) return [];
+  if (
+    !Array.isArray(value) ||
+    !value.every((n) => typeof n === "number" && Number.isInteger(n) && n >= min && n <= max)
+  ) {
+    throw new ProgressBundleError(`Invalid ${field} in progress code`);
+  }
+  return Array.from(new Set(value as number[])).sort((a, b) => a - b);
+}
+
+/**
+ * Check an untrusted wire object and turn it into a bundle
+ */
+export function validateProgressBundle(value: unknown): ProgressBundle {
+  if (!isPlainObject(value) || typeof value.v !== "number") {
+    throw new ProgressBundleError("Not a progress code");
+  }
+  if (value.v > PROGRESS_BUNDLE_VERSION) {
+    throw new ProgressBundleError(
+      "This code was made by a newer version of the site. Reload the page and try again."
+    );
+  }
+  if (value.v !== PROGRESS_BUNDLE_VERSION) {
+    throw new ProgressBundleError(`Unsupported progress code version ${value.v}`);
+  }
+
+  const os = value.o;
+  if (os !== undefined && os !== "mac" && os !== "windows" && os !== "linux") {
+    throw new ProgressBundleError("Invalid operating system in progress code");
+  }
+
+  const vpsIP = value.i;
+  if (vpsIP !== undefined && (typeof vpsIP !== "string" || !isValidIP(vpsIP))) {
+    throw new ProgressBundleError("Invalid VPS IP in progress code");
+  }
+
+  const commands = value.c ?? [];
+  if (
+    !Array.isArray(commands) ||
+    commands.length > MAX_COMMANDS ||
+    !commands.every((key) => typeof key === "string" && COMMAND_KEY_PATTERN.test(key))
+  ) {
+    throw new ProgressBundleError("Invalid commands in progress code");
+  }
+
+  return {
+    version: PROGRESS_BUNDLE_VERSION,
+    steps: readIds(value.s, "wizard steps", 1, MAX_WIZARD_STEP),
+    lessons: readIds(value.l, "lessons", 0, TOTAL_LESSONS - 1),
+    os: os ?? null,
+    vpsIP: vpsIP?.trim() ?? null,
+    commands: Array.from(new Set(commands as string[])).sort(),
+  };
+}
+
+function toWire(bundle: ProgressBundle): ProgressBundleWire {
+  return {
+    v: bundle.version,
+    ...(bundle.steps.length > 0 && { s: bundle.steps }),
+    ...(bundle.lessons.length > 0 && { l: bundle.lessons }),
+    ...(bundle.os && { o: bundle.os }),
+    ...(bundle.vpsIP && { i: bundle.vpsIP }),
+    ...(bundle.commands.length > 0 && { c: bundle.commands }),
+  };
+}
+
+function toBase64Url(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  let binary = "";
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(encoded: string): string {
+  const base64 = encoded.replace(/-/g, "+").replace(/_/g, "/");
+  const binary = atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, "="));
+  return new TextDecoder().decode(Uint8Array.from(binary, (char) => char.charCodeAt(0)));
+}
+
+/**
+ * Serialize a bundle as URL-safe base64 JSON
+ */
+export function encodeProgressBundle(bundle: ProgressBundle): string {
+  return toBase64Url(JSON.stringify(toWire(bundle)));
+}
+
+/**
+ * Decode and validate the output of encodeProgressBundle
+ */
+export function decodeProgressBundle(encoded: string): ProgressBundle {
+  if (
+    !encoded ||
+    encoded.length > MAX_ENCODED_BUNDLE_LENGTH ||
+    !/^[A-Za-z0-9_-]+$/.test(encoded)
+  ) {
+    throw new ProgressBundleError("Not a progress code");
+  }
+
+  let wire: unknown;
+  try {
+    wire = JSON.parse(fromBase64Url(encoded));
+  } catch {
+    throw new ProgressBundleError("Not a progress code");
+  }
+  return validateProgressBundle(wire);
+}
+
+/**
+ * Pull a code out of whatever was pasted: the code itself or a /sync link
+ */
+export function extractProgressCode(input: string): string {
+  const trimmed = input.trim();
+  const hashIndex = trimmed.indexOf("#");
+  return (hashIndex === -1 ? trimmed : trimmed.slice(hashIndex + 1)).trim();
+}
+
+/**
+ * The VPS IP a bundle would put in place of a different one this browser
+ * already has, or null when restoring wouldn't change it
+ */
+export function getVpsIPChange(
+  bundle: ProgressBundle,
+  currentIP: string | null
+): { from: string; to: string } | null {
+  if (!bundle.vpsIP || !currentIP || bundle.vpsIP === currentIP.trim()) return null;
+  return { from: currentIP.trim(), to: bundle.vpsIP };
+}
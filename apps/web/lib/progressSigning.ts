@@ -0,0 +1,53 @@
+/**
+ * Progress code signatures
+ *
+ * A progress code is `<encoded bundle>.<signature>`, where the signature is a
+ * truncated HMAC-SHA256 keyed with PROGRESS_SYNC_SECRET. It is an integrity
+ * check: a code that was cut short, mistyped or edited after signing is
+ * rejected. It says nothing about who made the code, since /api/progress
+ * signs any valid bundle; restoring still asks before replacing a VPS IP.
+ *
+ * Server-only: imports node:crypto.
+ */
+
+import { createHmac, timingSafeEqual } from "crypto";
+
+// 128 bits is plenty for tamper detection and keeps codes short
+const SIGNATURE_BYTES = 16;
+const MIN_SECRET_LENGTH = 32;
+
+export function getProgressSyncSecret(env: NodeJS.ProcessEnv = process.env): string | null {
+  const secret = env.PROGRESS_SYNC_SECRET?.trim();
+  if (!secret) return null;
+  if (secret.length < MIN_SECRET_LENGTH) {
+    console.warn(`PROGRESS_SYNC_SECRET must be at least ${MIN_SECRET_LENGTH} characters; progress sync disabled`);
+    return null;
+  }
+  return secret;
+}
+
+function sign(payload: string, secret: string): Buffer {
+  return createHmac("sha256", secret).update(payload).digest().subarray(0, SIGNATURE_BYTES);
+}
+
+export function signProgressPayload(payload: string, secret: string): string {
+  return `${payload}.${sign(payload, secret).toString("base64url")}`;
+}
+
+/**
+ * Return the payload of a code signed with `secret`, or null when the code is
+ * malformed or was modified
+ */
+export function verifyProgressCode(code: string, secret: string): string | null {
+  const separator = code.lastIndexOf(".");
+  if (separator <= 0) return null;
+
+  const payload = code.slice(0, separator);
+  const signature = Buffer.from(code.slice(separator + 1), "base64url");
+  const expected = sign(payload, secret);
+
+  if (signature.length !== expected.length || !timingSafeEqual(signature, expected)) {
+    return null;
+  }
+  return payload;
+}
@@ -0,0 +1,149 @@
+/**
+ * Progress Sync
+ *
+ * Moves progress between browsers with a signed progress code: collects every
+ * store into a ProgressBundle, has /api/progress sign it, and restores it on
+ * the other device after the server confirms the code is intact. The link is
+ * also offered as a QR code for phones.
+ */
+
+import QRCode from "qrcode";
+
+import { getCompletedSteps, setCompletedSteps } from "./wizardSteps";
+import { getCompletedLessons, setCompletedLessons } from "./lessonProgress";
+import { getUserOS, getVPSIP, setUserOS, setVPSIP } from "./userPreferences";
+import { addCompletedCommands, getCompletedCommands } from "./commandCompletion";
+import {
+  decodeProgressBundle,
+  extractProgressCode,
+  encodeProgressBundle,
+  getVpsIPChange,
+  PROGRESS_BUNDLE_VERSION,
+  ProgressBundleError,
+  type ProgressBundle,
+} from "./progressBundle";
+
+const PROGRESS_ENDPOINT = "/api/progress";
+
+/** Page that restores a code from its URL fragment */
+export const SYNC_PATH = "/sync";
+
+/**
+ * Snapshot of everything this browser remembers
+ */
+export function collectProgressBundle(): ProgressBundle {
+  return {
+    version: PROGRESS_BUNDLE_VERSION,
+    steps: getCompletedSteps(),
+    lessons: getCompletedLessons(),
+    os: getUserOS(),
+    vpsIP: getVPSIP(),
+    commands: getCompletedCommands(),
+  };
+}
+
+/**
+ * The VPS IP restoring this bundle would replace, if it differs from the
+ * stored one. Ask before passing replaceVpsIP to applyProgressBundle.
+ */
+export function getPendingVpsIPChange(bundle: ProgressBundle): { from: string; to: string } | null {
+  return getVpsIPChange(bundle, getVPSIP());
+}
+
+/**
+ * Restore a bundle. Completed steps, lessons and commands are merged so
+ * nothing done on this device is lost; the OS is replaced when the bundle has
+ * one. The VPS IP is set when none is stored, but a different stored IP is
+ * only replaced with `replaceVpsIP` (after the visitor confirmed it).
+ */
+export function applyProgressBundle(
+  bundle: ProgressBundle,
+  { replaceVpsIP = false }: { replaceVpsIP?: boolean } = {}
+): void {
+  setCompletedSteps([...getCompletedSteps(), ...bundle.steps]);
+  setCompletedLessons([...getCompletedLessons(), ...bundle.lessons]);
+  addCompletedCommands(bundle.commands);
+  if (bundle.os) setUserOS(bundle.os);
+  if (bundle.vpsIP && (replaceVpsIP || !getPendingVpsIPChange(bundle))) {
+    setVPSIP(bundle.vpsIP);
+  }
+}
+
+async function postProgress(body: Record<string, string>): Promise<Record<string, unknown>> {
+  let response: Response;
+  try {
+    response = await fetch(PROGRESS_ENDPOINT, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+  } catch {
+    throw new ProgressBundleError("Couldn't reach the server. Check your connection and try again.");
+  }
+
+  const data = (await response.json().catch(() => ({}))) as Record<string, unknown>;
+  if (response.status === 503) {
+    throw new ProgressBundleError("Progress sync isn't enabled on this site.");
+  }
+  if (!response.ok) {
+    throw new ProgressBundleError(
+      typeof data.error === "string" ? data.error : "Something went wrong. Try again."
+    );
+  }
+  return data;
+}
+
+/**
+ * Sign this browser's progress and return the code
+ */
+export async function createProgressCode(): Promise<string> {
+  const data = await postProgress({ payload: encodeProgressBundle(collectProgressBundle()) });
+  if (typeof data.code !== "string") {
+    throw new ProgressBundleError("Something went wrong. Try again.");
+  }
+  return data.code;
+}
+
+/**
+ * Verify a pasted code or link with the server and decode it
+ *
+ * @throws ProgressBundleError when it isn't a valid progress code or was
+ * changed after signing
+ */
+export async function redeemProgressCode(input: string): Promise<ProgressBundle> {
+  const code = extractProgressCode(input);
+  const separator = code.lastIndexOf(".");
+  if (separator <= 0) {
+    throw new ProgressBundleError("Not a progress code");
+  }
+  // Decode first so malformed input fails without a round trip
+  const bundle = decodeProgressBundle(code.slice(0, separator));
+
+  const data = await postProgress({ code });
+  if (data.valid !== true) {
+    throw new ProgressBundleError(
+      "This code is incomplete or was changed. Create a new one on your other device."
+    );
+  }
+  return bundle;
+}
+
+/**
+ * Link that restores the code when opened. The code rides in the fragment,
+ * so it never reaches server logs or Referer headers.
+ */
+export function getProgressSyncUrl(code: string): string {
+  return `${window.location.origin}${SYNC_PATH}#${code}`;
+}
+
+/**
+ * The link as a QR code image (PNG data URL) for a phone camera, or null when
+ * it carries too much progress to fit in one
+ */
+export async function getProgressQrCode(url: string): Promise<string | null> {
+  try {
+    return await QRCode.toDataURL(url, { errorCorrectionLevel: "L", margin: 1, width: 240 });
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,257 @@
+/**
+ * Rate limiting for /api/track
+ *
+ * Sliding-window counters in a pluggable store, selected with RATE_LIMIT_STORE:
+ *   memory - per-process Map (default; dev and tests)
+ *   redis  - any Redis-protocol server at RATE_LIMIT_REDIS_URL, shared by
+ *            every instance and unaffected by cold starts
+ *
+ * Server-only: the Redis store imports node:net.
+ */
+
+import { createRedisClient, type RedisClient } from './redisClient';
+
+export type RateLimitStoreName = 'memory' | 'redis';
+
+/** Counts for the window being hit and the one before it */
+export interface WindowCounts {
+  current: number;
+  previous: number;
+}
+
+export interface RateLimitStore {
+  name: RateLimitStoreName;
+  /**
+   * Add `cost` to the counter for `key` in the window starting at
+   * `windowStart`, and return it along with the previous window's count
+   */
+  hit(key: string, windowStart: number, windowMs: number, cost: number): Promise<WindowCounts>;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  /** Seconds until another request would be allowed (0 when allowed) */
+  retryAfterSeconds: number;
+}
+
+export interface RateLimiter {
+  check(key: string, cost?: number): Promise<RateLimitResult>;
+}
+
+export class RateLimitStoreError extends Error {
+  override name = 'RateLimitStoreError';
+}
+
+// --- Sliding window ---
+
+/**
+ * Milliseconds until the estimate leaves room for one more request, assuming
+ * no further hits
+ */
+function msUntilAllowed(
+  limit: number,
+  counts: WindowCounts,
+  elapsed: number,
+  windowMs: number
+): number {
+  const budget = limit - 1;
+  if (counts.current <= budget) {
+    if (counts.previous === 0) return 0;
+    const needed = windowMs * (1 - (budget - counts.current) / counts.previous);
+    return Math.max(0, needed - elapsed);
+  }
+  // This window alone is over the limit: wait for it to end, then for its
+  // weight to decay as the next window progresses
+  const intoNextWindow = windowMs * Math.max(0, 1 - budget / counts.current);
+  return windowMs - elapsed + intoNextWindow;
+}
+
+/**
+ * Sliding-window counter: the previous window's count is weighted by how much
+ * of it still overlaps the trailing window. Two counters per key, and a
+ * smooth limit without the burst allowed at fixed-window boundaries.
+ *
+ * Denied requests still count, so a client hammering the endpoint stays
+ * limited until it backs off.
+ */
+export function createSlidingWindowLimiter(options: {
+  store: RateLimitStore;
+  limit: number;
+  windowMs: number;
+  now?: () => number;
+}): RateLimiter {
+  const { store, limit, windowMs, now = Date.now } = options;
+
+  return {
+    async check(key, cost = 1) {
+      const timestamp = now();
+      const elapsed = timestamp % windowMs;
+      const windowStart = timestamp - elapsed;
+
+      const counts = await store.hit(key, windowStart, windowMs, cost);
+      const estimated = counts.previous * (1 - elapsed / windowMs) + counts.current;
+      const allowed = estimated <= limit;
+
+      return {
+        allowed,
+        limit,
+        remaining: Math.max(0, Math.floor(limit - estimated)),
+        retryAfterSeconds: allowed
+          ? 0
+          : Math.max(1, Math.ceil(msUntilAllowed(limit, counts, elapsed, windowMs) / 1000)),
+      };
+    },
+  };
+}
+
+// --- Stores ---
+
+const MEMORY_SWEEP_INTERVAL = 100;
+const MEMORY_MAX_KEYS = 10_000;
+
+/**
+ * Per-process store. Expired windows are swept every ~100 hits, and the
+ * oldest counters are dropped past `maxKeys` so spoofed keys can't grow the
+ * map without bound.
+ */
+export function createMemoryRateLimitStore(
+  options: { maxKeys?: number } = {}
+): RateLimitStore {
+  const maxKeys = options.maxKeys ?? MEMORY_MAX_KEYS;
+  const counters = new Map<string, { count: number; expiresAt: number }>();
+  let hitsSinceSweep = 0;
+
+  // A window is only read while it or the next one is current, so anything
+  // older than the caller's previous window can go
+  const sweep = (windowStart: number) => {
+    for (const [key, counter] of counters) {
+      if (counter.expiresAt <= windowStart) counters.delete(key);
+    }
+  };
+
+  return {
+    name: 'memory',
+    async hit(key, windowStart, windowMs, cost) {
+      hitsSinceSweep++;
+      if (hitsSinceSweep >= MEMORY_SWEEP_INTERVAL || counters.size >= maxKeys) {
+        sweep(windowStart);
+        hitsSinceSweep = 0;
+      }
+
+      const currentKey = `${key}:${windowStart}`;
+      let counter = counters.get(currentKey);
+      if (!counter) {
+        while (counters.size >= maxKeys) {
+          const oldest = counters.keys().next().value;
+          if (oldest === undefined) break;
+          counters.delete(oldest);
+        }
+        counter = { count: 0, expiresAt: windowStart + 2 * windowMs };
+        counters.set(currentKey, counter);
+      }
+      counter.count += cost;
+
+      return {
+        current: counter.count,
+        previous: counters.get(`${key}:${windowStart - windowMs}`)?.count ?? 0,
+      };
+    },
+  };
+}
+
+const REDIS_KEY_PREFIX = 'acfs:ratelimit:';
+
+/**
+ * Store backed by a Redis-protocol server. Each hit is one MULTI/EXEC round
+ * trip; counters expire on their own two windows after they start.
+ */
+export function createRedisRateLimitStore(
+  client: RedisClient,
+  prefix = REDIS_KEY_PREFIX
+): RateLimitStore {
+  return {
+    name: 'redis',
+    async hit(key, windowStart, windowMs, cost) {
+      const currentKey = `${prefix}${key}:${windowStart}`;
+      const previousKey = `${prefix}${key}:${windowStart - windowMs}`;
+
+      const replies = await client.pipeline([
+        ['MULTI'],
+        ['INCRBY', currentKey, cost],
+        ['PEXPIRE', currentKey, 2 * windowMs],
+        ['GET', previousKey],
+        ['EXEC'],
+      ]);
+
+      const exec = replies[replies.length - 1];
+      if (!Array.isArray(exec)) {
+        throw new RateLimitStoreError(
+          exec instanceof Error ? exec.message : 'Redis transaction was aborted'
+        );
+      }
+
+      const [current, , previous] = exec;
+      if (typeof current !== 'number') {
+        throw new RateLimitStoreError('Unexpected INCRBY reply');
+      }
+
+      return {
+        current,
+        previous: typeof previous === 'string' ? Number(previous) || 0 : 0,
+      };
+    },
+  };
+}
+
+/**
+ * Build the store selected by the environment. Misconfiguration falls back to
+ * the in-memory store so the endpoint keeps some protection.
+ */
+export function createRateLimitStore(env: NodeJS.ProcessEnv = process.env): RateLimitStore {
+  const name = env.RATE_LIMIT_STORE?.trim().toLowerCase() || 'memory';
+
+  if (name === 'redis') {
+    const url = env.RATE_LIMIT_REDIS_URL?.trim();
+    if (!url) {
+      console.warn('RATE_LIMIT_STORE=redis needs RATE_LIMIT_REDIS_URL; using the in-memory store');
+      return createMemoryRateLimitStore();
+    }
+    try {
+      return createRedisRateLimitStore(createRedisClient(url));
+    } catch (error) {
+      console.warn(`Invalid RATE_LIMIT_REDIS_URL (${(error as Error).message}); using the in-memory store`);
+      return createMemoryRateLimitStore();
+    }
+  }
+
+  if (name !== 'memory') {
+    console.warn(`Unknown RATE_LIMIT_STORE "${env.RATE_LIMIT_STORE}"; using the in-memory store`);
+  }
+  return createMemoryRateLimitStore();
+}
+
+// --- User-agent heuristics ---
+
+export type UserAgentVerdict = 'browser' | 'bot' | 'missing';
+
+const MAX_USER_AGENT_LENGTH = 512;
+
+// Crawlers, headless/automated browsers and HTTP libraries
+const BOT_USER_AGENT_PATTERN =
+  /bot\b|crawl|spider|slurp|headless|phantomjs|puppeteer|playwright|selenium|webdriver|lighthouse|curl\/|wget\/|python|httpx|aiohttp|go-http-client|java\/|okhttp|axios\/|node-fetch|undici|libwww|scrapy|postman|insomnia/i;
+
+/**
+ * Classify a User-Agent header. Events only come from our own client-side
+ * code, so anything that isn't a real browser is treated as a bot: every
+ * current browser sends a "Mozilla/5.0 (...)" user agent.
+ */
+export function classifyUserAgent(userAgent: string | null | undefined): UserAgentVerdict {
+  const trimmed = userAgent?.trim() ?? '';
+  if (!trimmed) return 'missing';
+  if (trimmed.length > MAX_USER_AGENT_LENGTH) return 'bot';
+  if (!trimmed.startsWith('Mozilla/')) return 'bot';
+  if (BOT_USER_AGENT_PATTERN.test(trimmed)) return 'bot';
+  return 'browser';
+}
@@ -0,0 +1,236 @@
+/**
+ * Minimal Redis (RESP2) client
+ *
+ * Just enough protocol for the rate-limit store: one lazily opened connection,
+ * pipelined commands, AUTH/SELECT from the URL and a per-call timeout. Works
+ * with Redis, Valkey, KeyDB, Dragonfly and TLS endpoints (rediss://).
+ *
+ * Server-only: imports node:net.
+ */
+
+import net from 'net';
+import tls from 'tls';
+
+export type RedisArg = string | number;
+
+/** An error reply, or a failure of the connection itself */
+export class RedisError extends Error {
+  override name = 'RedisError';
+}
+
+export type RedisReply = string | number | null | RedisError | RedisReply[];
+
+export interface RedisConnectionOptions {
+  host: string;
+  port: number;
+  tls: boolean;
+  username?: string;
+  password?: string;
+  db?: number;
+}
+
+export interface RedisClient {
+  /**
+   * Send commands in one write and resolve with one reply per command. Error
+   * replies come back as RedisError values; connection failures reject.
+   */
+  pipeline(commands: RedisArg[][]): Promise<RedisReply[]>;
+  close(): void;
+}
+
+const DEFAULT_PORT = 6379;
+const DEFAULT_TIMEOUT_MS = 500;
+
+/**
+ * Parse redis://[[user]:password@]host[:port][/db] (rediss:// for TLS)
+ */
+export function parseRedisUrl(url: string): RedisConnectionOptions {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new RedisError('Invalid Redis URL');
+  }
+
+  if (parsed.protocol !== 'redis:' && parsed.protocol !== 'rediss:') {
+    throw new RedisError(`Unsupported Redis URL scheme "${parsed.protocol}"`);
+  }
+
+  const dbPath = parsed.pathname.replace(/^\//, '');
+  const db = dbPath ? Number(dbPath) : undefined;
+  if (db !== undefined && (!Number.isInteger(db) || db < 0)) {
+    throw new RedisError(`Invalid Redis database "${dbPath}"`);
+  }
+
+  return {
+    // URL keeps the brackets around IPv6 hosts
+    host: parsed.hostname.replace(/^\[(.*)\]$/, '$1') || 'localhost',
+    port: parsed.port ? Number(parsed.port) : DEFAULT_PORT,
+    tls: parsed.protocol === 'rediss:',
+    ...(parsed.username && { username: decodeURIComponent(parsed.username) }),
+    ...(parsed.password && { password: decodeURIComponent(parsed.password) }),
+    ...(db !== undefined && { db }),
+  };
+}
+
+export function encodeCommand(args: RedisArg[]): string {
+  let encoded = `*${args.length}\r\n`;
+  for (const arg of args) {
+    const value = String(arg);
+    encoded += `$${Buffer.byteLength(value)}\r\n${value}\r\n`;
+  }
+  return encoded;
+}
+
+/**
+ * Parse one reply starting at `offset`. Returns null when the buffer doesn't
+ * hold the whole reply yet.
+ */
+export function parseReply(
+  buffer: Buffer,
+  offset = 0
+): { reply: RedisReply; offset: number } | null {
+  const lineEnd = buffer.indexOf('\r\n', offset);
+  if (lineEnd === -1) return null;
+
+  const type = String.fromCharCode(buffer[offset]);
+  const line = buffer.toString('utf8', offset + 1, lineEnd);
+  const next = lineEnd + 2;
+
+  switch (type) {
+    case '+':
+      return { reply: line, offset: next };
+    case '-':
+      return { reply: new RedisError(line), offset: next };
+    case ':':
+      return { reply: Number(line), offset: next };
+    case '$': {
+      const length = Number(line);
+      if (length < 0) return { reply: null, offset: next };
+      if (buffer.length < next + length + 2) return null;
+      return { reply: buffer.toString('utf8', next, next + length), offset: next + length + 2 };
+    }
+    case '*': {
+      const count = Number(line);
+      if (count < 0) return { reply: null, offset: next };
+      const items: RedisReply[] = [];
+      let cursor = next;
+      for (let i = 0; i < count; i++) {
+        const item = parseReply(buffer, cursor);
+        if (!item) return null;
+        items.push(item.reply);
+        cursor = item.offset;
+      }
+      return { reply: items, offset: cursor };
+    }
+    default:
+      throw new RedisError(`Unexpected reply type "${type}"`);
+  }
+}
+
+interface PendingReply {
+  resolve: (reply: RedisReply) => void;
+  reject: (error: Error) => void;
+}
+
+export function createRedisClient(
+  url: string,
+  options: { timeoutMs?: number } = {}
+): RedisClient {
+  const connection = parseRedisUrl(url);
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+
+  let socket: net.Socket | null = null;
+  let buffer: Buffer = Buffer.alloc(0);
+  const pending: PendingReply[] = [];
+
+  // Drop the connection and everything waiting on it; the next call reconnects
+  const failAll = (error: Error) => {
+    socket?.destroy();
+    socket = null;
+    buffer = Buffer.alloc(0);
+    for (const waiter of pending.splice(0)) waiter.reject(error);
+  };
+
+  const handleData = (chunk: Buffer) => {
+    buffer = buffer.length > 0 ? Buffer.concat([buffer, chunk]) : chunk;
+    let offset = 0;
+    while (offset < buffer.length) {
+      let parsed: ReturnType<typeof parseReply>;
+      try {
+        parsed = parseReply(buffer, offset);
+      } catch (error) {
+        failAll(error as Error);
+        return;
+      }
+      if (!parsed) break;
+      offset = parsed.offset;
+      pending.shift()?.resolve(parsed.reply);
+    }
+    buffer = buffer.subarray(offset);
+  };
+
+  const connect = (): net.Socket => {
+    const { host, port } = connection;
+    const opened = connection.tls
+      ? tls.connect({ host, port, servername: host })
+      : net.connect({ host, port });
+    opened.setNoDelay(true);
+    opened.on('data', handleData);
+    opened.on('error', (error: Error) => {
+      if (socket === opened) failAll(new RedisError(`Redis connection error: ${error.message}`));
+    });
+    opened.on('close', () => {
+      if (socket === opened) failAll(new RedisError('Redis connection closed'));
+    });
+    socket = opened;
+
+    // Writes made before the socket connects are buffered, so the handshake
+    // always goes out ahead of the first command
+    const handshake: RedisArg[][] = [];
+    if (connection.password) {
+      handshake.push(
+        connection.username
+          ? ['AUTH', connection.username, connection.password]
+          : ['AUTH', connection.password]
+      );
+    }
+    if (connection.db) handshake.push(['SELECT', connection.db]);
+
+    for (const command of handshake) {
+      pending.push({
+        resolve: (reply) => {
+          if (reply instanceof RedisError) failAll(reply);
+        },
+        reject: () => {},
+      });
+      opened.write(encodeCommand(command));
+    }
+
+    return opened;
+  };
+
+  return {
+    async pipeline(commands) {
+      const active = socket ?? connect();
+      const replies = commands.map(
+        () => new Promise<RedisReply>((resolve, reject) => pending.push({ resolve, reject }))
+      );
+      active.write(commands.map(encodeCommand).join(''));
+
+      const timer = setTimeout(() => failAll(new RedisError('Redis command timed out')), timeoutMs);
+      try {
+        return await Promise.all(replies);
+      } finally {
+        clearTimeout(timer);
+      }
+    },
+    close() {
+      const closing = socket;
+      socket = null;
+      closing?.end();
+      buffer = Buffer.alloc(0);
+      for (const waiter of pending.splice(0)) waiter.reject(new RedisError('Redis client closed'));
+    },
+  };
+}
@@ -0,0 +1,140 @@
+/**
+ * Tool catalog generated from acfs.manifest.yaml, plus the site-only details
+ * (display names, installer page grouping) for each module.
+ *
+ * Descriptions, docs URLs, aliases and tags come from the manifest; edit them
+ * there and run `bun run generate` in packages/manifest.
+ */
+
+import catalog from "./generated/tool-catalog.json";
+
+/** Mirrors ToolCatalogEntry in packages/manifest/src/catalog.ts */
+export interface ToolCatalogEntry {
+  id: string;
+  description: string;
+  category: string;
+  docs_url: string | null;
+  aliases: string[];
+  tags: string[];
+  phase: number;
+  run_as: "target_user" | "root" | "current";
+  optional: boolean;
+  /** Whether a plain install (no --only/--profile) runs the module */
+  enabled_by_default: boolean;
+  /** checksums.yaml tool key when installed via a verified upstream installer */
+  verified_installer: string | null;
+  install: string[];
+  verify: string[];
+  /** Direct dependencies (module ids) */
+  dependencies: string[];
+  /** Modules that depend on this one directly */
+  dependents: string[];
+  notes: string[];
+}
+
+export const TOOL_CATALOG = catalog.tools as ToolCatalogEntry[];
+
+export type InstallGroupId =
+  | "shell"
+  | "languages"
+  | "dev-tools"
+  | "agents"
+  | "cloud"
+  | "stack";
+
+export const INSTALL_GROUPS: Array<{ id: InstallGroupId; label: string }> = [
+  { id: "shell", label: "Shell & Terminal UX" },
+  { id: "languages", label: "Languages & Package Managers" },
+  { id: "dev-tools", label: "Dev Tools" },
+  { id: "agents", label: "Coding Agents" },
+  { id: "cloud", label: "Cloud & Database" },
+  { id: "stack", label: "Dicklesworthstone Stack" },
+];
+
+export interface WebToolEntry {
+  /** Name shown on the site */
+  name: string;
+  /** Group on the run-installer page (null for setup steps that are not tools) */
+  installGroup: InstallGroupId | null;
+}
+
+/**
+ * Site details for every manifest module, keyed by module id. A test in
+ * packages/manifest fails when a module is missing here or an entry has no
+ * module.
+ */
+export const WEB_TOOL_ENTRIES: Record<string, WebToolEntry> = {
+  "base.system": { name: "Base packages", installGroup: null },
+  "users.ubuntu": { name: "ubuntu user", installGroup: null },
+  "base.filesystem": { name: "Workspace directories", installGroup: null },
+  "shell.zsh": { name: "zsh", installGroup: "shell" },
+  "shell.omz": { name: "oh-my-zsh + powerlevel10k", installGroup: "shell" },
+  "cli.modern": {
+    name: "tmux, ripgrep, fzf, lazygit, lsd, bat",
+    installGroup: "dev-tools",
+  },
+  "network.tailscale": { name: "Tailscale", installGroup: "dev-tools" },
+  "lang.bun": { name: "bun (JavaScript/TypeScript)", installGroup: "languages" },
+  "lang.uv": { name: "uv (Python)", installGroup: "languages" },
+  "lang.rust": { name: "rust/cargo", installGroup: "languages" },
+  "lang.go": { name: "go", installGroup: "languages" },
+  "lang.nvm": { name: "nvm + Node.js", installGroup: "languages" },
+  "tools.atuin": { name: "atuin (shell history)", installGroup: "shell" },
+  "tools.zoxide": { name: "zoxide", installGroup: "shell" },
+  "tools.ast_grep": { name: "ast-grep", installGroup: "dev-tools" },
+  "agents.claude": { name: "Claude Code", installGroup: "agents" },
+  "agents.codex": { name: "Codex CLI", installGroup: "agents" },
+  "agents.gemini": { name: "Gemini CLI", installGroup: "agents" },
+  "tools.vault": { name: "Vault", installGroup: "cloud" },
+  "db.postgres18": { name: "PostgreSQL 18", installGroup: "cloud" },
+  "cloud.wrangler": { name: "Wrangler", installGroup: "cloud" },
+  "cloud.supabase": { name: "Supabase CLI", installGroup: "cloud" },
+  "cloud.vercel": { name: "Vercel CLI", installGroup: "cloud" },
+  "stack.ntm": { name: "ntm", installGroup: "stack" },
+  "stack.mcp_agent_mail": { name: "mcp_agent_mail", installGroup: "stack" },
+  "stack.ultimate_bug_scanner": { name: "ubs", installGroup: "stack" },
+  "stack.beads_viewer": { name: "beads_viewer", installGroup: "stack" },
+  "stack.cass": { name: "cass", installGroup: "stack" },
+  "stack.cm": { name: "cm", installGroup: "stack" },
+  "stack.caam": { name: "caam", installGroup: "stack" },
+  "stack.slb": { name: "slb", installGroup: "stack" },
+  "acfs.workspace": { name: "Agent workspace", installGroup: null },
+  "acfs.onboard": { name: "onboard tutorial", installGroup: null },
+  "acfs.update": { name: "acfs update", installGroup: null },
+  "acfs.doctor": { name: "acfs doctor", installGroup: null },
+};
+
+export function getToolCatalogEntry(
+  moduleId: string
+): ToolCatalogEntry | undefined {
+  return TOOL_CATALOG.find((entry) => entry.id === moduleId);
+}
+
+export function getModuleHref(moduleId: string): string {
+  return `/learn/modules/${moduleId}`;
+}
+
+/**
+ * Docs URL for a module. Throws for unknown modules or modules without a
+ * docs_url, so a renamed module breaks the build instead of a link.
+ */
+export function getToolDocsUrl(moduleId: string): string {
+  const docsUrl = getToolCatalogEntry(moduleId)?.docs_url;
+  if (!docsUrl) {
+    throw new Error(`No docs_url in acfs.manifest.yaml for module "${moduleId}"`);
+  }
+  return docsUrl;
+}
+
+/**
+ * What the installer sets up, grouped for the run-installer page (manifest order
+ * within each group)
+ */
+export function getInstallGroups(): Array<{ category: string; items: string[] }> {
+  return INSTALL_GROUPS.map((group) => ({
+    category: group.label,
+    items: TOOL_CATALOG.filter(
+      (entry) => WEB_TOOL_ENTRIES[entry.id]?.installGroup === group.id
+    ).map((entry) => WEB_TOOL_ENTRIES[entry.id].name),
+  }));
+}
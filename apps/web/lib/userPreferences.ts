@@ -8,11 +8,20 @@
 import { useQuery } from "@tanstack/react-query";
 import { useCallback, useEffect, useState } from "react";
 import { safeGetItem, safeSetItem } from "./utils";
+import { isValidIP } from "./ipAddress";
+import {
+  DEFAULT_INSTALLER_OPTIONS,
+  parseInstallerOptions,
+  type InstallerOptions,
+} from "./installCommand";
 
 export type OperatingSystem = "mac" | "windows" | "linux";
 
+export { isValidIP };
+
 const OS_KEY = "agent-flywheel-user-os";
 const VPS_IP_KEY = "agent-flywheel-vps-ip";
+const INSTALLER_OPTIONS_KEY = "agent-flywheel-installer-options";
 const OS_QUERY_KEY = "os";
 const VPS_IP_QUERY_KEY = "ip";
 
@@ -130,28 +139,23 @@ export function setVPSIP(ip: string): boolean {
 }
 
 /**
- * Validate an IP address (IPv4 or IPv6).
+ * Get the user's installer command choices from localStorage.
  */
-export function isValidIP(ip: string): boolean {
-  const normalized = ip.trim();
-
-  // IPv4 validation
-  const ipv4Pattern = /^(\d{1,3}\.){3}\d{1,3}$/;
-  if (ipv4Pattern.test(normalized)) {
-    const parts = normalized.split(".");
-    return parts.every((part) => {
-      const num = parseInt(part, 10);
-      return num >= 0 && num <= 255;
-    });
+export function getInstallerOptions(): InstallerOptions {
+  const stored = safeGetItem(INSTALLER_OPTIONS_KEY);
+  if (!stored) return DEFAULT_INSTALLER_OPTIONS;
+  try {
+    return parseInstallerOptions(JSON.parse(stored));
+  } catch {
+    return DEFAULT_INSTALLER_OPTIONS;
   }
+}
 
-  // IPv6 validation (full, compressed, and mixed formats)
-  // Matches: 2001:db8::1, ::1, fe80::1%eth0, 2001:db8:85a3::8a2e:370:7334, etc.
-  const ipv6Pattern = /^(([0-9a-fA-F]{1,4}:){7}[0-9a-fA-F]{1,4}|([0-9a-fA-F]{1,4}:){1,7}:|([0-9a-fA-F]{1,4}:){1,6}:[0-9a-fA-F]{1,4}|([0-9a-fA-F]{1,4}:){1,5}(:[0-9a-fA-F]{1,4}){1,2}|([0-9a-fA-F]{1,4}:){1,4}(:[0-9a-fA-F]{1,4}){1,3}|([0-9a-fA-F]{1,4}:){1,3}(:[0-9a-fA-F]{1,4}){1,4}|([0-9a-fA-F]{1,4}:){1,2}(:[0-9a-fA-F]{1,4}){1,5}|[0-9a-fA-F]{1,4}:((:[0-9a-fA-F]{1,4}){1,6})|:((:[0-9a-fA-F]{1,4}){1,7}|:)|fe80:(:[0-9a-fA-F]{0,4}){0,4}%[0-9a-zA-Z]+|::(ffff(:0{1,4})?:)?((25[0-5]|(2[0-4]|1?[0-9])?[0-9])\.){3}(25[0-5]|(2[0-4]|1?[0-9])?[0-9])|([0-9a-fA-F]{1,4}:){1,4}:((25[0-5]|(2[0-4]|1?[0-9])?[0-9])\.){3}(25[0-5]|(2[0-4]|1?[0-9])?[0-9]))$/;
-
-  // Remove zone ID (e.g., %eth0, %br-abc123, %my_iface) for validation
-  const ipWithoutZone = normalized.replace(/%[a-zA-Z0-9_-]+$/, "");
-  return ipv6Pattern.test(ipWithoutZone);
+/**
+ * Save the user's installer command choices to localStorage.
+ */
+export function setInstallerOptions(options: InstallerOptions): boolean {
+  return safeSetItem(INSTALLER_OPTIONS_KEY, JSON.stringify(options));
 }
 
 // --- React Hooks for User Preferences ---
@@ -206,6 +210,33 @@ export function useVPSIP(): [string | null, (ip: string) => void, boolean] {
   return [vpsIPState.ip, setIP, vpsIPState.loaded];
 }
 
+/**
+ * Hook to get and set the installer command choices.
+ * Uses SSR-safe localStorage loading + an explicit `loaded` flag.
+ */
+export function useInstallerOptions(): [
+  InstallerOptions,
+  (options: InstallerOptions) => void,
+  boolean,
+] {
+  const [optionsState, setOptionsState] = useState<{
+    options: InstallerOptions;
+    loaded: boolean;
+  }>({ options: DEFAULT_INSTALLER_OPTIONS, loaded: false });
+
+  useEffect(() => {
+    // eslint-disable-next-line react-hooks/set-state-in-effect -- localStorage access must happen after mount (SSR-safe)
+    setOptionsState({ options: getInstallerOptions(), loaded: true });
+  }, []);
+
+  const setOptions = useCallback((newOptions: InstallerOptions) => {
+    setInstallerOptions(newOptions);
+    setOptionsState({ options: newOptions, loaded: true });
+  }, []);
+
+  return [optionsState.options, setOptions, optionsState.loaded];
+}
+
 /**
  * Hook to get the detected OS (from user agent).
  * Only runs on client side.
@@ -0,0 +1,24 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { ADMIN_AUTH_REALM, checkAdminAccess } from '@/lib/adminAuth';
+
+/**
+ * Gate /admin behind ADMIN_TOKEN (see lib/adminAuth.ts): 404 when it isn't
+ * set, a Basic auth challenge when the request doesn't carry it.
+ */
+export function proxy(request: NextRequest) {
+  const access = checkAdminAccess(request.headers.get('authorization'));
+  if (access === 'disabled') {
+    return new NextResponse('Not Found', { status: 404 });
+  }
+  if (access === 'unauthorized') {
+    return new NextResponse('Authentication required', {
+      status: 401,
+      headers: { 'WWW-Authenticate': `Basic realm="${ADMIN_AUTH_REALM}", charset="UTF-8"` },
+    });
+  }
+  return NextResponse.next();
+}
+
+export const config = {
+  matcher: ['/admin/:path*'],
+};
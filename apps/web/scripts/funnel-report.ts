@@ -0,0 +1,100 @@
+#!/usr/bin/env bun
+/**
+ * First-party Funnel Report
+ *
+ * Shows wizard and learning hub funnels (reach, drop-off and median time per
+ * step) from the events the JSONL analytics sink stored. No network access or
+ * GA credentials needed.
+ *
+ * Usage: bun run scripts/funnel-report.ts [options]
+ *
+ *   --file <path>      events file (default: ANALYTICS_JSONL_PATH or .analytics/events.jsonl)
+ *   --funnel <name>    wizard | lessons (default: both)
+ *   --since <when>     only events since 7d, 12h, 30m or a date like 2026-01-01
+ *   --json             print the reports as JSON
+ */
+
+import { parseArgs } from 'util';
+import { readStoredEvents, resolveJsonlPath } from '../lib/analyticsSinks';
+import {
+  buildFunnelReport,
+  formatDuration,
+  formatPercent,
+  FUNNEL_NAMES,
+  parseSince,
+  type FunnelName,
+  type FunnelReport,
+} from '../lib/funnelReport';
+
+const BAR_WIDTH = 30;
+
+function printFunnel(report: FunnelReport): void {
+  console.log(`\n  ${report.title}: ${report.sessions} sessions, ${report.completedSessions} finished (${formatPercent(report.completionRate)})`);
+  console.log('  ' + '─'.repeat(96));
+  console.log(`  ${'Step'.padEnd(34)} ${'Reached'.padStart(7)} ${'Done'.padStart(6)} ${'Drop-off'.padStart(9)} ${'Median'.padStart(8)}   Funnel`);
+  console.log('  ' + '─'.repeat(96));
+
+  for (const step of report.steps) {
+    const barLength = Math.round(step.reachRate * BAR_WIDTH);
+    const bar = '█'.repeat(barLength) + '░'.repeat(BAR_WIDTH - barLength);
+    const label = `${String(step.step).padStart(2)}. ${step.title}`.slice(0, 34).padEnd(34);
+    const dropOff = step.reached > 0 ? `${step.droppedOff} (${formatPercent(step.dropOffRate)})` : '-';
+
+    console.log(
+      `  ${label} ${String(step.reached).padStart(7)} ${String(step.completed).padStart(6)} ${dropOff.padStart(9)} ${formatDuration(step.medianSeconds).padStart(8)}   ${bar}`
+    );
+  }
+}
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      file: { type: 'string' },
+      funnel: { type: 'string' },
+      since: { type: 'string' },
+      json: { type: 'boolean', default: false },
+    },
+  });
+
+  const funnels: FunnelName[] = values.funnel ? [values.funnel as FunnelName] : FUNNEL_NAMES;
+  if (!funnels.every((funnel) => FUNNEL_NAMES.includes(funnel))) {
+    console.error(`❌ Unknown funnel "${values.funnel}" (expected ${FUNNEL_NAMES.join(' or ')})`);
+    process.exit(1);
+  }
+
+  const since = parseSince(values.since);
+  if (values.since && !since) {
+    console.error(`❌ Can't parse --since "${values.since}" (try 7d, 12h or 2026-01-01)`);
+    process.exit(1);
+  }
+
+  const file = values.file ?? resolveJsonlPath();
+  const events = await readStoredEvents(file, { since });
+  const reports = funnels.map((funnel) => buildFunnelReport(events, funnel, { since }));
+
+  if (values.json) {
+    console.log(JSON.stringify(reports, null, 2));
+    return;
+  }
+
+  console.log('═'.repeat(60));
+  console.log('📊 ACFS Funnel Report');
+  console.log('═'.repeat(60));
+  console.log(`\nEvents: ${file}`);
+  console.log(`Since: ${since ? since.toISOString() : 'all time'}`);
+
+  if (events.length === 0) {
+    console.log('\nNo events stored yet. Run the site with ANALYTICS_SINK=jsonl to collect some.');
+    return;
+  }
+
+  for (const report of reports) {
+    printFunnel(report);
+  }
+  console.log('');
+}
+
+main().catch((error: unknown) => {
+  console.error('❌ Error:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -27,6 +27,7 @@
 #   --print-plan      Print execution plan and exit (no installs)
 #   --only <module>       Only run a specific module (repeatable)
 #   --only-phase <phase>  Only run modules in a specific phase (repeatable)
+#   --profile <name>      Run a named manifest profile (e.g., agents, db, full)
 #   --skip <module>       Skip a specific module (repeatable)
 #   --no-deps             Disable automatic dependency closure (expert/debug)
 # ============================================================
@@ -86,6 +87,7 @@ ONLY_MODULES=()
 ONLY_PHASES=()
 SKIP_MODULES=()
 NO_DEPS=false
+ACFS_PROFILE=""
 
 # Resume/reinstall options (used by state.sh confirm_resume)
 export ACFS_FORCE_RESUME=false
@@ -660,6 +662,14 @@ parse_args() {
                 ONLY_PHASES+=("$2")
                 shift 2
                 ;;
+            --profile)
+                # Select a named profile from the manifest (resolved in manifest_index.sh)
+                if [[ -z "${2:-}" ]]; then
+                    log_fatal "--profile requires a profile name"
+                fi
+                ACFS_PROFILE="$2"
+                shift 2
+                ;;
             --skip)
                 # Add module to SKIP_MODULES list
                 if [[ -z "${2:-}" ]]; then
@@ -915,6 +925,8 @@ print_execution_plan() {
         echo "Selection: --only ${ONLY_MODULES[*]}"
     elif [[ ${#ONLY_PHASES[@]} -gt 0 ]]; then
         echo "Selection: --only-phase ${ONLY_PHASES[*]}"
+    elif [[ -n "${ACFS_PROFILE:-}" ]]; then
+        echo "Selection: --profile $ACFS_PROFILE"
     fi
     if [[ ${#SKIP_MODULES[@]} -gt 0 ]]; then
         echo "Skipped:   --skip ${SKIP_MODULES[*]}"
@@ -3594,6 +3606,37 @@ finalize() {
     try_step "Creating .local/bin directory" run_as_target mkdir -p "$TARGET_HOME/.local/bin" || return 1
     try_step "Linking onboard command" run_as_target ln -sf "$ACFS_HOME/onboard/onboard.sh" "$TARGET_HOME/.local/bin/onboard" || return 1
 
+    # acfs-auth and acfs-onboard (the Learning Hub version of the tutorial)
+    # are Bun CLIs run from their sources; the bin/ wrappers find bun (PATH
+    # or ~/.bun/bin) at run time. `onboard` stays the bash TUI above, which
+    # works without bun. Keep this list in sync with the imports of
+    # src/acfs-auth.ts and src/onboard.ts (checked by install.test.ts).
+    log_detail "Installing acfs-auth and acfs-onboard commands"
+    local onboard_files=(
+        "bin/acfs-auth"
+        "bin/acfs-onboard"
+        "src/acfs-auth.ts"
+        "src/onboard.ts"
+        "src/data/lessons.ts"
+        "src/data/services.ts"
+        "src/lib/authChecks.ts"
+        "src/lib/authProbes.ts"
+        "src/lib/authReport.ts"
+        "src/lib/exercises.ts"
+        "src/lib/lessons.ts"
+        "src/lib/markdown.ts"
+        "src/lib/progress.ts"
+    )
+    try_step "Creating onboard source directories" $SUDO mkdir -p "$ACFS_HOME/onboard/bin" "$ACFS_HOME/onboard/src/data" "$ACFS_HOME/onboard/src/lib" || return 1
+    local onboard_file
+    for onboard_file in "${onboard_files[@]}"; do
+        try_step "Installing onboard file: $onboard_file" install_asset "packages/onboard/$onboard_file" "$ACFS_HOME/onboard/$onboard_file" || return 1
+    done
+    try_step "Setting onboard wrapper permissions" $SUDO chmod 755 "$ACFS_HOME/onboard/bin/acfs-auth" "$ACFS_HOME/onboard/bin/acfs-onboard" || return 1
+    try_step "Setting onboard source ownership" acfs_chown_tree "$TARGET_USER:$TARGET_USER" "$ACFS_HOME/onboard" || return 1
+    try_step "Linking acfs-auth command" run_as_target ln -sf "$ACFS_HOME/onboard/bin/acfs-auth" "$TARGET_HOME/.local/bin/acfs-auth" || return 1
+    try_step "Linking acfs-onboard command" run_as_target ln -sf "$ACFS_HOME/onboard/bin/acfs-onboard" "$TARGET_HOME/.local/bin/acfs-onboard" || return 1
+
     # Install acfs scripts (for acfs CLI subcommands)
     log_detail "Installing acfs scripts"
     try_step "Creating ACFS scripts directory" $SUDO mkdir -p "$ACFS_HOME/scripts/lib" || return 1
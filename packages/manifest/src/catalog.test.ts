@@ -0,0 +1,135 @@
+/**
+ * Tests for the website tool catalog
+ *
+ * Keeps apps/web in step with the manifest: the committed catalog must match
+ * the manifest, and every module needs a site entry (and vice versa).
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { readFileSync } from 'node:fs';
+import { resolve, dirname } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { buildToolCatalog, serializeToolCatalog, TOOL_CATALOG_COMMENT } from './catalog.js';
+import { parseManifestFile } from './parser.js';
+import type { Manifest, Module } from './types.js';
+import { WEB_TOOL_ENTRIES } from '../../../apps/web/lib/toolCatalog';
+import { COMMANDS } from '../../../apps/web/lib/commands';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const PROJECT_ROOT = resolve(__dirname, '../../..');
+const MANIFEST_PATH = resolve(PROJECT_ROOT, 'acfs.manifest.yaml');
+const CATALOG_PATH = resolve(PROJECT_ROOT, 'apps/web/lib/generated/tool-catalog.json');
+
+function loadManifest(): Manifest {
+  const result = parseManifestFile(MANIFEST_PATH);
+  if (!result.success || !result.data) {
+    throw new Error(`Failed to parse manifest: ${result.error?.message}`);
+  }
+  return result.data;
+}
+
+function mod(id: string, extra: Partial<Module> = {}): Module {
+  return {
+    id,
+    description: `${id} description`,
+    run_as: 'target_user',
+    optional: false,
+    enabled_by_default: true,
+    generated: true,
+    install: ['true'],
+    verify: ['true'],
+    ...extra,
+  };
+}
+
+describe('buildToolCatalog', () => {
+  test('copies module facts in manifest order with the dependency graph in both directions', () => {
+    const manifest: Manifest = {
+      version: 1,
+      name: 'test',
+      id: 'test',
+      defaults: { user: 'ubuntu', workspace_root: '/data/projects', mode: 'vibe' },
+      modules: [
+        mod('stack.ntm', {
+          docs_url: 'https://github.com/Dicklesworthstone/ntm',
+          aliases: ['n'],
+          tags: ['recommended'],
+          phase: 9,
+          dependencies: ['lang.bun', 'missing.module'],
+          verified_installer: { tool: 'ntm', runner: 'bash' },
+          install: [],
+          notes: ['Installs the ntm binary'],
+        }),
+        mod('lang.bun', { category: 'tools', run_as: 'root', optional: true, enabled_by_default: false }),
+      ],
+    };
+
+    expect(buildToolCatalog(manifest)).toEqual({
+      $comment: TOOL_CATALOG_COMMENT,
+      tools: [
+        {
+          id: 'stack.ntm',
+          description: 'stack.ntm description',
+          category: 'stack',
+          docs_url: 'https://github.com/Dicklesworthstone/ntm',
+          aliases: ['n'],
+          tags: ['recommended'],
+          phase: 9,
+          run_as: 'target_user',
+          optional: false,
+          enabled_by_default: true,
+          verified_installer: 'ntm',
+          install: [],
+          verify: ['true'],
+          dependencies: ['lang.bun'],
+          dependents: [],
+          notes: ['Installs the ntm binary'],
+        },
+        {
+          id: 'lang.bun',
+          description: 'lang.bun description',
+          category: 'tools',
+          docs_url: null,
+          aliases: [],
+          tags: [],
+          phase: 1,
+          run_as: 'root',
+          optional: true,
+          enabled_by_default: false,
+          verified_installer: null,
+          install: ['true'],
+          verify: ['true'],
+          dependencies: [],
+          dependents: ['stack.ntm'],
+          notes: [],
+        },
+      ],
+    });
+  });
+});
+
+describe('apps/web tool catalog', () => {
+  const manifest = loadManifest();
+  const moduleIds = manifest.modules.map((module) => module.id);
+
+  test('committed catalog is up to date (run bun run generate)', () => {
+    expect(readFileSync(CATALOG_PATH, 'utf-8')).toBe(serializeToolCatalog(buildToolCatalog(manifest)));
+  });
+
+  test('every manifest module has a web entry', () => {
+    const missing = moduleIds.filter((id) => !(id in WEB_TOOL_ENTRIES));
+    expect(missing).toEqual([]);
+  });
+
+  test('every web entry names a manifest module', () => {
+    const orphaned = Object.keys(WEB_TOOL_ENTRIES).filter((id) => !moduleIds.includes(id));
+    expect(orphaned).toEqual([]);
+  });
+
+  test('every command reference is installed by a manifest module', () => {
+    const unknown = COMMANDS.filter((command) => !moduleIds.includes(command.moduleId)).map(
+      (command) => `${command.name} -> ${command.moduleId}`
+    );
+    expect(unknown).toEqual([]);
+  });
+});
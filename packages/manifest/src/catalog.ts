@@ -0,0 +1,83 @@
+/**
+ * ACFS Tool Catalog
+ * The website's view of the manifest: one entry per module, written to
+ * apps/web/lib/generated/tool-catalog.json by the generator
+ */
+
+import { getDependents, getModuleDependencies, resolveModuleCategory } from './utils.js';
+import type { Manifest, ModuleCategory, RunAs } from './types.js';
+
+/**
+ * Tool facts the website shows, copied from the module
+ */
+export interface ToolCatalogEntry {
+  /** Module ID (e.g., "stack.ntm") */
+  id: string;
+  description: string;
+  category: ModuleCategory;
+  /** Documentation or repository URL (null when the manifest has none) */
+  docs_url: string | null;
+  /** Shell aliases the module sets up */
+  aliases: string[];
+  tags: string[];
+  /** Install phase (modules without one run in phase 1) */
+  phase: number;
+  run_as: RunAs;
+  optional: boolean;
+  /** Whether a plain install (no --only/--profile) runs the module */
+  enabled_by_default: boolean;
+  /** checksums.yaml tool key when installed via a verified upstream installer */
+  verified_installer: string | null;
+  install: string[];
+  verify: string[];
+  /** IDs of direct dependencies */
+  dependencies: string[];
+  /** IDs of modules that depend on this one directly */
+  dependents: string[];
+  notes: string[];
+}
+
+export interface ToolCatalog {
+  $comment: string;
+  tools: ToolCatalogEntry[];
+}
+
+export const TOOL_CATALOG_COMMENT =
+  'AUTO-GENERATED FROM acfs.manifest.yaml - DO NOT EDIT. Regenerate: bun run generate (from packages/manifest)';
+
+/**
+ * Build the catalog in manifest order
+ *
+ * @param manifest - The manifest object
+ * @returns Catalog with an entry for every module
+ */
+export function buildToolCatalog(manifest: Manifest): ToolCatalog {
+  return {
+    $comment: TOOL_CATALOG_COMMENT,
+    tools: manifest.modules.map((module) => ({
+      id: module.id,
+      description: module.description,
+      category: resolveModuleCategory(module),
+      docs_url: module.docs_url ?? null,
+      aliases: module.aliases ?? [],
+      tags: module.tags ?? [],
+      phase: module.phase ?? 1,
+      run_as: module.run_as,
+      optional: module.optional,
+      enabled_by_default: module.enabled_by_default,
+      verified_installer: module.verified_installer?.tool ?? null,
+      install: module.install,
+      verify: module.verify,
+      dependencies: getModuleDependencies(manifest, module.id).map((dependency) => dependency.id),
+      dependents: getDependents(manifest, module.id).map((dependent) => dependent.id),
+      notes: module.notes ?? [],
+    })),
+  };
+}
+
+/**
+ * Serialize the catalog as committed (2-space JSON, trailing newline)
+ */
+export function serializeToolCatalog(catalog: ToolCatalog): string {
+  return `${JSON.stringify(catalog, null, 2)}\n`;
+}
@@ -0,0 +1,168 @@
+/**
+ * Tests for ACFS Manifest Changelog
+ *
+ * Validates semantic change classification between manifest revisions
+ * and the Markdown rendering used for release notes.
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { diffManifests, formatChangelogMarkdown } from './changelog.js';
+import type { Manifest, Module } from './types.js';
+
+function mod(id: string, overrides: Partial<Module> = {}): Module {
+  return {
+    id,
+    description: `${id} description`,
+    phase: 1,
+    run_as: 'target_user',
+    optional: false,
+    enabled_by_default: true,
+    generated: true,
+    install: ['true'],
+    verify: ['true'],
+    dependencies: [],
+    ...overrides,
+  };
+}
+
+function manifestOf(modules: Module[], profiles?: Manifest['profiles']): Manifest {
+  return {
+    version: 1,
+    name: 'test',
+    id: 'test',
+    defaults: { user: 'ubuntu', workspace_root: '/data/projects', mode: 'vibe' },
+    modules,
+    ...(profiles ? { profiles } : {}),
+  };
+}
+
+describe('diffManifests', () => {
+  test('identical manifests produce no changes', () => {
+    const manifest = manifestOf([mod('base.system'), mod('lang.bun', { dependencies: ['base.system'] })]);
+    expect(diffManifests(manifest, manifest)).toEqual([]);
+  });
+
+  test('detects added and removed modules', () => {
+    const before = manifestOf([mod('a'), mod('b')]);
+    const after = manifestOf([mod('a'), mod('c')]);
+    expect(diffManifests(before, after)).toEqual([
+      { kind: 'module_added', id: 'c' },
+      { kind: 'module_removed', id: 'b' },
+    ]);
+  });
+
+  test('detects phase moves', () => {
+    const changes = diffManifests(manifestOf([mod('a', { phase: 2 })]), manifestOf([mod('a', { phase: 5 })]));
+    expect(changes).toEqual([{ kind: 'phase_changed', id: 'a', before: 2, after: 5 }]);
+  });
+
+  test('detects dependency edges regardless of order', () => {
+    const before = manifestOf([mod('a', { dependencies: ['x', 'y'] })]);
+    const after = manifestOf([mod('a', { dependencies: ['z', 'x'] })]);
+    expect(diffManifests(before, after)).toEqual([
+      { kind: 'dependency_added', id: 'a', after: 'z' },
+      { kind: 'dependency_removed', id: 'a', before: 'y' },
+    ]);
+    const reordered = manifestOf([mod('a', { dependencies: ['y', 'x'] })]);
+    expect(diffManifests(before, reordered)).toEqual([]);
+  });
+
+  test('detects verified installer tool swaps', () => {
+    const before = manifestOf([mod('a', { verified_installer: { tool: 'bun', runner: 'bash', args: [] } })]);
+    const after = manifestOf([mod('a', { verified_installer: { tool: 'uv', runner: 'bash', args: [] } })]);
+    expect(diffManifests(before, after)).toEqual([
+      { kind: 'verified_installer_changed', id: 'a', before: 'bun', after: 'uv' },
+    ]);
+  });
+
+  test('reports installer runner/args edits as a field change', () => {
+    const before = manifestOf([mod('a', { verified_installer: { tool: 'bun', runner: 'bash', args: [] } })]);
+    const after = manifestOf([
+      mod('a', { verified_installer: { tool: 'bun', runner: 'bash', args: ['--yes'] } }),
+    ]);
+    expect(diffManifests(before, after)).toEqual([
+      { kind: 'module_changed', id: 'a', fields: ['verified_installer'] },
+    ]);
+  });
+
+  test('classifies added and removed install and verify steps', () => {
+    const before = manifestOf([mod('a', { install: ['step one', 'step two'], verify: ['a --version'] })]);
+    const after = manifestOf([
+      mod('a', { install: ['step one', 'step three'], verify: ['a --version', 'a doctor'] }),
+    ]);
+    expect(diffManifests(before, after)).toEqual([
+      { kind: 'install_changed', id: 'a', added: ['step three'], removed: ['step two'] },
+      { kind: 'verify_changed', id: 'a', added: ['a doctor'], removed: [] },
+    ]);
+  });
+
+  test('reports reordered steps with empty added/removed lists', () => {
+    const before = manifestOf([mod('a', { install: ['one', 'two'] })]);
+    const after = manifestOf([mod('a', { install: ['two', 'one'] })]);
+    expect(diffManifests(before, after)).toEqual([
+      { kind: 'install_changed', id: 'a', added: [], removed: [] },
+    ]);
+  });
+
+  test('collects other field edits into one module_changed entry', () => {
+    const before = manifestOf([mod('a')]);
+    const after = manifestOf([
+      mod('a', { description: 'new text', optional: true, version: '>=1.0', version_check: 'a -v' }),
+    ]);
+    expect(diffManifests(before, after)).toEqual([
+      {
+        kind: 'module_changed',
+        id: 'a',
+        fields: ['description', 'optional', 'version', 'version_check'],
+      },
+    ]);
+  });
+
+  test('detects profile additions, removals and edits', () => {
+    const before = manifestOf([mod('a')], {
+      minimal: { description: 'Minimal', modules: ['a'] },
+      old: { description: 'Old', modules: ['a'] },
+    });
+    const after = manifestOf([mod('a')], {
+      minimal: { description: 'Minimal', modules: ['a', 'b'] },
+      full: { description: 'Full', modules: ['a'] },
+    });
+    expect(diffManifests(before, after)).toEqual([
+      { kind: 'profile_added', id: 'full' },
+      { kind: 'profile_changed', id: 'minimal' },
+      { kind: 'profile_removed', id: 'old' },
+    ]);
+  });
+});
+
+describe('formatChangelogMarkdown', () => {
+  test('renders a placeholder when nothing changed', () => {
+    const manifest = manifestOf([mod('a')]);
+    expect(formatChangelogMarkdown([], manifest, 'Since v1')).toBe(
+      '## Since v1\n\nNo semantic changes.\n'
+    );
+  });
+
+  test('groups changes into sections', () => {
+    const before = manifestOf([mod('a', { phase: 2, install: ['old step'] }), mod('gone')]);
+    const after = manifestOf(
+      [
+        mod('a', { phase: 3, install: ['curl -fsSL x | bash\nexport PATH=y'], dependencies: ['new'] }),
+        mod('new', { description: 'A new tool', phase: 4 }),
+      ],
+      { full: { description: 'Everything', modules: ['a', 'new'] } }
+    );
+    const markdown = formatChangelogMarkdown(diffManifests(before, after), after);
+
+    expect(markdown).toContain('## Manifest changes');
+    expect(markdown).toContain('### Added modules\n\n- `new` — A new tool (phase 4)');
+    expect(markdown).toContain('### Removed modules\n\n- `gone`');
+    expect(markdown).toContain('#### `a`');
+    expect(markdown).toContain('- Phase moved: 2 → 3');
+    expect(markdown).toContain('- Dependency added: `new`');
+    expect(markdown).toContain('- Install steps changed (+1 / -1)');
+    expect(markdown).toContain("  - added: `curl -fsSL x | bash` (multi-line)");
+    expect(markdown).toContain('  - removed: `old step`');
+    expect(markdown).toContain('### Profiles\n\n- Added profile `full`');
+  });
+});
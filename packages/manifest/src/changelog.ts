@@ -0,0 +1,307 @@
+/**
+ * ACFS Manifest Changelog
+ * Semantic diff between two manifest revisions, rendered as Markdown
+ */
+
+import type { Manifest, Module } from './types.js';
+
+/**
+ * Kinds of semantic manifest changes
+ */
+export type ManifestChangeKind =
+  | 'module_added'
+  | 'module_removed'
+  | 'phase_changed'
+  | 'dependency_added'
+  | 'dependency_removed'
+  | 'verified_installer_changed'
+  | 'install_changed'
+  | 'verify_changed'
+  | 'module_changed'
+  | 'profile_added'
+  | 'profile_removed'
+  | 'profile_changed';
+
+/**
+ * A single semantic change between two manifests
+ */
+export interface ManifestChange {
+  /** What changed */
+  kind: ManifestChangeKind;
+  /** Module ID (module changes) or profile name (profile changes) */
+  id: string;
+  /** Previous value (phase, dependency, installer tool) */
+  before?: string | number;
+  /** New value (phase, dependency, installer tool) */
+  after?: string | number;
+  /** Steps present only in the new revision (install/verify changes) */
+  added?: string[];
+  /** Steps present only in the old revision (install/verify changes) */
+  removed?: string[];
+  /** Other changed fields (module_changed only) */
+  fields?: string[];
+}
+
+/**
+ * Module fields compared for module_changed (the rest have dedicated kinds)
+ */
+const OTHER_MODULE_FIELDS = [
+  'description',
+  'category',
+  'run_as',
+  'optional',
+  'enabled_by_default',
+  'installed_check',
+  'generated',
+  'tags',
+  'conflicts',
+  'aliases',
+  'notes',
+  'docs_url',
+  'version',
+  'version_check',
+  'uninstall',
+  'when',
+  'variants',
+] as const satisfies ReadonlyArray<keyof Module>;
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Steps in `a` that are not matched by a step in `b` (multiset difference)
+ */
+function stepsOnlyIn(a: string[], b: string[]): string[] {
+  const remaining = [...b];
+  return a.filter((step) => {
+    const idx = remaining.indexOf(step);
+    if (idx === -1) return true;
+    remaining.splice(idx, 1);
+    return false;
+  });
+}
+
+function diffSteps(
+  kind: 'install_changed' | 'verify_changed',
+  id: string,
+  before: string[],
+  after: string[]
+): ManifestChange[] {
+  if (sameValue(before, after)) return [];
+  return [{ kind, id, added: stepsOnlyIn(after, before), removed: stepsOnlyIn(before, after) }];
+}
+
+function diffModule(before: Module, after: Module): ManifestChange[] {
+  const id = after.id;
+  const changes: ManifestChange[] = [];
+
+  const phaseBefore = before.phase ?? 1;
+  const phaseAfter = after.phase ?? 1;
+  if (phaseBefore !== phaseAfter) {
+    changes.push({ kind: 'phase_changed', id, before: phaseBefore, after: phaseAfter });
+  }
+
+  const depsBefore = new Set(before.dependencies ?? []);
+  const depsAfter = new Set(after.dependencies ?? []);
+  for (const dep of depsAfter) {
+    if (!depsBefore.has(dep)) changes.push({ kind: 'dependency_added', id, after: dep });
+  }
+  for (const dep of depsBefore) {
+    if (!depsAfter.has(dep)) changes.push({ kind: 'dependency_removed', id, before: dep });
+  }
+
+  const toolBefore = before.verified_installer?.tool;
+  const toolAfter = after.verified_installer?.tool;
+  if (toolBefore !== toolAfter) {
+    changes.push({ kind: 'verified_installer_changed', id, before: toolBefore, after: toolAfter });
+  }
+
+  changes.push(...diffSteps('install_changed', id, before.install, after.install));
+  changes.push(...diffSteps('verify_changed', id, before.verify, after.verify));
+
+  const fields: string[] = OTHER_MODULE_FIELDS.filter(
+    (field) => !sameValue(before[field], after[field])
+  );
+  // Same tool but different runner/args/fallback
+  if (toolBefore === toolAfter && !sameValue(before.verified_installer, after.verified_installer)) {
+    fields.push('verified_installer');
+  }
+  if (fields.length > 0) {
+    changes.push({ kind: 'module_changed', id, fields });
+  }
+
+  return changes;
+}
+
+/**
+ * Classify the semantic changes between two manifest revisions
+ *
+ * @param before - Old manifest
+ * @param after - New manifest
+ * @returns Changes, grouped per module in the new manifest's order
+ *
+ * @example
+ * ```ts
+ * const changes = diffManifests(previous, current);
+ * const added = changes.filter((c) => c.kind === 'module_added').map((c) => c.id);
+ * ```
+ */
+export function diffManifests(before: Manifest, after: Manifest): ManifestChange[] {
+  const changes: ManifestChange[] = [];
+  const beforeById = new Map(before.modules.map((module) => [module.id, module]));
+  const afterIds = new Set(after.modules.map((module) => module.id));
+
+  for (const module of after.modules) {
+    const previous = beforeById.get(module.id);
+    if (!previous) {
+      changes.push({ kind: 'module_added', id: module.id });
+    } else {
+      changes.push(...diffModule(previous, module));
+    }
+  }
+  for (const module of before.modules) {
+    if (!afterIds.has(module.id)) {
+      changes.push({ kind: 'module_removed', id: module.id });
+    }
+  }
+
+  const profilesBefore = before.profiles ?? {};
+  const profilesAfter = after.profiles ?? {};
+  for (const name of Object.keys(profilesAfter).sort()) {
+    if (!(name in profilesBefore)) {
+      changes.push({ kind: 'profile_added', id: name });
+    } else if (!sameValue(profilesBefore[name], profilesAfter[name])) {
+      changes.push({ kind: 'profile_changed', id: name });
+    }
+  }
+  for (const name of Object.keys(profilesBefore).sort()) {
+    if (!(name in profilesAfter)) {
+      changes.push({ kind: 'profile_removed', id: name });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Summarize a (possibly multi-line) step as its first non-empty line
+ */
+function stepSummary(step: string): string {
+  const firstLine = step
+    .split('\n')
+    .map((line) => line.trim())
+    .find((line) => line.length > 0 && line !== '|');
+  const summary = firstLine ?? '';
+  const multiLine = step.trim().includes('\n');
+  return `\`${summary.replace(/`/g, "'")}\`${multiLine ? ' (multi-line)' : ''}`;
+}
+
+function formatModuleChange(change: ManifestChange): string[] {
+  switch (change.kind) {
+    case 'phase_changed':
+      return [`- Phase moved: ${change.before} → ${change.after}`];
+    case 'dependency_added':
+      return [`- Dependency added: \`${change.after}\``];
+    case 'dependency_removed':
+      return [`- Dependency removed: \`${change.before}\``];
+    case 'verified_installer_changed':
+      return [
+        `- verified_installer tool: ${change.before ? `\`${change.before}\`` : '(none)'} → ${
+          change.after ? `\`${change.after}\`` : '(none)'
+        }`,
+      ];
+    case 'install_changed':
+    case 'verify_changed': {
+      const label = change.kind === 'install_changed' ? 'Install steps' : 'Verify commands';
+      const added = change.added ?? [];
+      const removed = change.removed ?? [];
+      const lines =
+        added.length === 0 && removed.length === 0
+          ? [`- ${label} reordered`]
+          : [`- ${label} changed (+${added.length} / -${removed.length})`];
+      for (const step of added) lines.push(`  - added: ${stepSummary(step)}`);
+      for (const step of removed) lines.push(`  - removed: ${stepSummary(step)}`);
+      return lines;
+    }
+    case 'module_changed':
+      return [`- Other fields changed: ${(change.fields ?? []).map((f) => `\`${f}\``).join(', ')}`];
+    default:
+      return [];
+  }
+}
+
+/**
+ * Render manifest changes as a Markdown changelog section
+ *
+ * @param changes - Output of diffManifests
+ * @param after - New manifest (used for descriptions of added modules)
+ * @param title - Section heading
+ * @returns Markdown text
+ */
+export function formatChangelogMarkdown(
+  changes: ManifestChange[],
+  after: Manifest,
+  title = 'Manifest changes'
+): string {
+  const lines: string[] = [`## ${title}`, ''];
+
+  if (changes.length === 0) {
+    lines.push('No semantic changes.', '');
+    return lines.join('\n');
+  }
+
+  const byKind = (kind: ManifestChangeKind): ManifestChange[] =>
+    changes.filter((change) => change.kind === kind);
+  const afterById = new Map(after.modules.map((module) => [module.id, module]));
+
+  const added = byKind('module_added');
+  if (added.length > 0) {
+    lines.push('### Added modules', '');
+    for (const change of added) {
+      const module = afterById.get(change.id);
+      const detail = module ? ` — ${module.description} (phase ${module.phase ?? 1})` : '';
+      lines.push(`- \`${change.id}\`${detail}`);
+    }
+    lines.push('');
+  }
+
+  const removed = byKind('module_removed');
+  if (removed.length > 0) {
+    lines.push('### Removed modules', '');
+    for (const change of removed) lines.push(`- \`${change.id}\``);
+    lines.push('');
+  }
+
+  const moduleChanges = new Map<string, ManifestChange[]>();
+  for (const change of changes) {
+    if (change.kind === 'module_added' || change.kind === 'module_removed') continue;
+    if (change.kind.startsWith('profile_')) continue;
+    moduleChanges.set(change.id, [...(moduleChanges.get(change.id) ?? []), change]);
+  }
+  if (moduleChanges.size > 0) {
+    lines.push('### Changed modules', '');
+    for (const [id, list] of moduleChanges) {
+      lines.push(`#### \`${id}\``, '');
+      for (const change of list) lines.push(...formatModuleChange(change));
+      lines.push('');
+    }
+  }
+
+  const profileChanges = changes.filter((change) => change.kind.startsWith('profile_'));
+  if (profileChanges.length > 0) {
+    lines.push('### Profiles', '');
+    for (const change of profileChanges) {
+      const verb =
+        change.kind === 'profile_added'
+          ? 'Added'
+          : change.kind === 'profile_removed'
+            ? 'Removed'
+            : 'Changed';
+      lines.push(`- ${verb} profile \`${change.id}\``);
+    }
+    lines.push('');
+  }
+
+  return lines.join('\n');
+}
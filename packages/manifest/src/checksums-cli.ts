@@ -0,0 +1,131 @@
+#!/usr/bin/env bun
+/**
+ * ACFS Checksums CLI
+ * Reports drift between checksums.yaml and the manifest, and refreshes
+ * pinned hashes from a local mirror of installer scripts.
+ *
+ * Usage:
+ *   bun run src/checksums-cli.ts                        # missing/orphaned entries
+ *   bun run src/checksums-cli.ts --mirror ./mirror      # + stale hashes
+ *   bun run src/checksums-cli.ts --mirror ./mirror --update
+ */
+
+import { writeFileSync } from 'node:fs';
+import { dirname, join, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { parseManifestFile } from './parser.js';
+import {
+  analyzeChecksums,
+  applyChecksumUpdates,
+  computeMirrorHashes,
+  parseChecksumsFile,
+  serializeChecksums,
+} from './checksums.js';
+
+const SCRIPT_FILE = fileURLToPath(import.meta.url);
+const PROJECT_ROOT = resolve(dirname(SCRIPT_FILE), '../../..');
+const MANIFEST_PATH = join(PROJECT_ROOT, 'acfs.manifest.yaml');
+const CHECKSUMS_PATH = join(PROJECT_ROOT, 'checksums.yaml');
+
+function showHelp(): void {
+  console.log(`
+ACFS Checksums Tool
+
+Usage: bun run src/checksums-cli.ts [options]
+
+Options:
+  --mirror <dir>   Directory of installer scripts (<tool> or <tool>.sh) to hash
+  --update         Write recomputed hashes to checksums.yaml (requires --mirror);
+                   replaced hashes are kept under history:
+  --json           Print the drift report as JSON
+  --help           Show this help message
+
+Exit status is 1 when a verified_installer has no entry or (without
+--update) a mirrored script no longer matches its pinned hash.
+Orphaned entries are reported but do not fail.
+`);
+}
+
+function main(): void {
+  const args = process.argv.slice(2);
+  if (args.includes('--help') || args.includes('-h')) {
+    showHelp();
+    process.exit(0);
+  }
+
+  const mirrorIndex = args.indexOf('--mirror');
+  const mirrorDir = mirrorIndex !== -1 ? args[mirrorIndex + 1] : undefined;
+  const update = args.includes('--update');
+  const json = args.includes('--json');
+
+  if (mirrorIndex !== -1 && !mirrorDir) {
+    console.error('--mirror requires a directory');
+    process.exit(2);
+  }
+  if (update && !mirrorDir) {
+    console.error('--update requires --mirror <dir>');
+    process.exit(2);
+  }
+
+  const manifestResult = parseManifestFile(MANIFEST_PATH);
+  if (!manifestResult.success || !manifestResult.data) {
+    console.error(`Failed to parse manifest: ${manifestResult.error?.message}`);
+    process.exit(1);
+  }
+
+  const checksumsResult = parseChecksumsFile(CHECKSUMS_PATH);
+  if (!checksumsResult.success || !checksumsResult.data) {
+    const error = checksumsResult.error;
+    const at = error?.line !== undefined ? ` (line ${error.line}, column ${error.column})` : '';
+    console.error(`Invalid checksums.yaml${at}: ${error?.message}`);
+    if (error?.snippet) console.error(error.snippet);
+    process.exit(1);
+  }
+
+  let checksums = checksumsResult.data;
+  const mirrorHashes = mirrorDir
+    ? computeMirrorHashes(resolve(mirrorDir), Object.keys(checksums.installers))
+    : undefined;
+  const drift = analyzeChecksums(manifestResult.data, checksums, mirrorHashes);
+
+  let updated: string[] = [];
+  if (update && mirrorHashes && drift.stale.length > 0) {
+    ({ checksums, updated } = applyChecksumUpdates(checksums, mirrorHashes));
+    writeFileSync(CHECKSUMS_PATH, serializeChecksums(checksums));
+  }
+
+  const failed = drift.missing.length > 0 || (drift.stale.length > 0 && !update);
+
+  if (json) {
+    console.log(JSON.stringify({ ok: !failed, ...drift, updated }, null, 2));
+    process.exit(failed ? 1 : 0);
+  }
+
+  for (const gap of drift.missing) {
+    console.error(`[MISSING]  ${gap.tool} (used by ${gap.moduleId})`);
+  }
+  for (const entry of drift.stale) {
+    const status = updated.includes(entry.tool) ? '[UPDATED]' : '[STALE]  ';
+    console.log(`${status}  ${entry.tool}: ${entry.recorded} -> ${entry.actual}`);
+  }
+  for (const tool of drift.orphaned) {
+    console.log(`[ORPHAN]   ${tool} (not referenced by any verified_installer)`);
+  }
+  for (const tool of drift.unmirrored) {
+    console.log(`[NOMIRROR] ${tool}`);
+  }
+
+  const total = Object.keys(checksums.installers).length;
+  console.log('');
+  console.log(
+    `${total} installers: ${drift.missing.length} missing, ${drift.orphaned.length} orphaned` +
+      (mirrorHashes ? `, ${drift.stale.length} stale, ${drift.unmirrored.length} not mirrored` : '')
+  );
+  if (updated.length > 0) {
+    console.log(`Updated ${updated.length} checksum(s) in checksums.yaml (previous hashes kept in history).`);
+  }
+
+  process.exit(failed ? 1 : 0);
+}
+
+main();
@@ -0,0 +1,220 @@
+/**
+ * Tests for ACFS Checksums tooling
+ *
+ * Validates checksums.yaml parsing, drift detection against the manifest,
+ * mirror hashing and history-preserving updates.
+ */
+
+import { describe, test, expect, beforeAll, afterAll } from 'bun:test';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join, resolve, dirname } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import {
+  analyzeChecksums,
+  applyChecksumUpdates,
+  computeMirrorHashes,
+  computeSha256,
+  parseChecksumsFile,
+  parseChecksumsString,
+  serializeChecksums,
+} from './checksums.js';
+import { parseManifestFile } from './parser.js';
+import type { ChecksumsFile, Manifest } from './types.js';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const PROJECT_ROOT = resolve(__dirname, '../../..');
+
+const SHA_A = 'a'.repeat(64);
+const SHA_B = 'b'.repeat(64);
+const SHA_C = 'c'.repeat(64);
+
+const CHECKSUMS_YAML = `# checksums.yaml - Auto-generated 2026-01-01T00:00:00+00:00
+installers:
+  bun:
+    url: "https://bun.sh/install"
+    sha256: "${SHA_A.toUpperCase()}"
+
+  legacy:
+    url: "https://example.com/legacy.sh"
+    sha256: "${SHA_B}"
+`;
+
+function makeManifest(tools: Array<[string, string]>): Manifest {
+  return {
+    version: 1,
+    name: 'test',
+    id: 'test',
+    defaults: { user: 'ubuntu', workspace_root: '/data/projects', mode: 'vibe' },
+    modules: tools.map(([id, tool]) => ({
+      id,
+      description: id,
+      run_as: 'target_user',
+      optional: false,
+      enabled_by_default: true,
+      generated: true,
+      install: [],
+      verify: ['true'],
+      verified_installer: { tool, runner: 'bash' },
+    })),
+  };
+}
+
+describe('parseChecksumsString', () => {
+  test('parses installers and normalizes sha256 to lowercase', () => {
+    const result = parseChecksumsString(CHECKSUMS_YAML);
+    expect(result.success).toBe(true);
+    expect(result.data?.installers.bun.sha256).toBe(SHA_A);
+    expect(result.data?.history).toEqual({});
+  });
+
+  test('rejects placeholder hashes with a source location', () => {
+    const result = parseChecksumsString(CHECKSUMS_YAML.replace(SHA_B, 'FETCH_FAILED'));
+    expect(result.success).toBe(false);
+    expect(result.error?.message).toContain('installers.legacy.sha256');
+    expect(result.error?.line).toBe(9);
+  });
+
+  test('rejects non-HTTPS installer URLs', () => {
+    const result = parseChecksumsString(
+      CHECKSUMS_YAML.replace('https://example.com', 'http://example.com')
+    );
+    expect(result.success).toBe(false);
+    expect(result.error?.message).toContain('HTTPS');
+  });
+
+  test('reports YAML syntax errors with a code frame', () => {
+    const result = parseChecksumsString('installers:\n  bun: [\n');
+    expect(result.success).toBe(false);
+    expect(result.error?.message).toContain('YAML parse error');
+    expect(result.error?.snippet).toBeDefined();
+  });
+
+  test('parses the repository checksums.yaml', () => {
+    const result = parseChecksumsFile(resolve(PROJECT_ROOT, 'checksums.yaml'));
+    expect(result.success).toBe(true);
+    expect(Object.keys(result.data?.installers ?? {}).length).toBeGreaterThan(0);
+  });
+});
+
+describe('analyzeChecksums', () => {
+  let checksums: ChecksumsFile;
+
+  beforeAll(() => {
+    checksums = parseChecksumsString(CHECKSUMS_YAML).data!;
+  });
+
+  test('reports missing and orphaned entries', () => {
+    const manifest = makeManifest([
+      ['lang.bun', 'bun'],
+      ['lang.uv', 'uv'],
+    ]);
+    const drift = analyzeChecksums(manifest, checksums);
+    expect(drift.missing).toEqual([{ tool: 'uv', moduleId: 'lang.uv' }]);
+    expect(drift.orphaned).toEqual(['legacy']);
+    expect(drift.stale).toEqual([]);
+    expect(drift.unmirrored).toEqual([]);
+  });
+
+  test('reports stale and unmirrored entries when mirror hashes are given', () => {
+    const manifest = makeManifest([
+      ['lang.bun', 'bun'],
+      ['tools.legacy', 'legacy'],
+    ]);
+    const drift = analyzeChecksums(manifest, checksums, { bun: SHA_C });
+    expect(drift.stale).toEqual([{ tool: 'bun', recorded: SHA_A, actual: SHA_C }]);
+    expect(drift.unmirrored).toEqual(['legacy']);
+  });
+
+  test('repository checksums cover every verified installer', () => {
+    const manifestResult = parseManifestFile(resolve(PROJECT_ROOT, 'acfs.manifest.yaml'));
+    const checksumsResult = parseChecksumsFile(resolve(PROJECT_ROOT, 'checksums.yaml'));
+    const drift = analyzeChecksums(manifestResult.data!, checksumsResult.data!);
+    expect(drift.missing).toEqual([]);
+  });
+});
+
+describe('computeMirrorHashes', () => {
+  let mirrorDir: string;
+
+  beforeAll(() => {
+    mirrorDir = mkdtempSync(join(tmpdir(), 'acfs-mirror-'));
+    writeFileSync(join(mirrorDir, 'bun.sh'), 'echo bun\n');
+    writeFileSync(join(mirrorDir, 'legacy'), 'echo legacy\n');
+  });
+
+  afterAll(() => {
+    rmSync(mirrorDir, { recursive: true, force: true });
+  });
+
+  test('hashes <tool> and <tool>.sh files and skips missing ones', () => {
+    const hashes = computeMirrorHashes(mirrorDir, ['bun', 'legacy', 'uv']);
+    expect(hashes).toEqual({
+      bun: computeSha256('echo bun\n'),
+      legacy: computeSha256('echo legacy\n'),
+    });
+  });
+
+  test('computeSha256 matches the known digest of empty input', () => {
+    expect(computeSha256('')).toBe(
+      'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855'
+    );
+  });
+});
+
+describe('applyChecksumUpdates', () => {
+  test('replaces changed hashes and records the previous value', () => {
+    const checksums = parseChecksumsString(CHECKSUMS_YAML).data!;
+    const { checksums: next, updated } = applyChecksumUpdates(
+      checksums,
+      { bun: SHA_C, legacy: SHA_B },
+      '2026-02-03'
+    );
+
+    expect(updated).toEqual(['bun']);
+    expect(next.installers.bun.sha256).toBe(SHA_C);
+    expect(next.installers.legacy.sha256).toBe(SHA_B);
+    expect(next.history).toEqual({ bun: [{ sha256: SHA_A, replaced_at: '2026-02-03' }] });
+    // Input is not modified
+    expect(checksums.installers.bun.sha256).toBe(SHA_A);
+  });
+
+  test('appends to existing history', () => {
+    const checksums = parseChecksumsString(CHECKSUMS_YAML).data!;
+    const first = applyChecksumUpdates(checksums, { bun: SHA_B }, '2026-02-03').checksums;
+    const second = applyChecksumUpdates(first, { bun: SHA_C }, '2026-03-04').checksums;
+
+    expect(second.history.bun).toEqual([
+      { sha256: SHA_A, replaced_at: '2026-02-03' },
+      { sha256: SHA_B, replaced_at: '2026-03-04' },
+    ]);
+  });
+});
+
+describe('serializeChecksums', () => {
+  test('round-trips through parseChecksumsString', () => {
+    const checksums = parseChecksumsString(CHECKSUMS_YAML).data!;
+    const { checksums: next } = applyChecksumUpdates(checksums, { bun: SHA_C }, '2026-02-03');
+    const yaml = serializeChecksums(next, '2026-02-03T00:00:00Z');
+    const reparsed = parseChecksumsString(yaml);
+
+    expect(reparsed.success).toBe(true);
+    expect(reparsed.data).toEqual(next);
+  });
+
+  test('keeps history out of the installers section read by security.sh', () => {
+    const checksums = parseChecksumsString(CHECKSUMS_YAML).data!;
+    const { checksums: next } = applyChecksumUpdates(checksums, { bun: SHA_C }, '2026-02-03');
+    const yaml = serializeChecksums(next, '2026-02-03T00:00:00Z');
+    const installersSection = yaml.slice(yaml.indexOf('installers:'), yaml.indexOf('history:'));
+
+    expect(yaml).toContain('# checksums.yaml - Auto-generated 2026-02-03T00:00:00Z');
+    expect(installersSection).toContain(`    sha256: "${SHA_C}"`);
+    expect(installersSection).not.toContain(SHA_A);
+  });
+
+  test('omits the history section when there is no history', () => {
+    const checksums = parseChecksumsString(CHECKSUMS_YAML).data!;
+    expect(serializeChecksums(checksums)).not.toContain('history:');
+  });
+});
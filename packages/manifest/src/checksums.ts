@@ -0,0 +1,283 @@
+/**
+ * ACFS Checksums
+ * Parsing, drift detection and updates for checksums.yaml
+ */
+
+import { createHash } from 'node:crypto';
+import { existsSync, readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { parse as parseYaml, YAMLParseError } from 'yaml';
+import { ChecksumsFileSchema } from './schema.js';
+import { formatZodError } from './parser.js';
+import { createManifestSource, formatCodeFrame, locatePath } from './source.js';
+import type { ChecksumGap } from './report.js';
+import type { ChecksumsFile, Manifest, ParseResult } from './types.js';
+
+/**
+ * A checksum that no longer matches the installer script in the mirror
+ */
+export interface StaleChecksum {
+  /** Installer key in checksums.yaml */
+  tool: string;
+  /** SHA256 recorded in checksums.yaml */
+  recorded: string;
+  /** SHA256 of the mirrored installer script */
+  actual: string;
+}
+
+/**
+ * Drift between checksums.yaml, the manifest and (optionally) an installer mirror
+ */
+export interface ChecksumDriftReport {
+  /** verified_installer tools with no checksums.yaml entry */
+  missing: ChecksumGap[];
+  /** checksums.yaml entries not referenced by any verified_installer */
+  orphaned: string[];
+  /** Entries whose mirrored installer hashes differently */
+  stale: StaleChecksum[];
+  /** Entries with no script in the mirror (only when a mirror was given) */
+  unmirrored: string[];
+}
+
+/**
+ * Parse checksums.yaml from a string
+ *
+ * @param yamlContent - YAML content as a string
+ * @returns Parse result with checksums data or error (with line/column when known)
+ */
+export function parseChecksumsString(yamlContent: string): ParseResult<ChecksumsFile> {
+  let parsed: unknown;
+  try {
+    parsed = parseYaml(yamlContent);
+  } catch (err) {
+    if (err instanceof YAMLParseError) {
+      const line = err.linePos?.[0]?.line;
+      const column = err.linePos?.[0]?.col;
+      return {
+        success: false,
+        error: {
+          message: `YAML parse error: ${err.message}`,
+          line,
+          column,
+          snippet:
+            line !== undefined && column !== undefined
+              ? formatCodeFrame(yamlContent, line, column)
+              : undefined,
+        },
+      };
+    }
+    return {
+      success: false,
+      error: {
+        message: `YAML parse error: ${err instanceof Error ? err.message : String(err)}`,
+      },
+    };
+  }
+
+  const validation = ChecksumsFileSchema.safeParse(parsed);
+  if (!validation.success) {
+    const firstIssue = validation.error.issues[0];
+    const location = firstIssue
+      ? locatePath(createManifestSource(yamlContent), firstIssue.path)
+      : undefined;
+    return {
+      success: false,
+      error: {
+        message: formatZodError(validation.error),
+        ...location,
+      },
+    };
+  }
+
+  return { success: true, data: validation.data };
+}
+
+/**
+ * Parse checksums.yaml from a path
+ *
+ * @param yamlPath - Path to checksums.yaml
+ * @returns Parse result with checksums data or error
+ */
+export function parseChecksumsFile(yamlPath: string): ParseResult<ChecksumsFile> {
+  if (!existsSync(yamlPath)) {
+    return {
+      success: false,
+      error: { message: `Checksums file not found: ${yamlPath}` },
+    };
+  }
+
+  let content: string;
+  try {
+    content = readFileSync(yamlPath, 'utf-8');
+  } catch (err) {
+    return {
+      success: false,
+      error: {
+        message: `Failed to read checksums file: ${err instanceof Error ? err.message : String(err)}`,
+      },
+    };
+  }
+
+  return parseChecksumsString(content);
+}
+
+/**
+ * SHA256 of installer script bytes (same as security.sh calculate_sha256)
+ */
+export function computeSha256(content: string | Uint8Array): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * Hash installer scripts from a local mirror directory.
+ * Each installer is looked up as `<tool>` or `<tool>.sh`.
+ *
+ * @param mirrorDir - Directory containing downloaded installer scripts
+ * @param tools - Installer keys to hash
+ * @returns SHA256 per tool (tools without a mirrored script are omitted)
+ */
+export function computeMirrorHashes(mirrorDir: string, tools: string[]): Record<string, string> {
+  const hashes: Record<string, string> = {};
+  for (const tool of tools) {
+    const candidates = [join(mirrorDir, tool), join(mirrorDir, `${tool}.sh`)];
+    const file = candidates.find((candidate) => existsSync(candidate));
+    if (file) {
+      hashes[tool] = computeSha256(readFileSync(file));
+    }
+  }
+  return hashes;
+}
+
+/**
+ * Compare checksums.yaml against the manifest's verified installers and,
+ * optionally, hashes recomputed from an installer mirror
+ *
+ * @param manifest - Parsed manifest
+ * @param checksums - Parsed checksums.yaml
+ * @param mirrorHashes - Hashes from computeMirrorHashes (omit to skip stale detection)
+ * @returns Missing, orphaned, stale and unmirrored entries (sorted by tool)
+ *
+ * @example
+ * ```ts
+ * const drift = analyzeChecksums(manifest, checksums, computeMirrorHashes('./mirror', tools));
+ * if (drift.missing.length > 0 || drift.stale.length > 0) process.exit(1);
+ * ```
+ */
+export function analyzeChecksums(
+  manifest: Manifest,
+  checksums: ChecksumsFile,
+  mirrorHashes?: Record<string, string>
+): ChecksumDriftReport {
+  const referenced = new Set<string>();
+  const missing: ChecksumGap[] = [];
+
+  for (const module of manifest.modules) {
+    const tool = module.verified_installer?.tool;
+    if (!tool) continue;
+    referenced.add(tool);
+    if (!checksums.installers[tool]) {
+      missing.push({ tool, moduleId: module.id });
+    }
+  }
+
+  const tools = Object.keys(checksums.installers).sort();
+  const orphaned = tools.filter((tool) => !referenced.has(tool));
+  const stale: StaleChecksum[] = [];
+  const unmirrored: string[] = [];
+
+  if (mirrorHashes) {
+    for (const tool of tools) {
+      const actual = mirrorHashes[tool];
+      if (actual === undefined) {
+        unmirrored.push(tool);
+      } else if (actual !== checksums.installers[tool].sha256) {
+        stale.push({ tool, recorded: checksums.installers[tool].sha256, actual });
+      }
+    }
+  }
+
+  missing.sort((a, b) => a.tool.localeCompare(b.tool) || a.moduleId.localeCompare(b.moduleId));
+  return { missing, orphaned, stale, unmirrored };
+}
+
+/**
+ * Replace pinned checksums with recomputed hashes, recording the previous
+ * value in history. Unchanged entries are left alone.
+ *
+ * @param checksums - Parsed checksums.yaml
+ * @param hashes - New SHA256 per tool (e.g., from computeMirrorHashes)
+ * @param date - Replacement date (YYYY-MM-DD, default: today in UTC)
+ * @returns Updated checksums (input is not modified) and the tools that changed
+ */
+export function applyChecksumUpdates(
+  checksums: ChecksumsFile,
+  hashes: Record<string, string>,
+  date: string = new Date().toISOString().slice(0, 10)
+): { checksums: ChecksumsFile; updated: string[] } {
+  const installers: ChecksumsFile['installers'] = {};
+  const history: ChecksumsFile['history'] = {};
+  for (const [tool, entries] of Object.entries(checksums.history)) {
+    history[tool] = [...entries];
+  }
+
+  const updated: string[] = [];
+  for (const [tool, entry] of Object.entries(checksums.installers)) {
+    const next = hashes[tool]?.toLowerCase();
+    if (next === undefined || next === entry.sha256) {
+      installers[tool] = { ...entry };
+      continue;
+    }
+    installers[tool] = { ...entry, sha256: next };
+    history[tool] = [...(history[tool] ?? []), { sha256: entry.sha256, replaced_at: date }];
+    updated.push(tool);
+  }
+
+  return { checksums: { installers, history }, updated: updated.sort() };
+}
+
+/**
+ * Serialize checksums.yaml in the layout written by
+ * `security.sh --update-checksums` (which load_checksums relies on).
+ * History lives in a separate top-level section so the bash parser,
+ * which only reads `installers:`, never sees previous hashes.
+ *
+ * @param checksums - Checksums to write
+ * @param generatedAt - Timestamp for the header comment
+ * @returns YAML content
+ */
+export function serializeChecksums(
+  checksums: ChecksumsFile,
+  generatedAt: string = new Date().toISOString()
+): string {
+  const lines: string[] = [
+    `# checksums.yaml - Auto-generated ${generatedAt}`,
+    '# Run: ./scripts/lib/security.sh --update-checksums',
+    '',
+    'installers:',
+  ];
+
+  for (const [tool, entry] of Object.entries(checksums.installers)) {
+    lines.push(`  ${tool}:`);
+    lines.push(`    url: "${entry.url}"`);
+    lines.push(`    sha256: "${entry.sha256}"`);
+    lines.push('');
+  }
+
+  const historyTools = Object.keys(checksums.history)
+    .filter((tool) => checksums.history[tool].length > 0)
+    .sort();
+  if (historyTools.length > 0) {
+    lines.push('# Previously pinned checksums (oldest first)');
+    lines.push('history:');
+    for (const tool of historyTools) {
+      lines.push(`  ${tool}:`);
+      for (const entry of checksums.history[tool]) {
+        lines.push(`    - sha256: "${entry.sha256}"`);
+        lines.push(`      replaced_at: "${entry.replaced_at}"`);
+      }
+    }
+    lines.push('');
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,154 @@
+/**
+ * Tests for ACFS Module Conditions
+ *
+ * Validates when: parsing, range evaluation, variant selection and the
+ * encoding consumed by acfs_when_matches.
+ */
+
+import { describe, test, expect } from 'bun:test';
+import {
+  conditionMatches,
+  describeCondition,
+  encodeCondition,
+  getSupportedTargets,
+  selectVariant,
+  ubuntuVersionInRange,
+} from './conditions.js';
+import type { InstallTarget } from './conditions.js';
+import { parseManifestString } from './parser.js';
+import type { Module } from './types.js';
+
+const target = (overrides: Partial<InstallTarget> = {}): InstallTarget => ({
+  ubuntu: '24.04',
+  arch: 'amd64',
+  virt: 'vm',
+  mode: 'vibe',
+  ...overrides,
+});
+
+function manifestYaml(moduleYaml: string): string {
+  return `version: 1
+name: test
+id: test
+defaults:
+  user: ubuntu
+  workspace_root: /data/projects
+  mode: vibe
+modules:
+  - id: tools.foo
+    description: Foo
+    verify:
+      - foo --version
+${moduleYaml}`;
+}
+
+describe('ubuntuVersionInRange', () => {
+  test('supports comparators and space-separated ranges', () => {
+    expect(ubuntuVersionInRange('24.04', '>=24.04')).toBe(true);
+    expect(ubuntuVersionInRange('22.04', '>=24.04')).toBe(false);
+    expect(ubuntuVersionInRange('24.10', '>=22.04 <25.04')).toBe(true);
+    expect(ubuntuVersionInRange('25.04', '>=22.04 <25.04')).toBe(false);
+    expect(ubuntuVersionInRange('25.10', '25.10')).toBe(true);
+    expect(ubuntuVersionInRange('25.10', '=25.04')).toBe(false);
+    expect(ubuntuVersionInRange('25.10', '>25.04')).toBe(true);
+    expect(ubuntuVersionInRange('22.04', '<=22.04')).toBe(true);
+  });
+});
+
+describe('conditionMatches', () => {
+  test('requires every given field to match', () => {
+    const when = { ubuntu: '>=24.04', arch: ['arm64' as const], mode: ['safe' as const] };
+    expect(conditionMatches(when, target({ arch: 'arm64', mode: 'safe' }))).toBe(true);
+    expect(conditionMatches(when, target({ arch: 'arm64', mode: 'vibe' }))).toBe(false);
+    expect(conditionMatches(when, target({ arch: 'amd64', mode: 'safe' }))).toBe(false);
+    expect(conditionMatches(when, target({ ubuntu: '22.04', arch: 'arm64', mode: 'safe' }))).toBe(false);
+  });
+
+  test('an absent condition always matches', () => {
+    expect(conditionMatches(undefined, target())).toBe(true);
+  });
+});
+
+describe('selectVariant', () => {
+  const module = {
+    variants: [
+      { when: { arch: ['arm64' as const], virt: ['wsl' as const] }, install: ['a'] },
+      { when: { arch: ['arm64' as const] }, install: ['b'] },
+    ],
+  } as Module;
+
+  test('picks the first matching variant', () => {
+    expect(selectVariant(module, target({ arch: 'arm64', virt: 'wsl' }))).toBe(0);
+    expect(selectVariant(module, target({ arch: 'arm64' }))).toBe(1);
+  });
+
+  test('falls back to the default install', () => {
+    expect(selectVariant(module, target())).toBe(-1);
+  });
+});
+
+describe('encodeCondition / describeCondition', () => {
+  test('encodes clauses for acfs_when_matches', () => {
+    expect(encodeCondition({ ubuntu: '>=22.04   <25.04', arch: ['amd64', 'arm64'], virt: ['wsl'], mode: ['safe'] })).toBe(
+      'ubuntu=>=22.04 <25.04;arch=amd64,arm64;virt=wsl;mode=safe'
+    );
+    expect(encodeCondition(undefined)).toBe('');
+  });
+
+  test('describes conditions for logs', () => {
+    expect(describeCondition({ ubuntu: '>=24.04', arch: ['arm64'] })).toBe('ubuntu >=24.04, arch arm64');
+    expect(describeCondition(undefined)).toBe('always');
+  });
+});
+
+describe('getSupportedTargets', () => {
+  test('covers every release, arch, virtualization and mode', () => {
+    const targets = getSupportedTargets();
+    expect(targets).toHaveLength(5 * 2 * 4 * 2);
+    expect(new Set(targets.map((t) => `${t.ubuntu}/${t.arch}/${t.virt}/${t.mode}`)).size).toBe(targets.length);
+  });
+});
+
+describe('when: schema', () => {
+  test('normalizes single values to lists', () => {
+    const result = parseManifestString(
+      manifestYaml(`    when:
+      ubuntu: ">=24.04"
+      arch: arm64
+    variants:
+      - when: { virt: wsl }
+        install:
+          - echo wsl
+    install:
+      - echo default
+`)
+    );
+    expect(result.success).toBe(true);
+    const module = result.data!.modules[0];
+    expect(module.when).toEqual({ ubuntu: '>=24.04', arch: ['arm64'] });
+    expect(module.variants?.[0].when).toEqual({ virt: ['wsl'] });
+  });
+
+  test('accepts variants in place of a default install', () => {
+    const result = parseManifestString(
+      manifestYaml(`    variants:
+      - when: { arch: [amd64, arm64] }
+        install:
+          - echo any
+`)
+    );
+    expect(result.success).toBe(true);
+  });
+
+  test('rejects unknown keys, bad ranges and empty conditions', () => {
+    for (const when of ['{ os: debian }', '{ ubuntu: "24" }', '{ arch: riscv64 }', '{}']) {
+      const result = parseManifestString(
+        manifestYaml(`    when: ${when}
+    install:
+      - echo
+`)
+      );
+      expect(result.success).toBe(false);
+    }
+  });
+});
@@ -0,0 +1,150 @@
+/**
+ * ACFS Module Conditions
+ * Evaluation, encoding and coverage helpers for module `when:` clauses
+ */
+
+import type { Arch, Module, ModuleCondition, Virtualization } from './types.js';
+
+/**
+ * A concrete system a module can be installed on
+ */
+export interface InstallTarget {
+  ubuntu: string;
+  arch: Arch;
+  virt: Virtualization;
+  mode: 'vibe' | 'safe';
+}
+
+/**
+ * Ubuntu releases the installer supports (22.04+ is upgraded to 25.10).
+ * Coverage checks evaluate conditions against these releases.
+ */
+export const SUPPORTED_UBUNTU_RELEASES = ['22.04', '24.04', '24.10', '25.04', '25.10'] as const;
+
+export const SUPPORTED_ARCHES: readonly Arch[] = ['amd64', 'arm64'];
+
+export const SUPPORTED_VIRTUALIZATIONS: readonly Virtualization[] = [
+  'bare_metal',
+  'vm',
+  'container',
+  'wsl',
+];
+
+const SUPPORTED_MODES = ['vibe', 'safe'] as const;
+
+/**
+ * Compare two dotted versions numerically (-1, 0 or 1)
+ */
+function compareVersions(a: string, b: string): number {
+  const left = a.split('.').map(Number);
+  const right = b.split('.').map(Number);
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    const diff = (left[i] ?? 0) - (right[i] ?? 0);
+    if (diff !== 0) return diff < 0 ? -1 : 1;
+  }
+  return 0;
+}
+
+/**
+ * Check an Ubuntu release against a range (same semantics as acfs_ubuntu_version_in_range)
+ *
+ * @param version - Release, e.g. "24.04"
+ * @param range - Space-separated comparators, e.g. ">=22.04 <25.04"
+ */
+export function ubuntuVersionInRange(version: string, range: string): boolean {
+  return range
+    .trim()
+    .split(/\s+/)
+    .every((comparator) => {
+      const match = /^(>=|<=|>|<|=)?(.+)$/.exec(comparator);
+      if (!match) return false;
+      const cmp = compareVersions(version, match[2]);
+      switch (match[1] ?? '=') {
+        case '>=':
+          return cmp >= 0;
+        case '<=':
+          return cmp <= 0;
+        case '>':
+          return cmp > 0;
+        case '<':
+          return cmp < 0;
+        default:
+          return cmp === 0;
+      }
+    });
+}
+
+/**
+ * Check whether a condition holds on a target (undefined condition always holds)
+ */
+export function conditionMatches(when: ModuleCondition | undefined, target: InstallTarget): boolean {
+  if (!when) return true;
+  if (when.ubuntu !== undefined && !ubuntuVersionInRange(target.ubuntu, when.ubuntu)) return false;
+  if (when.arch && !when.arch.includes(target.arch)) return false;
+  if (when.virt && !when.virt.includes(target.virt)) return false;
+  if (when.mode && !when.mode.includes(target.mode)) return false;
+  return true;
+}
+
+/**
+ * Every supported release × arch × virtualization × mode combination
+ */
+export function getSupportedTargets(): InstallTarget[] {
+  const targets: InstallTarget[] = [];
+  for (const ubuntu of SUPPORTED_UBUNTU_RELEASES) {
+    for (const arch of SUPPORTED_ARCHES) {
+      for (const virt of SUPPORTED_VIRTUALIZATIONS) {
+        for (const mode of SUPPORTED_MODES) {
+          targets.push({ ubuntu, arch, virt, mode });
+        }
+      }
+    }
+  }
+  return targets;
+}
+
+/**
+ * Pick the install variant for a target
+ *
+ * @returns Index into module.variants, or -1 for the default install
+ */
+export function selectVariant(module: Module, target: InstallTarget): number {
+  return (module.variants ?? []).findIndex((variant) => conditionMatches(variant.when, target));
+}
+
+/**
+ * Encode a condition for acfs_when_matches: "key=value" clauses joined by ";",
+ * list values joined by ",". Empty string means "always".
+ *
+ * @example
+ * ```ts
+ * encodeCondition({ ubuntu: '>=24.04', arch: ['arm64'] }); // "ubuntu=>=24.04;arch=arm64"
+ * ```
+ */
+export function encodeCondition(when: ModuleCondition | undefined): string {
+  if (!when) return '';
+  const clauses: string[] = [];
+  if (when.ubuntu !== undefined) clauses.push(`ubuntu=${when.ubuntu.trim().split(/\s+/).join(' ')}`);
+  if (when.arch) clauses.push(`arch=${when.arch.join(',')}`);
+  if (when.virt) clauses.push(`virt=${when.virt.join(',')}`);
+  if (when.mode) clauses.push(`mode=${when.mode.join(',')}`);
+  return clauses.join(';');
+}
+
+/**
+ * Human-readable condition, for logs and validation messages
+ *
+ * @example
+ * ```ts
+ * describeCondition({ ubuntu: '>=24.04', arch: ['arm64'] }); // "ubuntu >=24.04, arch arm64"
+ * ```
+ */
+export function describeCondition(when: ModuleCondition | undefined): string {
+  if (!when) return 'always';
+  const parts: string[] = [];
+  if (when.ubuntu !== undefined) parts.push(`ubuntu ${when.ubuntu}`);
+  if (when.arch) parts.push(`arch ${when.arch.join('|')}`);
+  if (when.virt) parts.push(`virt ${when.virt.join('|')}`);
+  if (when.mode) parts.push(`mode ${when.mode.join('|')}`);
+  return parts.join(', ');
+}
@@ -0,0 +1,70 @@
+/**
+ * Tests for ACFS Unified Diff
+ *
+ * Validates hunk headers and context handling used by `generate --diff`.
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { createUnifiedDiff } from './diff.js';
+
+const lines = (count: number): string =>
+  Array.from({ length: count }, (_, i) => `line ${i + 1}`).join('\n') + '\n';
+
+describe('createUnifiedDiff', () => {
+  test('returns empty string for identical texts', () => {
+    expect(createUnifiedDiff('a\nb\n', 'a\nb\n')).toBe('');
+  });
+
+  test('uses labels in the file header', () => {
+    const diff = createUnifiedDiff('a\n', 'b\n', { oldLabel: 'a/x.sh', newLabel: 'b/x.sh' });
+    expect(diff.startsWith('--- a/x.sh\n+++ b/x.sh\n')).toBe(true);
+  });
+
+  test('renders a new file as a single added hunk', () => {
+    const diff = createUnifiedDiff('', 'one\ntwo\n');
+    expect(diff).toBe('--- a\n+++ b\n@@ -0,0 +1,2 @@\n+one\n+two\n');
+  });
+
+  test('renders a changed line with three lines of context', () => {
+    const before = lines(10);
+    const after = before.replace('line 5\n', 'line five\n');
+    const diff = createUnifiedDiff(before, after);
+    expect(diff).toBe(
+      [
+        '--- a',
+        '+++ b',
+        '@@ -2,7 +2,7 @@',
+        ' line 2',
+        ' line 3',
+        ' line 4',
+        '-line 5',
+        '+line five',
+        ' line 6',
+        ' line 7',
+        ' line 8',
+        '',
+      ].join('\n')
+    );
+  });
+
+  test('splits distant changes into separate hunks', () => {
+    const before = lines(30);
+    const after = before.replace('line 2\n', 'line two\n').replace('line 28\n', 'line 28b\n');
+    const diff = createUnifiedDiff(before, after);
+    const headers = diff.split('\n').filter((line) => line.startsWith('@@'));
+    expect(headers).toEqual(['@@ -1,5 +1,5 @@', '@@ -25,6 +25,6 @@']);
+  });
+
+  test('merges nearby changes into one hunk', () => {
+    const before = lines(20);
+    const after = before.replace('line 5\n', 'x\n').replace('line 9\n', 'y\n');
+    const diff = createUnifiedDiff(before, after);
+    const headers = diff.split('\n').filter((line) => line.startsWith('@@'));
+    expect(headers).toEqual(['@@ -2,11 +2,11 @@']);
+  });
+
+  test('respects a custom context size', () => {
+    const diff = createUnifiedDiff(lines(10), lines(10).replace('line 5\n', 'x\n'), { context: 0 });
+    expect(diff).toBe('--- a\n+++ b\n@@ -5 +5 @@\n-line 5\n+x\n');
+  });
+});
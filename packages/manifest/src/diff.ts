@@ -0,0 +1,172 @@
+/**
+ * ACFS Unified Diff
+ * Minimal line-based unified diff for generated file comparisons
+ */
+
+/**
+ * Options for createUnifiedDiff
+ */
+export interface UnifiedDiffOptions {
+  /** Label for the old file (default: "a") */
+  oldLabel?: string;
+  /** Label for the new file (default: "b") */
+  newLabel?: string;
+  /** Number of unchanged context lines around each change (default: 3) */
+  context?: number;
+}
+
+type DiffOp = { type: ' ' | '-' | '+'; line: string };
+
+/**
+ * Upper bound on LCS table cells. Generated scripts differ in a few small
+ * regions, so after trimming the common prefix/suffix this is rarely hit;
+ * beyond it we fall back to a single replace hunk.
+ */
+const MAX_LCS_CELLS = 4_000_000;
+
+function splitLines(text: string): string[] {
+  if (text === '') return [];
+  const lines = text.split('\n');
+  // A trailing newline does not start a new line
+  if (lines[lines.length - 1] === '') lines.pop();
+  return lines;
+}
+
+/**
+ * Compute line operations (LCS on the region between common prefix and suffix)
+ */
+function computeOps(a: string[], b: string[]): DiffOp[] {
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const midA = a.slice(prefix, a.length - suffix);
+  const midB = b.slice(prefix, b.length - suffix);
+  const ops: DiffOp[] = a.slice(0, prefix).map((line) => ({ type: ' ', line }));
+
+  if (midA.length * midB.length > MAX_LCS_CELLS) {
+    ops.push(...midA.map((line): DiffOp => ({ type: '-', line })));
+    ops.push(...midB.map((line): DiffOp => ({ type: '+', line })));
+  } else {
+    // lengths[i][j] = LCS length of midA[i..] and midB[j..]
+    const width = midB.length + 1;
+    const lengths = new Uint32Array((midA.length + 1) * width);
+    for (let i = midA.length - 1; i >= 0; i--) {
+      for (let j = midB.length - 1; j >= 0; j--) {
+        lengths[i * width + j] =
+          midA[i] === midB[j]
+            ? lengths[(i + 1) * width + j + 1] + 1
+            : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < midA.length && j < midB.length) {
+      if (midA[i] === midB[j]) {
+        ops.push({ type: ' ', line: midA[i] });
+        i++;
+        j++;
+      } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+        ops.push({ type: '-', line: midA[i++] });
+      } else {
+        ops.push({ type: '+', line: midB[j++] });
+      }
+    }
+    while (i < midA.length) ops.push({ type: '-', line: midA[i++] });
+    while (j < midB.length) ops.push({ type: '+', line: midB[j++] });
+  }
+
+  ops.push(...a.slice(a.length - suffix).map((line): DiffOp => ({ type: ' ', line })));
+  return ops;
+}
+
+function formatRange(start: number, count: number): string {
+  // Empty ranges point at the line before the change (unified diff convention)
+  const displayStart = count === 0 ? start : start + 1;
+  return count === 1 ? `${displayStart}` : `${displayStart},${count}`;
+}
+
+/**
+ * Create a unified diff between two texts
+ *
+ * @param oldText - Previous content (empty string for a new file)
+ * @param newText - New content
+ * @param options - Labels and context size
+ * @returns Unified diff, or an empty string when the texts are identical
+ *
+ * @example
+ * ```ts
+ * const diff = createUnifiedDiff(existing, generated, {
+ *   oldLabel: 'a/scripts/generated/install_lang.sh',
+ *   newLabel: 'b/scripts/generated/install_lang.sh',
+ * });
+ * ```
+ */
+export function createUnifiedDiff(
+  oldText: string,
+  newText: string,
+  options: UnifiedDiffOptions = {}
+): string {
+  if (oldText === newText) return '';
+
+  const context = options.context ?? 3;
+  const ops = computeOps(splitLines(oldText), splitLines(newText));
+  const lines: string[] = [`--- ${options.oldLabel ?? 'a'}`, `+++ ${options.newLabel ?? 'b'}`];
+
+  // Positions (0-based) in old/new for each op index
+  const oldPos: number[] = [];
+  const newPos: number[] = [];
+  let o = 0;
+  let n = 0;
+  for (const op of ops) {
+    oldPos.push(o);
+    newPos.push(n);
+    if (op.type !== '+') o++;
+    if (op.type !== '-') n++;
+  }
+
+  let idx = 0;
+  while (idx < ops.length) {
+    if (ops[idx].type === ' ') {
+      idx++;
+      continue;
+    }
+
+    // Extend the hunk while changes are within 2*context lines of each other
+    const start = Math.max(0, idx - context);
+    let end = idx;
+    let lastChange = idx;
+    while (end < ops.length) {
+      if (ops[end].type !== ' ') {
+        lastChange = end;
+      } else if (end - lastChange > context * 2) {
+        break;
+      }
+      end++;
+    }
+    end = Math.min(ops.length, lastChange + context + 1);
+
+    const hunk = ops.slice(start, end);
+    const oldCount = hunk.filter((op) => op.type !== '+').length;
+    const newCount = hunk.filter((op) => op.type !== '-').length;
+    lines.push(
+      `@@ -${formatRange(oldPos[start], oldCount)} +${formatRange(newPos[start], newCount)} @@`
+    );
+    for (const op of hunk) {
+      lines.push(`${op.type}${op.line}`);
+    }
+
+    idx = end;
+  }
+
+  return lines.join('\n') + '\n';
+}
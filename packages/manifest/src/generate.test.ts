@@ -11,11 +11,15 @@ import { resolve, dirname } from 'node:path';
 import { fileURLToPath } from 'node:url';
 import { readFileSync, existsSync } from 'node:fs';
 import { parseManifestFile } from './parser.js';
+import { planInstallWaves } from './plan.js';
 import {
   getCategories,
+  getDependents,
   getModuleCategory,
   sortModulesByInstallOrder,
   getTransitiveDependencies,
+  getProfileNames,
+  resolveProfile,
 } from './utils.js';
 import type { Manifest, Module } from './types.js';
 
@@ -164,6 +168,38 @@ describe('Generated manifest_index.sh content', () => {
     }
   });
 
+  test('contains version pins for every module', () => {
+    const versionBlock = manifestIndexContent.match(
+      /declare -gA ACFS_MODULE_VERSION=\(\n([\s\S]*?)\n\)/
+    );
+    const checkBlock = manifestIndexContent.match(
+      /declare -gA ACFS_MODULE_VERSION_CHECK=\(\n([\s\S]*?)\n\)/
+    );
+    expect(versionBlock).not.toBeNull();
+    expect(checkBlock).not.toBeNull();
+
+    for (const module of manifest.modules) {
+      expect(versionBlock![1]).toContain(`[${module.id}]="${module.version ?? ''}"`);
+      expect(checkBlock![1]).toContain(`[${module.id}]="`);
+    }
+  });
+
+  test('contains resolved profile module sets', () => {
+    const blockMatch = manifestIndexContent.match(
+      /declare -gA ACFS_PROFILE_MODULES=\(\s*([\s\S]*?)\s*\)/
+    );
+    expect(blockMatch).not.toBeNull();
+
+    for (const name of getProfileNames(manifest)) {
+      const moduleIds = resolveProfile(manifest, name).map((m) => m.id);
+      const match = blockMatch![1].match(
+        new RegExp(`\\[${name}\\]="([^"]*)"`)
+      );
+      expect(match).not.toBeNull();
+      expect(match![1].split(',').sort()).toEqual([...moduleIds].sort());
+    }
+  });
+
   test('contains ACFS_MANIFEST_INDEX_LOADED flag', () => {
     expect(manifestIndexContent).toContain('ACFS_MANIFEST_INDEX_LOADED=true');
   });
@@ -199,6 +235,107 @@ describe('Generated category scripts exist', () => {
   });
 });
 
+describe('Generated install_parallel.sh', () => {
+  let manifest: Manifest;
+  let parallelContent: string;
+
+  beforeAll(() => {
+    const parseResult = parseManifestFile(MANIFEST_PATH);
+    if (parseResult.success && parseResult.data) {
+      manifest = parseResult.data;
+    }
+
+    const parallelPath = resolve(GENERATED_DIR, 'install_parallel.sh');
+    expect(existsSync(parallelPath)).toBe(true);
+    parallelContent = readFileSync(parallelPath, 'utf-8');
+  });
+
+  test('waves match planInstallWaves', () => {
+    const block = parallelContent.match(/ACFS_PARALLEL_WAVES=\(\n([\s\S]*?)\n\)/);
+    expect(block).not.toBeNull();
+
+    const emitted = block![1]
+      .split('\n')
+      .filter((line) => line.trim().startsWith('"'))
+      .map((line) => line.trim().slice(1, -1));
+    const planned = planInstallWaves(manifest).map((wave) =>
+      wave.modules.map((module) => module.id).join(' ')
+    );
+    expect(emitted).toEqual(planned);
+  });
+
+  test('sources every category script', () => {
+    for (const category of getCategories(manifest)) {
+      expect(parallelContent).toContain(`source "$ACFS_GENERATED_SCRIPT_DIR/install_${category}.sh"`);
+    }
+  });
+
+  test('writes one log per module', () => {
+    expect(parallelContent).toContain('>"$ACFS_PARALLEL_LOG_DIR/${module_id}.log" 2>&1 &');
+  });
+});
+
+describe('Generated uninstall scripts', () => {
+  let manifest: Manifest;
+  let dispatcherContent: string;
+
+  beforeAll(() => {
+    const parseResult = parseManifestFile(MANIFEST_PATH);
+    if (parseResult.success && parseResult.data) {
+      manifest = parseResult.data;
+    }
+
+    const dispatcherPath = resolve(GENERATED_DIR, 'uninstall_module.sh');
+    expect(existsSync(dispatcherPath)).toBe(true);
+    dispatcherContent = readFileSync(dispatcherPath, 'utf-8');
+  });
+
+  const uninstallable = (): Module[] =>
+    manifest.modules.filter((module) => (module.uninstall?.length ?? 0) > 0);
+
+  test('manifest defines uninstall steps for at least one module', () => {
+    expect(uninstallable().length).toBeGreaterThan(0);
+  });
+
+  test('category uninstall scripts exist only for categories with uninstall steps', () => {
+    for (const category of getCategories(manifest)) {
+      const expected = uninstallable().some((module) => getModuleCategory(module.id) === category);
+      expect(existsSync(resolve(GENERATED_DIR, `uninstall_${category}.sh`))).toBe(expected);
+    }
+  });
+
+  test('category uninstall scripts define a function per module', () => {
+    for (const module of uninstallable()) {
+      const category = getModuleCategory(module.id);
+      const content = readFileSync(resolve(GENERATED_DIR, `uninstall_${category}.sh`), 'utf-8');
+      expect(content).toContain(`uninstall_${module.id.replace(/\./g, '_')}() {`);
+    }
+  });
+
+  test('dispatcher maps every uninstallable module to its function', () => {
+    for (const module of uninstallable()) {
+      expect(dispatcherContent).toContain(
+        `  [${module.id}]="uninstall_${module.id.replace(/\./g, '_')}"`
+      );
+    }
+  });
+
+  test('dispatcher lists direct dependents for each uninstallable module', () => {
+    const block = dispatcherContent.match(/declare -gA ACFS_UNINSTALL_DEPENDENTS=\(\n([\s\S]*?)\n\)/);
+    expect(block).not.toBeNull();
+
+    for (const module of uninstallable()) {
+      const dependents = getDependents(manifest, module.id).map((dependent) => dependent.id);
+      expect(block![1]).toContain(`  [${module.id}]="${dependents.join(',')}"`);
+    }
+  });
+
+  test('dispatcher refuses to remove modules with installed dependents', () => {
+    expect(dispatcherContent).toContain('uninstall_module() {');
+    expect(dispatcherContent).toContain('Refusing to uninstall $module_id: required by');
+  });
+});
+
 describe('Generated filesystem script hardening', () => {
   let filesystemContent: string;
 
@@ -266,6 +403,17 @@ describe('doctor_checks.sh content', () => {
     expect(nvmLine).not.toBeNull();
     expect(nvmLine![0]).toContain('\\\\n');
   });
+
+  test('reports installed vs wanted version for pinned modules', () => {
+    const pinned = manifest.modules.filter((module) => module.version);
+    expect(pinned.length).toBeGreaterThan(0);
+    expect(doctorContent).toContain('declare -a MANIFEST_VERSION_CHECKS=(');
+    expect(doctorContent).toContain('installed v$installed, manifest wants $wanted');
+
+    for (const module of pinned) {
+      expect(doctorContent).toContain(`    "${module.id}\t${module.version}\t`);
+    }
+  });
 });
 
 describe('Utils: sortModulesByInstallOrder', () => {
@@ -367,6 +515,64 @@ describe('Utils: getTransitiveDependencies', () => {
   });
 });
 
+describe('Utils: resolveProfile', () => {
+  let manifest: Manifest;
+
+  beforeAll(() => {
+    const parseResult = parseManifestFile(MANIFEST_PATH);
+    if (parseResult.success && parseResult.data) {
+      manifest = parseResult.data;
+    }
+  });
+
+  test('includes transitive dependencies of selected modules', () => {
+    const ids = resolveProfile(manifest, 'db').map((m) => m.id);
+    expect(ids).toContain('db.postgres18');
+    expect(ids).toContain('base.system');
+    expect(ids).not.toContain('agents.claude');
+  });
+
+  test('applies exclusions', () => {
+    const ids = resolveProfile(manifest, 'agents').map((m) => m.id);
+    expect(ids).toContain('agents.codex');
+    expect(ids).not.toContain('stack.slb');
+    expect(ids).not.toContain('db.postgres18');
+  });
+
+  test('returns modules in install order', () => {
+    const ids = resolveProfile(manifest, 'full').map((m) => m.id);
+    const index = new Map(ids.map((id, idx) => [id, idx]));
+    for (const module of manifest.modules) {
+      for (const dep of module.dependencies ?? []) {
+        expect(index.get(dep)!).toBeLessThan(index.get(module.id)!);
+      }
+    }
+  });
+
+  test('empty include selects enabled_by_default modules', () => {
+    const ids = resolveProfile(
+      { ...manifest, profiles: { defaults: { include: { modules: [], tags: [], categories: [] }, exclude: { modules: [], tags: [], categories: [] } } } },
+      'defaults'
+    ).map((m) => m.id);
+    expect(ids).toContain('lang.bun');
+    expect(ids).not.toContain('tools.vault');
+  });
+
+  test('throws for excluded dependency', () => {
+    const profiles = {
+      broken: {
+        include: { modules: ['agents.codex'], tags: [], categories: [] },
+        exclude: { modules: ['lang.bun'], tags: [], categories: [] },
+      },
+    };
+    expect(() => resolveProfile({ ...manifest, profiles }, 'broken')).toThrow(/excluded module 'lang.bun'/);
+  });
+
+  test('throws for unknown profile', () => {
+    expect(() => resolveProfile(manifest, 'nonexistent')).toThrow(/Unknown profile/);
+  });
+});
+
 describe('Utils: getCategories', () => {
   let manifest: Manifest;
 
@@ -8,23 +8,46 @@
  *   bun run generate (from packages/manifest)
  */
 
+import { execFileSync } from 'node:child_process';
 import { createHash } from 'node:crypto';
 import { writeFileSync, mkdirSync, readFileSync, existsSync } from 'node:fs';
-import { dirname, join, resolve } from 'node:path';
+import { dirname, join, relative, resolve } from 'node:path';
 import { fileURLToPath } from 'node:url';
-import { parse as parseYaml } from 'yaml';
-import { parseManifestFile, validateManifest as validateManifestBasic } from './parser.js';
+import {
+  parseManifestFile,
+  parseManifestString,
+  validateManifest as validateManifestBasic,
+} from './parser.js';
+import { createManifestSource, locatePath } from './source.js';
+import { createUnifiedDiff } from './diff.js';
+import { analyzeChecksums, parseChecksumsFile } from './checksums.js';
+import { planInstallWaves } from './plan.js';
+import { describeCondition, encodeCondition } from './conditions.js';
+import { diffManifests, formatChangelogMarkdown } from './changelog.js';
+import { buildToolCatalog, serializeToolCatalog } from './catalog.js';
+import { createGeneratorReport, toSarif } from './report.js';
+import type { GeneratorMode, OutputFormat } from './report.js';
 import {
   validateManifest as validateManifestAdvanced,
   formatValidationErrors,
 } from './validate.js';
 import {
   getCategories,
+  getDependents,
   getModuleCategory,
   getModulesByCategory,
+  getManifestStats,
+  getProfileNames,
+  resolveProfile,
   sortModulesByInstallOrder,
 } from './utils.js';
-import type { Module, ModuleCategory, Manifest } from './types.js';
+import type {
+  Module,
+  ModuleCategory,
+  Manifest,
+  ValidationError,
+  ValidationWarning,
+} from './types.js';
 
 // ============================================================
 // Configuration
@@ -35,6 +58,7 @@ const PROJECT_ROOT = resolve(dirname(SCRIPT_FILE), '../../..');
 const MANIFEST_PATH = join(PROJECT_ROOT, 'acfs.manifest.yaml');
 const OUTPUT_DIR = join(PROJECT_ROOT, 'scripts/generated');
 const CHECKSUMS_PATH = join(PROJECT_ROOT, 'checksums.yaml');
+const WEB_CATALOG_PATH = join(PROJECT_ROOT, 'apps/web/lib/generated/tool-catalog.json');
 
 const HEADER = `#!/usr/bin/env bash
 # shellcheck disable=SC1091
@@ -304,6 +328,13 @@ function toFunctionName(moduleId: string): string {
   return `install_${moduleId.replace(/\./g, '_')}`;
 }
 
+/**
+ * Convert module ID to its bash uninstall function name
+ */
+function toUninstallFunctionName(moduleId: string): string {
+  return `uninstall_${moduleId.replace(/\./g, '_')}`;
+}
+
 /**
  * Convert module ID to a check ID for doctor
  * Currently a passthrough - kept for future extensibility
@@ -352,6 +383,24 @@ function indentLines(lines: string[], spaces: number): string[] {
   return lines.map((line) => (line.length === 0 ? line : `${pad}${line}`));
 }
 
+/**
+ * Indent generated lines, leaving heredoc bodies and delimiters untouched
+ * (a quoted heredoc's closing delimiter must start at column 0)
+ */
+function indentOutsideHeredocs(lines: string[], spaces: number): string[] {
+  const pad = ' '.repeat(spaces);
+  let delimiter: string | null = null;
+  return lines.map((line) => {
+    if (delimiter !== null) {
+      if (line === delimiter) delimiter = null;
+      return line;
+    }
+    const heredoc = /<<'([A-Z0-9_]+)'$/.exec(line);
+    if (heredoc) delimiter = heredoc[1];
+    return line.length === 0 ? line : `${pad}${line}`;
+  });
+}
+
 function moduleFailureLines(module: Module, reason: string): string[] {
   const escapedReason = escapeBash(reason);
 
@@ -403,7 +452,8 @@ function wrapInstallHeredoc(
   module: Module,
   summary: string,
   commandLines: string[],
-  failureReason: string
+  failureReason: string,
+  failureLines: string[] = moduleFailureLines(module, failureReason)
 ): string[] {
   const lines: string[] = [];
   const escapedSummary = escapeBash(summary);
@@ -420,7 +470,7 @@ function wrapInstallHeredoc(
   }
   lines.push(delimiter);
   lines.push('        then');
-  lines.push(...indentLines(moduleFailureLines(module, failureReason), 12));
+  lines.push(...indentLines(failureLines, 12));
   lines.push('        fi');
   lines.push('    fi');
 
@@ -453,6 +503,10 @@ function wrapOptionalVerifyHeredoc(
   return lines;
 }
 
+function hasUninstallSteps(module: Module): boolean {
+  return (module.uninstall?.length ?? 0) > 0;
+}
+
 function getModulePhase(module: Module): number {
   return module.phase ?? 1;
 }
@@ -464,6 +518,24 @@ function joinList(values?: string[]): string {
   return values.join(',');
 }
 
+/**
+ * Format a basic validation issue as `file:line:col: path: message` plus code frame
+ */
+function formatLocatedIssue(
+  issue: ValidationError | ValidationWarning,
+  sourceName: string
+): string[] {
+  const location =
+    issue.line !== undefined && issue.column !== undefined
+      ? `${sourceName}:${issue.line}:${issue.column}: `
+      : '';
+  const lines = [`- ${location}${issue.path}: ${issue.message}`];
+  if (issue.snippet) {
+    lines.push(...indentLines(issue.snippet.split('\n'), 4));
+  }
+  return lines;
+}
+
 function computeManifestSha256(): string {
   const content = readFileSync(MANIFEST_PATH);
   return createHash('sha256').update(content).digest('hex');
@@ -814,6 +886,40 @@ function generateInstallCommands(module: Module): string[] {
   return lines;
 }
 
+/**
+ * Generate install commands, selecting among condition variants at runtime.
+ * The first variant whose when: matches (acfs_when_matches) replaces the
+ * default verified_installer/install steps.
+ */
+function generateInstallSelection(module: Module): string[] {
+  const variants = module.variants ?? [];
+  if (variants.length === 0) {
+    return generateInstallCommands(module);
+  }
+
+  const lines: string[] = [];
+  variants.forEach((variant, index) => {
+    const keyword = index === 0 ? 'if' : 'elif';
+    const encoded = escapeBash(encodeCondition(variant.when));
+    lines.push(`    ${keyword} acfs_when_matches "${encoded}"; then`);
+    lines.push(`        log_info "${module.id}: using install variant for ${escapeBash(describeCondition(variant.when))}"`);
+    const variantModule: Module = { ...module, verified_installer: undefined, install: variant.install };
+    lines.push(...indentOutsideHeredocs(generateInstallCommands(variantModule), 4));
+  });
+
+  const defaults = generateInstallCommands(module);
+  if (defaults.length > 0) {
+    lines.push('    else');
+    lines.push(...indentOutsideHeredocs(defaults, 4));
+  } else {
+    lines.push('    else');
+    lines.push(...indentLines(moduleFailureLines(module, 'no install variant matches this system'), 8));
+  }
+  lines.push('    fi');
+
+  return lines;
+}
+
 /**
  * Generate verify commands for a module
  */
@@ -849,6 +955,35 @@ function generateVerifyCommands(module: Module): string[] {
   return lines;
 }
 
+/**
+ * Generate uninstall commands for a module
+ * Failures always abort the uninstall (optional modules included) so a
+ * half-removed tool is reported instead of being recorded as skipped.
+ */
+function generateUninstallCommands(module: Module): string[] {
+  const lines: string[] = [];
+
+  for (const cmd of module.uninstall ?? []) {
+    const blockLines = cmd.includes('\n') || cmd.startsWith('|')
+      ? cmd.replace(/^\|?\n?/, '').trim().split('\n')
+      : [cmd.trim()];
+    const summary = blockLines[0]?.trim() || 'uninstall command';
+    const failureReason = `uninstall command failed: ${summary}`;
+
+    lines.push(
+      ...wrapInstallHeredoc(
+        module,
+        `uninstall: ${summary}`,
+        blockLines,
+        failureReason,
+        [`log_error "${module.id}: ${escapeBash(failureReason)}"`, 'return 1']
+      )
+    );
+  }
+
+  return lines;
+}
+
 // ============================================================
 // Generators
 // ============================================================
@@ -916,6 +1051,52 @@ function generateManifestIndex(manifest: Manifest, manifestSha256: string): stri
   lines.push(')');
   lines.push('');
 
+  // Version pins (spec is checked by acfs_version_satisfies; commands are
+  // encoded like doctor checks and decoded via printf '%b')
+  lines.push('declare -gA ACFS_MODULE_VERSION=(');
+  for (const module of orderedModules) {
+    lines.push(`  [${module.id}]="${escapeBash(module.version ?? '')}"`);
+  }
+  lines.push(')');
+  lines.push('');
+
+  lines.push('declare -gA ACFS_MODULE_VERSION_CHECK=(');
+  for (const module of orderedModules) {
+    const command = module.version_check ? encodeDoctorCommand(module.version_check.trim()) : '';
+    lines.push(`  [${module.id}]="${escapeBash(command)}"`);
+  }
+  lines.push(')');
+  lines.push('');
+
+  // Profiles: resolved module sets (transitive deps included) so bash and TS agree.
+  const profileNames = getProfileNames(manifest);
+  const orderIndex = new Map(orderedModules.map((module, idx) => [module.id, idx]));
+
+  lines.push('ACFS_PROFILES=(');
+  for (const name of profileNames) {
+    lines.push(`  "${name}"`);
+  }
+  lines.push(')');
+  lines.push('');
+
+  lines.push('declare -gA ACFS_PROFILE_DESCRIPTION=(');
+  for (const name of profileNames) {
+    const description = manifest.profiles?.[name]?.description ?? '';
+    lines.push(`  [${name}]="${escapeBash(description)}"`);
+  }
+  lines.push(')');
+  lines.push('');
+
+  lines.push('declare -gA ACFS_PROFILE_MODULES=(');
+  for (const name of profileNames) {
+    const moduleIds = resolveProfile(manifest, name)
+      .map((module) => module.id)
+      .sort((a, b) => (orderIndex.get(a) ?? 0) - (orderIndex.get(b) ?? 0));
+    lines.push(`  [${name}]="${escapeBash(joinList(moduleIds))}"`);
+  }
+  lines.push(')');
+  lines.push('');
+
   // Mark that the index is fully loaded (used by acfs_resolve_selection)
   lines.push('ACFS_MANIFEST_INDEX_LOADED=true');
   lines.push('');
@@ -945,11 +1126,17 @@ function generateCategoryScript(manifest: Manifest, category: ModuleCategory): s
     lines.push(`${funcName}() {`);
     lines.push(`    local module_id="${module.id}"`);
     lines.push('    acfs_require_contract "module:${module_id}" || return 1');
+    if (module.when) {
+      lines.push(`    if ! acfs_when_matches "${escapeBash(encodeCondition(module.when))}"; then`);
+      lines.push(`        log_info "Skipping ${module.id}: only applies to ${escapeBash(describeCondition(module.when))}"`);
+      lines.push('        return 0');
+      lines.push('    fi');
+    }
     lines.push(`    log_step "Installing ${module.id}"`);
     lines.push('');
 
     // Install commands
-    lines.push(...generateInstallCommands(module));
+    lines.push(...generateInstallSelection(module));
     lines.push('');
 
     // Verify commands
@@ -992,6 +1179,164 @@ function generateCategoryScript(manifest: Manifest, category: ModuleCategory): s
   return lines.join('\n');
 }
 
+/**
+ * Get categories that have at least one module with uninstall steps
+ */
+function getUninstallCategories(manifest: Manifest): ModuleCategory[] {
+  return getCategories(manifest).filter((category) =>
+    getModulesByCategory(manifest, category).some(hasUninstallSteps)
+  );
+}
+
+/**
+ * Generate a category uninstall script (modules in reverse install order)
+ */
+function generateCategoryUninstallScript(manifest: Manifest, category: ModuleCategory): string {
+  const modules = getModulesByCategory(manifest, category).filter(hasUninstallSteps);
+  const sortedModules = sortModulesByInstallOrder({
+    ...manifest,
+    modules: modules,
+  }).reverse();
+
+  const lines: string[] = [HEADER];
+  lines.push(`# Category: ${category} (uninstall)`);
+  lines.push(`# Modules: ${sortedModules.length}`);
+  lines.push('# Prefer uninstall_module.sh, which refuses to remove modules that have dependents.');
+  lines.push('');
+
+  for (const module of sortedModules) {
+    const funcName = toUninstallFunctionName(module.id);
+    lines.push(`# ${module.description}`);
+    lines.push(`${funcName}() {`);
+    lines.push(`    local module_id="${module.id}"`);
+    lines.push('    acfs_require_contract "module:${module_id}" || return 1');
+    lines.push(`    log_step "Uninstalling ${module.id}"`);
+    lines.push('');
+    lines.push(...generateUninstallCommands(module));
+    lines.push('');
+    lines.push(`    log_success "${module.id} uninstalled"`);
+    lines.push('}');
+    lines.push('');
+  }
+
+  lines.push(`# Uninstall all ${category} modules that define uninstall steps`);
+  lines.push(`uninstall_${category}() {`);
+  lines.push(`    log_section "Uninstalling ${category} modules"`);
+  for (const module of sortedModules) {
+    lines.push(`    ${toUninstallFunctionName(module.id)}`);
+  }
+  lines.push('}');
+  lines.push('');
+
+  lines.push('# Run if executed directly');
+  lines.push('if [[ "${BASH_SOURCE[0]}" = "${0}" ]]; then');
+  lines.push(`    uninstall_${category}`);
+  lines.push('fi');
+  lines.push('');
+
+  return lines.join('\n');
+}
+
+/**
+ * Generate the uninstall_module dispatcher script
+ * Refuses to remove a module while any direct dependent (per getDependents)
+ * still looks installed. Dependents without an installed_check are assumed
+ * to be installed.
+ */
+function generateUninstallDispatcher(manifest: Manifest): string {
+  const categories = getUninstallCategories(manifest);
+  const modules = sortModulesByInstallOrder(manifest).filter(hasUninstallSteps);
+  const lines: string[] = [HEADER];
+  lines.push('# Uninstall dispatcher - sources category uninstall scripts');
+  lines.push('# Usage: uninstall_module <module-id>');
+  lines.push('');
+
+  for (const category of categories) {
+    lines.push(`source "\$ACFS_GENERATED_SCRIPT_DIR/uninstall_${category}.sh"`);
+  }
+  lines.push('');
+
+  lines.push('declare -gA ACFS_UNINSTALL_FUNC=(');
+  for (const module of modules) {
+    lines.push(`  [${module.id}]="${toUninstallFunctionName(module.id)}"`);
+  }
+  lines.push(')');
+  lines.push('');
+
+  // Direct dependents of each uninstallable module
+  const dependentIds = new Set<string>();
+  lines.push('declare -gA ACFS_UNINSTALL_DEPENDENTS=(');
+  for (const module of modules) {
+    const dependents = getDependents(manifest, module.id).map((dependent) => dependent.id);
+    dependents.forEach((id) => dependentIds.add(id));
+    lines.push(`  [${module.id}]="${escapeBash(joinList(dependents))}"`);
+  }
+  lines.push(')');
+  lines.push('');
+
+  lines.push('# Returns 0 if a dependent module looks installed (no installed_check = installed)');
+  lines.push('acfs_uninstall_dependent_installed() {');
+  lines.push('    case "$1" in');
+  for (const module of sortModulesByInstallOrder(manifest)) {
+    if (!dependentIds.has(module.id) || !module.installed_check) continue;
+    const delimiter = toHeredocDelimiter(module.id);
+    lines.push(`        ${module.id})`);
+    lines.push(
+      `            ${getRunAsShellHelper(module.installed_check.run_as)} >/dev/null 2>&1 <<'${delimiter}'`
+    );
+    lines.push(module.installed_check.command);
+    lines.push(delimiter);
+    lines.push('            ;;');
+  }
+  lines.push('        *)');
+  lines.push('            return 0');
+  lines.push('            ;;');
+  lines.push('    esac');
+  lines.push('}');
+  lines.push('');
+
+  lines.push('# Uninstall a single module (refuses while dependents are installed)');
+  lines.push('uninstall_module() {');
+  lines.push('    local module_id="${1:-}"');
+  lines.push('    if [[ -z "$module_id" ]]; then');
+  lines.push('        log_error "Usage: uninstall_module <module-id>"');
+  lines.push('        return 1');
+  lines.push('    fi');
+  lines.push('');
+  lines.push('    local func="${ACFS_UNINSTALL_FUNC[$module_id]:-}"');
+  lines.push('    if [[ -z "$func" ]]; then');
+  lines.push('        log_error "No uninstall steps defined for module: $module_id"');
+  lines.push('        return 1');
+  lines.push('    fi');
+  lines.push('');
+  lines.push('    local dependents="${ACFS_UNINSTALL_DEPENDENTS[$module_id]:-}"');
+  lines.push('    local dependent');
+  lines.push('    local -a blocking=()');
+  lines.push('    for dependent in ${dependents//,/ }; do');
+  lines.push('        if acfs_uninstall_dependent_installed "$dependent"; then');
+  lines.push('            blocking+=("$dependent")');
+  lines.push('        fi');
+  lines.push('    done');
+  lines.push('');
+  lines.push('    if [[ ${#blocking[@]} -gt 0 ]]; then');
+  lines.push('        log_error "Refusing to uninstall $module_id: required by ${blocking[*]}"');
+  lines.push('        log_info "Uninstall the dependent modules first."');
+  lines.push('        return 1');
+  lines.push('    fi');
+  lines.push('');
+  lines.push('    "$func"');
+  lines.push('}');
+  lines.push('');
+
+  lines.push('# Run if executed directly');
+  lines.push('if [[ "${BASH_SOURCE[0]}" = "${0}" ]]; then');
+  lines.push('    uninstall_module "$@"');
+  lines.push('fi');
+  lines.push('');
+
+  return lines.join('\n');
+}
+
 /**
  * Generate doctor checks script
  */
@@ -1027,6 +1372,38 @@ function generateDoctorChecks(manifest: Manifest): string {
   lines.push(')');
   lines.push('');
 
+  // Version pins: ID<TAB>WANTED<TAB>VERSION_CHECK_COMMAND
+  lines.push('# Version checks: ID<TAB>WANTED<TAB>VERSION_CHECK_COMMAND (encoded like MANIFEST_CHECKS)');
+  lines.push('declare -a MANIFEST_VERSION_CHECKS=(');
+  for (const module of sortedModules) {
+    if (!module.version || !module.version_check) continue;
+    const encodedCmd = encodeDoctorCommand(module.version_check.trim());
+    lines.push(
+      `    "${toCheckId(module.id)}\t${escapeBash(module.version)}\t${escapeBash(encodedCmd)}"`
+    );
+  }
+  lines.push(')');
+  lines.push('');
+
+  // Conditional modules: checks are skipped where acfs_when_matches fails
+  lines.push('# Module conditions (when:), keyed by check ID without the .N suffix');
+  lines.push('declare -gA MANIFEST_CHECK_WHEN=(');
+  for (const module of sortedModules) {
+    if (!module.when) continue;
+    lines.push(`    [${toCheckId(module.id)}]="${escapeBash(encodeCondition(module.when))}"`);
+  }
+  lines.push(')');
+  lines.push('');
+
+  // Returns 0 when the module's when: does not match this system
+  lines.push('_manifest_check_not_applicable() {');
+  lines.push('    local when="${MANIFEST_CHECK_WHEN[${1%.[0-9]*}]:-}"');
+  lines.push('    [[ -n "$when" ]] || return 1');
+  lines.push('    type -t acfs_when_matches >/dev/null 2>&1 || return 1');
+  lines.push('    ! acfs_when_matches "$when"');
+  lines.push('}');
+  lines.push('');
+
   // Add helper function
   lines.push('# Run all manifest checks');
   lines.push('run_manifest_checks() {');
@@ -1038,6 +1415,11 @@ function generateDoctorChecks(manifest: Manifest): string {
   lines.push('        # Use tab as delimiter (safe - won\'t appear in commands)');
   lines.push('        IFS=$\'\\t\' read -r id desc cmd optional <<< "$check"');
   lines.push('        cmd="$(printf \'%b\' "$cmd")"');
+  lines.push('        if _manifest_check_not_applicable "$id"; then');
+  lines.push('            echo -e "\\033[0;33m[skip]\\033[0m $id - not applicable on this system"');
+  lines.push('            ((skipped += 1))');
+  lines.push('            continue');
+  lines.push('        fi');
   lines.push('        ');
   // Run checks in a subshell to avoid leaking side effects into this script.
   // Enable pipefail so pipeline-based checks behave as expected.
@@ -1056,6 +1438,32 @@ function generateDoctorChecks(manifest: Manifest): string {
   lines.push('        fi');
   lines.push('    done');
   lines.push('');
+  // Version pins: not installed -> skip; unparseable or outside the spec -> fail
+  lines.push('    local wanted output installed');
+  lines.push('    for check in "${MANIFEST_VERSION_CHECKS[@]}"; do');
+  lines.push('        IFS=$\'\\t\' read -r id wanted cmd <<< "$check"');
+  lines.push('        cmd="$(printf \'%b\' "$cmd")"');
+  lines.push('        if _manifest_check_not_applicable "$id"; then');
+  lines.push('            echo -e "\\033[0;33m[skip]\\033[0m $id - not applicable on this system"');
+  lines.push('            ((skipped += 1))');
+  lines.push('        elif ! type -t acfs_version_satisfies >/dev/null 2>&1; then');
+  lines.push('            echo -e "\\033[0;33m[skip]\\033[0m $id - version check unavailable (install_helpers.sh not loaded)"');
+  lines.push('            ((skipped += 1))');
+  lines.push('        elif ! output="$(bash -o pipefail -c "$cmd" 2>&1)"; then');
+  lines.push('            echo -e "\\033[0;33m[skip]\\033[0m $id - not installed, manifest wants $wanted"');
+  lines.push('            ((skipped += 1))');
+  lines.push('        elif ! installed="$(acfs_version_extract "$output")"; then');
+  lines.push('            echo -e "\\033[0;31m[fail]\\033[0m $id - could not parse installed version, manifest wants $wanted"');
+  lines.push('            ((failed += 1))');
+  lines.push('        elif acfs_version_satisfies "$installed" "$wanted"; then');
+  lines.push('            echo -e "\\033[0;32m[ok]\\033[0m $id - installed v$installed, manifest wants $wanted"');
+  lines.push('            ((passed += 1))');
+  lines.push('        else');
+  lines.push('            echo -e "\\033[0;31m[fail]\\033[0m $id - installed v$installed, manifest wants $wanted"');
+  lines.push('            ((failed += 1))');
+  lines.push('        fi');
+  lines.push('    done');
+  lines.push('');
   lines.push('    echo ""');
   lines.push('    echo "Passed: $passed, Failed: $failed, Skipped: $skipped"');
   lines.push('    [[ $failed -eq 0 ]]');
@@ -1112,6 +1520,107 @@ function generateMasterInstaller(manifest: Manifest): string {
   return lines.join('\n');
 }
 
+/**
+ * Generate parallel master installer script
+ * Runs each planInstallWaves() wave concurrently, one log file per module.
+ */
+function generateParallelInstaller(manifest: Manifest): string {
+  const categories = getCategories(manifest);
+  const waves = planInstallWaves(manifest);
+  const lines: string[] = [HEADER];
+  lines.push('# Parallel master installer - runs dependency waves concurrently');
+  lines.push('# Modules in a wave do not depend on each other; root modules (apt/dpkg lock)');
+  lines.push('# never share a wave. Each module logs to $ACFS_PARALLEL_LOG_DIR/<module>.log.');
+  lines.push('');
+
+  for (const category of categories) {
+    lines.push(`source "\$ACFS_GENERATED_SCRIPT_DIR/install_${category}.sh"`);
+  }
+  lines.push('');
+
+  lines.push('# One entry per wave: space-separated module IDs');
+  lines.push('ACFS_PARALLEL_WAVES=(');
+  waves.forEach((wave, idx) => {
+    lines.push(`  # Wave ${idx + 1}: phase ${wave.phase}, level ${wave.level}`);
+    lines.push(`  "${wave.modules.map((module) => module.id).join(' ')}"`);
+  });
+  lines.push(')');
+  lines.push('');
+
+  lines.push(': "${ACFS_PARALLEL_JOBS:=4}"');
+  lines.push(': "${ACFS_PARALLEL_LOG_DIR:=${TMPDIR:-/tmp}/acfs-install-parallel}"');
+  lines.push('');
+
+  lines.push('# Wait for job $1 of the current wave (uses pids/ids/failed from acfs_parallel_run_wave)');
+  lines.push('_acfs_parallel_wait() {');
+  lines.push('    local idx="$1"');
+  lines.push('    local log_file="$ACFS_PARALLEL_LOG_DIR/${ids[idx]}.log"');
+  lines.push('    if wait "${pids[idx]}"; then');
+  lines.push('        log_success "${ids[idx]} (log: $log_file)"');
+  lines.push('    else');
+  lines.push('        log_error "${ids[idx]} failed (log: $log_file)"');
+  lines.push('        failed=1');
+  lines.push('    fi');
+  lines.push('}');
+  lines.push('');
+  lines.push('# Run one wave: at most ACFS_PARALLEL_JOBS modules at a time, wait for all');
+  lines.push('acfs_parallel_run_wave() {');
+  lines.push('    local wave_num="$1"');
+  lines.push('    shift');
+  lines.push('    local -a pids=() ids=()');
+  lines.push('    local module_id func i');
+  lines.push('    local failed=0');
+  lines.push('');
+  lines.push('    log_step "Wave ${wave_num}: $*"');
+  lines.push('    for module_id in "$@"; do');
+  lines.push('        func="install_${module_id//./_}"');
+  lines.push('        if [[ ${#pids[@]} -ge ${ACFS_PARALLEL_JOBS} ]]; then');
+  lines.push('            _acfs_parallel_wait "$(( ${#pids[@]} - ACFS_PARALLEL_JOBS ))"');
+  lines.push('        fi');
+  lines.push('        ( "$func" ) >"$ACFS_PARALLEL_LOG_DIR/${module_id}.log" 2>&1 &');
+  lines.push('        pids+=("$!")');
+  lines.push('        ids+=("$module_id")');
+  lines.push('    done');
+  lines.push('');
+  lines.push('    local first_unwaited=$(( ${#pids[@]} > ACFS_PARALLEL_JOBS ? ${#pids[@]} - ACFS_PARALLEL_JOBS : 0 ))');
+  lines.push('    for (( i = first_unwaited; i < ${#pids[@]}; i++ )); do');
+  lines.push('        _acfs_parallel_wait "$i"');
+  lines.push('    done');
+  lines.push('');
+  lines.push('    return "$failed"');
+  lines.push('}');
+  lines.push('');
+
+  lines.push('# Install all modules, wave by wave (stops at the first failed wave)');
+  lines.push('install_parallel() {');
+  lines.push('    log_section "ACFS Parallel Installation"');
+  lines.push('    mkdir -p "$ACFS_PARALLEL_LOG_DIR"');
+  lines.push('    log_info "Per-module logs: $ACFS_PARALLEL_LOG_DIR"');
+  lines.push('');
+  lines.push('    local wave_num=0');
+  lines.push('    local wave');
+  lines.push('    for wave in "${ACFS_PARALLEL_WAVES[@]}"; do');
+  lines.push('        wave_num=$((wave_num + 1))');
+  lines.push('        # shellcheck disable=SC2086  # wave is a space-separated module list');
+  lines.push('        if ! acfs_parallel_run_wave "$wave_num" $wave; then');
+  lines.push('            log_error "Wave ${wave_num} failed; not starting later waves"');
+  lines.push('            return 1');
+  lines.push('        fi');
+  lines.push('    done');
+  lines.push('');
+  lines.push('    log_success "All modules installed!"');
+  lines.push('}');
+  lines.push('');
+
+  lines.push('# Run if executed directly');
+  lines.push('if [[ "${BASH_SOURCE[0]}" = "${0}" ]]; then');
+  lines.push('    install_parallel');
+  lines.push('fi');
+  lines.push('');
+
+  return lines.join('\n');
+}
+
 // ============================================================
 // Main
 // ============================================================
@@ -1125,20 +1634,83 @@ function showHelp(): void {
 Usage: bun run generate [options]
 
 Options:
-  --dry-run      Show what would be generated without writing files
-  --verbose      Show more details (with --dry-run: show content previews)
-  --validate     Validate manifest and checksums coverage, exit with status
-  --diff         Show diff between current and generated files
-  --help         Show this help message
+  --dry-run        Show what would be generated without writing files
+  --verbose        Show more details (with --dry-run: show content previews)
+  --validate       Validate manifest and checksums coverage, exit with status
+  --diff           Show diff between current and generated files
+  --changelog <ref>  Print semantic manifest changes since a git ref as Markdown
+  --format <fmt>   Output format: text (default), json, or sarif (--validate only)
+  --help           Show this help message
 
 Examples:
-  bun run generate                 # Generate all files
-  bun run generate --dry-run       # Preview generation
-  bun run generate --validate      # Check for issues (CI friendly)
-  bun run generate --diff          # Show what would change
+  bun run generate                          # Generate all files
+  bun run generate --dry-run                # Preview generation
+  bun run generate --validate               # Check for issues (CI friendly)
+  bun run generate --diff                   # Show what would change
+  bun run generate --diff --format json     # Changed files + unified diffs as JSON
+  bun run generate --validate --format sarif > manifest.sarif
+  bun run generate --changelog v0.4.0       # CHANGELOG section for the manifest
 `);
 }
 
+/**
+ * Print semantic manifest changes between a git ref and the working tree
+ *
+ * @returns Process exit code
+ */
+function runChangelog(ref: string, format: OutputFormat): number {
+  const manifestRelPath = relative(PROJECT_ROOT, MANIFEST_PATH);
+
+  let previousContent: string;
+  try {
+    previousContent = execFileSync('git', ['show', `${ref}:${manifestRelPath}`], {
+      cwd: PROJECT_ROOT,
+      encoding: 'utf-8',
+      stdio: ['ignore', 'pipe', 'pipe'],
+      maxBuffer: 16 * 1024 * 1024,
+    });
+  } catch (err) {
+    const stderr = (err as { stderr?: string }).stderr?.trim();
+    console.error(`Failed to read ${manifestRelPath} at ${ref}: ${stderr || String(err)}`);
+    return 1;
+  }
+
+  const previous = parseManifestString(previousContent);
+  if (!previous.success || !previous.data) {
+    console.error(`Manifest at ${ref} is invalid: ${previous.error?.message}`);
+    return 1;
+  }
+  const current = parseManifestFile(MANIFEST_PATH);
+  if (!current.success || !current.data) {
+    console.error(`Current manifest is invalid: ${current.error?.message}`);
+    return 1;
+  }
+
+  const changes = diffManifests(previous.data, current.data);
+  if (format === 'json') {
+    console.log(JSON.stringify({ ref, changes }, null, 2));
+  } else {
+    console.log(formatChangelogMarkdown(changes, current.data, `Manifest changes since ${ref}`));
+  }
+  return 0;
+}
+
+/**
+ * Parse the --format option (supports "--format json" and "--format=json")
+ */
+function parseOutputFormat(args: string[]): OutputFormat | null {
+  let value = 'text';
+  const index = args.indexOf('--format');
+  if (index !== -1) {
+    value = args[index + 1] ?? '';
+  }
+  const inline = args.find((arg) => arg.startsWith('--format='));
+  if (inline) {
+    value = inline.slice('--format='.length);
+  }
+  return value === 'text' || value === 'json' || value === 'sarif' ? value : null;
+}
+
 async function main(): Promise<void> {
   const args = process.argv.slice(2);
   const dryRun = args.includes('--dry-run');
@@ -1146,110 +1718,241 @@ async function main(): Promise<void> {
   const validateOnly = args.includes('--validate');
   const diffMode = args.includes('--diff');
   const help = args.includes('--help') || args.includes('-h');
+  const format = parseOutputFormat(args);
 
   if (help) {
     showHelp();
     process.exit(0);
   }
 
-  console.log('ACFS Manifest-to-Installer Generator');
-  console.log('=====================================');
-  console.log('');
+  if (!format) {
+    console.error('Invalid --format (expected: text, json, or sarif)');
+    process.exit(2);
+  }
+  if (format === 'sarif' && !validateOnly) {
+    console.error('--format sarif is only supported with --validate');
+    process.exit(2);
+  }
+
+  const changelogIndex = args.indexOf('--changelog');
+  if (changelogIndex !== -1) {
+    const ref = args[changelogIndex + 1];
+    if (!ref || ref.startsWith('--')) {
+      console.error('--changelog requires a git ref (e.g., --changelog HEAD~1)');
+      process.exit(2);
+    }
+    process.exit(runChangelog(ref, format));
+  }
+
+  // In machine-readable modes, stdout carries only the final report.
+  const machineReadable = format !== 'text';
+  const log = (...values: unknown[]): void => {
+    if (!machineReadable) console.log(...values);
+  };
+  const logError = (...values: unknown[]): void => {
+    if (!machineReadable) console.error(...values);
+  };
+
+  const mode: GeneratorMode = validateOnly
+    ? 'validate'
+    : diffMode
+      ? 'diff'
+      : dryRun
+        ? 'dry-run'
+        : 'generate';
+  const report = createGeneratorReport(mode, relative(PROJECT_ROOT, MANIFEST_PATH));
+
+  const finish = (exitCode: number): never => {
+    report.ok = exitCode === 0;
+    if (format === 'json') {
+      console.log(JSON.stringify(report, null, 2));
+    } else if (format === 'sarif') {
+      console.log(JSON.stringify(toSarif(report), null, 2));
+    }
+    process.exit(exitCode);
+  };
+
+  log('ACFS Manifest-to-Installer Generator');
+  log('=====================================');
+  log('');
 
   // Parse manifest
-  console.log(`Reading manifest from: ${MANIFEST_PATH}`);
+  log(`Reading manifest from: ${MANIFEST_PATH}`);
   const result = parseManifestFile(MANIFEST_PATH);
+  // Relative path keeps `file:line:col` output clickable in editors and CI logs.
+  const sourceName = relative(process.cwd(), MANIFEST_PATH) || MANIFEST_PATH;
 
   if (!result.success || !result.data) {
-    console.error('Failed to parse manifest:', result.error);
-    process.exit(1);
+    const error = result.error;
+    const location =
+      error?.line !== undefined && error.column !== undefined
+        ? `${sourceName}:${error.line}:${error.column}: `
+        : '';
+    if (error?.issues && error.issues.length > 0) {
+      logError(`Failed to parse manifest: ${error.issues.length} schema error(s):`);
+      for (const issue of error.issues) {
+        logError(formatLocatedIssue(issue, sourceName).join('\n'));
+        report.issues.push({
+          severity: 'error',
+          code: 'MANIFEST_INVALID',
+          message: issue.message,
+          path: issue.path,
+          line: issue.line,
+          column: issue.column,
+        });
+      }
+      finish(1);
+    }
+    logError(`Failed to parse manifest: ${location}${error?.message ?? 'unknown error'}`);
+    if (error?.snippet) {
+      logError(indentLines(error.snippet.split('\n'), 4).join('\n'));
+    }
+    report.issues.push({
+      severity: 'error',
+      code: 'MANIFEST_INVALID',
+      message: error?.message ?? 'unknown error',
+      line: error?.line,
+      column: error?.column,
+    });
+    finish(1);
   }
 
-  const manifest = result.data;
-  console.log(`Parsed ${manifest.modules.length} modules`);
+  const manifest = result.data!;
+  const manifestSource = createManifestSource(readFileSync(MANIFEST_PATH, 'utf-8'));
+  report.manifest.sha256 = computeManifestSha256();
+  report.manifest.stats = getManifestStats(manifest);
+  log(`Parsed ${manifest.modules.length} modules`);
 
   // Preflight: validate dependency graph + generator invariants.
   // - Basic validation returns user-facing warnings (e.g., install steps that are descriptions).
   // - Advanced validation catches generator-breaking issues (e.g., function-name collisions).
-  const basicValidation = validateManifestBasic(manifest);
+  const basicValidation = validateManifestBasic(manifest, manifestSource);
+  for (const warn of basicValidation.warnings) {
+    report.issues.push({
+      severity: 'warning',
+      code: 'MANIFEST_WARNING',
+      message: warn.message,
+      path: warn.path,
+      line: warn.line,
+      column: warn.column,
+    });
+  }
+
   if (!basicValidation.valid) {
-    console.error('');
-    console.error(
-      `Manifest validation failed with ${basicValidation.errors.length} error(s):`
-    );
+    logError('');
+    logError(`Manifest validation failed with ${basicValidation.errors.length} error(s):`);
     for (const err of basicValidation.errors) {
-      console.error(`- ${err.path}: ${err.message}`);
+      logError(formatLocatedIssue(err, sourceName).join('\n'));
+      report.issues.push({
+        severity: 'error',
+        code: 'MANIFEST_INVALID',
+        message: err.message,
+        path: err.path,
+        line: err.line,
+        column: err.column,
+      });
     }
-    console.error('');
-    process.exit(1);
+    logError('');
+    finish(1);
   }
 
-  const advancedValidation = validateManifestAdvanced(manifest);
+  const advancedValidation = validateManifestAdvanced(manifest, manifestSource);
   if (!advancedValidation.valid) {
-    console.error('');
-    console.error(formatValidationErrors(advancedValidation));
-    console.error('');
-    process.exit(1);
+    logError('');
+    logError(formatValidationErrors(advancedValidation, sourceName));
+    logError('');
+    for (const err of advancedValidation.errors) {
+      report.issues.push({
+        severity: 'error',
+        code: err.code,
+        message: err.message,
+        path: err.path,
+        moduleId: err.moduleId,
+        line: err.line,
+        column: err.column,
+      });
+    }
+    finish(1);
   }
 
   if (basicValidation.warnings.length > 0) {
-    console.error('');
-    console.error(`Manifest validation warnings (${basicValidation.warnings.length}):`);
+    logError('');
+    logError(`Manifest validation warnings (${basicValidation.warnings.length}):`);
     for (const warn of basicValidation.warnings) {
-      console.error(`- ${warn.path}: ${warn.message}`);
+      logError(formatLocatedIssue(warn, sourceName).join('\n'));
     }
-    console.error('');
+    logError('');
   }
 
   const categories = getCategories(manifest);
-  console.log(`Categories: ${categories.join(', ')}`);
-  console.log('');
+  log(`Categories: ${categories.join(', ')}`);
+  log('');
 
-  const manifestSha256 = computeManifestSha256();
+  const manifestSha256 = report.manifest.sha256;
 
   // Validate checksum coverage for known upstream installers (fail closed).
   if (!existsSync(CHECKSUMS_PATH)) {
-    console.error(`Missing required file: ${CHECKSUMS_PATH}`);
-    console.error('Refusing to generate scripts that require checksum verification without checksums.yaml.');
-    process.exit(1);
+    logError(`Missing required file: ${CHECKSUMS_PATH}`);
+    logError('Refusing to generate scripts that require checksum verification without checksums.yaml.');
+    report.issues.push({
+      severity: 'error',
+      code: 'MISSING_CHECKSUMS_FILE',
+      message: `Missing required file: ${relative(PROJECT_ROOT, CHECKSUMS_PATH)}`,
+    });
+    finish(1);
   }
 
-  try {
-    const checksums = parseYaml(readFileSync(CHECKSUMS_PATH, 'utf-8')) as {
-      installers?: Record<string, { url?: string; sha256?: string }>;
-    };
-    const installers = checksums.installers ?? {};
-
-    // Validate all verified_installer entries in manifest have checksums.yaml coverage
-    const missingTools = new Set<string>();
-    for (const module of manifest.modules) {
-      if (module.verified_installer) {
-        const tool = module.verified_installer.tool;
-        const entry = installers[tool];
-        if (!entry?.url || !entry?.sha256) {
-          missingTools.add(`${tool} (used by ${module.id})`);
-        }
-      }
-    }
+  const checksumsResult = parseChecksumsFile(CHECKSUMS_PATH);
+  if (!checksumsResult.success || !checksumsResult.data) {
+    const message = `Failed to parse checksums.yaml: ${checksumsResult.error?.message}`;
+    logError(message);
+    if (checksumsResult.error?.snippet) logError(checksumsResult.error.snippet);
+    report.issues.push({ severity: 'error', code: 'INVALID_CHECKSUMS_FILE', message });
+    finish(1);
+  }
 
-    if (missingTools.size > 0) {
-      console.error(`checksums.yaml missing installer entries: ${Array.from(missingTools).sort().join(', ')}`);
-      console.error('Update checksums.yaml (./scripts/lib/security.sh --update-checksums > checksums.yaml) before regenerating.');
-      process.exit(1);
-    }
-  } catch (err) {
-    console.error(`Failed to parse checksums.yaml: ${err instanceof Error ? err.message : String(err)}`);
-    process.exit(1);
+  // Validate all verified_installer entries in manifest have checksums.yaml coverage
+  const checksumDrift = analyzeChecksums(manifest, checksumsResult.data!);
+  for (const gap of checksumDrift.missing) {
+    const index = manifest.modules.findIndex((module) => module.id === gap.moduleId);
+    const location = locatePath(manifestSource, ['modules', index, 'verified_installer', 'tool']);
+    report.checksumGaps.push(gap);
+    report.issues.push({
+      severity: 'error',
+      code: 'MISSING_CHECKSUM',
+      message: `checksums.yaml has no url/sha256 for tool "${gap.tool}" (used by ${gap.moduleId})`,
+      path: `modules[${index}].verified_installer.tool`,
+      moduleId: gap.moduleId,
+      line: location?.line,
+      column: location?.column,
+    });
+  }
+  for (const tool of checksumDrift.orphaned) {
+    report.issues.push({
+      severity: 'warning',
+      code: 'ORPHANED_CHECKSUM',
+      message: `checksums.yaml entry "${tool}" is not used by any verified_installer`,
+    });
+  }
+
+  if (report.checksumGaps.length > 0) {
+    const missingTools = report.checksumGaps.map((gap) => `${gap.tool} (used by ${gap.moduleId})`);
+    logError(`checksums.yaml missing installer entries: ${missingTools.sort().join(', ')}`);
+    logError('Update checksums.yaml (./scripts/lib/security.sh --update-checksums > checksums.yaml.new && mv checksums.yaml.new checksums.yaml) before regenerating.');
+    finish(1);
   }
 
   // --validate mode: validation already passed, print success and exit
   if (validateOnly) {
-    console.log('✓ Manifest schema valid');
-    console.log('✓ Manifest dependency graph valid');
-    console.log('✓ Checksums.yaml coverage complete');
-    console.log('');
-    console.log('Validation passed.');
-    process.exit(0);
+    log('✓ Manifest schema valid');
+    log('✓ Manifest dependency graph valid');
+    log('✓ Checksums.yaml coverage complete');
+    for (const tool of checksumDrift.orphaned) {
+      log(`  (note: checksums.yaml entry "${tool}" is not used by any verified_installer)`);
+    }
+    log('');
+    log('Validation passed.');
+    finish(0);
   }
 
   // Build map of all files we would generate
@@ -1263,6 +1966,18 @@ async function main(): Promise<void> {
     filesToGenerate.set(filepath, { content, mode: 0o755 });
   }
 
+  // Uninstall scripts (only categories with uninstall steps) + dispatcher
+  for (const category of getUninstallCategories(manifest)) {
+    const filepath = join(OUTPUT_DIR, `uninstall_${category}.sh`);
+    const content = generateCategoryUninstallScript(manifest, category);
+    filesToGenerate.set(filepath, { content, mode: 0o755 });
+  }
+  {
+    const filepath = join(OUTPUT_DIR, 'uninstall_module.sh');
+    const content = generateUninstallDispatcher(manifest);
+    filesToGenerate.set(filepath, { content, mode: 0o755 });
+  }
+
   // Doctor checks
   {
     const filepath = join(OUTPUT_DIR, 'doctor_checks.sh');
@@ -1277,6 +1992,13 @@ async function main(): Promise<void> {
     filesToGenerate.set(filepath, { content, mode: 0o755 });
   }
 
+  // Parallel master installer (optional alternative to install_all.sh)
+  {
+    const filepath = join(OUTPUT_DIR, 'install_parallel.sh');
+    const content = generateParallelInstaller(manifest);
+    filesToGenerate.set(filepath, { content, mode: 0o755 });
+  }
+
   // Manifest index
   {
     const filepath = join(OUTPUT_DIR, 'manifest_index.sh');
@@ -1284,41 +2006,56 @@ async function main(): Promise<void> {
     filesToGenerate.set(filepath, { content, mode: 0o644 });
   }
 
+  // Website tool catalog (apps/web/lib/toolCatalog.ts)
+  filesToGenerate.set(WEB_CATALOG_PATH, {
+    content: serializeToolCatalog(buildToolCatalog(manifest)),
+    mode: 0o644,
+  });
+
+  // Compare every file against disk (used by --diff, --dry-run and the JSON report)
+  for (const [filepath, { content }] of filesToGenerate) {
+    const relPath = relative(PROJECT_ROOT, filepath);
+    const existing = existsSync(filepath) ? readFileSync(filepath, 'utf-8') : null;
+    if (existing === content) {
+      report.files.push({ path: relPath, status: 'unchanged' });
+    } else {
+      report.files.push({
+        path: relPath,
+        status: existing === null ? 'new' : 'changed',
+        diff: createUnifiedDiff(existing ?? '', content, {
+          oldLabel: existing === null ? '/dev/null' : `a/${relPath}`,
+          newLabel: `b/${relPath}`,
+        }),
+      });
+    }
+  }
+
   // --diff mode: compare against existing files
   if (diffMode) {
-    let hasDiff = false;
-    console.log('Comparing generated content against existing files...');
-    console.log('');
-
-    for (const [filepath, { content }] of filesToGenerate) {
-      const filename = filepath.replace(OUTPUT_DIR + '/', '');
-      if (existsSync(filepath)) {
-        const existing = readFileSync(filepath, 'utf-8');
-        if (existing !== content) {
-          hasDiff = true;
-          console.log(`[DIFF] ${filename}`);
-          if (verbose) {
-            // Show a simple line count diff
-            const existingLines = existing.split('\n').length;
-            const newLines = content.split('\n').length;
-            console.log(`       Existing: ${existingLines} lines, Generated: ${newLines} lines`);
-          }
-        } else {
-          console.log(`[OK]   ${filename}`);
+    log('Comparing generated content against existing files...');
+    log('');
+
+    for (const file of report.files) {
+      const filename = file.path.replace(relative(PROJECT_ROOT, OUTPUT_DIR) + '/', '');
+      if (file.status === 'changed') {
+        log(`[DIFF] ${filename}`);
+        if (verbose && file.diff) {
+          log(file.diff);
         }
+      } else if (file.status === 'new') {
+        log(`[NEW]  ${filename}`);
       } else {
-        hasDiff = true;
-        console.log(`[NEW]  ${filename}`);
+        log(`[OK]   ${filename}`);
       }
     }
 
-    console.log('');
-    if (hasDiff) {
-      console.log('Generated files would change. Run without --diff to update.');
-      process.exit(1);
+    log('');
+    if (report.files.some((file) => file.status !== 'unchanged')) {
+      log('Generated files would change. Run without --diff to update.');
+      finish(1);
     } else {
-      console.log('All generated files are up to date.');
-      process.exit(0);
+      log('All generated files are up to date.');
+      finish(0);
     }
   }
 
@@ -1326,31 +2063,33 @@ async function main(): Promise<void> {
   if (dryRun) {
     for (const [filepath, { content }] of filesToGenerate) {
       const filename = filepath.replace(OUTPUT_DIR + '/', '');
-      console.log(`[DRY-RUN] Would generate: ${filename}`);
+      log(`[DRY-RUN] Would generate: ${filename}`);
       if (verbose) {
-        console.log('---');
-        console.log(content.slice(0, 500) + '...');
-        console.log('---');
+        log('---');
+        log(content.slice(0, 500) + '...');
+        log('---');
       }
     }
-    console.log('');
-    console.log('Dry run complete. No files written.');
-    process.exit(0);
+    log('');
+    log('Dry run complete. No files written.');
+    finish(0);
   }
 
   // Normal generation mode: write all files
   mkdirSync(OUTPUT_DIR, { recursive: true });
+  mkdirSync(dirname(WEB_CATALOG_PATH), { recursive: true });
 
   const generatedFiles: string[] = [];
   for (const [filepath, { content, mode }] of filesToGenerate) {
     writeFileSync(filepath, content, { mode });
     const filename = filepath.replace(OUTPUT_DIR + '/', '');
-    console.log(`Generated: ${filename}`);
+    log(`Generated: ${filename}`);
     generatedFiles.push(filepath);
   }
 
-  console.log('');
-  console.log(`Generated ${generatedFiles.length} files in ${OUTPUT_DIR}`);
+  log('');
+  log(`Generated ${generatedFiles.length} files in ${OUTPUT_DIR}`);
+  finish(0);
 }
 
 main().catch((err) => {
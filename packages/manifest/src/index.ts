@@ -9,11 +9,21 @@ export type {
   ManifestDefaults,
   Module,
   ModuleCategory,
+  ManifestProfile,
+  ProfileSelector,
   ValidationResult,
   ValidationError,
   ValidationWarning,
   ParseResult,
   ParseError,
+  SourceLocation,
+  ChecksumEntry,
+  ChecksumHistoryEntry,
+  ChecksumsFile,
+  Arch,
+  Virtualization,
+  ModuleCondition,
+  ModuleVariant,
 } from './types.js';
 
 // Export schema types (inferred from Zod)
@@ -24,6 +34,10 @@ export type {
   ModuleOutput,
   ManifestDefaultsInput,
   ManifestDefaultsOutput,
+  ProfileInput,
+  ProfileOutput,
+  ChecksumsFileInput,
+  ChecksumsFileOutput,
 } from './schema.js';
 
 // Export Zod schemas for advanced usage
@@ -31,6 +45,13 @@ export {
   ManifestSchema,
   ModuleSchema,
   ManifestDefaultsSchema,
+  ProfileSchema,
+  VersionSpecSchema,
+  UbuntuRangeSchema,
+  ModuleConditionSchema,
+  ChecksumsFileSchema,
+  ChecksumEntrySchema,
+  ChecksumHistoryEntrySchema,
 } from './schema.js';
 
 // Export parser functions
@@ -40,6 +61,16 @@ export {
   validateManifest,
 } from './parser.js';
 
+// Export source location helpers
+export {
+  createManifestSource,
+  locatePath,
+  formatSourcePath,
+  formatCodeFrame,
+} from './source.js';
+
+export type { ManifestSource, SourcePath } from './source.js';
+
 // Export utility functions
 export {
   isValidCategory,
@@ -55,16 +86,21 @@ export {
   groupModulesByCategory,
   searchModules,
   getManifestStats,
+  getProfileNames,
+  resolveProfile,
+  ProfileResolutionError,
 } from './utils.js';
 
 // Export stats interface
-export type { ManifestStats } from './utils.js';
+export type { ManifestStats, ModuleGraph, ModuleGraphNode, ProfileDependencyViolation } from './utils.js';
 
 // Export advanced validation API (bead mjt.3.2)
 export {
   validateDependencyExistence,
   detectDependencyCycles,
   validatePhaseOrdering,
+  validateProfiles,
+  validateConditions,
   validateManifest as validateManifestAdvanced,
   formatValidationErrors,
 } from './validate.js';
@@ -73,3 +109,55 @@ export type {
   ValidationError as AdvancedValidationError,
   ValidationResult as AdvancedValidationResult,
 } from './validate.js';
+
+// Export generator output helpers
+export { createUnifiedDiff } from './diff.js';
+export type { UnifiedDiffOptions } from './diff.js';
+
+export { createGeneratorReport, toSarif } from './report.js';
+export type {
+  OutputFormat,
+  GeneratorMode,
+  GeneratorReport,
+  ReportIssue,
+  ReportFile,
+  ChecksumGap,
+} from './report.js';
+
+// Export checksums.yaml tooling
+export {
+  parseChecksumsFile,
+  parseChecksumsString,
+  analyzeChecksums,
+  computeSha256,
+  computeMirrorHashes,
+  applyChecksumUpdates,
+  serializeChecksums,
+} from './checksums.js';
+export type { ChecksumDriftReport, StaleChecksum } from './checksums.js';
+
+// Export install planner
+export { planInstallWaves, getModuleConflictKeys } from './plan.js';
+export type { InstallWave } from './plan.js';
+
+// Export manifest changelog
+export { diffManifests, formatChangelogMarkdown } from './changelog.js';
+export type { ManifestChange, ManifestChangeKind } from './changelog.js';
+
+// Export website tool catalog
+export { buildToolCatalog, serializeToolCatalog, TOOL_CATALOG_COMMENT } from './catalog.js';
+export type { ToolCatalog, ToolCatalogEntry } from './catalog.js';
+
+// Export module condition helpers
+export {
+  SUPPORTED_UBUNTU_RELEASES,
+  SUPPORTED_ARCHES,
+  SUPPORTED_VIRTUALIZATIONS,
+  ubuntuVersionInRange,
+  conditionMatches,
+  getSupportedTargets,
+  selectVariant,
+  encodeCondition,
+  describeCondition,
+} from './conditions.js';
+export type { InstallTarget } from './conditions.js';
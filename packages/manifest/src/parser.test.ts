@@ -10,6 +10,7 @@ import { describe, test, expect, beforeAll } from 'bun:test';
 import { resolve, dirname } from 'node:path';
 import { fileURLToPath } from 'node:url';
 import { parseManifestFile, parseManifestString, validateManifest } from './parser.js';
+import { createManifestSource } from './source.js';
 import type { Manifest } from './types.js';
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
@@ -272,6 +273,85 @@ modules:
   });
 });
 
+describe('source locations', () => {
+  const yaml = `version: 1
+name: test
+id: test
+defaults:
+  user: ubuntu
+  workspace_root: /data
+modules:
+  - id: a.one
+    description: A
+    run_as: nobody
+    install: ["true"]
+    verify: ["true"]
+`;
+
+  test('schema errors from parseManifestString carry line, column and snippet', () => {
+    const result = parseManifestString(yaml);
+    expect(result.success).toBe(false);
+    expect(result.error?.line).toBe(10);
+    expect(result.error?.column).toBe(5);
+    expect(result.error?.snippet).toContain('> 10 |     run_as: nobody');
+  });
+
+  test('every schema issue from parseManifestString is located', () => {
+    const twoErrors = yaml.replace('    install: ["true"]\n', '    install: ["true"]\n    optional: maybe\n');
+    const result = parseManifestString(twoErrors);
+    expect(result.success).toBe(false);
+    const issues = result.error?.issues ?? [];
+    expect(issues).toHaveLength(2);
+    expect(issues.map((issue) => [issue.path, issue.line, issue.column])).toEqual([
+      ['modules.0.run_as', 10, 5],
+      ['modules.0.optional', 12, 5],
+    ]);
+    expect(issues[1].snippet).toContain('> 12 |     optional: maybe');
+  });
+
+  test('YAML syntax errors carry a snippet', () => {
+    const result = parseManifestString('version: 1\nname: [unclosed\n');
+    expect(result.success).toBe(false);
+    expect(result.error?.line).toBeDefined();
+    expect(result.error?.snippet).toContain('|');
+  });
+
+  test('validateManifest locates errors and warnings when given a source', () => {
+    const located = `version: 1
+name: test
+id: test
+defaults:
+  user: ubuntu
+  workspace_root: /data
+modules:
+  - id: a.one
+    description: A
+    install:
+      - "Install the thing"
+    verify: ["true"]
+    dependencies:
+      - nonexistent.module
+`;
+    const parseResult = parseManifestString(located);
+    expect(parseResult.success).toBe(true);
+    if (!parseResult.success || !parseResult.data) return;
+
+    const result = validateManifest(parseResult.data, createManifestSource(located));
+    expect(result.errors).toHaveLength(1);
+    expect(result.errors[0].line).toBe(14);
+    expect(result.errors[0].column).toBe(9);
+    expect(result.warnings).toHaveLength(1);
+    expect(result.warnings[0].line).toBe(10);
+    expect(result.warnings[0].snippet).toContain('> 10 |     install:');
+  });
+
+  test('validateManifest omits locations without a source', () => {
+    const result = validateManifest({});
+    expect(result.valid).toBe(false);
+    expect(result.errors[0].line).toBeUndefined();
+  });
+});
+
 describe('validateManifest with inline manifests', () => {
   test('detects duplicate module IDs', () => {
     const yaml = `
@@ -7,14 +7,26 @@ import { readFileSync, existsSync } from 'node:fs';
 import { parse as parseYaml, YAMLParseError } from 'yaml';
 import { ZodError } from 'zod';
 import { ManifestSchema } from './schema.js';
+import { createManifestSource, formatCodeFrame, locatePath } from './source.js';
+import type { ManifestSource, SourcePath } from './source.js';
 import type {
   Manifest,
   ParseResult,
+  SourceLocation,
   ValidationResult,
   ValidationError,
   ValidationWarning,
 } from './types.js';
 
+/**
+ * Resolves a path to its source location (empty when no source is available)
+ */
+type Locate = (path: SourcePath) => Partial<SourceLocation>;
+
+function createLocator(source?: ManifestSource): Locate {
+  return (path) => (source ? locatePath(source, path) : undefined) ?? {};
+}
+
 function unwrapOptionalQuotes(value: string): string {
   const trimmed = value.trim();
   if (
@@ -140,12 +152,18 @@ export function parseManifestString(yamlContent: string): ParseResult<Manifest>
     parsed = parseYaml(yamlContent);
   } catch (err) {
     if (err instanceof YAMLParseError) {
+      const line = err.linePos?.[0]?.line;
+      const column = err.linePos?.[0]?.col;
       return {
         success: false,
         error: {
           message: `YAML parse error: ${err.message}`,
-          line: err.linePos?.[0]?.line,
-          column: err.linePos?.[0]?.col,
+          line,
+          column,
+          snippet:
+            line !== undefined && column !== undefined
+              ? formatCodeFrame(yamlContent, line, column)
+              : undefined,
         },
       };
     }
@@ -161,10 +179,22 @@ export function parseManifestString(yamlContent: string): ParseResult<Manifest>
   const validation = ManifestSchema.safeParse(parsed);
 
   if (!validation.success) {
+    const locate = createLocator(createManifestSource(yamlContent));
+    const issues: ValidationError[] = validation.error.issues.map((issue) => ({
+      path: issue.path.join('.'),
+      message: issue.message,
+      ...locate(issue.path),
+    }));
+    // The error itself points at the first issue; every issue is located in `issues`.
+    const { line, column, snippet } = issues[0] ?? {};
     return {
       success: false,
       error: {
         message: formatZodError(validation.error),
+        line,
+        column,
+        snippet,
+        issues,
       },
     };
   }
@@ -178,12 +208,26 @@ export function parseManifestString(yamlContent: string): ParseResult<Manifest>
 /**
  * Validate a manifest object (already parsed)
  *
+ * When the original YAML source is provided, every error and warning also
+ * carries the line, column and a code-frame snippet of the offending field.
+ *
  * @param manifest - Manifest object to validate
+ * @param source - Optional YAML source (from createManifestSource) for locations
  * @returns Validation result with errors and warnings
+ *
+ * @example
+ * ```ts
+ * const source = createManifestSource(yamlContent);
+ * const result = validateManifest(parseYaml(yamlContent), source);
+ * for (const err of result.errors) {
+ *   console.error(`manifest.yaml:${err.line}:${err.column}: ${err.message}`);
+ * }
+ * ```
  */
-export function validateManifest(manifest: unknown): ValidationResult {
+export function validateManifest(manifest: unknown, source?: ManifestSource): ValidationResult {
   const errors: ValidationError[] = [];
   const warnings: ValidationWarning[] = [];
+  const locate = createLocator(source);
 
   // Schema validation
   const schemaResult = ManifestSchema.safeParse(manifest);
@@ -194,6 +238,7 @@ export function validateManifest(manifest: unknown): ValidationResult {
         path: issue.path.join('.'),
         message: issue.message,
         value: undefined,
+        ...locate(issue.path),
       });
     }
     return { valid: false, errors, warnings };
@@ -203,55 +248,56 @@ export function validateManifest(manifest: unknown): ValidationResult {
 
   // Check for duplicate module IDs
   const seenIds = new Set<string>();
-  for (const module of data.modules) {
+  data.modules.forEach((module, index) => {
     if (seenIds.has(module.id)) {
       errors.push({
         path: `modules`,
         message: `Duplicate module ID: ${module.id}`,
         value: module.id,
+        ...locate(['modules', index, 'id']),
       });
     }
     seenIds.add(module.id);
-  }
+  });
 
   // Check for missing dependencies
   const moduleIds = new Set(data.modules.map((m) => m.id));
-  for (const module of data.modules) {
-    if (module.dependencies) {
-      for (const dep of module.dependencies) {
-        if (!moduleIds.has(dep)) {
-          errors.push({
-            path: `modules.${module.id}.dependencies`,
-            message: `Unknown dependency: ${dep}`,
-            value: dep,
-          });
-        }
+  data.modules.forEach((module, index) => {
+    module.dependencies?.forEach((dep, depIndex) => {
+      if (!moduleIds.has(dep)) {
+        errors.push({
+          path: `modules.${module.id}.dependencies`,
+          message: `Unknown dependency: ${dep}`,
+          value: dep,
+          ...locate(['modules', index, 'dependencies', depIndex]),
+        });
       }
-    }
-  }
+    });
+  });
 
   // Check for dependency cycles
-  const cycleErrors = detectDependencyCycles(data.modules);
+  const cycleErrors = detectDependencyCycles(data.modules, locate);
   errors.push(...cycleErrors);
 
   // Check for phase ordering violations (deps must be same or earlier phase)
   // Related: bead mjt.3.2
-  const phaseErrors = validatePhaseOrdering(data.modules);
+  const phaseErrors = validatePhaseOrdering(data.modules, locate);
   errors.push(...phaseErrors);
 
   // Warnings for modules with install steps that look like descriptions
-  for (const module of data.modules) {
+  data.modules.forEach((module, index) => {
     if (module.install.length === 0) {
-      continue;
+      return;
     }
     const hasRealInstall = module.install.some((cmd) => !looksLikeDescriptionOnlyInstallEntry(cmd));
     if (!hasRealInstall) {
       warnings.push({
         path: `modules.${module.id}.install`,
         message: 'Install commands appear to be descriptions, not actual commands',
+        ...locate(['modules', index, 'install']),
       });
     }
-  }
+  });
 
   return {
     valid: errors.length === 0,
@@ -263,7 +309,7 @@ export function validateManifest(manifest: unknown): ValidationResult {
 /**
  * Detect dependency cycles in modules
  */
-function detectDependencyCycles(modules: Manifest['modules']): ValidationError[] {
+function detectDependencyCycles(modules: Manifest['modules'], locate: Locate): ValidationError[] {
   const errors: ValidationError[] = [];
   const moduleMap = new Map(modules.map((m) => [m.id, m]));
   const processed = new Set<string>();
@@ -300,7 +346,7 @@ function detectDependencyCycles(modules: Manifest['modules']): ValidationError[]
     return null;
   }
 
-  for (const module of modules) {
+  for (const [index, module] of modules.entries()) {
     if (processed.has(module.id)) continue;
     
     const cycle = visit(module.id, []);
@@ -308,6 +354,7 @@ function detectDependencyCycles(modules: Manifest['modules']): ValidationError[]
       errors.push({
         path: `modules.${module.id}.dependencies`,
         message: `Dependency cycle detected: ${cycle.join(' -> ')} -> ${cycle[0]}`,
+        ...locate(['modules', index, 'dependencies']),
       });
       // We can stop after finding one cycle, or continue to find disjoint cycles.
       // For now, reporting one is sufficient to fail validation.
@@ -322,16 +369,16 @@ function detectDependencyCycles(modules: Manifest['modules']): ValidationError[]
  * Validate phase ordering: dependencies must be in same or earlier phase
  * Related: bead mjt.3.2
  */
-function validatePhaseOrdering(modules: Manifest['modules']): ValidationError[] {
+function validatePhaseOrdering(modules: Manifest['modules'], locate: Locate): ValidationError[] {
   const errors: ValidationError[] = [];
   const moduleMap = new Map(modules.map((m) => [m.id, m]));
 
-  for (const module of modules) {
+  for (const [index, module] of modules.entries()) {
     if (!module.dependencies) continue;
 
     const modulePhase = module.phase ?? 1;
 
-    for (const depId of module.dependencies) {
+    for (const [depIndex, depId] of module.dependencies.entries()) {
       const dep = moduleMap.get(depId);
       if (!dep) continue; // Missing dependency is caught by existence check
 
@@ -342,6 +389,7 @@ function validatePhaseOrdering(modules: Manifest['modules']): ValidationError[]
           path: `modules.${module.id}.dependencies`,
           message: `Phase violation: "${module.id}" (phase ${modulePhase}) depends on "${depId}" (phase ${depPhase}). Dependencies must be in same or earlier phase.`,
           value: depId,
+          ...locate(['modules', index, 'dependencies', depIndex]),
         });
       }
     }
@@ -353,7 +401,7 @@ function validatePhaseOrdering(modules: Manifest['modules']): ValidationError[]
 /**
  * Format a Zod error into a readable message
  */
-function formatZodError(error: ZodError): string {
+export function formatZodError(error: ZodError): string {
   const messages = error.issues.map((issue) => {
     const path = issue.path.join('.');
     return path ? `${path}: ${issue.message}` : issue.message;
@@ -0,0 +1,169 @@
+/**
+ * Tests for ACFS Install Planner
+ *
+ * Validates wave grouping: phase boundaries, same-phase dependency levels
+ * and exclusive (root, shared package manager, rc file) modules.
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { resolve, dirname } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { getModuleConflictKeys, planInstallWaves } from './plan.js';
+import { parseManifestFile } from './parser.js';
+import type { Manifest, Module, RunAs } from './types.js';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const MANIFEST_PATH = resolve(__dirname, '../../../acfs.manifest.yaml');
+
+function mod(id: string, phase: number, deps: string[] = [], runAs: RunAs = 'target_user'): Module {
+  return {
+    id,
+    description: id,
+    phase,
+    run_as: runAs,
+    optional: false,
+    enabled_by_default: true,
+    generated: true,
+    install: ['true'],
+    verify: ['true'],
+    dependencies: deps,
+  };
+}
+
+function manifestOf(modules: Module[]): Manifest {
+  return {
+    version: 1,
+    name: 'test',
+    id: 'test',
+    defaults: { user: 'ubuntu', workspace_root: '/data/projects', mode: 'vibe' },
+    modules,
+  };
+}
+
+const ids = (manifest: Manifest): string[][] =>
+  planInstallWaves(manifest).map((wave) => wave.modules.map((module) => module.id));
+
+describe('getModuleConflictKeys', () => {
+  test('root modules share the system lock', () => {
+    expect(getModuleConflictKeys(mod('base.system', 1, [], 'root'))).toEqual(['system']);
+  });
+
+  test('user modules without shared resources have no conflict keys', () => {
+    expect(getModuleConflictKeys(mod('tools.zoxide', 6))).toEqual([]);
+    expect(getModuleConflictKeys(mod('acfs.doctor', 10, [], 'current'))).toEqual([]);
+  });
+
+  test('detects global package managers and rc file edits in install commands', () => {
+    const withInstall = (install: string[]): Module => ({ ...mod('tools.x', 8), install });
+    expect(getModuleConflictKeys(withInstall(['~/.bun/bin/bun install -g --trust vercel']))).toEqual(['bun-global']);
+    expect(getModuleConflictKeys(withInstall(['~/.cargo/bin/cargo install ast-grep --locked']))).toEqual(['cargo']);
+    expect(getModuleConflictKeys(withInstall(['~/.local/bin/uv tool install ruff']))).toEqual(['uv-tool']);
+    expect(getModuleConflictKeys(withInstall(["echo 'export X=1' >> ~/.zshrc"]))).toEqual(['shell-rc']);
+    expect(getModuleConflictKeys(withInstall(['bun install']))).toEqual([]);
+  });
+
+  test('includes declared conflicts and variant installs', () => {
+    const module: Module = {
+      ...mod('lang.bun', 6),
+      conflicts: ['shell-rc'],
+      variants: [{ when: { arch: ['arm64'] }, install: ['cargo install foo'] }],
+    };
+    expect(getModuleConflictKeys(module)).toEqual(['cargo', 'shell-rc']);
+  });
+});
+
+describe('planInstallWaves', () => {
+  test('independent modules in a phase share one wave', () => {
+    const manifest = manifestOf([mod('lang.bun', 6), mod('lang.uv', 6), mod('lang.rust', 6)]);
+    expect(ids(manifest)).toEqual([['lang.bun', 'lang.uv', 'lang.rust']]);
+  });
+
+  test('phases are never merged, even without dependencies', () => {
+    const manifest = manifestOf([mod('stack.ntm', 9), mod('lang.bun', 6)]);
+    const waves = planInstallWaves(manifest);
+    expect(waves.map((wave) => wave.phase)).toEqual([6, 9]);
+  });
+
+  test('same-phase dependencies start a new level', () => {
+    const manifest = manifestOf([
+      mod('lang.rust', 6),
+      mod('tools.ast_grep', 6, ['lang.rust']),
+      mod('tools.other', 6, ['tools.ast_grep']),
+      mod('lang.go', 6),
+    ]);
+    const waves = planInstallWaves(manifest);
+    expect(waves.map((wave) => wave.level)).toEqual([0, 1, 2]);
+    expect(ids(manifest)).toEqual([['lang.rust', 'lang.go'], ['tools.ast_grep'], ['tools.other']]);
+  });
+
+  test('dependencies in earlier phases do not add levels', () => {
+    const manifest = manifestOf([
+      mod('base.system', 1, [], 'root'),
+      mod('lang.bun', 6, ['base.system']),
+      mod('lang.uv', 6, ['base.system']),
+    ]);
+    expect(ids(manifest)).toEqual([['base.system'], ['lang.bun', 'lang.uv']]);
+  });
+
+  test('root modules never share a wave', () => {
+    const manifest = manifestOf([
+      mod('tools.vault', 8, [], 'root'),
+      mod('cloud.wrangler', 8),
+      mod('db.postgres18', 8, [], 'root'),
+    ]);
+    expect(ids(manifest)).toEqual([['tools.vault', 'cloud.wrangler'], ['db.postgres18']]);
+  });
+
+  test('modules sharing any conflict key never share a wave', () => {
+    const bunGlobal = (id: string): Module => ({ ...mod(id, 8), install: [`~/.bun/bin/bun install -g ${id}`] });
+    const rc = (id: string): Module => ({ ...mod(id, 8), conflicts: ['shell-rc'] });
+    const manifest = manifestOf([
+      bunGlobal('cloud.wrangler'),
+      bunGlobal('cloud.vercel'),
+      rc('tools.a'),
+      { ...rc('tools.b'), install: ['~/.bun/bin/bun add --global b'] },
+      mod('tools.free', 8),
+    ]);
+    expect(ids(manifest)).toEqual([
+      ['cloud.wrangler', 'tools.a', 'tools.free'],
+      ['cloud.vercel'],
+      ['tools.b'],
+    ]);
+  });
+
+  test('real manifest keeps bun -g, cargo and rc-file installers apart', () => {
+    const result = parseManifestFile(MANIFEST_PATH);
+    expect(result.success).toBe(true);
+    const waves = ids(result.data!);
+    const together = (a: string, b: string) => waves.some((wave) => wave.includes(a) && wave.includes(b));
+
+    expect(together('agents.codex', 'agents.gemini')).toBe(false);
+    expect(together('cloud.wrangler', 'cloud.vercel')).toBe(false);
+    expect(together('lang.bun', 'lang.uv')).toBe(false);
+    expect(together('lang.rust', 'lang.nvm')).toBe(false);
+  });
+
+  test('every manifest module is planned exactly once, after its dependencies', () => {
+    const result = parseManifestFile(MANIFEST_PATH);
+    expect(result.success).toBe(true);
+    const manifest = result.data!;
+    const waves = planInstallWaves(manifest);
+
+    const waveOf = new Map<string, number>();
+    waves.forEach((wave, idx) => {
+      for (const module of wave.modules) {
+        expect(waveOf.has(module.id)).toBe(false);
+        waveOf.set(module.id, idx);
+      }
+      const keys = wave.modules.flatMap((module) => getModuleConflictKeys(module));
+      expect(keys.length).toBe(new Set(keys).size);
+    });
+    expect(waveOf.size).toBe(manifest.modules.length);
+
+    for (const module of manifest.modules) {
+      for (const depId of module.dependencies ?? []) {
+        expect(waveOf.get(depId)!).toBeLessThan(waveOf.get(module.id)!);
+      }
+    }
+  });
+});
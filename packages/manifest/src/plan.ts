@@ -0,0 +1,140 @@
+/**
+ * ACFS Install Planner
+ * Groups modules into dependency "waves" that can be installed concurrently
+ */
+
+import { sortModulesByInstallOrder } from './utils.js';
+import type { Manifest, Module } from './types.js';
+
+/**
+ * A set of modules with no dependencies on each other
+ */
+export interface InstallWave {
+  /** Phase all modules in the wave belong to */
+  phase: number;
+  /** Dependency depth within the phase (0 = no same-phase dependencies) */
+  level: number;
+  /** Modules to install concurrently (in install order) */
+  modules: Module[];
+}
+
+/**
+ * Shared per-user state written by common install commands. Two installs
+ * writing the same global package.json, lockfile or rc file at once can
+ * corrupt it, so these serialize like the dpkg lock.
+ */
+const COMMAND_CONFLICTS: ReadonlyArray<readonly [RegExp, string]> = [
+  [/\bbun\s+(install|add)\b[^\n]*\s(-g|--global)\b/, 'bun-global'],
+  [/\bcargo\s+install\b/, 'cargo'],
+  [/\buv\s+tool\s+install\b/, 'uv-tool'],
+  [/(~|\$HOME|\$\{HOME\})\/\.(zshrc|zshenv|zprofile|bashrc|bash_profile|profile)\b/, 'shell-rc'],
+];
+
+/**
+ * Resources a module holds exclusively while installing.
+ * Root modules drive apt/dpkg (or write system config), and dpkg's lock
+ * means two of them cannot run at once. User modules conflict when their
+ * install commands use the same global package manager or edit shell rc
+ * files; upstream installers that do this invisibly declare `conflicts`.
+ *
+ * @param module - The module
+ * @returns Conflict keys (empty if the module can run alongside anything)
+ */
+export function getModuleConflictKeys(module: Module): string[] {
+  const keys = new Set<string>(module.conflicts ?? []);
+  if (module.run_as === 'root') keys.add('system');
+
+  const commands = [...module.install, ...(module.variants ?? []).flatMap((variant) => variant.install)];
+  for (const [pattern, key] of COMMAND_CONFLICTS) {
+    if (commands.some((command) => pattern.test(command))) keys.add(key);
+  }
+  return Array.from(keys).sort();
+}
+
+/**
+ * Plan install waves from the dependency DAG.
+ *
+ * Phases stay strictly ordered. Within a phase, a module's level is one more
+ * than the deepest same-phase dependency, and each level becomes a wave.
+ * Modules sharing a conflict key (see getModuleConflictKeys) never share a
+ * wave; extra ones spill into follow-up waves at the same level.
+ *
+ * @param manifest - The manifest object
+ * @returns Waves in execution order (each module appears exactly once)
+ *
+ * @example
+ * ```ts
+ * for (const wave of planInstallWaves(manifest)) {
+ *   console.log(wave.phase, wave.modules.map((m) => m.id).join(' '));
+ * }
+ * ```
+ */
+export function planInstallWaves(manifest: Manifest): InstallWave[] {
+  const ordered = sortModulesByInstallOrder(manifest);
+  const modulesById = new Map(ordered.map((module) => [module.id, module]));
+  const phaseOf = (module: Module): number => module.phase ?? 1;
+
+  // Same-phase dependency depth (dependencies in earlier phases are already done)
+  const levels = new Map<string, number>();
+  const visiting = new Set<string>();
+  function levelOf(module: Module): number {
+    const cached = levels.get(module.id);
+    if (cached !== undefined) return cached;
+    if (visiting.has(module.id)) return 0; // Cycle (validation reports it)
+
+    visiting.add(module.id);
+    let level = 0;
+    for (const depId of module.dependencies ?? []) {
+      const dep = modulesById.get(depId);
+      if (dep && phaseOf(dep) === phaseOf(module)) {
+        level = Math.max(level, levelOf(dep) + 1);
+      }
+    }
+    visiting.delete(module.id);
+    levels.set(module.id, level);
+    return level;
+  }
+
+  // Group by (phase, level), keeping install order inside each group
+  const groups = new Map<string, { phase: number; level: number; modules: Module[] }>();
+  for (const module of ordered) {
+    const phase = phaseOf(module);
+    const level = levelOf(module);
+    const key = `${phase}:${level}`;
+    const group = groups.get(key);
+    if (group) {
+      group.modules.push(module);
+    } else {
+      groups.set(key, { phase, level, modules: [module] });
+    }
+  }
+
+  const sortedGroups = Array.from(groups.values()).sort(
+    (a, b) => a.phase - b.phase || a.level - b.level
+  );
+
+  const waves: InstallWave[] = [];
+  for (const group of sortedGroups) {
+    // Greedy: each wave takes every remaining module whose resources are
+    // still free in that wave; the rest spill into the next one.
+    let remaining = group.modules;
+    while (remaining.length > 0) {
+      const held = new Set<string>();
+      const picked: Module[] = [];
+      const deferred: Module[] = [];
+      for (const module of remaining) {
+        const keys = getModuleConflictKeys(module);
+        if (keys.some((key) => held.has(key))) {
+          deferred.push(module);
+          continue;
+        }
+        keys.forEach((key) => held.add(key));
+        picked.push(module);
+      }
+      waves.push({ phase: group.phase, level: group.level, modules: picked });
+      remaining = deferred;
+    }
+  }
+
+  return waves;
+}
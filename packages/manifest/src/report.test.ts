@@ -0,0 +1,92 @@
+/**
+ * Tests for ACFS Generator Reports
+ *
+ * Validates the JSON report skeleton and SARIF conversion.
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { createGeneratorReport, toSarif } from './report.js';
+
+type SarifResult = {
+  ruleId: string;
+  level: string;
+  message: { text: string };
+  locations: Array<{
+    physicalLocation: {
+      artifactLocation: { uri: string };
+      region?: { startLine: number; startColumn: number };
+    };
+    logicalLocations?: Array<{ fullyQualifiedName: string }>;
+  }>;
+};
+
+type SarifLog = {
+  version: string;
+  runs: Array<{
+    tool: { driver: { name: string; rules: Array<{ id: string }> } };
+    results: SarifResult[];
+  }>;
+};
+
+describe('createGeneratorReport', () => {
+  test('starts as an empty successful report', () => {
+    const report = createGeneratorReport('validate', 'acfs.manifest.yaml');
+    expect(report).toEqual({
+      mode: 'validate',
+      ok: true,
+      manifest: { path: 'acfs.manifest.yaml' },
+      issues: [],
+      checksumGaps: [],
+      files: [],
+    });
+  });
+});
+
+describe('toSarif', () => {
+  test('produces an empty run for a clean report', () => {
+    const sarif = toSarif(createGeneratorReport('validate', 'acfs.manifest.yaml')) as SarifLog;
+    expect(sarif.version).toBe('2.1.0');
+    expect(sarif.runs).toHaveLength(1);
+    expect(sarif.runs[0].tool.driver.name).toBe('acfs-manifest');
+    expect(sarif.runs[0].results).toEqual([]);
+  });
+
+  test('maps issues to results with regions and logical locations', () => {
+    const report = createGeneratorReport('validate', 'acfs.manifest.yaml');
+    report.issues.push(
+      {
+        severity: 'error',
+        code: 'MISSING_DEPENDENCY',
+        message: "Module 'a' depends on unknown module 'b'",
+        path: 'modules[0].dependencies[0]',
+        moduleId: 'a',
+        line: 12,
+        column: 9,
+      },
+      {
+        severity: 'warning',
+        code: 'MANIFEST_WARNING',
+        message: 'Something looks off',
+      }
+    );
+
+    const run = (toSarif(report) as SarifLog).runs[0];
+    expect(run.tool.driver.rules.map((rule) => rule.id)).toEqual([
+      'MANIFEST_WARNING',
+      'MISSING_DEPENDENCY',
+    ]);
+
+    const [error, warning] = run.results;
+    expect(error.ruleId).toBe('MISSING_DEPENDENCY');
+    expect(error.level).toBe('error');
+    expect(error.locations[0].physicalLocation.artifactLocation.uri).toBe('acfs.manifest.yaml');
+    expect(error.locations[0].physicalLocation.region).toEqual({ startLine: 12, startColumn: 9 });
+    expect(error.locations[0].logicalLocations).toEqual([
+      { fullyQualifiedName: 'modules[0].dependencies[0]' },
+    ]);
+
+    expect(warning.level).toBe('warning');
+    expect(warning.locations[0].physicalLocation.region).toBeUndefined();
+    expect(warning.locations[0].logicalLocations).toBeUndefined();
+  });
+});
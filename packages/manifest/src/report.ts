@@ -0,0 +1,144 @@
+/**
+ * ACFS Generator Reports
+ * Structured (JSON/SARIF) output for the generator CLI
+ */
+
+import type { ManifestStats } from './utils.js';
+
+/**
+ * Generator CLI output formats
+ */
+export type OutputFormat = 'text' | 'json' | 'sarif';
+
+/**
+ * Generator CLI modes
+ */
+export type GeneratorMode = 'generate' | 'validate' | 'diff' | 'dry-run';
+
+/**
+ * A validation issue in a generator report
+ */
+export interface ReportIssue {
+  /** Severity of the issue */
+  severity: 'error' | 'warning';
+  /** Error code (advanced validation codes, or MANIFEST_INVALID / MANIFEST_WARNING / MISSING_CHECKSUM / ORPHANED_CHECKSUM) */
+  code: string;
+  /** Human-readable message */
+  message: string;
+  /** Path to the offending field (if known) */
+  path?: string;
+  /** Module ID the issue belongs to (if any) */
+  moduleId?: string;
+  /** Line number in the manifest (if known) */
+  line?: number;
+  /** Column number in the manifest (if known) */
+  column?: number;
+}
+
+/**
+ * A verified_installer tool without a checksums.yaml entry
+ */
+export interface ChecksumGap {
+  /** Tool key in checksums.yaml */
+  tool: string;
+  /** Module that references the tool */
+  moduleId: string;
+}
+
+/**
+ * A generated file and how it compares to what is on disk
+ */
+export interface ReportFile {
+  /** Path relative to the project root */
+  path: string;
+  /** Comparison against the existing file */
+  status: 'new' | 'changed' | 'unchanged';
+  /** Unified diff against the existing file (new/changed only) */
+  diff?: string;
+}
+
+/**
+ * Structured result of a generator run
+ */
+export interface GeneratorReport {
+  /** Mode the generator ran in */
+  mode: GeneratorMode;
+  /** Whether the run succeeded (no errors; for --diff, no pending changes) */
+  ok: boolean;
+  /** Manifest details */
+  manifest: {
+    /** Path relative to the project root */
+    path: string;
+    /** SHA256 of the manifest file (once read) */
+    sha256?: string;
+    /** Summary statistics (once parsed) */
+    stats?: ManifestStats;
+  };
+  /** Validation errors and warnings */
+  issues: ReportIssue[];
+  /** verified_installer tools missing from checksums.yaml */
+  checksumGaps: ChecksumGap[];
+  /** Generated files (not populated in --validate mode) */
+  files: ReportFile[];
+}
+
+/**
+ * Create an empty report for a generator run
+ */
+export function createGeneratorReport(mode: GeneratorMode, manifestPath: string): GeneratorReport {
+  return {
+    mode,
+    ok: true,
+    manifest: { path: manifestPath },
+    issues: [],
+    checksumGaps: [],
+    files: [],
+  };
+}
+
+const SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json';
+
+/**
+ * Convert a generator report into a SARIF 2.1.0 log (for CI code scanning)
+ *
+ * @param report - The generator report
+ * @returns SARIF log object (serialize with JSON.stringify)
+ */
+export function toSarif(report: GeneratorReport): Record<string, unknown> {
+  const ruleIds = Array.from(new Set(report.issues.map((issue) => issue.code))).sort();
+
+  return {
+    $schema: SARIF_SCHEMA,
+    version: '2.1.0',
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: 'acfs-manifest',
+            informationUri:
+              'https://github.com/Dicklesworthstone/agentic_coding_flywheel_setup',
+            rules: ruleIds.map((id) => ({ id })),
+          },
+        },
+        results: report.issues.map((issue) => ({
+          ruleId: issue.code,
+          level: issue.severity === 'error' ? 'error' : 'warning',
+          message: { text: issue.message },
+          locations: [
+            {
+              physicalLocation: {
+                artifactLocation: { uri: report.manifest.path },
+                ...(issue.line !== undefined
+                  ? { region: { startLine: issue.line, startColumn: issue.column ?? 1 } }
+                  : {}),
+              },
+              ...(issue.path
+                ? { logicalLocations: [{ fullyQualifiedName: issue.path }] }
+                : {}),
+            },
+          ],
+        })),
+      },
+    ],
+  };
+}
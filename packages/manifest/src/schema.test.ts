@@ -354,6 +354,74 @@ describe('ModuleSchema', () => {
     expect(result.success).toBe(false);
   });
 
+  test('validates uninstall array', () => {
+    const result = ModuleSchema.safeParse({
+      ...validMinimalModule,
+      uninstall: ['apt-get remove -y curl'],
+    });
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data.uninstall).toEqual(['apt-get remove -y curl']);
+    }
+  });
+
+  test('leaves uninstall undefined when not specified', () => {
+    const result = ModuleSchema.safeParse(validMinimalModule);
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data.uninstall).toBeUndefined();
+    }
+  });
+
+  test('rejects empty uninstall array', () => {
+    const result = ModuleSchema.safeParse({
+      ...validMinimalModule,
+      uninstall: [],
+    });
+    expect(result.success).toBe(false);
+  });
+
+  test('validates version pin with version_check', () => {
+    for (const version of ['1.2.3', '1.2', '1.x', '>=1.2.0', '^1.2.0', '~1.2.0']) {
+      const result = ModuleSchema.safeParse({
+        ...validMinimalModule,
+        version,
+        version_check: 'curl --version',
+      });
+      expect(result.success).toBe(true);
+    }
+  });
+
+  test('rejects invalid version spec', () => {
+    for (const version of ['latest', 'v1.2.3', '>1.0', '1.2.3-beta', '', '>=1.x', '^1.x', '~1.2.x']) {
+      const result = ModuleSchema.safeParse({
+        ...validMinimalModule,
+        version,
+        version_check: 'curl --version',
+      });
+      expect(result.success).toBe(false);
+    }
+  });
+
+  test('rejects version without version_check', () => {
+    const result = ModuleSchema.safeParse({
+      ...validMinimalModule,
+      version: '>=1.0.0',
+    });
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.issues[0].path).toEqual(['version_check']);
+    }
+  });
+
+  test('accepts version_check without version', () => {
+    const result = ModuleSchema.safeParse({
+      ...validMinimalModule,
+      version_check: 'curl --version',
+    });
+    expect(result.success).toBe(true);
+  });
+
   test('validates aliases array', () => {
     const result = ModuleSchema.safeParse({
       ...validMinimalModule,
@@ -487,6 +555,32 @@ describe('ManifestSchema', () => {
     expect(result.success).toBe(false);
   });
 
+  test('accepts profiles and applies selector defaults', () => {
+    const result = ManifestSchema.safeParse({
+      ...validMinimalManifest,
+      profiles: {
+        agents: {
+          description: 'Agents only',
+          include: { tags: ['agent'] },
+        },
+      },
+    });
+    expect(result.success).toBe(true);
+    if (result.success) {
+      const profile = result.data.profiles?.agents;
+      expect(profile?.include).toEqual({ modules: [], tags: ['agent'], categories: [] });
+      expect(profile?.exclude).toEqual({ modules: [], tags: [], categories: [] });
+    }
+  });
+
+  test('rejects uppercase profile names', () => {
+    const result = ManifestSchema.safeParse({
+      ...validMinimalManifest,
+      profiles: { Agents: {} },
+    });
+    expect(result.success).toBe(false);
+  });
+
   test('provides descriptive error messages', () => {
     const result = ManifestSchema.safeParse({
       version: -1,
@@ -30,6 +30,63 @@ const VerifiedInstallerRunnerSchema = z.enum(['bash', 'sh'], {
   }),
 });
 
+/**
+ * Expected version spec (exact/prefix "1.2.3", "1.2", "1.x"; ">=1.2.0"; "^1.2.0"; "~1.2.0").
+ * "x" wildcards are only meaningful in prefix specs; ranges take plain numbers.
+ * "^" follows semver: ^0.2.0 allows 0.2.x only, ^0.0.3 only 0.0.3.
+ * Evaluated at runtime by acfs_version_satisfies in scripts/lib/install_helpers.sh.
+ */
+export const VersionSpecSchema = z
+  .string()
+  .regex(
+    /^(\d+(\.(\d+|x))*|(>=|\^|~)\d+(\.\d+)*)$/,
+    'Version must be a version or range (e.g., "1.2.3", "1.x", ">=1.2.0", "^1.2.0", "~1.2.0")'
+  );
+
+/**
+ * Ubuntu release range: space-separated comparators against "YY.MM" releases.
+ * Evaluated at runtime by acfs_ubuntu_version_in_range in scripts/lib/install_helpers.sh.
+ */
+export const UbuntuRangeSchema = z
+  .string()
+  .regex(
+    /^(>=|<=|>|<|=)?\d+\.\d+( +(>=|<=|>|<|=)?\d+\.\d+)*$/,
+    'Ubuntu range must be comparators like "24.04", ">=24.04" or ">=22.04 <25.04"'
+  );
+
+/**
+ * Accept a single value or a list, normalized to a non-empty list
+ */
+function oneOrMany<T extends z.ZodTypeAny>(schema: T, label: string) {
+  return z.preprocess(
+    (value) => (typeof value === 'string' ? [value] : value),
+    z.array(schema).min(1, `${label} list cannot be empty`)
+  );
+}
+
+/**
+ * Schema for a module/variant condition (all given fields must match)
+ */
+export const ModuleConditionSchema = z
+  .object({
+    ubuntu: UbuntuRangeSchema.optional(),
+    arch: oneOrMany(z.enum(['amd64', 'arm64']), 'when.arch').optional(),
+    virt: oneOrMany(z.enum(['bare_metal', 'vm', 'container', 'wsl']), 'when.virt').optional(),
+    mode: oneOrMany(z.enum(['vibe', 'safe']), 'when.mode').optional(),
+  })
+  .strict()
+  .refine((when) => Object.values(when).some((value) => value !== undefined), {
+    message: 'Condition must set at least one of ubuntu, arch, virt or mode',
+  });
+
+/**
+ * Schema for a condition-specific install variant
+ */
+const ModuleVariantSchema = z.object({
+  when: ModuleConditionSchema,
+  install: z.array(z.string()).min(1, 'Variant install list cannot be empty'),
+});
+
 export const ModuleSchema = z
   .object({
     id: z
@@ -79,11 +136,24 @@ export const ModuleSchema = z
 
     phase: z.number().int().min(1).max(10).optional(),
 
+    // Conditional install: skip the module or pick a variant per OS/arch/virt/mode
+    when: ModuleConditionSchema.optional(),
+
     // Install steps are shell strings (executed via run_as_*_shell).
     // Allow empty when verified_installer is provided.
     install: z.array(z.string()).default([]),
+    variants: z.array(ModuleVariantSchema).min(1, 'Variants list cannot be empty when provided').optional(),
     verify: z.array(z.string()).min(1, 'At least one verify command required'),
+    // Optional version pin; version_check prints the installed version
+    version: VersionSpecSchema.optional(),
+    version_check: z.string().min(1, 'version_check command cannot be empty').optional(),
+    // Optional rollback steps (run via uninstall_module; same shell/run_as as install)
+    uninstall: z.array(z.string()).min(1, 'Uninstall list cannot be empty when provided').optional(),
     dependencies: z.array(z.string()).optional(),
+    // Shared per-user resources the install writes (see getModuleConflictKeys)
+    conflicts: z
+      .array(z.string().regex(/^[a-z][a-z0-9-]*$/, 'Conflict key must be lowercase kebab-case'))
+      .optional(),
     notes: z.array(z.string()).optional(),
     tags: z.array(z.string()).optional(),
     docs_url: z.string().url().optional(),
@@ -93,12 +163,35 @@ export const ModuleSchema = z
     (module) =>
       module.generated === false ||
       module.verified_installer !== undefined ||
-      module.install.length > 0,
+      module.install.length > 0 ||
+      (module.variants?.length ?? 0) > 0,
     {
       message:
-        'Module must define verified_installer or install commands (or set generated: false).',
+        'Module must define verified_installer, install commands or variants (or set generated: false).',
     }
-  );
+  )
+  .refine((module) => module.version === undefined || module.version_check !== undefined, {
+    message: 'Module with a version must define version_check',
+    path: ['version_check'],
+  });
+
+/**
+ * Schema for a profile selector (include/exclude by module id, tag and category)
+ */
+const ProfileSelectorSchema = z.object({
+  modules: z.array(z.string().min(1, 'Profile module ID cannot be empty')).default([]),
+  tags: z.array(z.string().min(1, 'Profile tag cannot be empty')).default([]),
+  categories: z.array(z.string().min(1, 'Profile category cannot be empty')).default([]),
+});
+
+/**
+ * Schema for a named profile
+ */
+export const ProfileSchema = z.object({
+  description: z.string().min(1, 'Profile description cannot be empty').optional(),
+  include: ProfileSelectorSchema.default({}),
+  exclude: ProfileSelectorSchema.default({}),
+});
 
 /**
  * Schema for the complete manifest
@@ -112,6 +205,61 @@ export const ManifestSchema = z.object({
     .regex(/^[a-z][a-z0-9_]*$/, 'ID must be lowercase alphanumeric with underscores'),
   defaults: ManifestDefaultsSchema,
   modules: z.array(ModuleSchema).min(1, 'At least one module required'),
+  profiles: z
+    .record(
+      z
+        .string()
+        .regex(
+          /^[a-z][a-z0-9_-]*$/,
+          'Profile name must be lowercase alphanumeric with dashes or underscores'
+        ),
+      ProfileSchema
+    )
+    .optional(),
+});
+
+/**
+ * Schema for a SHA256 hex digest (normalized to lowercase, like security.sh)
+ */
+const Sha256Schema = z
+  .string()
+  .regex(/^[0-9a-fA-F]{64}$/, 'sha256 must be 64 hex characters')
+  .transform((value) => value.toLowerCase());
+
+/**
+ * Installer keys accepted by load_checksums in scripts/lib/security.sh
+ */
+const ChecksumToolSchema = z
+  .string()
+  .regex(/^[A-Za-z0-9_-]+$/, 'Installer name must be alphanumeric with dashes or underscores');
+
+/**
+ * Schema for a pinned upstream installer in checksums.yaml
+ */
+export const ChecksumEntrySchema = z.object({
+  url: z
+    .string()
+    .url()
+    .refine((url) => url.startsWith('https://'), 'Installer URL must use HTTPS'),
+  sha256: Sha256Schema,
+});
+
+/**
+ * Schema for a previously pinned checksum
+ */
+export const ChecksumHistoryEntrySchema = z.object({
+  sha256: Sha256Schema,
+  replaced_at: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}/, 'replaced_at must be an ISO date (YYYY-MM-DD)'),
+});
+
+/**
+ * Schema for checksums.yaml
+ */
+export const ChecksumsFileSchema = z.object({
+  installers: z.record(ChecksumToolSchema, ChecksumEntrySchema),
+  history: z.record(ChecksumToolSchema, z.array(ChecksumHistoryEntrySchema)).default({}),
 });
 
 /**
@@ -123,5 +271,11 @@ export type ManifestDefaultsOutput = z.output<typeof ManifestDefaultsSchema>;
 export type ModuleInput = z.input<typeof ModuleSchema>;
 export type ModuleOutput = z.output<typeof ModuleSchema>;
 
+export type ProfileInput = z.input<typeof ProfileSchema>;
+export type ProfileOutput = z.output<typeof ProfileSchema>;
+
 export type ManifestInput = z.input<typeof ManifestSchema>;
 export type ManifestOutput = z.output<typeof ManifestSchema>;
+
+export type ChecksumsFileInput = z.input<typeof ChecksumsFileSchema>;
+export type ChecksumsFileOutput = z.output<typeof ChecksumsFileSchema>;
@@ -0,0 +1,81 @@
+/**
+ * Tests for ACFS Manifest Source Locations
+ *
+ * Validates path -> line/column resolution and code-frame rendering.
+ */
+
+import { describe, test, expect } from 'bun:test';
+import {
+  createManifestSource,
+  formatCodeFrame,
+  formatSourcePath,
+  locatePath,
+} from './source.js';
+
+const YAML = `version: 1
+name: test
+id: test
+defaults:
+  user: ubuntu
+  workspace_root: /data
+modules:
+  - id: base.system
+    description: Base
+    install: ["true"]
+    verify: ["true"]
+  - id: lang.bun
+    description: Bun
+    dependencies:
+      - base.system
+      - base.missing
+    install: ["true"]
+    verify: ["true"]
+`;
+
+describe('formatSourcePath', () => {
+  test('formats keys and indices', () => {
+    expect(formatSourcePath(['modules', 23, 'dependencies', 0])).toBe(
+      'modules[23].dependencies[0]'
+    );
+  });
+
+  test('formats top-level key', () => {
+    expect(formatSourcePath(['defaults'])).toBe('defaults');
+  });
+});
+
+describe('locatePath', () => {
+  const source = createManifestSource(YAML);
+
+  test('locates sequence items', () => {
+    const location = locatePath(source, ['modules', 1, 'dependencies', 1]);
+    expect(location?.line).toBe(16);
+    expect(location?.column).toBe(9);
+  });
+
+  test('locates map keys', () => {
+    const location = locatePath(source, ['modules', 1, 'dependencies']);
+    expect(location?.line).toBe(14);
+    expect(location?.column).toBe(5);
+  });
+
+  test('falls back to the deepest existing ancestor', () => {
+    const location = locatePath(source, ['modules', 0, 'run_as']);
+    expect(location?.line).toBe(8);
+  });
+
+  test('includes a code frame with a caret', () => {
+    const location = locatePath(source, ['modules', 1, 'dependencies', 1]);
+    expect(location?.snippet).toContain('> 16 |       - base.missing');
+    expect(location?.snippet).toContain('|         ^');
+  });
+});
+
+describe('formatCodeFrame', () => {
+  test('clamps context at the start of the file', () => {
+    const frame = formatCodeFrame('a: 1\nb: 2\nc: 3\n', 1, 1);
+    const lines = frame.split('\n');
+    expect(lines[0]).toBe('> 1 | a: 1');
+    expect(lines[1]).toBe('    | ^');
+  });
+});
@@ -0,0 +1,150 @@
+/**
+ * ACFS Manifest Source Locations
+ * Maps validation paths back to line/column positions in the original YAML
+ */
+
+import { LineCounter, parseDocument, isMap, isScalar, isSeq } from 'yaml';
+import type { Document, Node } from 'yaml';
+import type { SourceLocation } from './types.js';
+
+/**
+ * A path into the manifest document (e.g., ['modules', 23, 'dependencies', 0])
+ */
+export type SourcePath = ReadonlyArray<string | number>;
+
+/**
+ * Parsed manifest source with position tracking
+ */
+export interface ManifestSource {
+  /** Original YAML content */
+  content: string;
+  /** Parsed YAML document (with node ranges) */
+  document: Document;
+  /** Offset -> line/column lookup */
+  lineCounter: LineCounter;
+}
+
+/**
+ * Number of lines shown above and below the target line in code frames
+ */
+const CODE_FRAME_CONTEXT_LINES = 2;
+
+/**
+ * Parse YAML content into a source object that can resolve paths to positions.
+ * Parse errors are ignored here; parseManifestString reports them.
+ *
+ * @param yamlContent - YAML content as a string
+ * @returns Manifest source for use with locatePath
+ */
+export function createManifestSource(yamlContent: string): ManifestSource {
+  const lineCounter = new LineCounter();
+  const document = parseDocument(yamlContent, { lineCounter });
+  return { content: yamlContent, document, lineCounter };
+}
+
+/**
+ * Format a path as a readable string (e.g., "modules[23].dependencies[0]")
+ *
+ * @param path - Path segments
+ * @returns Formatted path
+ */
+export function formatSourcePath(path: SourcePath): string {
+  let result = '';
+  for (const segment of path) {
+    if (typeof segment === 'number') {
+      result += `[${segment}]`;
+    } else {
+      result += result ? `.${segment}` : segment;
+    }
+  }
+  return result;
+}
+
+/**
+ * Render a code frame around a 1-indexed line/column
+ *
+ * @example
+ * ```
+ *   10 |   - id: agents.codex
+ * > 11 |     dependencies:
+ *      |     ^
+ *   12 |       - lang.bun
+ * ```
+ */
+export function formatCodeFrame(content: string, line: number, column: number): string {
+  const lines = content.split(/\r?\n/);
+  const start = Math.max(1, line - CODE_FRAME_CONTEXT_LINES);
+  const end = Math.min(lines.length, line + CODE_FRAME_CONTEXT_LINES);
+  const gutterWidth = String(end).length;
+  const frame: string[] = [];
+
+  for (let current = start; current <= end; current++) {
+    const gutter = String(current).padStart(gutterWidth);
+    const marker = current === line ? '>' : ' ';
+    frame.push(`${marker} ${gutter} | ${lines[current - 1] ?? ''}`.trimEnd());
+    if (current === line) {
+      frame.push(`  ${' '.repeat(gutterWidth)} | ${' '.repeat(Math.max(0, column - 1))}^`);
+    }
+  }
+
+  return frame.join('\n');
+}
+
+/**
+ * Find the node range for a path. Map entries resolve to their key (so the
+ * location points at "dependencies:"), sequence entries to the item itself.
+ * Missing segments fall back to the deepest existing ancestor.
+ */
+function findRange(document: Document, path: SourcePath): [number, number, number] | undefined {
+  let current: unknown = document.contents;
+  let range = (current as Node | null)?.range ?? undefined;
+
+  for (const segment of path) {
+    if (isMap(current)) {
+      const pair = current.items.find(
+        (item) => (isScalar(item.key) ? item.key.value : item.key) === segment
+      );
+      if (!pair) break;
+      const keyRange = isScalar(pair.key) ? pair.key.range : undefined;
+      range = keyRange ?? (pair.value as Node | null)?.range ?? range;
+      current = pair.value;
+    } else if (isSeq(current) && typeof segment === 'number') {
+      const item = current.items[segment] as Node | undefined;
+      if (!item) break;
+      range = item.range ?? range;
+      current = item;
+    } else {
+      break;
+    }
+  }
+
+  return range ?? undefined;
+}
+
+/**
+ * Resolve a path to a line/column and code-frame snippet
+ *
+ * @param source - Manifest source from createManifestSource
+ * @param path - Path segments (strings for keys, numbers for sequence indices)
+ * @returns Source location, or undefined if nothing in the document matches
+ *
+ * @example
+ * ```ts
+ * const source = createManifestSource(yaml);
+ * const loc = locatePath(source, ['modules', 3, 'dependencies', 0]);
+ * // loc = { line: 42, column: 9, snippet: '...' }
+ * ```
+ */
+export function locatePath(source: ManifestSource, path: SourcePath): SourceLocation | undefined {
+  const range = findRange(source.document, path);
+  if (!range) return undefined;
+
+  const { line, col } = source.lineCounter.linePos(range[0]);
+  if (line === 0) return undefined;
+
+  return {
+    line,
+    column: col,
+    snippet: formatCodeFrame(source.content, line, col),
+  };
+}
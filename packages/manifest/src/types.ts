@@ -52,6 +52,41 @@ export interface InstalledCheck {
   command: string;
 }
 
+/**
+ * CPU architecture as reported by get_arch (uname -m normalized)
+ */
+export type Arch = 'amd64' | 'arm64';
+
+/**
+ * Virtualization environment detected at install time
+ */
+export type Virtualization = 'bare_metal' | 'vm' | 'container' | 'wsl';
+
+/**
+ * Conditions under which a module (or install variant) applies.
+ * All given fields must match; list fields match any listed value.
+ */
+export interface ModuleCondition {
+  /** Ubuntu release range: space-separated comparators (e.g., ">=24.04", ">=22.04 <25.04") */
+  ubuntu?: string;
+  /** Matching architectures */
+  arch?: Arch[];
+  /** Matching virtualization environments */
+  virt?: Virtualization[];
+  /** Matching installation modes */
+  mode?: Array<'vibe' | 'safe'>;
+}
+
+/**
+ * Alternative install steps for systems matching a condition
+ */
+export interface ModuleVariant {
+  /** When this variant is selected (first matching variant wins) */
+  when: ModuleCondition;
+  /** Install steps that replace the module's verified_installer and install steps */
+  install: string[];
+}
+
 /**
  * A single module in the manifest
  * Modules represent installable tools, packages, or configurations
@@ -77,10 +112,20 @@ export interface Module {
   generated: boolean;
   /** Phase number for ordering (1-10) */
   phase?: number;
+  /** Systems the module applies to (skipped elsewhere; default: everywhere) */
+  when?: ModuleCondition;
   /** Installation commands to run (shell commands or descriptions) */
   install: string[];
+  /** Condition-specific installs, tried in order before the default install */
+  variants?: ModuleVariant[];
   /** Verification commands to check if installation succeeded */
   verify: string[];
+  /** Expected version or range (e.g., "1.2.3", "1.x", ">=1.2.0", "^1.2.0", "~1.2.0") */
+  version?: string;
+  /** Command that prints the installed version (first dotted number is used) */
+  version_check?: string;
+  /** Commands that undo the install (enables uninstall_module for this module) */
+  uninstall?: string[];
   /** Optional notes about the module */
   notes?: string[];
   /** Optional tags for higher-level selection */
@@ -89,10 +134,36 @@ export interface Module {
   docs_url?: string;
   /** Module IDs this module depends on */
   dependencies?: string[];
+  /** Shared resources the install writes that install commands don't reveal (e.g. "shell-rc") */
+  conflicts?: string[];
   /** Optional aliases this module creates */
   aliases?: string[];
 }
 
+/**
+ * Module selector used by profiles (matches by id, tag or category)
+ */
+export interface ProfileSelector {
+  /** Module IDs to match */
+  modules: string[];
+  /** Module tags to match (any tag matches) */
+  tags: string[];
+  /** Module categories to match */
+  categories: string[];
+}
+
+/**
+ * A named module selection (e.g., "agents", "full", "db")
+ */
+export interface ManifestProfile {
+  /** Human-readable description of the profile */
+  description?: string;
+  /** Modules to select (empty selector = enabled_by_default modules) */
+  include: ProfileSelector;
+  /** Modules to remove from the selection */
+  exclude: ProfileSelector;
+}
+
 /**
  * The complete ACFS manifest
  */
@@ -107,6 +178,38 @@ export interface Manifest {
   defaults: ManifestDefaults;
   /** List of all modules */
   modules: Module[];
+  /** Named module selections, keyed by profile name */
+  profiles?: Record<string, ManifestProfile>;
+}
+
+/**
+ * A pinned upstream installer in checksums.yaml
+ */
+export interface ChecksumEntry {
+  /** Installer URL (HTTPS) */
+  url: string;
+  /** Expected SHA256 of the installer script (lowercase hex) */
+  sha256: string;
+}
+
+/**
+ * A checksum that was pinned before the current one
+ */
+export interface ChecksumHistoryEntry {
+  /** Previously pinned SHA256 */
+  sha256: string;
+  /** Date the checksum was replaced (YYYY-MM-DD) */
+  replaced_at: string;
+}
+
+/**
+ * Parsed checksums.yaml
+ */
+export interface ChecksumsFile {
+  /** Pinned installers, keyed by verified_installer.tool */
+  installers: Record<string, ChecksumEntry>;
+  /** Previous checksums per installer, oldest first */
+  history: Record<string, ChecksumHistoryEntry[]>;
 }
 
 /**
@@ -121,10 +224,22 @@ export interface ValidationResult {
   warnings: ValidationWarning[];
 }
 
+/**
+ * Position of a node in the original YAML document
+ */
+export interface SourceLocation {
+  /** Line number (1-indexed) */
+  line: number;
+  /** Column number (1-indexed) */
+  column: number;
+  /** Code frame around the location */
+  snippet: string;
+}
+
 /**
  * A validation error
  */
-export interface ValidationError {
+export interface ValidationError extends Partial<SourceLocation> {
   /** Path to the invalid field */
   path: string;
   /** Error message */
@@ -136,7 +251,7 @@ export interface ValidationError {
 /**
  * A validation warning
  */
-export interface ValidationWarning {
+export interface ValidationWarning extends Partial<SourceLocation> {
   /** Path to the field with the warning */
   path: string;
   /** Warning message */
@@ -183,4 +298,8 @@ export interface ParseError {
   line?: number;
   /** Column number (if available) */
   column?: number;
+  /** Code frame around the error (if available) */
+  snippet?: string;
+  /** Every schema issue with its own location (schema errors only) */
+  issues?: ValidationError[];
 }
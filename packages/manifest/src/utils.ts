@@ -3,7 +3,7 @@
  * Helper functions for working with manifest data
  */
 
-import type { Manifest, Module, ModuleCategory } from './types.js';
+import type { Manifest, Module, ModuleCategory, ProfileSelector } from './types.js';
 
 /**
  * Valid module categories (must match ModuleCategory type in types.ts)
@@ -93,6 +93,20 @@ export function getModulesByCategory(manifest: Manifest, category: ModuleCategor
   return manifest.modules.filter((module) => resolveModuleCategory(module) === category);
 }
 
+/**
+ * The module fields read by the lookup, dependency and search helpers below.
+ * They accept any module list with these fields (such as the website's tool
+ * catalog), not only a parsed Manifest.
+ */
+export type ModuleGraphNode = Pick<Module, 'id' | 'description' | 'dependencies'>;
+
+/**
+ * Module list the graph helpers walk
+ */
+export interface ModuleGraph<M extends ModuleGraphNode = Module> {
+  modules: M[];
+}
+
 /**
  * Get a module by its ID
  *
@@ -100,7 +114,7 @@ export function getModulesByCategory(manifest: Manifest, category: ModuleCategor
  * @param moduleId - The module ID to find
  * @returns The module or undefined if not found
  */
-export function getModuleById(manifest: Manifest, moduleId: string): Module | undefined {
+export function getModuleById<M extends ModuleGraphNode>(manifest: ModuleGraph<M>, moduleId: string): M | undefined {
   return manifest.modules.find((module) => module.id === moduleId);
 }
 
@@ -111,7 +125,7 @@ export function getModuleById(manifest: Manifest, moduleId: string): Module | un
  * @param moduleId - The module ID
  * @returns Array of dependency modules
  */
-export function getModuleDependencies(manifest: Manifest, moduleId: string): Module[] {
+export function getModuleDependencies<M extends ModuleGraphNode>(manifest: ModuleGraph<M>, moduleId: string): M[] {
   const module = getModuleById(manifest, moduleId);
   if (!module?.dependencies) {
     return [];
@@ -119,7 +133,7 @@ export function getModuleDependencies(manifest: Manifest, moduleId: string): Mod
 
   return module.dependencies
     .map((depId) => getModuleById(manifest, depId))
-    .filter((m): m is Module => m !== undefined);
+    .filter((m): m is M => m !== undefined);
 }
 
 /**
@@ -129,9 +143,12 @@ export function getModuleDependencies(manifest: Manifest, moduleId: string): Mod
  * @param moduleId - The module ID
  * @returns Array of all dependency modules (including transitive)
  */
-export function getTransitiveDependencies(manifest: Manifest, moduleId: string): Module[] {
+export function getTransitiveDependencies<M extends ModuleGraphNode>(
+  manifest: ModuleGraph<M>,
+  moduleId: string
+): M[] {
   const visited = new Set<string>();
-  const result: Module[] = [];
+  const result: M[] = [];
 
   function collect(id: string): void {
     if (visited.has(id)) return;
@@ -160,7 +177,7 @@ export function getTransitiveDependencies(manifest: Manifest, moduleId: string):
  * @param moduleId - The module ID
  * @returns Array of modules that depend on this module
  */
-export function getDependents(manifest: Manifest, moduleId: string): Module[] {
+export function getDependents<M extends ModuleGraphNode>(manifest: ModuleGraph<M>, moduleId: string): M[] {
   return manifest.modules.filter(
     (module) => module.dependencies?.includes(moduleId)
   );
@@ -252,7 +269,7 @@ export function groupModulesByCategory(manifest: Manifest): Map<ModuleCategory,
  * @param query - Search query (searches ID and description)
  * @returns Matching modules
  */
-export function searchModules(manifest: Manifest, query: string): Module[] {
+export function searchModules<M extends ModuleGraphNode>(manifest: ModuleGraph<M>, query: string): M[] {
   const lowerQuery = query.toLowerCase();
   return manifest.modules.filter(
     (module) =>
@@ -261,6 +278,123 @@ export function searchModules(manifest: Manifest, query: string): Module[] {
   );
 }
 
+/**
+ * Check if a profile selector has no criteria
+ */
+export function isEmptyProfileSelector(selector: ProfileSelector): boolean {
+  return (
+    selector.modules.length === 0 &&
+    selector.tags.length === 0 &&
+    selector.categories.length === 0
+  );
+}
+
+/**
+ * Check if a module matches a profile selector (by id, any tag, or category)
+ */
+export function matchesProfileSelector(module: Module, selector: ProfileSelector): boolean {
+  if (selector.modules.includes(module.id)) return true;
+  if (module.tags?.some((tag) => selector.tags.includes(tag))) return true;
+  return selector.categories.includes(resolveModuleCategory(module));
+}
+
+/**
+ * Get the names of all profiles defined in the manifest
+ *
+ * @param manifest - The manifest object
+ * @returns Sorted array of profile names
+ */
+export function getProfileNames(manifest: Manifest): string[] {
+  return Object.keys(manifest.profiles ?? {}).sort();
+}
+
+/**
+ * A module a profile includes whose dependency the profile excludes
+ */
+export interface ProfileDependencyViolation {
+  moduleId: string;
+  dependencyId: string;
+}
+
+/**
+ * Thrown by resolveProfile when a profile excludes dependencies of modules it
+ * includes. Lists every violation, not just the first.
+ */
+export class ProfileResolutionError extends Error {
+  override name = 'ProfileResolutionError';
+
+  constructor(
+    readonly profile: string,
+    readonly violations: ProfileDependencyViolation[]
+  ) {
+    super(
+      violations
+        .map(
+          (v) => `Profile '${profile}': module '${v.moduleId}' depends on excluded module '${v.dependencyId}'`
+        )
+        .join('\n')
+    );
+  }
+}
+
+/**
+ * Resolve a named profile to the set of modules it installs.
+ * Mirrors acfs_resolve_selection in scripts/lib/install_helpers.sh:
+ * an empty include selector starts from enabled_by_default modules,
+ * exclusions are applied, then transitive dependencies are added.
+ *
+ * @param manifest - The manifest object
+ * @param name - The profile name
+ * @returns Selected modules in installation order
+ * @throws Error if the profile does not exist
+ * @throws ProfileResolutionError if the profile excludes a required dependency
+ *
+ * @example
+ * ```ts
+ * const modules = resolveProfile(manifest, 'agents');
+ * console.log(modules.map((m) => m.id));
+ * ```
+ */
+export function resolveProfile(manifest: Manifest, name: string): Module[] {
+  const profile = manifest.profiles?.[name];
+  if (!profile) {
+    throw new Error(
+      `Unknown profile '${name}'. ` +
+        `Available profiles: ${getProfileNames(manifest).join(', ') || '(none)'}`
+    );
+  }
+
+  const includeDefaults = isEmptyProfileSelector(profile.include);
+  const excluded = new Set(
+    manifest.modules
+      .filter((module) => matchesProfileSelector(module, profile.exclude))
+      .map((module) => module.id)
+  );
+  const selected = new Set<string>();
+  const violations: ProfileDependencyViolation[] = [];
+
+  for (const module of manifest.modules) {
+    const included = includeDefaults
+      ? module.enabled_by_default
+      : matchesProfileSelector(module, profile.include);
+    if (!included || excluded.has(module.id)) continue;
+
+    selected.add(module.id);
+    for (const dep of getTransitiveDependencies(manifest, module.id)) {
+      if (excluded.has(dep.id)) {
+        violations.push({ moduleId: module.id, dependencyId: dep.id });
+      }
+      selected.add(dep.id);
+    }
+  }
+
+  if (violations.length > 0) {
+    throw new ProfileResolutionError(name, violations);
+  }
+
+  return sortModulesByInstallOrder(manifest).filter((module) => selected.has(module.id));
+}
+
 /**
  * Get summary statistics for a manifest
  */
@@ -10,9 +10,13 @@ import {
   validatePhaseOrdering,
   validateFunctionNameUniqueness,
   validateReservedNames,
+  validateProfiles,
+  validateConditions,
   validateManifest,
   formatValidationErrors,
 } from './validate.js';
+import { parseManifestString } from './parser.js';
+import { createManifestSource } from './source.js';
 import type { Manifest } from './types.js';
 
 // Helper to create a minimal valid manifest
@@ -530,6 +534,54 @@ describe('formatValidationErrors', () => {
   });
 });
 
+describe('validateManifest source locations', () => {
+  const yaml = `version: 1
+name: test
+id: test
+defaults:
+  user: ubuntu
+  workspace_root: /data
+modules:
+  - id: base.system
+    description: Base
+    install: ["true"]
+    verify: ["true"]
+  - id: lang.bun
+    description: Bun
+    dependencies:
+      - base.system
+      - base.missing
+    install: ["true"]
+    verify: ["true"]
+`;
+
+  test('sets a path on every error', () => {
+    const parsed = parseManifestString(yaml);
+    expect(parsed.success).toBe(true);
+
+    const result = validateManifest(parsed.data!);
+    expect(result.errors).toHaveLength(1);
+    expect(result.errors[0].path).toBe('modules[1].dependencies[1]');
+    expect(result.errors[0].line).toBeUndefined();
+  });
+
+  test('adds line, column and snippet when given a source', () => {
+    const parsed = parseManifestString(yaml);
+    const result = validateManifest(parsed.data!, createManifestSource(yaml));
+    expect(result.errors[0].line).toBe(16);
+    expect(result.errors[0].column).toBe(9);
+    expect(result.errors[0].snippet).toContain('> 16 |       - base.missing');
+  });
+
+  test('formatValidationErrors prints file:line:column and the code frame', () => {
+    const parsed = parseManifestString(yaml);
+    const result = validateManifest(parsed.data!, createManifestSource(yaml));
+    const formatted = formatValidationErrors(result, 'test.yaml');
+    expect(formatted).toContain('at test.yaml:16:9 (modules[1].dependencies[1])');
+    expect(formatted).toContain('> 16 |       - base.missing');
+  });
+});
+
 describe('validateFunctionNameUniqueness', () => {
   test('passes when all function names are unique', () => {
     const manifest = createManifest([
@@ -739,3 +791,234 @@ describe('validateManifest with function name checks', () => {
     expect(result.errors.some((e) => e.code === 'RESERVED_NAME_COLLISION')).toBe(true);
   });
 });
+
+describe('validateProfiles', () => {
+  const modules: Manifest['modules'] = [
+    { id: 'lang.bun', description: 'Bun', install: ['echo'], verify: ['echo'], run_as: 'target_user', optional: false, enabled_by_default: true, generated: true },
+    { id: 'agents.codex', description: 'Codex', dependencies: ['lang.bun'], install: ['echo'], verify: ['echo'], run_as: 'target_user', optional: false, enabled_by_default: true, generated: true },
+  ];
+  const emptySelector = { modules: [], tags: [], categories: [] };
+
+  test('passes for valid profiles', () => {
+    const manifest = {
+      ...createManifest(modules),
+      profiles: {
+        agents: { include: { ...emptySelector, categories: ['agents'] }, exclude: emptySelector },
+      },
+    };
+
+    expect(validateProfiles(manifest)).toHaveLength(0);
+  });
+
+  test('reports unknown modules and categories', () => {
+    const manifest = {
+      ...createManifest(modules),
+      profiles: {
+        typo: {
+          include: { ...emptySelector, modules: ['agents.codx'], categories: ['agent'] },
+          exclude: emptySelector,
+        },
+      },
+    };
+
+    const errors = validateProfiles(manifest);
+    expect(errors).toHaveLength(2);
+    expect(errors.every((e) => e.code === 'UNKNOWN_PROFILE_REFERENCE')).toBe(true);
+    expect(errors[0].context.profile).toBe('typo');
+    expect(errors[0].moduleId).toBe('agents.codx');
+    expect(errors[1].category).toBe('agent');
+    expect(errors[1].moduleId).toBeUndefined();
+  });
+
+  test('reports tags no module has', () => {
+    const tagged = modules.map((m) => (m.id === 'agents.codex' ? { ...m, tags: ['agent'] } : m));
+    const manifest = {
+      ...createManifest(tagged),
+      profiles: {
+        agents: { include: { ...emptySelector, tags: ['agent'] }, exclude: { ...emptySelector, tags: ['heavy'] } },
+      },
+    };
+
+    const errors = validateProfiles(manifest);
+    expect(errors).toHaveLength(1);
+    expect(errors[0].code).toBe('UNKNOWN_PROFILE_REFERENCE');
+    expect(errors[0].tag).toBe('heavy');
+    expect(errors[0].context.selector).toBe('exclude');
+  });
+
+  test('reports excluded dependencies', () => {
+    const manifest = {
+      ...createManifest(modules),
+      profiles: {
+        broken: {
+          include: { ...emptySelector, modules: ['agents.codex'] },
+          exclude: { ...emptySelector, modules: ['lang.bun'] },
+        },
+      },
+    };
+
+    const errors = validateProfiles(manifest);
+    expect(errors).toHaveLength(1);
+    expect(errors[0].code).toBe('PROFILE_EXCLUDES_DEPENDENCY');
+    expect(errors[0].moduleId).toBe('agents.codex');
+    expect(errors[0].context.excludedDependency).toBe('lang.bun');
+  });
+
+  test('reports every module that loses a dependency', () => {
+    const manifest = {
+      ...createManifest([
+        ...modules,
+        { id: 'agents.gemini', description: 'Gemini', dependencies: ['lang.bun'], install: ['echo'], verify: ['echo'], run_as: 'target_user', optional: false, enabled_by_default: true, generated: true },
+      ]),
+      profiles: {
+        broken: {
+          include: { ...emptySelector, categories: ['agents'] },
+          exclude: { ...emptySelector, modules: ['lang.bun'] },
+        },
+      },
+    };
+
+    const errors = validateProfiles(manifest);
+    expect(errors.map((e) => e.moduleId)).toEqual(['agents.codex', 'agents.gemini']);
+  });
+
+  test('is included in combined validation', () => {
+    const manifest = {
+      ...createManifest(modules),
+      profiles: {
+        broken: {
+          include: { ...emptySelector, modules: ['agents.codex'] },
+          exclude: { ...emptySelector, modules: ['lang.bun'] },
+        },
+      },
+    };
+
+    const result = validateManifest(manifest);
+    expect(result.valid).toBe(false);
+    expect(result.errors.some((e) => e.code === 'PROFILE_EXCLUDES_DEPENDENCY')).toBe(true);
+  });
+});
+
+describe('validateConditions', () => {
+  const base = { verify: ['echo'], run_as: 'target_user' as const, optional: false, enabled_by_default: true, generated: true };
+
+  test('passes for modules without conditions', () => {
+    const manifest = createManifest([{ id: 'lang.bun', description: 'Bun', install: ['echo'], ...base }]);
+    expect(validateConditions(manifest)).toHaveLength(0);
+  });
+
+  test('passes when variants cover every applicable arch', () => {
+    const manifest = createManifest([
+      {
+        id: 'tools.foo',
+        description: 'Foo',
+        install: [],
+        when: { ubuntu: '>=24.04' },
+        variants: [
+          { when: { arch: ['arm64'] }, install: ['echo arm'] },
+          { when: { arch: ['amd64'] }, install: ['echo amd'] },
+        ],
+        ...base,
+      },
+    ]);
+    expect(validateConditions(manifest)).toHaveLength(0);
+  });
+
+  test('reports modules that match no supported system', () => {
+    const manifest = createManifest([
+      { id: 'tools.foo', description: 'Foo', install: ['echo'], when: { ubuntu: '>=25.10 <25.04' }, ...base },
+    ]);
+    const errors = validateConditions(manifest);
+    expect(errors).toHaveLength(1);
+    expect(errors[0].code).toBe('UNREACHABLE_MODULE');
+  });
+
+  test('reports shadowed variants', () => {
+    const manifest = createManifest([
+      {
+        id: 'tools.foo',
+        description: 'Foo',
+        install: ['echo default'],
+        variants: [
+          { when: { arch: ['arm64'] }, install: ['echo arm'] },
+          { when: { arch: ['arm64'], virt: ['wsl'] }, install: ['echo arm wsl'] },
+        ],
+        ...base,
+      },
+    ]);
+    const errors = validateConditions(manifest);
+    expect(errors).toHaveLength(1);
+    expect(errors[0].code).toBe('UNREACHABLE_VARIANT');
+    expect(errors[0].context.variantIndex).toBe(1);
+  });
+
+  test('reports variants outside the module condition', () => {
+    const manifest = createManifest([
+      {
+        id: 'tools.foo',
+        description: 'Foo',
+        install: ['echo default'],
+        when: { arch: ['amd64'] },
+        variants: [{ when: { arch: ['arm64'] }, install: ['echo arm'] }],
+        ...base,
+      },
+    ]);
+    expect(validateConditions(manifest).map((e) => e.code)).toEqual(['UNREACHABLE_VARIANT']);
+  });
+
+  test('reports uncovered arch combinations', () => {
+    const manifest = createManifest([
+      {
+        id: 'tools.foo',
+        description: 'Foo',
+        install: [],
+        variants: [{ when: { arch: ['arm64'] }, install: ['echo arm'] }],
+        ...base,
+      },
+    ]);
+    const errors = validateConditions(manifest);
+    expect(errors).toHaveLength(1);
+    expect(errors[0].code).toBe('UNCOVERED_TARGET');
+    expect(errors[0].message).toContain('arch amd64');
+    expect(errors[0].message).not.toContain('ubuntu');
+  });
+
+  test('reports modules that apply where a dependency is skipped', () => {
+    const manifest = createManifest([
+      { id: 'tools.base', description: 'Base', install: ['echo'], when: { ubuntu: '>=24.04' }, ...base },
+      { id: 'tools.foo', description: 'Foo', install: ['echo'], dependencies: ['tools.base'], ...base },
+    ]);
+    const errors = validateConditions(manifest);
+    expect(errors).toHaveLength(1);
+    expect(errors[0].code).toBe('CONDITION_DEPENDENCY_MISMATCH');
+    expect(errors[0].moduleId).toBe('tools.foo');
+    expect(errors[0].message).toContain('ubuntu 22.04');
+  });
+
+  test('locates condition errors in the YAML source', () => {
+    const yaml = `version: 1
+name: test
+id: test
+defaults:
+  user: ubuntu
+  workspace_root: /data/projects
+  mode: vibe
+modules:
+  - id: tools.foo
+    description: Foo
+    variants:
+      - when:
+          arch: arm64
+        install:
+          - echo arm
+    verify:
+      - foo --version
+`;
+    const parsed = parseManifestString(yaml);
+    expect(parsed.success).toBe(true);
+    const result = validateManifest(parsed.data!, createManifestSource(yaml));
+    const error = result.errors.find((e) => e.code === 'UNCOVERED_TARGET');
+    expect(error?.path).toBe('modules[0].variants');
+    expect(error?.line).toBe(11);
+  });
+});
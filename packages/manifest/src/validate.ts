@@ -5,7 +5,24 @@
  * Related: bead mjt.3.2
  */
 
+import {
+  SUPPORTED_ARCHES,
+  SUPPORTED_UBUNTU_RELEASES,
+  SUPPORTED_VIRTUALIZATIONS,
+  conditionMatches,
+  describeCondition,
+  getSupportedTargets,
+  selectVariant,
+} from './conditions.js';
+import type { InstallTarget } from './conditions.js';
+import { formatSourcePath, locatePath } from './source.js';
+import type { ManifestSource, SourcePath } from './source.js';
 import type { Manifest, Module } from './types.js';
+import {
+  isValidCategory,
+  ProfileResolutionError,
+  resolveProfile,
+} from './utils.js';
 
 // ============================================================
 // Validation Result Types
@@ -19,13 +36,31 @@ export interface ValidationError {
     | 'PHASE_VIOLATION'
     | 'FUNCTION_NAME_COLLISION'
     | 'RESERVED_NAME_COLLISION'
-    | 'INVALID_VERIFIED_INSTALLER_RUNNER';
+    | 'INVALID_VERIFIED_INSTALLER_RUNNER'
+    | 'UNKNOWN_PROFILE_REFERENCE'
+    | 'PROFILE_EXCLUDES_DEPENDENCY'
+    | 'UNREACHABLE_MODULE'
+    | 'UNREACHABLE_VARIANT'
+    | 'UNCOVERED_TARGET'
+    | 'CONDITION_DEPENDENCY_MISMATCH';
   /** Human-readable error message */
   message: string;
-  /** Module ID where the error was detected */
-  moduleId: string;
+  /** Module ID where the error was detected (absent for profile category/tag references) */
+  moduleId?: string;
+  /** Unknown category referenced by a profile (UNKNOWN_PROFILE_REFERENCE) */
+  category?: string;
+  /** Unknown tag referenced by a profile (UNKNOWN_PROFILE_REFERENCE) */
+  tag?: string;
   /** Additional context (e.g., cycle path, missing dep ID) */
   context: Record<string, unknown>;
+  /** Path to the offending field (e.g., "modules[23].dependencies[0]") */
+  path?: string;
+  /** Line number in the YAML source (when validated with a source) */
+  line?: number;
+  /** Column number in the YAML source (when validated with a source) */
+  column?: number;
+  /** Code frame around the offending field (when validated with a source) */
+  snippet?: string;
 }
 
 export interface ValidationResult {
@@ -442,6 +477,263 @@ export function validatePhaseOrdering(manifest: Manifest): ValidationError[] {
   return errors;
 }
 
+// ============================================================
+// Profile Validation
+// ============================================================
+
+/**
+ * Validates that profiles only reference existing modules, categories and
+ * tags, and that no profile excludes a dependency of a module it includes.
+ * Dependency closure is checked by resolving each profile with resolveProfile,
+ * the same code the generator uses.
+ *
+ * @param manifest - The manifest to validate
+ * @returns Array of errors for invalid profiles
+ *
+ * @example
+ * ```ts
+ * // A profile including "agents.codex" but excluding "lang.bun" is rejected,
+ * // since agents.codex depends on lang.bun.
+ * const errors = validateProfiles(manifest);
+ * ```
+ */
+export function validateProfiles(manifest: Manifest): ValidationError[] {
+  const errors: ValidationError[] = [];
+  const moduleIds = new Set(manifest.modules.map((m) => m.id));
+  const moduleTags = new Set(manifest.modules.flatMap((m) => m.tags ?? []));
+
+  for (const [name, profile] of Object.entries(manifest.profiles ?? {})) {
+    for (const [selectorName, selector] of [
+      ['include', profile.include],
+      ['exclude', profile.exclude],
+    ] as const) {
+      for (const moduleId of selector.modules) {
+        if (!moduleIds.has(moduleId)) {
+          errors.push({
+            code: 'UNKNOWN_PROFILE_REFERENCE',
+            message: `Profile "${name}" ${selectorName}s module "${moduleId}" which does not exist`,
+            moduleId,
+            context: { profile: name, selector: selectorName, kind: 'module' },
+          });
+        }
+      }
+      for (const category of selector.categories) {
+        if (!isValidCategory(category)) {
+          errors.push({
+            code: 'UNKNOWN_PROFILE_REFERENCE',
+            message: `Profile "${name}" ${selectorName}s category "${category}" which does not exist`,
+            category,
+            context: { profile: name, selector: selectorName, kind: 'category' },
+          });
+        }
+      }
+      for (const tag of selector.tags) {
+        if (!moduleTags.has(tag)) {
+          errors.push({
+            code: 'UNKNOWN_PROFILE_REFERENCE',
+            message: `Profile "${name}" ${selectorName}s tag "${tag}" which no module has`,
+            tag,
+            context: { profile: name, selector: selectorName, kind: 'tag' },
+          });
+        }
+      }
+    }
+
+    try {
+      resolveProfile(manifest, name);
+    } catch (error) {
+      if (!(error instanceof ProfileResolutionError)) throw error;
+      for (const violation of error.violations) {
+        errors.push({
+          code: 'PROFILE_EXCLUDES_DEPENDENCY',
+          message: `Profile "${name}" includes "${violation.moduleId}" but excludes its dependency "${violation.dependencyId}"`,
+          moduleId: violation.moduleId,
+          context: { profile: name, excludedDependency: violation.dependencyId },
+        });
+      }
+    }
+  }
+
+  return errors;
+}
+
+// ============================================================
+// Module Conditions
+// ============================================================
+
+/**
+ * Describe a set of targets by the dimensions that narrow it
+ * (e.g., "arch arm64, ubuntu 22.04"); dimensions covering every value are omitted
+ */
+function describeTargets(targets: InstallTarget[]): string {
+  const parts: string[] = [];
+  const dimension = (label: string, values: string[], all: readonly string[]) => {
+    const present = all.filter((value) => values.includes(value));
+    if (present.length < all.length) parts.push(`${label} ${present.join('|')}`);
+  };
+  dimension('ubuntu', targets.map((t) => t.ubuntu), SUPPORTED_UBUNTU_RELEASES);
+  dimension('arch', targets.map((t) => t.arch), SUPPORTED_ARCHES);
+  dimension('virt', targets.map((t) => t.virt), SUPPORTED_VIRTUALIZATIONS);
+  dimension('mode', targets.map((t) => t.mode), ['vibe', 'safe']);
+  return parts.length > 0 ? parts.join(', ') : 'all supported systems';
+}
+
+/**
+ * Validates `when:` clauses and install variants against every supported
+ * Ubuntu release × arch × virtualization × mode combination:
+ * - a module whose condition matches no supported system is unreachable
+ * - a variant that is never selected (shadowed or outside the module condition) is unreachable
+ * - a module whose default install is empty must have a variant for every system it applies to
+ * - a module must not apply where one of its dependencies is skipped
+ *
+ * @param manifest - The manifest to validate
+ * @returns Array of errors for unreachable or uncovered conditions
+ *
+ * @example
+ * ```ts
+ * // variants: [{ when: { arch: arm64 }, install: [...] }] with no default install
+ * // reports UNCOVERED_TARGET for arch amd64.
+ * const errors = validateConditions(manifest);
+ * ```
+ */
+export function validateConditions(manifest: Manifest): ValidationError[] {
+  const errors: ValidationError[] = [];
+  const targets = getSupportedTargets();
+  const moduleMap = new Map(manifest.modules.map((m) => [m.id, m]));
+
+  for (const module of manifest.modules) {
+    const applicable = targets.filter((target) => conditionMatches(module.when, target));
+
+    if (applicable.length === 0) {
+      errors.push({
+        code: 'UNREACHABLE_MODULE',
+        message: `Module "${module.id}" applies to no supported system (when: ${describeCondition(module.when)})`,
+        moduleId: module.id,
+        context: { when: module.when },
+      });
+      continue;
+    }
+
+    const variants = module.variants ?? [];
+    const selected = applicable.map((target) => selectVariant(module, target));
+    variants.forEach((variant, index) => {
+      if (!selected.includes(index)) {
+        errors.push({
+          code: 'UNREACHABLE_VARIANT',
+          message: `Variant ${index + 1} of "${module.id}" (when: ${describeCondition(variant.when)}) is never selected`,
+          moduleId: module.id,
+          context: { variantIndex: index, when: variant.when },
+        });
+      }
+    });
+
+    const hasDefaultInstall = module.install.length > 0 || module.verified_installer !== undefined;
+    if (module.generated && variants.length > 0 && !hasDefaultInstall) {
+      const uncovered = applicable.filter((_, index) => selected[index] === -1);
+      if (uncovered.length > 0) {
+        errors.push({
+          code: 'UNCOVERED_TARGET',
+          message: `Module "${module.id}" has no install for ${describeTargets(uncovered)} (no variant matches and the default install is empty)`,
+          moduleId: module.id,
+          context: { targets: uncovered },
+        });
+      }
+    }
+
+    for (const depId of module.dependencies ?? []) {
+      const dep = moduleMap.get(depId);
+      if (!dep?.when) continue;
+      const missing = applicable.filter((target) => !conditionMatches(dep.when, target));
+      if (missing.length > 0) {
+        errors.push({
+          code: 'CONDITION_DEPENDENCY_MISMATCH',
+          message: `Module "${module.id}" applies on ${describeTargets(missing)} where its dependency "${depId}" is skipped (when: ${describeCondition(dep.when)})`,
+          moduleId: module.id,
+          context: { dependencyId: depId, targets: missing },
+        });
+      }
+    }
+  }
+
+  return errors;
+}
+
+// ============================================================
+// Source Locations
+// ============================================================
+
+/**
+ * Derive the manifest path of the field that caused an error
+ */
+function getErrorSourcePath(manifest: Manifest, error: ValidationError): SourcePath | undefined {
+  const moduleIndex = manifest.modules.findIndex((m) => m.id === error.moduleId);
+  const module = manifest.modules[moduleIndex];
+  const dependencyPath = (depId: unknown): SourcePath => {
+    const depIndex = module?.dependencies?.indexOf(depId as string) ?? -1;
+    return depIndex === -1
+      ? ['modules', moduleIndex, 'dependencies']
+      : ['modules', moduleIndex, 'dependencies', depIndex];
+  };
+
+  switch (error.code) {
+    case 'MISSING_DEPENDENCY':
+      return moduleIndex === -1 ? undefined : dependencyPath(error.context.missingDependency);
+    case 'DEPENDENCY_CYCLE': {
+      const cyclePath = error.context.cyclePath as string[];
+      return moduleIndex === -1 ? undefined : dependencyPath(cyclePath[1]);
+    }
+    case 'PHASE_VIOLATION':
+      return moduleIndex === -1 ? undefined : dependencyPath(error.context.dependencyId);
+    case 'FUNCTION_NAME_COLLISION':
+    case 'RESERVED_NAME_COLLISION':
+      return moduleIndex === -1 ? undefined : ['modules', moduleIndex, 'id'];
+    case 'INVALID_VERIFIED_INSTALLER_RUNNER':
+      return moduleIndex === -1 ? undefined : ['modules', moduleIndex, 'verified_installer', 'runner'];
+    case 'UNKNOWN_PROFILE_REFERENCE': {
+      const profile = error.context.profile as string;
+      const selector = error.context.selector as 'include' | 'exclude';
+      const [field, reference] =
+        error.context.kind === 'category'
+          ? (['categories', error.category] as const)
+          : error.context.kind === 'tag'
+            ? (['tags', error.tag] as const)
+            : (['modules', error.moduleId] as const);
+      const index = manifest.profiles?.[profile]?.[selector][field].indexOf(reference ?? '') ?? -1;
+      return index === -1
+        ? ['profiles', profile, selector, field]
+        : ['profiles', profile, selector, field, index];
+    }
+    case 'PROFILE_EXCLUDES_DEPENDENCY':
+      return ['profiles', error.context.profile as string, 'exclude'];
+    case 'UNREACHABLE_MODULE':
+      return moduleIndex === -1 ? undefined : ['modules', moduleIndex, 'when'];
+    case 'UNREACHABLE_VARIANT':
+      return moduleIndex === -1
+        ? undefined
+        : ['modules', moduleIndex, 'variants', error.context.variantIndex as number, 'when'];
+    case 'UNCOVERED_TARGET':
+      return moduleIndex === -1 ? undefined : ['modules', moduleIndex, 'variants'];
+    case 'CONDITION_DEPENDENCY_MISMATCH':
+      return moduleIndex === -1 ? undefined : dependencyPath(error.context.dependencyId);
+  }
+}
+
+/**
+ * Attach path and (when a source is available) line/column/snippet to errors
+ */
+function locateErrors(
+  manifest: Manifest,
+  errors: ValidationError[],
+  source?: ManifestSource
+): ValidationError[] {
+  return errors.map((error) => {
+    const path = getErrorSourcePath(manifest, error);
+    if (!path) return error;
+    const location = source ? locatePath(source, path) : undefined;
+    return { ...error, path: formatSourcePath(path), ...location };
+  });
+}
+
 // ============================================================
 // Combined Validation
 // ============================================================
@@ -455,8 +747,14 @@ export function validatePhaseOrdering(manifest: Manifest): ValidationError[] {
  * 4. Function name uniqueness (no collisions in generated bash)
  * 5. Reserved name validation (no collisions with orchestrator)
  * 6. Verified installer runner allowlist (security)
+ * 7. Profile references and dependency closure
+ * 8. Module conditions and install variants (reachability and coverage)
+ *
+ * Every error carries a `path`; when the YAML source is provided, errors
+ * also carry the line, column and a code-frame snippet.
  *
  * @param manifest - The manifest to validate
+ * @param source - Optional YAML source (from createManifestSource) for locations
  * @returns ValidationResult with all errors
  *
  * @example
@@ -471,7 +769,7 @@ export function validatePhaseOrdering(manifest: Manifest): ValidationError[] {
  * }
  * ```
  */
-export function validateManifest(manifest: Manifest): ValidationResult {
+export function validateManifest(manifest: Manifest, source?: ManifestSource): ValidationResult {
   const errors: ValidationError[] = [];
 
   // 1. Check dependency existence first (other checks assume deps exist)
@@ -496,19 +794,33 @@ export function validateManifest(manifest: Manifest): ValidationResult {
   // 6. Check verified installer runners are in allowlist (security)
   errors.push(...validateVerifiedInstallerRunner(manifest));
 
+  // 7. Check profiles (only if deps exist, since closure walks the graph)
+  if (errors.length === 0) {
+    errors.push(...validateProfiles(manifest));
+  }
+
+  // 8. Check when:/variants coverage (dependency check skips unknown deps)
+  errors.push(...validateConditions(manifest));
+
   return {
     valid: errors.length === 0,
-    errors,
+    errors: locateErrors(manifest, errors, source),
   };
 }
 
 /**
  * Formats validation errors for human-readable output.
+ * Located errors are prefixed with `file:line:column` (clickable in most
+ * editors and terminals) and followed by a code frame.
  *
  * @param result - The validation result
+ * @param sourceName - File name to show for located errors
  * @returns Formatted string for console output
  */
-export function formatValidationErrors(result: ValidationResult): string {
+export function formatValidationErrors(
+  result: ValidationResult,
+  sourceName = 'acfs.manifest.yaml'
+): string {
   if (result.valid) {
     return '✓ Manifest validation passed';
   }
@@ -517,6 +829,9 @@ export function formatValidationErrors(result: ValidationResult): string {
 
   for (const error of result.errors) {
     lines.push(`  [${error.code}] ${error.message}`);
+    if (error.line !== undefined && error.column !== undefined) {
+      lines.push(`    at ${sourceName}:${error.line}:${error.column} (${error.path})`);
+    }
 
     // Add contextual hints based on error type
     switch (error.code) {
@@ -545,6 +860,28 @@ export function formatValidationErrors(result: ValidationResult): string {
         lines.push(`    → SECURITY: Only "bash" or "sh" are allowed as runners`);
         lines.push(`    → Change verified_installer.runner to "bash" or "sh"`);
         break;
+      case 'UNKNOWN_PROFILE_REFERENCE':
+        lines.push(`    → Check spelling of the module ID, category or tag in the profile`);
+        break;
+      case 'PROFILE_EXCLUDES_DEPENDENCY':
+        lines.push(`    → Stop excluding the dependency or also exclude the module that needs it`);
+        break;
+      case 'UNREACHABLE_MODULE':
+        lines.push(`    → Widen the when: clause (supported: ubuntu ${SUPPORTED_UBUNTU_RELEASES.join(', ')})`);
+        break;
+      case 'UNREACHABLE_VARIANT':
+        lines.push(`    → Reorder variants (first match wins) or remove the variant`);
+        break;
+      case 'UNCOVERED_TARGET':
+        lines.push(`    → Add a default install or a variant for the listed systems`);
+        break;
+      case 'CONDITION_DEPENDENCY_MISMATCH':
+        lines.push(`    → Narrow the module's when: clause to match its dependency`);
+        break;
+    }
+    if (error.snippet) {
+      lines.push('');
+      lines.push(...error.snippet.split('\n').map((line) => `    ${line}`));
     }
     lines.push('');
   }
@@ -0,0 +1,192 @@
+#!/usr/bin/env bun
+/**
+ * ACFS Auth CLI
+ * Reports which services are logged in, using the onboard auth checks.
+ *
+ * Usage:
+ *   bun run src/acfs-auth.ts status [--json] [--require <ids|all|none>]
+ *   bun run src/acfs-auth.ts watch [--interval <s>] [--timeout <s>]
+ *   bun run src/acfs-auth.ts explain <service>
+ */
+
+import { checkAllServicesAsync, getAuthCheckDefinitions, runAuthCheck } from './lib/authChecks';
+import {
+  authReportToJson,
+  buildAuthReport,
+  formatAuthTable,
+  formatExplain,
+  resolveRequiredServices,
+} from './lib/authReport';
+import type { AuthReport } from './lib/authReport';
+
+const DEFAULT_INTERVAL_SECONDS = 5;
+
+function showHelp(): void {
+  console.log(`
+ACFS Auth Status
+
+Usage: acfs-auth <command> [options]
+
+Commands:
+  status             Check every service once (default)
+  watch              Re-check until all required services are authenticated
+  explain <service>  Show the login command and docs for a service
+
+Options:
+  --json             Print JSON (watch prints one JSON object per check)
+  --require <ids>    Comma-separated service ids, "all" or "none"
+                     (default: essential services)
+  --interval <s>     Seconds between checks in watch mode (default: ${DEFAULT_INTERVAL_SECONDS})
+  --timeout <s>      Give up watching after this many seconds
+  --help             Show this help message
+
+Exit status is 0 when every required service is authenticated, 1 when one
+is not (or watch timed out), and 2 on usage errors.
+`);
+}
+
+function usageError(message: string): never {
+  console.error(message);
+  process.exit(2);
+}
+
+function readOption(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  if (index === -1) return undefined;
+  const value = args[index + 1];
+  if (value === undefined || value.startsWith('--')) {
+    usageError(`${name} requires a value`);
+  }
+  return value;
+}
+
+function readSeconds(args: string[], name: string): number | undefined {
+  const value = readOption(args, name);
+  if (value === undefined) return undefined;
+  const seconds = Number(value);
+  if (!Number.isFinite(seconds) || seconds <= 0) {
+    usageError(`${name} must be a positive number of seconds`);
+  }
+  return seconds;
+}
+
+function printReport(report: AuthReport, json: boolean): void {
+  if (json) {
+    console.log(JSON.stringify(authReportToJson(report), null, 2));
+  } else {
+    console.log(formatAuthTable(report, { color: Boolean(process.stdout.isTTY) && !process.env.NO_COLOR }));
+  }
+}
+
+async function runStatus(required: string[], json: boolean): Promise<number> {
+  const report = buildAuthReport(await checkAllServicesAsync(), required);
+  printReport(report, json);
+  return report.ok ? 0 : 1;
+}
+
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(done, ms);
+    signal.addEventListener('abort', done, { once: true });
+    function done() {
+      clearTimeout(timer);
+      signal.removeEventListener('abort', done);
+      resolve();
+    }
+  });
+}
+
+async function runWatch(
+  required: string[],
+  options: { json: boolean; intervalSeconds: number; timeoutSeconds?: number },
+): Promise<number> {
+  const controller = new AbortController();
+  process.once('SIGINT', () => controller.abort());
+  const deadline = options.timeoutSeconds !== undefined ? Date.now() + options.timeoutSeconds * 1000 : Infinity;
+  const interactive = Boolean(process.stdout.isTTY) && !options.json;
+  let previous = '';
+
+  while (!controller.signal.aborted) {
+    let report: AuthReport;
+    try {
+      report = buildAuthReport(await checkAllServicesAsync({ signal: controller.signal }), required);
+    } catch {
+      break;
+    }
+
+    // Non-interactive output only repeats the table when something changed
+    const snapshot = JSON.stringify(report.services.map((entry) => [entry.id, entry.status.state]));
+    if (interactive) {
+      process.stdout.write('\x1b[2J\x1b[H');
+      printReport(report, false);
+    } else if (options.json || snapshot !== previous) {
+      if (options.json) console.log(JSON.stringify(authReportToJson(report)));
+      else printReport(report, false);
+    }
+    previous = snapshot;
+
+    if (report.ok) return 0;
+    if (Date.now() >= deadline) {
+      console.error(`Timed out waiting for: ${report.missingRequired.join(', ')}`);
+      return 1;
+    }
+    if (interactive) {
+      console.log(`\nWaiting for ${report.missingRequired.join(', ')}; checking again every ${options.intervalSeconds}s (Ctrl+C to stop)`);
+    }
+    await sleep(Math.min(options.intervalSeconds * 1000, deadline - Date.now()), controller.signal);
+  }
+  return 130;
+}
+
+function runExplain(id: string | undefined): number {
+  const definitions = getAuthCheckDefinitions();
+  const definition = definitions.find((candidate) => candidate.id === id);
+  if (!definition) {
+    usageError(
+      `${id ? `Unknown service: ${id}` : 'explain requires a service id'} (known: ${definitions.map((d) => d.id).join(', ')})`,
+    );
+  }
+  console.log(formatExplain(definition, runAuthCheck(definition.id)));
+  return 0;
+}
+
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+  if (args.includes('--help') || args.includes('-h')) {
+    showHelp();
+    process.exit(0);
+  }
+
+  const command = args[0] && !args[0].startsWith('--') ? args[0] : 'status';
+  const json = args.includes('--json');
+
+  if (command === 'explain') {
+    process.exit(runExplain(args[1]));
+  }
+  if (command !== 'status' && command !== 'watch') {
+    usageError(`Unknown command: ${command} (expected status, watch or explain)`);
+  }
+
+  let required: string[];
+  try {
+    required = resolveRequiredServices(readOption(args, '--require'), getAuthCheckDefinitions());
+  } catch (err) {
+    usageError((err as Error).message);
+  }
+
+  if (command === 'watch') {
+    process.exit(
+      await runWatch(required, {
+        json,
+        intervalSeconds: readSeconds(args, '--interval') ?? DEFAULT_INTERVAL_SECONDS,
+        timeoutSeconds: readSeconds(args, '--timeout'),
+      }),
+    );
+  }
+  process.exit(await runStatus(required, json));
+}
+
+main().catch((error: unknown) => {
+  console.error('Error:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
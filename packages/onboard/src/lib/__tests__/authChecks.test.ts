@@ -1,6 +1,8 @@
 import { describe, test, expect } from 'bun:test';
+import * as fs from 'fs';
 import * as path from 'path';
-import { createAuthChecks } from '../authChecks';
+import { DEFAULT_AUTH_CHECK_DEFINITIONS, createAuthChecks, getFixCommand } from '../authChecks';
+import { SERVICES } from '../../data/services';
 
 const HOME = '/home/tester';
 
@@ -10,11 +12,15 @@ const baseDeps: AuthCheckOverrides = {
   execSync: (_command: string) => {
     throw new Error('unexpected command');
   },
+  execAsync: async (command: string) => {
+    throw new Error(`unexpected command: ${command}`);
+  },
   existsSync: (_path: string) => false,
   readFileSync: (_path: string) => '',
   homedir: () => HOME,
   env: {} as NodeJS.ProcessEnv,
   commandExists: (_command: string) => false,
+  now: () => Date.parse('2025-06-01T00:00:00Z'),
 };
 
 const makeDeps = (overrides: AuthCheckOverrides = {}) => ({
@@ -41,7 +47,12 @@ describe('authChecks', () => {
       }),
     );
 
-    expect(checks.checkTailscale()).toEqual({ authenticated: true, details: 'IP: 100.64.0.12' });
+    expect(checks.checkTailscale()).toEqual({
+      authenticated: true,
+      state: 'authenticated',
+      details: 'IP: 100.64.0.12',
+      method: 'oauth',
+    });
   });
 
   test('checkClaude returns email when config has user email', () => {
@@ -53,7 +64,12 @@ describe('authChecks', () => {
       }),
     );
 
-    expect(checks.checkClaude()).toEqual({ authenticated: true, details: 'user@example.com' });
+    expect(checks.checkClaude()).toEqual({
+      authenticated: true,
+      state: 'authenticated',
+      details: 'user@example.com',
+      account: 'user@example.com',
+    });
   });
 
   test('checkCodex requires access token', () => {
@@ -65,7 +81,7 @@ describe('authChecks', () => {
       }),
     );
 
-    expect(checks.checkCodex()).toEqual({ authenticated: true });
+    expect(checks.checkCodex()).toEqual({ authenticated: true, state: 'authenticated', method: 'oauth' });
   });
 
   test('checkGemini returns authenticated when credentials.json exists', () => {
@@ -76,7 +92,7 @@ describe('authChecks', () => {
       }),
     );
 
-    expect(checks.checkGemini()).toEqual({ authenticated: true });
+    expect(checks.checkGemini()).toEqual({ authenticated: true, state: 'authenticated', method: 'oauth' });
   });
 
   test('checkGitHub reads gh auth status when available', () => {
@@ -94,7 +110,13 @@ describe('authChecks', () => {
       }),
     );
 
-    expect(checks.checkGitHub()).toEqual({ authenticated: true, details: 'octocat' });
+    expect(checks.checkGitHub()).toEqual({
+      authenticated: true,
+      state: 'authenticated',
+      details: 'octocat',
+      account: 'octocat',
+      method: 'oauth',
+    });
   });
 
   test('checkVercel returns authenticated with legacy ~/.vercel/auth.json', () => {
@@ -106,7 +128,13 @@ describe('authChecks', () => {
       }),
     );
 
-    expect(checks.checkVercel()).toEqual({ authenticated: true, details: 'me@example.com' });
+    expect(checks.checkVercel()).toEqual({
+      authenticated: true,
+      state: 'authenticated',
+      details: 'me@example.com',
+      account: 'me@example.com',
+      method: 'token',
+    });
   });
 
   test('checkSupabase returns authenticated with access token file', () => {
@@ -118,7 +146,7 @@ describe('authChecks', () => {
       }),
     );
 
-    expect(checks.checkSupabase()).toEqual({ authenticated: true });
+    expect(checks.checkSupabase()).toEqual({ authenticated: true, state: 'authenticated', method: 'token' });
   });
 
   test('checkSupabase uses SUPABASE_ACCESS_TOKEN when set', () => {
@@ -128,7 +156,12 @@ describe('authChecks', () => {
       }),
     );
 
-    expect(checks.checkSupabase()).toEqual({ authenticated: true, details: 'via SUPABASE_ACCESS_TOKEN' });
+    expect(checks.checkSupabase()).toEqual({
+      authenticated: true,
+      state: 'authenticated',
+      details: 'via SUPABASE_ACCESS_TOKEN',
+      method: 'env-var',
+    });
   });
 
   test('checkWrangler reads email from whoami output', () => {
@@ -146,7 +179,13 @@ describe('authChecks', () => {
       }),
     );
 
-    expect(checks.checkWrangler()).toEqual({ authenticated: true, details: 'dev@example.com' });
+    expect(checks.checkWrangler()).toEqual({
+      authenticated: true,
+      state: 'authenticated',
+      details: 'dev@example.com',
+      account: 'dev@example.com',
+      method: 'oauth',
+    });
   });
 
   test('checkAllServices exposes all expected service ids', () => {
@@ -157,3 +196,325 @@ describe('authChecks', () => {
     );
   });
 });
+
+type ExecAsyncOptions = { timeout: number; signal: AbortSignal };
+
+/**
+ * execAsync stub whose calls stay pending until resolved by the test
+ */
+const deferredExec = () => {
+  const calls: { command: string; options: ExecAsyncOptions; resolve: (stdout: string) => void }[] = [];
+  const execAsync = (command: string, options: ExecAsyncOptions) =>
+    new Promise<string>((resolve, reject) => {
+      calls.push({ command, options, resolve });
+      options.signal.addEventListener('abort', () => reject(options.signal.reason));
+    });
+  return { calls, execAsync };
+};
+
+describe('checkAllServicesAsync', () => {
+  test('matches checkAllServices results in registry order', async () => {
+    const outputs: Record<string, string> = {
+      'tailscale status --json': JSON.stringify({ BackendState: 'Running' }),
+      'tailscale ip -4': '100.64.0.12\n',
+      'gh auth status -h github.com': 'Logged in to github.com as octocat',
+      'vercel whoami': 'vercel-user\n',
+      'wrangler whoami': 'not authenticated',
+    };
+    const deps = makeDeps({
+      execSync: (command: string) => outputs[command] ?? '',
+      execAsync: async (command: string) => outputs[command] ?? '',
+      commandExists: () => true,
+      env: { SUPABASE_ACCESS_TOKEN: 'token' } as NodeJS.ProcessEnv,
+    });
+
+    const checks = createAuthChecks(deps);
+    const results = await checks.checkAllServicesAsync();
+
+    expect(results).toEqual(checks.checkAllServices());
+    expect(Object.keys(results)).toEqual(Object.keys(checks.AUTH_CHECKS));
+  });
+
+  test('starts command probes concurrently and streams results as they resolve', async () => {
+    const { calls, execAsync } = deferredExec();
+    const checks = createAuthChecks(
+      makeDeps({
+        execAsync,
+        commandExists: (command) => command === 'gh' || command === 'vercel',
+      }),
+    );
+
+    const streamed: string[] = [];
+    const pending = checks.checkAllServicesAsync({ onResult: (id) => streamed.push(id) });
+    await Promise.resolve();
+
+    expect(calls.map((call) => call.command)).toEqual(['gh auth status -h github.com', 'vercel whoami']);
+
+    calls[1].resolve('vercel-user');
+    calls[0].resolve('Logged in to github.com as octocat');
+    const results = await pending;
+
+    expect(streamed.indexOf('vercel')).toBeLessThan(streamed.indexOf('github'));
+    expect(streamed).toHaveLength(8);
+    expect(results.github).toMatchObject({ authenticated: true, account: 'octocat' });
+    expect(results.vercel).toMatchObject({ authenticated: true, account: 'vercel-user' });
+  });
+
+  test('times out a hung probe and aborts its command', async () => {
+    const { calls, execAsync } = deferredExec();
+    const checks = createAuthChecks(
+      makeDeps({
+        execAsync,
+        commandExists: (command) => command === 'tailscale',
+      }),
+    );
+
+    const results = await checks.checkAllServicesAsync({ timeouts: { tailscale: 10 } });
+
+    expect(results.tailscale).toEqual({ authenticated: false, state: 'unknown', details: 'timed out after 10ms' });
+    expect(calls[0].options.timeout).toBe(10);
+    expect(calls[0].options.signal.aborted).toBe(true);
+  });
+
+  test('cancellation rejects and aborts outstanding commands', async () => {
+    const { calls, execAsync } = deferredExec();
+    const checks = createAuthChecks(
+      makeDeps({
+        execAsync,
+        commandExists: (command) => command === 'wrangler',
+      }),
+    );
+
+    const controller = new AbortController();
+    const streamed: string[] = [];
+    const pending = checks.checkAllServicesAsync({
+      signal: controller.signal,
+      onResult: (id) => streamed.push(id),
+    });
+    await Promise.resolve();
+
+    controller.abort(new Error('cancelled'));
+
+    await expect(pending).rejects.toThrow('cancelled');
+    expect(calls[0].options.signal.aborted).toBe(true);
+    expect(streamed).not.toContain('cloudflare');
+  });
+});
+
+describe('structured auth status', () => {
+  const jwt = (claims: Record<string, unknown>) =>
+    `header.${Buffer.from(JSON.stringify(claims)).toString('base64url')}.signature`;
+
+  test('distinguishes a missing CLI from a logged-out one', () => {
+    const missing = createAuthChecks(makeDeps());
+    expect(missing.checkVercel()).toEqual({
+      authenticated: false,
+      state: 'missing-cli',
+      details: 'vercel is not installed',
+    });
+
+    const loggedOut = createAuthChecks(
+      makeDeps({
+        execSync: () => 'Error: not logged in',
+        commandExists: (command) => command === 'vercel',
+      }),
+    );
+    expect(loggedOut.checkVercel()).toEqual({
+      authenticated: false,
+      state: 'unauthenticated',
+      fix: 'vercel login',
+    });
+  });
+
+
+  test('reports identity, tailnet and key expiry from tailscale status', () => {
+    const execSync = (command: string) => {
+      if (command === 'tailscale status --json') {
+        return JSON.stringify({
+          BackendState: 'Running',
+          Self: { UserID: 42, KeyExpiry: '2025-09-01T00:00:00Z' },
+          User: { '42': { LoginName: 'dev@example.com' } },
+          CurrentTailnet: { Name: 'example.org' },
+        });
+      }
+      return '';
+    };
+    const checks = createAuthChecks(makeDeps({ execSync, commandExists: (command) => command === 'tailscale' }));
+
+    expect(checks.checkTailscale()).toEqual({
+      authenticated: true,
+      state: 'authenticated',
+      account: 'dev@example.com',
+      org: 'example.org',
+      method: 'oauth',
+      expiresAt: '2025-09-01T00:00:00Z',
+    });
+  });
+
+  test('reads Codex identity and expiry from ChatGPT login tokens', () => {
+    const authPath = path.join(HOME, '.codex', 'auth.json');
+    const auth = {
+      tokens: {
+        id_token: jwt({ email: 'dev@example.com' }),
+        access_token: jwt({ exp: Date.parse('2025-05-01T00:00:00Z') / 1000 }),
+      },
+    };
+    const checks = createAuthChecks(
+      makeDeps({
+        existsSync: (filePath) => filePath === authPath,
+        readFileSync: () => JSON.stringify(auth),
+        commandExists: (command) => command === 'codex',
+      }),
+    );
+
+    expect(checks.checkCodex()).toEqual({
+      authenticated: false,
+      state: 'expired',
+      details: 'dev@example.com',
+      account: 'dev@example.com',
+      method: 'oauth',
+      expiresAt: '2025-05-01T00:00:00.000Z',
+      fix: 'codex login',
+    });
+  });
+
+  test('treats an expired Claude access token as valid while a refresh token exists', () => {
+    const credentialsPath = path.join(HOME, '.claude', '.credentials.json');
+    const credentials = (refreshToken?: string) =>
+      JSON.stringify({
+        claudeAiOauth: { accessToken: 'at', refreshToken, expiresAt: Date.parse('2025-05-01T00:00:00Z') },
+      });
+
+    const withRefresh = createAuthChecks(
+      makeDeps({
+        existsSync: (filePath) => filePath === credentialsPath,
+        readFileSync: () => credentials('rt'),
+      }),
+    );
+    expect(withRefresh.checkClaude()).toMatchObject({ authenticated: true, state: 'authenticated' });
+
+    const withoutRefresh = createAuthChecks(
+      makeDeps({
+        existsSync: (filePath) => filePath === credentialsPath,
+        readFileSync: () => credentials(),
+      }),
+    );
+    expect(withoutRefresh.checkClaude()).toMatchObject({ authenticated: false, state: 'expired', fix: 'claude' });
+  });
+
+  test('parses gh account, token scopes and env-var tokens', () => {
+    const output = [
+      'github.com',
+      '  ✓ Logged in to github.com account octocat (GITHUB_TOKEN)',
+      "  - Token scopes: 'gist', 'read:org', 'repo'",
+    ].join('\n');
+    const checks = createAuthChecks(makeDeps({ execSync: () => output, commandExists: (command) => command === 'gh' }));
+
+    expect(checks.checkGitHub()).toEqual({
+      authenticated: true,
+      state: 'authenticated',
+      details: 'octocat',
+      account: 'octocat',
+      method: 'env-var',
+      scopes: ['gist', 'read:org', 'repo'],
+    });
+  });
+});
+
+describe('auth check registry', () => {
+  test('definitions match the service catalog and manifest modules', () => {
+    const manifest = fs.readFileSync(path.join(__dirname, '../../../../../acfs.manifest.yaml'), 'utf-8');
+    for (const definition of DEFAULT_AUTH_CHECK_DEFINITIONS) {
+      const service = SERVICES.find((entry) => entry.id === definition.id);
+      expect(service?.postInstallCommand).toBeDefined();
+      expect(getFixCommand(definition)).toBe(service!.postInstallCommand!);
+      expect(manifest).toContain(`- id: ${definition.moduleId}\n`);
+    }
+  });
+
+  test('an explicit fix overrides the catalog login command', () => {
+    expect(getFixCommand({ id: 'github', probes: [] })).toBe('gh auth login');
+    expect(getFixCommand({ id: 'github', fix: 'gh auth refresh', probes: [] })).toBe('gh auth refresh');
+    expect(getFixCommand({ id: 'openrouter', probes: [] })).toBeUndefined();
+  });
+
+  test('registers declarative checks without new code', () => {
+    const checks = createAuthChecks(
+      makeDeps({
+        execSync: (command: string) => {
+          if (command === 'aws sts get-caller-identity --query Arn --output text') {
+            return 'arn:aws:iam::123456789012:user/dev\n';
+          }
+          throw new Error(`unexpected command: ${command}`);
+        },
+        existsSync: (filePath) => filePath === path.join(HOME, '.fly', 'config.yml'),
+        readFileSync: () => 'access_token: fo1_abc\n',
+        env: { OPENROUTER_API_KEY: 'sk-or' } as NodeJS.ProcessEnv,
+        commandExists: (command) => command === 'aws',
+      }),
+    );
+
+    checks.registerAuthCheck({
+      id: 'openrouter',
+      probes: [{ type: 'env', variable: 'OPENROUTER_API_KEY', method: 'api-key' }],
+    });
+    checks.registerAuthCheck({
+      id: 'aws',
+      cli: 'aws',
+      fix: 'aws configure sso',
+      probes: [
+        {
+          type: 'command-exit',
+          command: 'aws sts get-caller-identity --query Arn --output text',
+          account: /user\/(\S+)/,
+        },
+      ],
+    });
+    checks.registerAuthCheck({
+      id: 'fly',
+      cli: 'flyctl',
+      fix: 'fly auth login',
+      probes: [{ type: 'file', paths: ['${FLY_CONFIG_DIR:-~/.fly}/config.yml'], nonEmpty: true, method: 'token' }],
+    });
+
+    const results = checks.checkAllServices();
+    expect(results.openrouter).toEqual({
+      authenticated: true,
+      state: 'authenticated',
+      details: 'via OPENROUTER_API_KEY',
+      method: 'api-key',
+    });
+    expect(results.aws).toEqual({ authenticated: true, state: 'authenticated', details: 'dev', account: 'dev' });
+    expect(results.fly).toEqual({ authenticated: true, state: 'authenticated', method: 'token' });
+    expect(checks.getAuthCheckDefinitions().map((definition) => definition.id).slice(-3)).toEqual([
+      'openrouter',
+      'aws',
+      'fly',
+    ]);
+  });
+
+  test('command probes are skipped and reported as missing-cli without the binary', async () => {
+    const checks = createAuthChecks(makeDeps(), [
+      {
+        id: 'aws',
+        cli: 'aws',
+        fix: 'aws configure sso',
+        probes: [{ type: 'command-exit', command: 'aws sts get-caller-identity' }],
+      },
+    ]);
+
+    expect(await checks.checkAllServicesAsync()).toEqual({
+      aws: { authenticated: false, state: 'missing-cli', details: 'aws is not installed' },
+    });
+  });
+
+  test('re-registering an id replaces the check in place', () => {
+    const checks = createAuthChecks(makeDeps({ env: { GH_TOKEN: 'token' } as NodeJS.ProcessEnv }));
+    checks.registerAuthCheck({ id: 'github', fix: 'gh auth login', probes: [{ type: 'env', variable: 'GH_TOKEN' }] });
+
+    expect(Object.keys(checks.AUTH_CHECKS)).toEqual(DEFAULT_AUTH_CHECK_DEFINITIONS.map((definition) => definition.id));
+    expect(checks.checkGitHub()).toMatchObject({ authenticated: true, method: 'env-var' });
+    expect(() => checks.runAuthCheck('nope')).toThrow('Unknown auth check: nope');
+  });
+});
+
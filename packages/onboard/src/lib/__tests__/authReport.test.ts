@@ -0,0 +1,66 @@
+import { describe, test, expect } from 'bun:test';
+import { DEFAULT_AUTH_CHECK_DEFINITIONS } from '../authChecks';
+import type { AuthStatus } from '../authChecks';
+import { authReportToJson, buildAuthReport, formatAuthTable, formatExplain, resolveRequiredServices } from '../authReport';
+
+const statuses: Record<string, AuthStatus> = {
+  'claude-code': { authenticated: true, state: 'authenticated', details: 'dev@example.com', account: 'dev@example.com' },
+  github: { authenticated: false, state: 'unauthenticated', fix: 'gh auth login' },
+  vercel: { authenticated: false, state: 'missing-cli', details: 'vercel is not installed' },
+};
+
+describe('resolveRequiredServices', () => {
+  test('defaults to essential-tier services from the catalog', () => {
+    expect(resolveRequiredServices(undefined, DEFAULT_AUTH_CHECK_DEFINITIONS)).toEqual(['claude-code', 'github']);
+  });
+
+  test('accepts lists, all and none', () => {
+    expect(resolveRequiredServices('vercel, github', DEFAULT_AUTH_CHECK_DEFINITIONS)).toEqual(['vercel', 'github']);
+    expect(resolveRequiredServices('all', DEFAULT_AUTH_CHECK_DEFINITIONS)).toHaveLength(8);
+    expect(resolveRequiredServices('none', DEFAULT_AUTH_CHECK_DEFINITIONS)).toEqual([]);
+    expect(() => resolveRequiredServices('github,aws', DEFAULT_AUTH_CHECK_DEFINITIONS)).toThrow('Unknown service(s): aws');
+  });
+});
+
+describe('buildAuthReport', () => {
+  test('fails when a required service is not authenticated', () => {
+    const report = buildAuthReport(statuses, ['claude-code', 'github']);
+    expect(report.ok).toBe(false);
+    expect(report.missingRequired).toEqual(['github']);
+    expect(buildAuthReport(statuses, ['claude-code']).ok).toBe(true);
+  });
+
+  test('JSON output flattens each status', () => {
+    const json = authReportToJson(buildAuthReport(statuses, ['github']));
+    expect(json.services[1]).toEqual({
+      id: 'github',
+      name: 'GitHub',
+      required: true,
+      authenticated: false,
+      state: 'unauthenticated',
+      fix: 'gh auth login',
+    });
+  });
+
+  test('table shows state, account and next step per service', () => {
+    const table = formatAuthTable(buildAuthReport(statuses, ['claude-code', 'github']));
+    const lines = table.split('\n');
+    expect(lines[0]).toMatch(/^Service\s+Status\s+Account\s+Next step$/);
+    expect(lines[1]).toMatch(/^✓ Claude Code \*\s+authenticated\s+dev@example\.com$/);
+    expect(lines[2]).toMatch(/^○ GitHub \*\s+unauthenticated\s+gh auth login$/);
+    expect(lines[3]).toMatch(/^— Vercel\s+missing-cli\s+vercel is not installed$/);
+    expect(table).toContain('1/3 services authenticated');
+    expect(table).toContain('Required but not authenticated: github');
+    expect(table).not.toContain('\x1b[');
+  });
+});
+
+describe('formatExplain', () => {
+  test('prints the login command and docs URL', () => {
+    const github = DEFAULT_AUTH_CHECK_DEFINITIONS.find((definition) => definition.id === 'github')!;
+    const text = formatExplain(github, statuses.github);
+    expect(text).toContain('GitHub (github)');
+    expect(text).toContain('Login:   gh auth login');
+    expect(text).toMatch(/Docs:\s+https:\/\//);
+  });
+});
@@ -0,0 +1,181 @@
+import { describe, test, expect } from 'bun:test';
+import {
+  LESSON_EXERCISES,
+  createExerciseRunner,
+  historyIncludes,
+  ranCommand,
+  tmuxSession,
+} from '../exercises';
+import type { Exercise } from '../exercises';
+import { LESSONS, findLesson } from '../lessons';
+
+const HOME = '/home/tester';
+
+type ExerciseOverrides = NonNullable<Parameters<typeof createExerciseRunner>[0]>;
+
+const baseDeps: ExerciseOverrides = {
+  execSync: (command: string) => {
+    throw new Error(`unexpected command: ${command}`);
+  },
+  existsSync: (_path: string) => false,
+  readFileSync: (filePath: string) => {
+    throw new Error(`ENOENT: ${filePath}`);
+  },
+  homedir: () => HOME,
+  env: {} as NodeJS.ProcessEnv,
+  commandExists: (_command: string) => false,
+};
+
+const makeRunner = (overrides: ExerciseOverrides = {}, registry?: Record<string, Exercise[]>) =>
+  createExerciseRunner({ ...baseDeps, ...overrides }, registry);
+
+const lesson = (slug: string) => findLesson(slug)!;
+
+describe('exercises', () => {
+  test('every registry key is a Learning Hub lesson slug', () => {
+    const slugs = LESSONS.map((entry) => entry.slug);
+    for (const slug of Object.keys(LESSON_EXERCISES)) {
+      expect(slugs).toContain(slug);
+    }
+  });
+
+  test('tmux session passes when the named session is running', () => {
+    const runner = makeRunner({
+      commandExists: (command) => command === 'tmux',
+      execSync: (command: string) => {
+        if (command.startsWith('tmux list-sessions')) return 'scratch\nwork\n';
+        throw new Error(`unexpected command: ${command}`);
+      },
+    });
+    const check = runner.checkLesson(lesson('tmux-basics'));
+    expect(check.passed).toBe(true);
+  });
+
+  test('tmux session fails with the sessions found and a hint', () => {
+    const runner = makeRunner({
+      commandExists: (command) => command === 'tmux',
+      execSync: () => 'practice\n',
+    });
+    const result = runner.runExercise(tmuxSession('work', 'work'));
+    expect(result).toEqual({ passed: false, detail: 'Running sessions: practice' });
+
+    const check = runner.checkLesson(lesson('tmux-basics'));
+    expect(check.passed).toBe(false);
+    expect(check.outcomes[0].exercise.hint).toContain('tmux new -s work');
+  });
+
+  test('tmux session fails when no server is running or tmux is missing', () => {
+    const noServer = makeRunner({
+      commandExists: () => true,
+      execSync: () => {
+        throw new Error('no server running on /tmp/tmux-1000/default');
+      },
+    });
+    expect(noServer.runExercise(tmuxSession('work', 'work')).detail).toBe('No tmux server is running');
+    expect(makeRunner().runExercise(tmuxSession('work', 'work')).detail).toBe('tmux is not installed');
+  });
+
+  test('git exercise counts commits in the practice repository', () => {
+    const commands: string[] = [];
+    const runner = makeRunner({
+      existsSync: (filePath) => filePath === '/data/projects/my-project/.git',
+      execSync: (command: string) => {
+        commands.push(command);
+        return '3\n';
+      },
+    });
+    const check = runner.checkLesson(lesson('git-basics'));
+    expect(check.passed).toBe(true);
+    expect(check.outcomes[0].result.detail).toBe('3 commits');
+    expect(commands).toEqual(["git -C '/data/projects/my-project' rev-list --count HEAD"]);
+  });
+
+  test('git exercise fails before git init and before the first commit', () => {
+    expect(makeRunner().checkLesson(lesson('git-basics')).outcomes[0].result.detail).toContain('not a git repository');
+
+    const noCommits = makeRunner({
+      existsSync: () => true,
+      execSync: () => {
+        throw new Error("fatal: ambiguous argument 'HEAD'");
+      },
+    });
+    expect(noCommits.checkLesson(lesson('git-basics')).outcomes[0].result).toEqual({
+      passed: false,
+      detail: 'No commits yet',
+    });
+  });
+
+  test('ranCommand finds commands in zsh extended history', () => {
+    const runner = makeRunner({
+      readFileSync: ((filePath: string) => {
+        if (filePath === `${HOME}/.zsh_history`) {
+          return ': 1718000000:0;cd /data/projects\n: 1718000005:0;git pull && bd ready --json\n';
+        }
+        throw new Error('ENOENT');
+      }) as ExerciseOverrides['readFileSync'],
+    });
+    expect(runner.checkLesson(lesson('beads')).passed).toBe(true);
+  });
+
+  test('ranCommand honours HISTFILE and falls back to atuin', () => {
+    const fromHistfile = makeRunner({
+      env: { HISTFILE: '/data/history' } as NodeJS.ProcessEnv,
+      readFileSync: ((filePath: string) => {
+        if (filePath === '/data/history') return 'bd ready\n';
+        throw new Error('ENOENT');
+      }) as ExerciseOverrides['readFileSync'],
+    });
+    expect(fromHistfile.runExercise(ranCommand('bd', 'bd ready')).passed).toBe(true);
+
+    const fromAtuin = makeRunner({
+      commandExists: (command) => command === 'atuin',
+      execSync: (command: string) => {
+        if (command === 'atuin history list --cmd-only') return 'ls\nbd ready\n';
+        throw new Error(`unexpected command: ${command}`);
+      },
+    });
+    expect(fromAtuin.runExercise(ranCommand('bd', 'bd ready')).passed).toBe(true);
+
+    expect(makeRunner().runExercise(ranCommand('bd', 'bd ready'))).toEqual({
+      passed: false,
+      detail: '`bd ready` not found in your shell history',
+    });
+  });
+
+  test('historyIncludes matches whole commands, not prefixes of other words', () => {
+    expect(historyIncludes(['bd ready'], 'bd ready')).toBe(true);
+    expect(historyIncludes(['ls | bd ready'], 'bd ready')).toBe(true);
+    expect(historyIncludes(['bd readyx'], 'bd ready')).toBe(false);
+    expect(historyIncludes(['echo bd ready'], 'bd ready')).toBe(false);
+  });
+
+  test('lessons without exercises pass with no outcomes', () => {
+    const check = makeRunner().checkLesson(lesson('welcome'));
+    expect(check).toEqual({ lessonId: 0, passed: true, outcomes: [] });
+  });
+
+  test('custom registries and throwing validators', () => {
+    const registry: Record<string, Exercise[]> = {
+      welcome: [
+        {
+          id: 'boom',
+          task: 'Explode',
+          validate: () => {
+            throw new Error('kaboom');
+          },
+        },
+        {
+          id: 'home',
+          task: 'Expand ~',
+          validate: (context) => ({ passed: context.expandPath('~/x') === `${HOME}/x` }),
+        },
+      ],
+    };
+    const check = makeRunner({}, registry).checkLesson(lesson('welcome'));
+    expect(check.passed).toBe(false);
+    expect(check.outcomes.map((outcome) => outcome.result)).toEqual([
+      { passed: false, detail: 'Check failed: kaboom' },
+      { passed: true },
+    ]);
+  });
+});
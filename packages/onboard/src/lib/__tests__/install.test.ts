@@ -0,0 +1,48 @@
+import { describe, test, expect } from 'bun:test';
+import * as fs from 'fs';
+import * as path from 'path';
+
+const PACKAGE_DIR = path.resolve(__dirname, '../../..');
+const REPO_ROOT = path.resolve(PACKAGE_DIR, '../..');
+const ENTRY_POINTS = ['src/acfs-auth.ts', 'src/onboard.ts'];
+const WRAPPERS = ['bin/acfs-auth', 'bin/acfs-onboard'];
+
+/** Files (relative to packages/onboard) reachable from an entry point through relative imports. */
+function importClosure(entry: string): string[] {
+  const seen = new Set<string>();
+  const pending = [entry];
+  while (pending.length > 0) {
+    const file = pending.pop()!;
+    if (seen.has(file)) continue;
+    seen.add(file);
+    const source = fs.readFileSync(path.join(PACKAGE_DIR, file), 'utf-8');
+    for (const match of source.matchAll(/^(?:import|export)\b[^;]*?from '(\.[^']+)'/gm)) {
+      pending.push(path.relative(PACKAGE_DIR, path.resolve(PACKAGE_DIR, path.dirname(file), `${match[1]}.ts`)));
+    }
+  }
+  return [...seen].sort();
+}
+
+function installedOnboardFiles(): string[] {
+  const installSh = fs.readFileSync(path.join(REPO_ROOT, 'install.sh'), 'utf-8');
+  const list = installSh.match(/local onboard_files=\(\n([\s\S]*?)\n\s*\)/);
+  expect(list).not.toBeNull();
+  return list![1].split('\n').map((line) => line.trim().replace(/^"|"$/g, ''));
+}
+
+describe('installed files', () => {
+  test('the CLIs only import files inside the package', () => {
+    for (const file of ENTRY_POINTS.flatMap(importClosure)) {
+      expect(file.startsWith('src/')).toBe(true);
+    }
+  });
+
+  test('install.sh and the manifest ship everything the CLIs import', () => {
+    const manifest = fs.readFileSync(path.join(REPO_ROOT, 'acfs.manifest.yaml'), 'utf-8');
+    const installed = installedOnboardFiles();
+    for (const file of [...WRAPPERS, ...ENTRY_POINTS.flatMap(importClosure)]) {
+      expect(installed).toContain(file);
+      expect(manifest).toContain(` ${file}`);
+    }
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, test, expect } from 'bun:test';
+import * as path from 'path';
+import { LESSONS, findLesson, getLessonWebUrl, lessonFileKey, resolveLessonFile } from '../lessons';
+import { renderMarkdown } from '../markdown';
+import { LEGACY_LESSON_FILES } from '../progress';
+
+const REPO_LESSONS = path.resolve(__dirname, '../../../../../acfs/onboard/lessons');
+
+describe('lessons', () => {
+  test('uses the Learning Hub registry', () => {
+    expect(LESSONS.length).toBeGreaterThanOrEqual(20);
+    expect(findLesson('4')?.slug).toBe('git-basics');
+    expect(findLesson('flywheel-loop')?.id).toBe(9);
+    expect(findLesson('99')).toBeUndefined();
+  });
+
+  test('finds every bash TUI lesson file under its Learning Hub lesson', () => {
+    for (const file of LEGACY_LESSON_FILES) {
+      const lesson = LESSONS.find((candidate) => lessonFileKey(candidate.file) === lessonFileKey(file));
+      expect(lesson).toBeDefined();
+      expect(resolveLessonFile(lesson!, [REPO_LESSONS])).toBe(path.join(REPO_LESSONS, file));
+    }
+  });
+
+  test('prefers the exact file name and reports web-only lessons', () => {
+    const agents = findLesson('agent-commands')!;
+    const dirs = ['/a', '/b'];
+    const listing: Record<string, string[]> = { '/a': ['04_agents_login.md'], '/b': ['06_agents_login.md'] };
+    expect(resolveLessonFile(agents, dirs, (dir) => listing[dir])).toBe('/a/04_agents_login.md');
+    expect(resolveLessonFile(agents, ['/b', '/a'], (dir) => listing[dir])).toBe('/b/06_agents_login.md');
+
+    const gitBasics = findLesson('git-basics')!;
+    expect(resolveLessonFile(gitBasics, [REPO_LESSONS])).toBeNull();
+    expect(getLessonWebUrl(gitBasics)).toBe('https://agent-flywheel.com/learn/git-basics');
+  });
+});
+
+describe('renderMarkdown', () => {
+  test('renders like the onboard.sh fallback', () => {
+    const markdown = ['# Title', '- **Goal:** run `tmux ls`', '---', '```bash', 'tmux a', '```'].join('\n');
+    expect(renderMarkdown(markdown)).toBe(['Title', '  • Goal: run tmux ls', '─'.repeat(40), '```bash', 'tmux a', '```'].join('\n'));
+    expect(renderMarkdown('# Title', { color: true })).toBe('\x1b[1;35mTitle\x1b[0m');
+  });
+});
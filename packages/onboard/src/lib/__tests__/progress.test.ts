@@ -0,0 +1,76 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  COMPLETED_LESSONS_KEY,
+  completeLesson,
+  createProgress,
+  exportProgress,
+  importProgress,
+  migrateLegacyProgress,
+  normalizeCompletedLessons,
+  readProgress,
+  writeProgress,
+} from '../progress';
+
+describe('progress', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'acfs-onboard-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('normalizes ids like lessonProgress.ts', () => {
+    expect(normalizeCompletedLessons([3, 1, 1, 'x', -1, 2.5, 999, 0])).toEqual([0, 1, 3]);
+  });
+
+  test('maps bash TUI lesson indices to Learning Hub ids', () => {
+    // Bash lessons 4 (agents), 7 (flywheel loop) and 8 (keeping updated)
+    const progress = migrateLegacyProgress({ completed: [0, 1, 4, 7, 8], current: 5, started_at: '2024-12-20T10:30:00Z' });
+    expect(progress.completed).toEqual([0, 1, 6, 9, 10]);
+    expect(progress.current).toBe(7);
+    expect(progress.started_at).toBe('2024-12-20T10:30:00Z');
+  });
+
+  test('reads the legacy file on first run and round-trips writes', () => {
+    const file = path.join(dir, 'learning_progress.json');
+    const legacy = path.join(dir, 'onboard_progress.json');
+    fs.writeFileSync(legacy, JSON.stringify({ completed: [0, 3], current: 4 }));
+
+    const migrated = readProgress(file, legacy);
+    expect(migrated.completed).toEqual([0, 3]);
+    expect(migrated.current).toBe(6);
+
+    writeProgress(completeLesson(migrated, 4), file);
+    const reread = readProgress(file, legacy);
+    expect(reread.completed).toEqual([0, 3, 4]);
+    expect(reread.current).toBe(1);
+    expect(fs.statSync(file).mode & 0o777).toBe(0o600);
+    expect(fs.readdirSync(dir).sort()).toEqual(['learning_progress.json', 'onboard_progress.json']);
+  });
+
+  test('starts fresh when the file is corrupt', () => {
+    const file = path.join(dir, 'learning_progress.json');
+    fs.writeFileSync(file, '{not json');
+    expect(readProgress(file, path.join(dir, 'missing.json')).completed).toEqual([]);
+  });
+
+  test('exports the value the Learning Hub keeps in localStorage', () => {
+    expect(exportProgress({ ...createProgress(), completed: [0, 2, 5] })).toBe('[0,2,5]');
+  });
+
+  test('imports arrays, keyed objects and progress files', () => {
+    const base = { ...createProgress(), completed: [0] };
+    expect(importProgress(base, '[2, 1, 99]').completed).toEqual([0, 1, 2]);
+    expect(importProgress(base, JSON.stringify({ [COMPLETED_LESSONS_KEY]: [3] })).completed).toEqual([0, 3]);
+    expect(importProgress(base, JSON.stringify({ completed: [4] }), 'replace').completed).toEqual([4]);
+    expect(importProgress(base, '[0, 1]').current).toBe(2);
+    expect(() => importProgress(base, 'nope')).toThrow('must be JSON');
+    expect(() => importProgress(base, '{"lessons": []}')).toThrow(COMPLETED_LESSONS_KEY);
+  });
+});
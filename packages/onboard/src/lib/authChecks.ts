@@ -2,21 +2,96 @@ import * as childProcess from 'child_process';
 import * as fs from 'fs';
 import * as os from 'os';
 import * as path from 'path';
+import { getServiceById } from '../data/services';
+import { DEFAULT_AUTH_CHECK_DEFINITIONS } from './authProbes';
+import type { AuthCheckDefinition, AuthProbe, CommandOutputProbe, ExpiryField } from './authProbes';
 
-export interface AuthStatus {
-  authenticated: boolean;
+export { DEFAULT_AUTH_CHECK_DEFINITIONS } from './authProbes';
+export type {
+  AuthCheckDefinition,
+  AuthProbe,
+  CommandExitProbe,
+  CommandJsonProbe,
+  CommandOutputProbe,
+  EnvProbe,
+  ExpiryField,
+  FileProbe,
+  JsonFileProbe,
+} from './authProbes';
+
+/**
+ * Why a service is or is not usable. `missing-cli` and `unauthenticated` are
+ * told apart so the UI can offer an install instead of a login.
+ */
+export type AuthState = 'authenticated' | 'expired' | 'unauthenticated' | 'missing-cli' | 'unknown';
+
+/**
+ * How the credential was obtained: browser login, a token stored by the CLI,
+ * an API key, or a token from the environment.
+ */
+export type AuthMethod = 'oauth' | 'token' | 'api-key' | 'env-var';
+
+export interface AuthDetails {
+  /** Human-readable summary (email, IP, or where the token came from) */
   details?: string;
+  /** Account identity (email or username) */
+  account?: string;
+  /** Organization, team or tailnet */
+  org?: string;
+  method?: AuthMethod;
+  /** ISO 8601 credential expiry, when the CLI records one */
+  expiresAt?: string;
+  /** OAuth scopes granted to the token (gh) */
+  scopes?: string[];
+}
+
+export interface AuthStatus extends AuthDetails {
+  authenticated: boolean;
+  state: AuthState;
+  /** Command that fixes an expired or missing login (see getFixCommand) */
+  fix?: string;
 }
 
 type ExecSync = (command: string, options?: childProcess.ExecSyncOptions & { encoding?: 'utf-8' }) => string;
 
+/**
+ * Runs a shell command and resolves with stdout. Must reject on a non-zero
+ * exit, on timeout, and when the signal aborts (killing the process).
+ */
+type ExecAsync = (command: string, options: { timeout: number; signal: AbortSignal }) => Promise<string>;
+
+/**
+ * Context passed to each async probe: its own deadline and cancellation signal.
+ */
+export interface AsyncCheckContext {
+  signal: AbortSignal;
+  timeoutMs: number;
+}
+
+export type AsyncAuthCheck = (context: AsyncCheckContext) => Promise<AuthStatus>;
+
+export interface CheckAllServicesAsyncOptions {
+  /** Deadline for each probe in milliseconds (default 5000) */
+  timeoutMs?: number;
+  /** Per-service deadline overrides, keyed by service id */
+  timeouts?: Record<string, number>;
+  /** Aborting cancels outstanding probes and rejects with the abort reason */
+  signal?: AbortSignal;
+  /** Called as each service resolves, so a UI can render results incrementally */
+  onResult?: (id: string, status: AuthStatus) => void;
+}
+
+const DEFAULT_CHECK_TIMEOUT_MS = 5000;
+
 interface AuthCheckDeps {
   execSync: ExecSync;
+  execAsync: ExecAsync;
   existsSync: typeof fs.existsSync;
   readFileSync: typeof fs.readFileSync;
   homedir: () => string;
   env: NodeJS.ProcessEnv;
   commandExists: (command: string) => boolean;
+  now: () => number;
 }
 
 function isExecutable(filePath: string): boolean {
@@ -53,13 +128,27 @@ function defaultCommandExists(command: string): boolean {
   return false;
 }
 
+function defaultExecAsync(command: string, options: { timeout: number; signal: AbortSignal }): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const child = childProcess.exec(
+      command,
+      { encoding: 'utf-8', timeout: options.timeout, signal: options.signal, windowsHide: true },
+      (error, stdout) => (error ? reject(error) : resolve(stdout)),
+    );
+    // Never let a CLI block on an interactive prompt
+    child.stdin?.end();
+  });
+}
+
 const defaultDeps: AuthCheckDeps = {
   execSync: childProcess.execSync,
+  execAsync: defaultExecAsync,
   existsSync: fs.existsSync,
   readFileSync: fs.readFileSync,
   homedir: os.homedir,
   env: process.env,
   commandExists: defaultCommandExists,
+  now: Date.now,
 };
 
 function safeReadJson<T>(readFileSync: typeof fs.readFileSync, filePath: string): T | null {
@@ -71,229 +160,509 @@ function safeReadJson<T>(readFileSync: typeof fs.readFileSync, filePath: string)
   }
 }
 
-export function createAuthChecks(overrides: Partial<AuthCheckDeps> = {}) {
+function decodeJwtClaims(token: string | undefined): Record<string, unknown> | null {
+  const payload = token?.split('.')[1];
+  if (!payload) {
+    return null;
+  }
+  try {
+    const claims: unknown = JSON.parse(Buffer.from(payload, 'base64url').toString('utf-8'));
+    return typeof claims === 'object' && claims !== null ? (claims as Record<string, unknown>) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Drop unset fields so statuses compare and serialize cleanly
+ */
+function compactDetails(fields: AuthDetails): AuthDetails {
+  return Object.fromEntries(Object.entries(fields).filter(([, value]) => value !== undefined)) as AuthDetails;
+}
+
+function compactStatus(status: AuthStatus): AuthStatus {
+  return { ...(compactDetails(status) as AuthStatus), authenticated: status.authenticated, state: status.state };
+}
+
+function epochToIso(value: unknown, unit: 'ms' | 's'): string | undefined {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    return undefined;
+  }
+  return new Date(unit === 's' ? value * 1000 : value).toISOString();
+}
+
+interface CommandRequest {
+  command: string;
+  allowStderrFallback?: boolean;
+}
+
+interface CommandResult {
+  /** The command exited 0 */
+  ok: boolean;
+  /** Trimmed output, or null when empty or the command failed */
+  output: string | null;
+}
+
+/**
+ * A probe evaluation. It yields the commands it needs and receives their
+ * results, so one implementation serves both the sync and async runners.
+ */
+type ProbeSteps = Generator<CommandRequest, AuthStatus | null, CommandResult>;
+
+/**
+ * Read a dotted field path. `{a.b}` segments are replaced by the value of
+ * that field first, e.g. `User.{Self.UserID}.LoginName`.
+ */
+function getField(data: unknown, fieldPath: string): unknown {
+  const resolved = fieldPath.replace(/\{([^}]+)\}/g, (_, inner: string) => String(getField(data, inner) ?? ''));
+  return resolved
+    .split('.')
+    .reduce<unknown>(
+      (value, key) => (value && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined),
+      data,
+    );
+}
+
+/**
+ * Read a field, or a JWT claim of a string field (`tokens.id_token#email`)
+ */
+function readField(data: unknown, ref: string): unknown {
+  const [fieldPath, claim] = ref.split('#');
+  const value = getField(data, fieldPath);
+  if (claim === undefined) {
+    return value;
+  }
+  return typeof value === 'string' ? decodeJwtClaims(value)?.[claim] : undefined;
+}
+
+function readString(data: unknown, ref: string | undefined): string | undefined {
+  const value = ref ? readField(data, ref) : undefined;
+  return typeof value === 'string' && value ? value : undefined;
+}
+
+function readExpiry(data: unknown, expiry: ExpiryField | undefined): string | undefined {
+  if (!expiry) {
+    return undefined;
+  }
+  const value = readField(data, expiry.field);
+  if (expiry.unit === 'iso') {
+    return typeof value === 'string' && !Number.isNaN(Date.parse(value)) ? value : undefined;
+  }
+  return epochToIso(value, expiry.unit);
+}
+
+function matchGroup(text: string, pattern: RegExp | undefined): string | undefined {
+  return pattern?.exec(text)?.[1]?.trim() || undefined;
+}
+
+/**
+ * Split "'gist', 'read:org', 'repo'" into ['gist', 'read:org', 'repo']
+ */
+function parseList(text: string | undefined): string[] | undefined {
+  return text
+    ?.split(',')
+    .map((item) => item.trim().replace(/^['"]|['"]$/g, ''))
+    .filter(Boolean);
+}
+
+/**
+ * Login command for a check: its own `fix`, else the catalog's postInstallCommand
+ */
+export function getFixCommand(definition: AuthCheckDefinition): string | undefined {
+  return definition.fix ?? getServiceById(definition.id)?.postInstallCommand;
+}
+
+function isCommandProbe(probe: AuthProbe): boolean {
+  return probe.type.startsWith('command-');
+}
+
+export function createAuthChecks(
+  overrides: Partial<AuthCheckDeps> = {},
+  definitions: AuthCheckDefinition[] = DEFAULT_AUTH_CHECK_DEFINITIONS,
+) {
   const deps: AuthCheckDeps = { ...defaultDeps, ...overrides };
   const homedir = deps.homedir();
 
-  const runCommand = (
-    command: string,
-    options: { allowStderrFallback?: boolean } = {},
-  ): string | null => {
+  const runCommand = (request: CommandRequest): CommandResult => {
     try {
-      const output = deps.execSync(command, {
+      const output = deps.execSync(request.command, {
         encoding: 'utf-8',
         stdio: ['ignore', 'pipe', 'ignore'],
         timeout: 5000,
       });
       const trimmed = output.trim();
-      if (trimmed) return trimmed;
+      if (trimmed || !request.allowStderrFallback) {
+        return { ok: true, output: trimmed || null };
+      }
 
       // Some CLIs (notably `gh auth status`) write human output to stderr.
       // Only fall back to stderr capture when stdout is empty to avoid breaking
       // JSON parsing for commands that emit JSON on stdout.
-      if (options.allowStderrFallback) {
-        const mergedOutput = deps.execSync(`${command} 2>&1`, {
-          encoding: 'utf-8',
-          stdio: ['ignore', 'pipe', 'ignore'],
-          timeout: 5000,
-        });
-        const mergedTrimmed = mergedOutput.trim();
-        return mergedTrimmed ? mergedTrimmed : null;
-      }
-
-      return null;
+      const mergedOutput = deps.execSync(`${request.command} 2>&1`, {
+        encoding: 'utf-8',
+        stdio: ['ignore', 'pipe', 'ignore'],
+        timeout: 5000,
+      });
+      return { ok: true, output: mergedOutput.trim() || null };
     } catch {
-      return null;
+      return { ok: false, output: null };
     }
   };
 
-  const checkTailscale = (): AuthStatus => {
-    if (!deps.commandExists('tailscale')) {
-      return { authenticated: false };
-    }
+  const runCommandAsync = async (request: CommandRequest, context: AsyncCheckContext): Promise<CommandResult> => {
     try {
-      const result = runCommand('tailscale status --json');
-      if (!result) {
-        return { authenticated: false };
+      const execOptions = { timeout: context.timeoutMs, signal: context.signal };
+      const trimmed = (await deps.execAsync(request.command, execOptions)).trim();
+      if (trimmed || !request.allowStderrFallback) {
+        return { ok: true, output: trimmed || null };
       }
-      const status = JSON.parse(result) as { BackendState?: string };
-      if (status.BackendState === 'Running') {
-        const ip = runCommand('tailscale ip -4');
-        return ip ? { authenticated: true, details: `IP: ${ip}` } : { authenticated: true };
-      }
-      return { authenticated: false };
+
+      // Same stderr fallback as runCommand (gh auth status writes to stderr)
+      const mergedOutput = await deps.execAsync(`${request.command} 2>&1`, execOptions);
+      return { ok: true, output: mergedOutput.trim() || null };
     } catch {
-      return { authenticated: false };
+      return { ok: false, output: null };
     }
   };
 
-  const checkClaude = (): AuthStatus => {
-    const configPaths = [
-      path.join(homedir, '.claude', 'config.json'),
-      path.join(homedir, '.config', 'claude', 'config.json'),
-    ];
-
-    for (const configPath of configPaths) {
-      if (deps.existsSync(configPath)) {
-        const config = safeReadJson<{ user?: { email?: string } }>(deps.readFileSync, configPath);
-        if (config?.user?.email) {
-          return { authenticated: true, details: config.user.email };
-        }
-        return { authenticated: true };
-      }
+  const expandPath = (template: string): string =>
+    template
+      .replace(/\$\{(\w+)(?::-([^}]*))?\}/g, (_, name: string, fallback?: string) => deps.env[name] || fallback || '')
+      .replace(/^~(?=\/|$)/, homedir);
+
+  const readText = (filePath: string): string | null => {
+    try {
+      return deps.readFileSync(filePath, 'utf-8');
+    } catch {
+      return null;
     }
-    return { authenticated: false };
   };
 
-  const checkCodex = (): AuthStatus => {
-    const codexHome = deps.env.CODEX_HOME ?? path.join(homedir, '.codex');
-    const authPath = path.join(codexHome, 'auth.json');
-    if (!deps.existsSync(authPath)) {
-      return { authenticated: false };
-    }
-    const auth = safeReadJson<{ access_token?: string; accessToken?: string }>(deps.readFileSync, authPath);
-    if (auth?.access_token || auth?.accessToken) {
-      return { authenticated: true };
+  // Status builders: every probe reports a state, and a fix command when the
+  // user can act on it
+
+  const authenticatedStatus = (
+    definition: AuthCheckDefinition,
+    details: AuthDetails = {},
+    options: { refreshable?: boolean } = {},
+  ): AuthStatus => {
+    const fields = compactDetails(details);
+    // CLIs holding a refresh token renew expired access tokens on their own
+    const expiry = fields.expiresAt ? Date.parse(fields.expiresAt) : NaN;
+    if (!options.refreshable && expiry <= deps.now()) {
+      return compactStatus({ authenticated: false, state: 'expired', ...fields, fix: getFixCommand(definition) });
     }
-    return { authenticated: false };
+    return { authenticated: true, state: 'authenticated', ...fields };
   };
 
-  const checkGemini = (): AuthStatus => {
-    // Gemini CLI uses OAuth web login (like Claude Code and Codex CLI)
-    // Users authenticate via `gemini` command which opens browser login
-    // Credentials are stored in config files, NOT via API keys
-    const credPath = path.join(homedir, '.config', 'gemini', 'credentials.json');
-    if (deps.existsSync(credPath)) {
-      return { authenticated: true };
-    }
-    const legacyConfigPath = path.join(homedir, '.gemini', 'config');
-    if (deps.existsSync(legacyConfigPath)) {
-      return { authenticated: true };
+  const unauthenticatedStatus = (definition: AuthCheckDefinition, details: AuthDetails = {}): AuthStatus => {
+    const fields = compactDetails(details);
+    if (definition.cli && !deps.commandExists(definition.cli)) {
+      return { authenticated: false, state: 'missing-cli', details: `${definition.cli} is not installed`, ...fields };
     }
-    // Note: Just having the config directory is not enough - we need actual credential files
-    return { authenticated: false };
+    return compactStatus({ authenticated: false, state: 'unauthenticated', ...fields, fix: getFixCommand(definition) });
   };
 
-  const checkGitHub = (): AuthStatus => {
-    if (deps.commandExists('gh')) {
-      const output = runCommand('gh auth status -h github.com', { allowStderrFallback: true });
-      if (output && output.includes('Logged in to')) {
-        const match = output.match(/Logged in to .* as ([^\s]+)/i);
-        return { authenticated: true, details: match?.[1] };
-      }
-    }
+  const unknownStatus = (details: string): AuthStatus => ({ authenticated: false, state: 'unknown', details });
 
-    const hostsPath = path.join(homedir, '.config', 'gh', 'hosts.yml');
-    if (deps.existsSync(hostsPath)) {
-      try {
-        const contents = deps.readFileSync(hostsPath, 'utf-8');
-        const match = contents.match(/^\s*user:\s*([^\s]+)/m);
-        return { authenticated: true, details: match?.[1] };
-      } catch {
-        return { authenticated: true };
+  const readConfigExpiry = (
+    expiry: NonNullable<CommandOutputProbe['expiresAt']>,
+  ): { expiresAt?: string; refreshable: boolean } => {
+    for (const configPath of expiry.paths.map(expandPath)) {
+      if (!deps.existsSync(configPath)) {
+        continue;
+      }
+      const contents = readText(configPath);
+      if (contents !== null) {
+        return {
+          expiresAt: matchGroup(contents, expiry.pattern),
+          refreshable: expiry.refreshPattern?.test(contents) ?? false,
+        };
       }
     }
-    return { authenticated: false };
+    return { refreshable: false };
   };
 
-  const checkVercel = (): AuthStatus => {
-    if (deps.commandExists('vercel')) {
-      const output = runCommand('vercel whoami');
-      if (output && !output.toLowerCase().includes('not logged')) {
-        return { authenticated: true, details: output };
-      }
-    }
+  function* probeSteps(definition: AuthCheckDefinition, probe: AuthProbe): ProbeSteps {
+    switch (probe.type) {
+      case 'env':
+        return deps.env[probe.variable]
+          ? authenticatedStatus(definition, { details: `via ${probe.variable}`, method: probe.method ?? 'env-var' })
+          : null;
 
-    const authPaths = [
-      path.join(homedir, '.config', 'vercel', 'auth.json'),
-      path.join(homedir, '.vercel', 'auth.json'),
-    ];
-    for (const authPath of authPaths) {
-      if (!deps.existsSync(authPath)) {
-        continue;
+      case 'file':
+        for (const filePath of probe.paths.map(expandPath)) {
+          if (!deps.existsSync(filePath)) {
+            continue;
+          }
+          const contents = probe.nonEmpty || probe.account ? readText(filePath) : null;
+          if (probe.nonEmpty) {
+            // File exists but unreadable - cannot confirm authentication
+            if (contents === null) continue;
+            if (!contents.trim()) return unauthenticatedStatus(definition);
+          }
+          const account = contents !== null ? matchGroup(contents, probe.account) : undefined;
+          return authenticatedStatus(definition, { details: account, account, method: probe.method });
+        }
+        return null;
+
+      case 'json-file':
+        for (const filePath of probe.paths.map(expandPath)) {
+          if (!deps.existsSync(filePath)) {
+            continue;
+          }
+          const data = safeReadJson<unknown>(deps.readFileSync, filePath);
+          if (probe.require && !probe.require.some((field) => readField(data, field))) {
+            // File exists but contains no valid token or user - not authenticated
+            continue;
+          }
+          const account = readString(data, probe.account);
+          return authenticatedStatus(
+            definition,
+            {
+              details: account,
+              account,
+              org: readString(data, probe.org),
+              method: probe.method,
+              expiresAt: readExpiry(data, probe.expiresAt),
+            },
+            { refreshable: Boolean(probe.refreshToken && readField(data, probe.refreshToken)) },
+          );
+        }
+        return null;
+
+      case 'command-exit': {
+        const result = yield { command: probe.command };
+        if (!result.ok) {
+          return null;
+        }
+        const account = matchGroup(result.output ?? '', probe.account);
+        return authenticatedStatus(definition, { details: account, account, method: probe.method });
       }
-      const auth = safeReadJson<{ token?: string; user?: { email?: string } }>(deps.readFileSync, authPath);
-      if (auth?.user?.email) {
-        return { authenticated: true, details: auth.user.email };
+
+      case 'command-output': {
+        const { output } = yield { command: probe.command, allowStderrFallback: probe.allowStderrFallback };
+        if (!output) {
+          return probe.onFailure === 'unknown' ? unknownStatus(`${probe.command} failed`) : null;
+        }
+        if (probe.reject?.test(output)) {
+          return unauthenticatedStatus(definition);
+        }
+        if (!probe.match.test(output)) {
+          return null;
+        }
+        const account = matchGroup(output, probe.account);
+        const method = probe.methods?.find(({ pattern }) => pattern.test(output))?.method ?? probe.method;
+        const expiry =
+          probe.expiresAt && method === probe.expiresAt.when
+            ? readConfigExpiry(probe.expiresAt)
+            : { refreshable: false };
+        return authenticatedStatus(
+          definition,
+          {
+            details: account,
+            account,
+            org: matchGroup(output, probe.org),
+            method,
+            expiresAt: expiry.expiresAt,
+            scopes: parseList(matchGroup(output, probe.scopes)),
+          },
+          { refreshable: expiry.refreshable },
+        );
       }
-      if (auth?.token) {
-        return { authenticated: true };
+
+      case 'command-json': {
+        const { output } = yield { command: probe.command };
+        let data: unknown = null;
+        try {
+          data = output ? JSON.parse(output) : null;
+        } catch {
+          data = null;
+        }
+        if (!data || typeof data !== 'object') {
+          return unknownStatus(`${probe.command} failed`);
+        }
+        const value = getField(data, probe.field);
+        if (value !== probe.equals) {
+          return unauthenticatedStatus(definition, value !== undefined ? { details: String(value) } : {});
+        }
+        const status = authenticatedStatus(definition, {
+          account: readString(data, probe.account),
+          org: readString(data, probe.org),
+          method: probe.method,
+          expiresAt: readExpiry(data, probe.expiresAt),
+        });
+        if (!status.authenticated || !probe.details) {
+          return status;
+        }
+        const detail = yield { command: probe.details.command };
+        return detail.output ? { ...status, details: probe.details.format.replace('{output}', detail.output) } : status;
       }
-      // File exists but contains no valid token or user - not authenticated
     }
-    return { authenticated: false };
-  };
+  }
 
-  const checkSupabase = (): AuthStatus => {
-    if (deps.env.SUPABASE_ACCESS_TOKEN) {
-      return { authenticated: true, details: 'via SUPABASE_ACCESS_TOKEN' };
-    }
+  /**
+   * Probes to try for a service. Command probes are skipped when the CLI is
+   * missing, which is then reported as "missing-cli".
+   */
+  const probesFor = (definition: AuthCheckDefinition): AuthProbe[] => {
+    const cliMissing = definition.cli !== undefined && !deps.commandExists(definition.cli);
+    return definition.probes.filter((probe) => !(cliMissing && isCommandProbe(probe)));
+  };
 
-    const tokenPaths = [
-      path.join(homedir, '.supabase', 'access-token'),
-      path.join(homedir, '.config', 'supabase', 'access-token'),
-    ];
-    for (const tokenPath of tokenPaths) {
-      if (!deps.existsSync(tokenPath)) {
-        continue;
-      }
-      try {
-        const token = deps.readFileSync(tokenPath, 'utf-8').trim();
-        return token ? { authenticated: true } : { authenticated: false };
-      } catch {
-        // File exists but unreadable - cannot confirm authentication
-        continue;
+  const runDefinition = (definition: AuthCheckDefinition): AuthStatus => {
+    for (const probe of probesFor(definition)) {
+      const steps = probeSteps(definition, probe);
+      let step = steps.next();
+      while (!step.done) {
+        step = steps.next(runCommand(step.value));
       }
+      if (step.value) return step.value;
     }
-    // Note: config.toml existence alone doesn't indicate authentication
-    // It's created by `supabase init` but contains no credentials
-    return { authenticated: false };
+    return unauthenticatedStatus(definition);
   };
 
-  const checkWrangler = (): AuthStatus => {
-    if (deps.env.CLOUDFLARE_API_TOKEN) {
-      return { authenticated: true, details: 'via CLOUDFLARE_API_TOKEN' };
-    }
-    if (deps.commandExists('wrangler')) {
-      const output = runCommand('wrangler whoami');
-      if (output) {
-        if (!output.toLowerCase().includes('not authenticated')) {
-          const match = output.match(/email:\s*([^\s]+)/i);
-          return { authenticated: true, details: match?.[1] };
-        }
-        return { authenticated: false };
+  const runDefinitionAsync = async (
+    definition: AuthCheckDefinition,
+    context: AsyncCheckContext,
+  ): Promise<AuthStatus> => {
+    for (const probe of probesFor(definition)) {
+      const steps = probeSteps(definition, probe);
+      let step = steps.next();
+      while (!step.done) {
+        step = steps.next(await runCommandAsync(step.value, context));
       }
+      if (step.value) return step.value;
     }
+    return unauthenticatedStatus(definition);
+  };
+
+  // Registry: one definition per service, in registration order
+
+  const registry = new Map<string, AuthCheckDefinition>();
+  const AUTH_CHECKS: Record<string, () => AuthStatus> = {};
+  const ASYNC_AUTH_CHECKS: Record<string, AsyncAuthCheck> = {};
 
-    // Note: config file existence alone doesn't indicate authentication
-    // wrangler whoami is the reliable check; if it's not available or fails,
-    // we cannot confirm authentication
-    return { authenticated: false };
+  /**
+   * Register a service's auth check. A definition with an existing id
+   * replaces it in place.
+   *
+   * @example
+   * registerAuthCheck({
+   *   id: 'openrouter',
+   *   probes: [{ type: 'env', variable: 'OPENROUTER_API_KEY', method: 'api-key' }],
+   * });
+   */
+  const registerAuthCheck = (definition: AuthCheckDefinition): void => {
+    registry.set(definition.id, definition);
+    AUTH_CHECKS[definition.id] = () => runDefinition(definition);
+    ASYNC_AUTH_CHECKS[definition.id] = (context) => runDefinitionAsync(definition, context);
   };
 
-  const AUTH_CHECKS: Record<string, () => AuthStatus> = {
-    tailscale: checkTailscale,
-    'claude-code': checkClaude,
-    'codex-cli': checkCodex,
-    'gemini-cli': checkGemini,
-    github: checkGitHub,
-    vercel: checkVercel,
-    supabase: checkSupabase,
-    cloudflare: checkWrangler,
+  for (const definition of definitions) {
+    registerAuthCheck(definition);
+  }
+
+  const getAuthCheckDefinitions = (): AuthCheckDefinition[] => [...registry.values()];
+
+  const runAuthCheck = (id: string): AuthStatus => {
+    const check = AUTH_CHECKS[id];
+    if (!check) {
+      throw new Error(`Unknown auth check: ${id}`);
+    }
+    return check();
   };
 
+  const checkTailscale = (): AuthStatus => runAuthCheck('tailscale');
+  const checkClaude = (): AuthStatus => runAuthCheck('claude-code');
+  const checkCodex = (): AuthStatus => runAuthCheck('codex-cli');
+  const checkGemini = (): AuthStatus => runAuthCheck('gemini-cli');
+  const checkGitHub = (): AuthStatus => runAuthCheck('github');
+  const checkVercel = (): AuthStatus => runAuthCheck('vercel');
+  const checkSupabase = (): AuthStatus => runAuthCheck('supabase');
+  const checkWrangler = (): AuthStatus => runAuthCheck('cloudflare');
+
   const checkAllServices = (): Record<string, AuthStatus> => {
     const results: Record<string, AuthStatus> = {};
     for (const [id, check] of Object.entries(AUTH_CHECKS)) {
       try {
         results[id] = check();
       } catch {
-        results[id] = { authenticated: false };
+        results[id] = { authenticated: false, state: 'unknown' };
       }
     }
     return results;
   };
 
+  /**
+   * Run one probe with its own deadline. The probe's signal aborts on timeout
+   * (killing any child process) or when the parent signal aborts.
+   */
+  const runWithDeadline = async (
+    check: AsyncAuthCheck,
+    timeoutMs: number,
+    parentSignal?: AbortSignal,
+  ): Promise<AuthStatus> => {
+    const controller = new AbortController();
+    const onParentAbort = () => controller.abort(parentSignal?.reason);
+    parentSignal?.addEventListener('abort', onParentAbort, { once: true });
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const deadline = new Promise<AuthStatus>((resolve) => {
+      timer = setTimeout(() => {
+        controller.abort(new Error(`timed out after ${timeoutMs}ms`));
+        resolve({ authenticated: false, state: 'unknown', details: `timed out after ${timeoutMs}ms` });
+      }, timeoutMs);
+    });
+
+    try {
+      const probe = check({ signal: controller.signal, timeoutMs }).catch(
+        (): AuthStatus => ({ authenticated: false, state: 'unknown' }),
+      );
+      return await Promise.race([probe, deadline]);
+    } finally {
+      clearTimeout(timer);
+      parentSignal?.removeEventListener('abort', onParentAbort);
+    }
+  };
+
+  const checkAllServicesAsync = async (
+    options: CheckAllServicesAsyncOptions = {},
+  ): Promise<Record<string, AuthStatus>> => {
+    const { signal, onResult } = options;
+    signal?.throwIfAborted();
+
+    let removeAbortListener = () => {};
+    const aborted = new Promise<never>((_, reject) => {
+      if (!signal) return;
+      const onAbort = () => reject(signal.reason);
+      signal.addEventListener('abort', onAbort, { once: true });
+      removeAbortListener = () => signal.removeEventListener('abort', onAbort);
+    });
+
+    const results: Record<string, AuthStatus> = {};
+    const probes = Object.entries(ASYNC_AUTH_CHECKS).map(async ([id, check]) => {
+      const timeoutMs = options.timeouts?.[id] ?? options.timeoutMs ?? DEFAULT_CHECK_TIMEOUT_MS;
+      const status = await runWithDeadline(check, timeoutMs, signal);
+      if (signal?.aborted) return;
+      results[id] = status;
+      onResult?.(id, status);
+    });
+
+    try {
+      await Promise.race([Promise.all(probes), aborted]);
+    } finally {
+      removeAbortListener();
+    }
+
+    // Report services in registry order, not completion order
+    const ordered: Record<string, AuthStatus> = {};
+    for (const id of Object.keys(ASYNC_AUTH_CHECKS)) {
+      ordered[id] = results[id];
+    }
+    return ordered;
+  };
+
   return {
     checkTailscale,
     checkClaude,
@@ -305,6 +674,11 @@ export function createAuthChecks(overrides: Partial<AuthCheckDeps> = {}) {
     checkWrangler,
     AUTH_CHECKS,
     checkAllServices,
+    ASYNC_AUTH_CHECKS,
+    checkAllServicesAsync,
+    registerAuthCheck,
+    getAuthCheckDefinitions,
+    runAuthCheck,
   };
 }
 
@@ -319,6 +693,11 @@ const {
   checkWrangler,
   AUTH_CHECKS,
   checkAllServices,
+  ASYNC_AUTH_CHECKS,
+  checkAllServicesAsync,
+  registerAuthCheck,
+  getAuthCheckDefinitions,
+  runAuthCheck,
 } = createAuthChecks();
 
 export {
@@ -332,4 +711,9 @@ export {
   checkWrangler,
   AUTH_CHECKS,
   checkAllServices,
+  ASYNC_AUTH_CHECKS,
+  checkAllServicesAsync,
+  registerAuthCheck,
+  getAuthCheckDefinitions,
+  runAuthCheck,
 };
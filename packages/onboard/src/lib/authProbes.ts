@@ -0,0 +1,280 @@
+import type { AuthMethod } from './authChecks';
+
+/**
+ * Declarative auth probes. Each service lists probes that are tried in order;
+ * the first one that reaches a verdict wins, and a service whose probes all
+ * come up empty is reported as logged out (or missing its CLI).
+ *
+ * Paths expand `~` and `${VAR:-default}`. JSON field paths are dotted
+ * (`user.email`), may interpolate other fields (`User.{Self.UserID}.LoginName`)
+ * and may read a JWT claim from a string field (`tokens.id_token#email`).
+ */
+
+export interface ExpiryField {
+  field: string;
+  /** Epoch milliseconds, epoch seconds, or an ISO 8601 string */
+  unit: 'ms' | 's' | 'iso';
+}
+
+/** Authenticated when the variable is set */
+export interface EnvProbe {
+  type: 'env';
+  variable: string;
+  method?: AuthMethod;
+}
+
+/** Authenticated when one of the files exists (and is non-empty, if required) */
+export interface FileProbe {
+  type: 'file';
+  paths: string[];
+  /** An existing but blank file means logged out */
+  nonEmpty?: boolean;
+  /** First capture group over the file content */
+  account?: RegExp;
+  method?: AuthMethod;
+}
+
+/** Authenticated when one of the JSON files exists and has a truthy required field */
+export interface JsonFileProbe {
+  type: 'json-file';
+  paths: string[];
+  /** Any one of these fields must be truthy; omit to accept any existing file */
+  require?: string[];
+  account?: string;
+  org?: string;
+  expiresAt?: ExpiryField;
+  /** A refresh token means the CLI renews an expired access token by itself */
+  refreshToken?: string;
+  method?: AuthMethod;
+}
+
+/** Authenticated when the command exits 0 */
+export interface CommandExitProbe {
+  type: 'command-exit';
+  command: string;
+  /** First capture group over stdout */
+  account?: RegExp;
+  method?: AuthMethod;
+}
+
+/** Authenticated when the command output matches; `reject` means logged out */
+export interface CommandOutputProbe {
+  type: 'command-output';
+  command: string;
+  /** Capture stderr when stdout is empty (gh auth status writes to stderr) */
+  allowStderrFallback?: boolean;
+  match: RegExp;
+  reject?: RegExp;
+  /** Report "unknown" instead of trying the next probe when the command fails */
+  onFailure?: 'unknown';
+  account?: RegExp;
+  org?: RegExp;
+  /** Capture group holding a comma-separated, optionally quoted list */
+  scopes?: RegExp;
+  method?: AuthMethod;
+  /** First matching pattern overrides `method` */
+  methods?: { pattern: RegExp; method: AuthMethod }[];
+  /** Expiry recorded in the CLI's own config, applied when the resolved method is `when` */
+  expiresAt?: { paths: string[]; pattern: RegExp; refreshPattern?: RegExp; when: AuthMethod };
+}
+
+/** Authenticated when a field of the command's JSON output equals a value */
+export interface CommandJsonProbe {
+  type: 'command-json';
+  command: string;
+  field: string;
+  equals: string | number | boolean;
+  account?: string;
+  org?: string;
+  expiresAt?: ExpiryField;
+  method?: AuthMethod;
+  /** Follow-up command whose output replaces `details`, e.g. `IP: {output}` */
+  details?: { command: string; format: string };
+}
+
+export type AuthProbe =
+  | EnvProbe
+  | FileProbe
+  | JsonFileProbe
+  | CommandExitProbe
+  | CommandOutputProbe
+  | CommandJsonProbe;
+
+export interface AuthCheckDefinition {
+  /** Service.id in apps/web/lib/services.ts */
+  id: string;
+  /** Manifest module that installs the CLI */
+  moduleId?: string;
+  /** CLI binary; command probes are skipped and "missing-cli" is reported when it is absent */
+  cli?: string;
+  /** Login command; defaults to Service.postInstallCommand for the same id */
+  fix?: string;
+  probes: AuthProbe[];
+}
+
+export const DEFAULT_AUTH_CHECK_DEFINITIONS: AuthCheckDefinition[] = [
+  {
+    id: 'tailscale',
+    moduleId: 'network.tailscale',
+    cli: 'tailscale',
+    probes: [
+      {
+        type: 'command-json',
+        command: 'tailscale status --json',
+        field: 'BackendState',
+        equals: 'Running',
+        account: 'User.{Self.UserID}.LoginName',
+        org: 'CurrentTailnet.Name',
+        expiresAt: { field: 'Self.KeyExpiry', unit: 'iso' },
+        method: 'oauth',
+        details: { command: 'tailscale ip -4', format: 'IP: {output}' },
+      },
+    ],
+  },
+  {
+    id: 'claude-code',
+    moduleId: 'agents.claude',
+    cli: 'claude',
+    probes: [
+      {
+        type: 'json-file',
+        paths: ['~/.claude/.credentials.json'],
+        require: ['claudeAiOauth.accessToken'],
+        expiresAt: { field: 'claudeAiOauth.expiresAt', unit: 'ms' },
+        refreshToken: 'claudeAiOauth.refreshToken',
+        method: 'oauth',
+      },
+      {
+        type: 'json-file',
+        paths: ['~/.claude/config.json', '~/.config/claude/config.json'],
+        account: 'user.email',
+      },
+    ],
+  },
+  {
+    id: 'codex-cli',
+    moduleId: 'agents.codex',
+    cli: 'codex',
+    probes: [
+      {
+        // ChatGPT login stores JWTs: expiry from the access token, email from the ID token
+        type: 'json-file',
+        paths: ['${CODEX_HOME:-~/.codex}/auth.json'],
+        require: ['tokens.access_token', 'access_token', 'accessToken'],
+        account: 'tokens.id_token#email',
+        expiresAt: { field: 'tokens.access_token#exp', unit: 's' },
+        refreshToken: 'tokens.refresh_token',
+        method: 'oauth',
+      },
+      {
+        type: 'json-file',
+        paths: ['${CODEX_HOME:-~/.codex}/auth.json'],
+        require: ['OPENAI_API_KEY'],
+        method: 'api-key',
+      },
+    ],
+  },
+  {
+    // Gemini CLI uses OAuth web login (like Claude Code and Codex CLI)
+    // Credentials are stored in config files, NOT via API keys
+    id: 'gemini-cli',
+    moduleId: 'agents.gemini',
+    cli: 'gemini',
+    probes: [
+      {
+        type: 'json-file',
+        paths: ['~/.gemini/oauth_creds.json', '~/.config/gemini/credentials.json'],
+        expiresAt: { field: 'expiry_date', unit: 'ms' },
+        refreshToken: 'refresh_token',
+        method: 'oauth',
+      },
+      // Note: Just having the config directory is not enough - we need actual credential files
+      { type: 'file', paths: ['~/.gemini/config'], method: 'oauth' },
+    ],
+  },
+  {
+    id: 'github',
+    moduleId: 'cli.modern',
+    cli: 'gh',
+    probes: [
+      {
+        // Older gh prints "Logged in to github.com as octocat", newer "... account octocat (keyring)"
+        type: 'command-output',
+        command: 'gh auth status -h github.com',
+        allowStderrFallback: true,
+        match: /Logged in to/,
+        account: /Logged in to \S+ (?:as|account) ([^\s]+)/i,
+        scopes: /Token scopes:\s*(.+)/i,
+        method: 'oauth',
+        methods: [{ pattern: /\((?:GH_TOKEN|GITHUB_TOKEN)\)/, method: 'env-var' }],
+      },
+      { type: 'file', paths: ['~/.config/gh/hosts.yml'], account: /^\s*user:\s*([^\s]+)/m, method: 'oauth' },
+    ],
+  },
+  {
+    id: 'vercel',
+    moduleId: 'cloud.vercel',
+    cli: 'vercel',
+    probes: [
+      {
+        type: 'command-output',
+        command: 'vercel whoami',
+        match: /\S/,
+        reject: /not logged/i,
+        account: /([\s\S]+)/,
+        method: 'token',
+      },
+      {
+        type: 'json-file',
+        paths: ['~/.config/vercel/auth.json', '~/.vercel/auth.json'],
+        require: ['user.email', 'token'],
+        account: 'user.email',
+        method: 'token',
+      },
+    ],
+  },
+  {
+    id: 'supabase',
+    moduleId: 'cloud.supabase',
+    cli: 'supabase',
+    probes: [
+      { type: 'env', variable: 'SUPABASE_ACCESS_TOKEN' },
+      // Note: config.toml existence alone doesn't indicate authentication
+      // It's created by `supabase init` but contains no credentials
+      {
+        type: 'file',
+        paths: ['~/.supabase/access-token', '~/.config/supabase/access-token'],
+        nonEmpty: true,
+        method: 'token',
+      },
+    ],
+  },
+  {
+    id: 'cloudflare',
+    moduleId: 'cloud.wrangler',
+    cli: 'wrangler',
+    probes: [
+      { type: 'env', variable: 'CLOUDFLARE_API_TOKEN' },
+      {
+        // Note: config file existence alone doesn't indicate authentication;
+        // wrangler whoami is the reliable check
+        type: 'command-output',
+        command: 'wrangler whoami',
+        match: /\S/,
+        reject: /not authenticated/i,
+        onFailure: 'unknown',
+        account: /email:?\s*([^\s]+@[^\s]*[^\s.])/i,
+        // Account table rows look like "│ Dev's Account │ 0123abcd... │"
+        org: /^\s*│\s*(.+?)\s*│\s*[0-9a-f]{32}\s*│/m,
+        method: 'oauth',
+        methods: [{ pattern: /API Token/i, method: 'api-key' }],
+        expiresAt: {
+          paths: ['~/.config/.wrangler/config/default.toml', '~/.wrangler/config/default.toml'],
+          pattern: /^\s*expiration_time\s*=\s*"([^"]+)"/m,
+          refreshPattern: /^\s*refresh_token\s*=/m,
+          when: 'oauth',
+        },
+      },
+    ],
+  },
+];
@@ -0,0 +1,148 @@
+import { SERVICES } from '../data/services';
+import type { Service } from '../data/services';
+import { getFixCommand } from './authChecks';
+import type { AuthCheckDefinition, AuthStatus } from './authChecks';
+
+export interface AuthReportEntry {
+  id: string;
+  name: string;
+  required: boolean;
+  status: AuthStatus;
+}
+
+export interface AuthReport {
+  /** Every required service is authenticated */
+  ok: boolean;
+  services: AuthReportEntry[];
+  missingRequired: string[];
+}
+
+export function getServiceInfo(id: string): Service | undefined {
+  return SERVICES.find((service) => service.id === id);
+}
+
+/**
+ * Resolve a --require value: a comma-separated list of ids, `all`, or `none`.
+ * Without one, the catalog's essential-tier services are required.
+ *
+ * @throws Error naming any id that has no registered auth check
+ */
+export function resolveRequiredServices(spec: string | undefined, definitions: AuthCheckDefinition[]): string[] {
+  const ids = definitions.map((definition) => definition.id);
+  if (spec === undefined) {
+    return ids.filter((id) => getServiceInfo(id)?.tier === 'essential');
+  }
+  if (spec === 'all') return ids;
+  if (spec === 'none' || spec === '') return [];
+
+  const requested = spec
+    .split(',')
+    .map((id) => id.trim())
+    .filter(Boolean);
+  const unknown = requested.filter((id) => !ids.includes(id));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown service(s): ${unknown.join(', ')} (known: ${ids.join(', ')})`);
+  }
+  return requested;
+}
+
+export function buildAuthReport(statuses: Record<string, AuthStatus>, required: string[]): AuthReport {
+  const services = Object.entries(statuses).map(([id, status]) => ({
+    id,
+    name: getServiceInfo(id)?.name ?? id,
+    required: required.includes(id),
+    status,
+  }));
+  const missingRequired = services
+    .filter((entry) => entry.required && !entry.status.authenticated)
+    .map((entry) => entry.id);
+  return { ok: missingRequired.length === 0, services, missingRequired };
+}
+
+export function authReportToJson(report: AuthReport) {
+  return {
+    ok: report.ok,
+    missingRequired: report.missingRequired,
+    services: report.services.map(({ id, name, required, status }) => ({ id, name, required, ...status })),
+  };
+}
+
+const ANSI = {
+  green: '\x1b[0;32m',
+  yellow: '\x1b[0;33m',
+  red: '\x1b[0;31m',
+  dim: '\x1b[2m',
+  reset: '\x1b[0m',
+};
+
+// Same legend as onboard.sh: ✓ authenticated, ○ needs auth, — not installed
+const STATE_STYLE: Record<AuthStatus['state'], { symbol: string; color: string }> = {
+  authenticated: { symbol: '✓', color: ANSI.green },
+  expired: { symbol: '!', color: ANSI.red },
+  unauthenticated: { symbol: '○', color: ANSI.yellow },
+  'missing-cli': { symbol: '—', color: ANSI.dim },
+  unknown: { symbol: '?', color: ANSI.yellow },
+};
+
+/**
+ * Render the report as a table. Required services are marked with `*`.
+ */
+export function formatAuthTable(report: AuthReport, options: { color?: boolean } = {}): string {
+  const paint = (color: string, text: string) => (options.color ? `${color}${text}${ANSI.reset}` : text);
+
+  const rows = report.services.map(({ name, required, status }) => {
+    const nextStep = status.authenticated ? '' : (status.fix ?? status.details ?? '');
+    return {
+      status,
+      cells: [
+        `${STATE_STYLE[status.state].symbol} ${name}${required ? ' *' : ''}`,
+        status.state,
+        status.account ?? (status.authenticated ? (status.details ?? '') : ''),
+        nextStep,
+      ],
+    };
+  });
+
+  const header = ['Service', 'Status', 'Account', 'Next step'];
+  const widths = header.map((title, column) =>
+    Math.max(title.length, ...rows.map((row) => row.cells[column].length)),
+  );
+  const formatRow = (cells: string[]) =>
+    cells
+      .map((cell, column) => (column === cells.length - 1 ? cell : cell.padEnd(widths[column])))
+      .join('  ')
+      .trimEnd();
+
+  const lines = [paint(ANSI.dim, formatRow(header))];
+  for (const row of rows) {
+    lines.push(paint(STATE_STYLE[row.status.state].color, formatRow(row.cells)));
+  }
+
+  const authenticated = report.services.filter((entry) => entry.status.authenticated).length;
+  lines.push('');
+  lines.push(`${authenticated}/${report.services.length} services authenticated`);
+  if (report.missingRequired.length > 0) {
+    lines.push(paint(ANSI.red, `Required but not authenticated: ${report.missingRequired.join(', ')}`));
+  } else if (report.services.some((entry) => entry.required)) {
+    lines.push(paint(ANSI.green, 'All required services are authenticated (* = required)'));
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Login instructions for one service
+ */
+export function formatExplain(definition: AuthCheckDefinition, status: AuthStatus): string {
+  const service = getServiceInfo(definition.id);
+  const login = getFixCommand(definition);
+  const lines = [`${service?.name ?? definition.id} (${definition.id})`, `  Status:  ${status.state}`];
+  if (status.account) lines.push(`  Account: ${status.account}`);
+  if (status.expiresAt) lines.push(`  Expires: ${status.expiresAt}`);
+  if (status.state === 'missing-cli') {
+    lines.push(`  Install: ${definition.cli ?? definition.id} is not installed (run acfs doctor for details)`);
+  }
+  if (login) lines.push(`  Login:   ${login}`);
+  if (service?.docsUrl) lines.push(`  Docs:    ${service.docsUrl}`);
+  if (service?.signupUrl && !status.authenticated) lines.push(`  Signup:  ${service.signupUrl}`);
+  return lines.join('\n');
+}
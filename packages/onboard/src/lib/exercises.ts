@@ -0,0 +1,263 @@
+import * as childProcess from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { Lesson } from './lessons';
+
+export interface ExerciseResult {
+  passed: boolean;
+  /** What was found, shown next to the task */
+  detail?: string;
+}
+
+/**
+ * Read-only view of the machine handed to validators. Commands run with a
+ * short timeout and never throw: a failing command yields null.
+ */
+export interface ExerciseContext {
+  run: (command: string) => string | null;
+  exists: (filePath: string) => boolean;
+  readFile: (filePath: string) => string | null;
+  commandExists: (command: string) => boolean;
+  /** Expand a leading `~` to the home directory */
+  expandPath: (filePath: string) => string;
+  env: NodeJS.ProcessEnv;
+}
+
+export interface Exercise {
+  id: string;
+  /** The task as shown to the learner */
+  task: string;
+  /** How to get it done when validation fails */
+  hint?: string;
+  validate: (context: ExerciseContext) => ExerciseResult;
+}
+
+export interface ExerciseOutcome {
+  exercise: Exercise;
+  result: ExerciseResult;
+}
+
+export interface LessonCheck {
+  lessonId: number;
+  /** Every exercise passed (true for lessons without exercises) */
+  passed: boolean;
+  outcomes: ExerciseOutcome[];
+}
+
+type ExecSync = (command: string, options?: childProcess.ExecSyncOptions & { encoding?: 'utf-8' }) => string;
+
+interface ExerciseDeps {
+  execSync: ExecSync;
+  existsSync: typeof fs.existsSync;
+  readFileSync: typeof fs.readFileSync;
+  homedir: () => string;
+  env: NodeJS.ProcessEnv;
+  commandExists: (command: string) => boolean;
+}
+
+const EXERCISE_COMMAND_TIMEOUT_MS = 5000;
+
+function defaultCommandExists(command: string): boolean {
+  try {
+    childProcess.execSync(`command -v ${command}`, { stdio: 'ignore', timeout: EXERCISE_COMMAND_TIMEOUT_MS });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const defaultDeps: ExerciseDeps = {
+  execSync: childProcess.execSync as ExecSync,
+  existsSync: fs.existsSync,
+  readFileSync: fs.readFileSync,
+  homedir: os.homedir,
+  env: process.env,
+  commandExists: defaultCommandExists,
+};
+
+export const pass = (detail?: string): ExerciseResult => (detail ? { passed: true, detail } : { passed: true });
+export const fail = (detail?: string): ExerciseResult => (detail ? { passed: false, detail } : { passed: false });
+
+/**
+ * Commands from zsh/bash history files, oldest first. Handles zsh's extended
+ * format (`: 1700000000:0;git status`).
+ */
+export function readShellHistory(context: ExerciseContext): string[] {
+  const files = [context.env.HISTFILE, '~/.zsh_history', '~/.bash_history'].filter(
+    (file): file is string => Boolean(file),
+  );
+  const commands: string[] = [];
+  for (const file of new Set(files.map(context.expandPath))) {
+    const content = context.readFile(file);
+    if (content === null) continue;
+    for (const line of content.split('\n')) {
+      const command = line.replace(/^: \d+:\d+;/, '').trim();
+      if (command) commands.push(command);
+    }
+  }
+  return commands;
+}
+
+/**
+ * Whether `command` was run, alone or as part of a `&&`, `;` or `|` chain.
+ * Arguments after the command are allowed (`bd ready --json`).
+ */
+export function historyIncludes(history: string[], command: string): boolean {
+  return history.some((line) =>
+    line
+      .split(/&&|\|\||[;|]/)
+      .map((segment) => segment.trim())
+      .some((segment) => segment === command || segment.startsWith(`${command} `)),
+  );
+}
+
+/**
+ * Task: run a command at least once. Checks shell history, then atuin's.
+ */
+export function ranCommand(id: string, command: string, hint?: string): Exercise {
+  return {
+    id,
+    task: `Run \`${command}\``,
+    hint: hint ?? `Type \`${command}\` in any terminal, then check again`,
+    validate: (context) => {
+      if (historyIncludes(readShellHistory(context), command)) {
+        return pass();
+      }
+      if (context.commandExists('atuin')) {
+        const atuin = context.run('atuin history list --cmd-only');
+        if (atuin && historyIncludes(atuin.split('\n'), command)) {
+          return pass();
+        }
+      }
+      return fail(`\`${command}\` not found in your shell history`);
+    },
+  };
+}
+
+export function tmuxSession(id: string, name: string): Exercise {
+  return {
+    id,
+    task: `Create a tmux session named "${name}"`,
+    hint: `tmux new -s ${name}   (detach with Ctrl+a, d to keep it running)`,
+    validate: (context) => {
+      if (!context.commandExists('tmux')) {
+        return fail('tmux is not installed');
+      }
+      const sessions = context.run("tmux list-sessions -F '#{session_name}'");
+      if (sessions === null) {
+        return fail('No tmux server is running');
+      }
+      const names = sessions.split('\n').map((session) => session.trim()).filter(Boolean);
+      return names.includes(name) ? pass() : fail(`Running sessions: ${names.join(', ') || 'none'}`);
+    },
+  };
+}
+
+export function directoryExists(id: string, dir: string): Exercise {
+  return {
+    id,
+    task: `Create the directory ${dir}`,
+    hint: `mkdir -p ${dir}`,
+    validate: (context) => (context.exists(context.expandPath(dir)) ? pass() : fail(`${dir} does not exist`)),
+  };
+}
+
+export function gitRepoWithCommits(id: string, dir: string, minCommits = 1): Exercise {
+  return {
+    id,
+    task: `Turn ${dir} into a git repository with at least ${minCommits} commit${minCommits === 1 ? '' : 's'}`,
+    hint: `cd ${dir} && git init && git add -A && git commit -m "First commit"`,
+    validate: (context) => {
+      const repo = context.expandPath(dir);
+      if (!context.exists(path.join(repo, '.git'))) {
+        return fail(`${dir} is not a git repository`);
+      }
+      const count = Number(context.run(`git -C '${repo}' rev-list --count HEAD`)?.trim() ?? 0);
+      return count >= minCommits ? pass(`${count} commit${count === 1 ? '' : 's'}`) : fail('No commits yet');
+    },
+  };
+}
+
+export function commandSucceeds(id: string, task: string, command: string, hint?: string): Exercise {
+  return {
+    id,
+    task,
+    hint: hint ?? command,
+    validate: (context) => (context.run(command) !== null ? pass() : fail(`\`${command}\` failed`)),
+  };
+}
+
+const PRACTICE_PROJECT = '/data/projects/my-project';
+
+/**
+ * Exercises by lesson slug. Lessons without an entry complete without checks.
+ */
+export const LESSON_EXERCISES: Record<string, Exercise[]> = {
+  'linux-basics': [directoryExists('practice-dir', PRACTICE_PROJECT)],
+  'tmux-basics': [tmuxSession('work-session', 'work')],
+  'git-basics': [gitRepoWithCommits('first-commit', PRACTICE_PROJECT)],
+  'github-cli': [
+    commandSucceeds('gh-login', 'Log in to GitHub with the gh CLI', 'gh auth status', 'gh auth login'),
+  ],
+  beads: [ranCommand('bd-ready', 'bd ready')],
+};
+
+export function getLessonExercises(lesson: Lesson, registry: Record<string, Exercise[]> = LESSON_EXERCISES): Exercise[] {
+  return registry[lesson.slug] ?? [];
+}
+
+export function createExerciseRunner(
+  overrides: Partial<ExerciseDeps> = {},
+  registry: Record<string, Exercise[]> = LESSON_EXERCISES,
+) {
+  const deps: ExerciseDeps = { ...defaultDeps, ...overrides };
+  const home = () => deps.env.HOME || deps.homedir();
+
+  const context: ExerciseContext = {
+    run: (command) => {
+      try {
+        return deps.execSync(command, {
+          encoding: 'utf-8',
+          stdio: ['ignore', 'pipe', 'ignore'],
+          timeout: EXERCISE_COMMAND_TIMEOUT_MS,
+        });
+      } catch {
+        return null;
+      }
+    },
+    exists: (filePath) => deps.existsSync(filePath),
+    readFile: (filePath) => {
+      try {
+        return deps.readFileSync(filePath, 'utf-8') as string;
+      } catch {
+        return null;
+      }
+    },
+    commandExists: (command) => deps.commandExists(command),
+    expandPath: (filePath) => (filePath === '~' || filePath.startsWith('~/') ? path.join(home(), filePath.slice(1)) : filePath),
+    env: deps.env,
+  };
+
+  /**
+   * A validator that throws counts as a failure rather than ending the TUI
+   */
+  function runExercise(exercise: Exercise): ExerciseResult {
+    try {
+      return exercise.validate(context);
+    } catch (err) {
+      return fail(`Check failed: ${(err as Error).message}`);
+    }
+  }
+
+  function checkLesson(lesson: Lesson): LessonCheck {
+    const outcomes = getLessonExercises(lesson, registry).map((exercise) => ({ exercise, result: runExercise(exercise) }));
+    return { lessonId: lesson.id, passed: outcomes.every((outcome) => outcome.result.passed), outcomes };
+  }
+
+  return { context, runExercise, checkLesson };
+}
+
+const defaultRunner = createExerciseRunner();
+
+export const { runExercise, checkLesson } = defaultRunner;
@@ -0,0 +1,75 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { LESSONS } from '../data/lessons';
+import type { Lesson } from '../data/lessons';
+
+export { LESSONS };
+export type { Lesson };
+
+export const LEARNING_HUB_URL = 'https://agent-flywheel.com/learn';
+
+/**
+ * Directories searched for lesson markdown, in order: $ACFS_LESSONS_DIR,
+ * the installed copy, then the repo checkout this file lives in.
+ */
+export function getLessonDirs(env: NodeJS.ProcessEnv = process.env): string[] {
+  const home = env.HOME || os.homedir();
+  const dirs = [
+    path.join(home, '.acfs', 'onboard', 'lessons'),
+    path.resolve(__dirname, '../../../../acfs/onboard/lessons'),
+  ];
+  return env.ACFS_LESSONS_DIR ? [env.ACFS_LESSONS_DIR, ...dirs] : dirs;
+}
+
+/**
+ * "06_agents_login.md" -> "agents_login". The bash TUI and the web registry
+ * number the same lessons differently, so files are matched by name.
+ */
+export function lessonFileKey(file: string): string {
+  return file.replace(/^\d+_/, '').replace(/\.md$/, '');
+}
+
+/**
+ * Find a lesson by id ("4") or slug ("git-basics")
+ */
+export function findLesson(ref: string, lessons: Lesson[] = LESSONS): Lesson | undefined {
+  if (/^\d+$/.test(ref)) {
+    return lessons.find((lesson) => lesson.id === Number(ref));
+  }
+  return lessons.find((lesson) => lesson.slug === ref);
+}
+
+/**
+ * Locate a lesson's markdown: the exact file name first, then any file with
+ * the same name under a different number.
+ *
+ * @returns Absolute path, or null when the lesson only exists on the web
+ */
+export function resolveLessonFile(
+  lesson: Lesson,
+  dirs: string[] = getLessonDirs(),
+  readdir: (dir: string) => string[] = safeReaddir,
+): string | null {
+  const key = lessonFileKey(lesson.file);
+  for (const dir of dirs) {
+    const files = readdir(dir);
+    const match = files.includes(lesson.file) ? lesson.file : files.find((file) => lessonFileKey(file) === key);
+    if (match) {
+      return path.join(dir, match);
+    }
+  }
+  return null;
+}
+
+function safeReaddir(dir: string): string[] {
+  try {
+    return fs.readdirSync(dir);
+  } catch {
+    return [];
+  }
+}
+
+export function getLessonWebUrl(lesson: Lesson): string {
+  return `${LEARNING_HUB_URL}/${lesson.slug}`;
+}
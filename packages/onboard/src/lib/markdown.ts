@@ -0,0 +1,45 @@
+const STYLE = {
+  h1: '\x1b[1;35m',
+  h2: '\x1b[1;36m',
+  h3: '\x1b[1;33m',
+  bold: '\x1b[1m',
+  code: '\x1b[36m',
+  rule: '\x1b[90m',
+  reset: '\x1b[0m',
+};
+
+/**
+ * Render lesson markdown for the terminal, styled like the sed fallback in
+ * onboard.sh (used when glow, gum and bat are all missing). Without color
+ * the headings and emphasis markers are dropped and the text kept.
+ */
+export function renderMarkdown(markdown: string, options: { color?: boolean } = {}): string {
+  const paint = (style: string, text: string) => (options.color ? `${style}${text}${STYLE.reset}` : text);
+  const inline = (text: string) =>
+    text
+      .replace(/\*\*([^*]*)\*\*/g, (_, bold: string) => paint(STYLE.bold, bold))
+      .replace(/`([^`]*)`/g, (_, code: string) => paint(STYLE.code, code));
+
+  let inCode = false;
+  return markdown
+    .split('\n')
+    .map((line) => {
+      if (/^\s*```/.test(line)) {
+        inCode = !inCode;
+        return paint(STYLE.rule, line);
+      }
+      if (inCode) {
+        return paint(STYLE.code, line);
+      }
+      const heading = /^(#{1,3}) (.*)$/.exec(line);
+      if (heading) {
+        const style = [STYLE.h1, STYLE.h2, STYLE.h3][heading[1].length - 1];
+        return paint(style, inline(heading[2]));
+      }
+      if (line === '---') {
+        return paint(STYLE.rule, '─'.repeat(40));
+      }
+      return inline(line.replace(/^- /, '  • '));
+    })
+    .join('\n');
+}
@@ -0,0 +1,214 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { LESSONS, lessonFileKey } from './lessons';
+import type { Lesson } from './lessons';
+
+/**
+ * localStorage key the Learning Hub keeps completed lesson ids under
+ * (COMPLETED_LESSONS_KEY in apps/web/lib/lessonProgress.ts). Exports use
+ * exactly the value stored there: a sorted JSON array of lesson ids.
+ */
+export const COMPLETED_LESSONS_KEY = 'acfs-learning-hub-completed-lessons';
+
+export const PROGRESS_FORMAT_VERSION = 1;
+
+export interface LearningProgress {
+  version: typeof PROGRESS_FORMAT_VERSION;
+  /** Completed Learning Hub lesson ids, sorted and unique */
+  completed: number[];
+  /** Lesson to resume at */
+  current: number;
+  started_at: string;
+  last_accessed: string;
+}
+
+/**
+ * Lesson files of the original nine-lesson bash TUI, by its lesson index.
+ * Used to carry onboard_progress.json over to Learning Hub ids.
+ */
+export const LEGACY_LESSON_FILES = [
+  '00_welcome.md',
+  '01_linux_basics.md',
+  '02_ssh_basics.md',
+  '03_tmux_basics.md',
+  '04_agents_login.md',
+  '05_ntm_core.md',
+  '06_ntm_command_palette.md',
+  '07_flywheel_loop.md',
+  '08_keeping_updated.md',
+];
+
+export function getProgressFilePath(env: NodeJS.ProcessEnv = process.env): string {
+  return env.ACFS_LEARNING_PROGRESS_FILE || path.join(env.HOME || os.homedir(), '.acfs', 'learning_progress.json');
+}
+
+export function getLegacyProgressFilePath(env: NodeJS.ProcessEnv = process.env): string {
+  return env.ACFS_PROGRESS_FILE || path.join(env.HOME || os.homedir(), '.acfs', 'onboard_progress.json');
+}
+
+/**
+ * Same rules as normalizeCompletedLessons in lessonProgress.ts: integer ids
+ * of existing lessons, de-duplicated and sorted.
+ */
+export function normalizeCompletedLessons(values: readonly unknown[], lessons: Lesson[] = LESSONS): number[] {
+  const ids = new Set(lessons.map((lesson) => lesson.id));
+  const valid = values.filter((value): value is number => typeof value === 'number' && ids.has(value));
+  return Array.from(new Set(valid)).sort((a, b) => a - b);
+}
+
+export function getNextUncompletedLesson(completed: number[], lessons: Lesson[] = LESSONS): Lesson | undefined {
+  return lessons.find((lesson) => !completed.includes(lesson.id));
+}
+
+export function getCompletionPercentage(completed: number[], lessons: Lesson[] = LESSONS): number {
+  return lessons.length === 0 ? 0 : Math.round((completed.length / lessons.length) * 100);
+}
+
+export function createProgress(now: Date = new Date()): LearningProgress {
+  const timestamp = now.toISOString();
+  return { version: PROGRESS_FORMAT_VERSION, completed: [], current: 0, started_at: timestamp, last_accessed: timestamp };
+}
+
+/**
+ * Map the bash TUI's lesson indices to Learning Hub ids by lesson file name
+ */
+export function migrateLegacyProgress(raw: unknown, lessons: Lesson[] = LESSONS): LearningProgress {
+  const legacy = (raw ?? {}) as { completed?: unknown; current?: unknown; started_at?: unknown };
+  const toLessonId = (index: unknown): number | undefined => {
+    const file = typeof index === 'number' ? LEGACY_LESSON_FILES[index] : undefined;
+    return file ? lessons.find((lesson) => lessonFileKey(lesson.file) === lessonFileKey(file))?.id : undefined;
+  };
+
+  const progress = createProgress();
+  progress.completed = normalizeCompletedLessons(
+    Array.isArray(legacy.completed) ? legacy.completed.map(toLessonId) : [],
+    lessons,
+  );
+  progress.current = toLessonId(legacy.current) ?? getNextUncompletedLesson(progress.completed, lessons)?.id ?? 0;
+  if (typeof legacy.started_at === 'string') {
+    progress.started_at = legacy.started_at;
+  }
+  return progress;
+}
+
+function parseProgress(raw: unknown, lessons: Lesson[]): LearningProgress | null {
+  if (typeof raw !== 'object' || raw === null || (raw as { version?: unknown }).version !== PROGRESS_FORMAT_VERSION) {
+    return null;
+  }
+  const data = raw as Partial<LearningProgress>;
+  const fresh = createProgress();
+  const completed = normalizeCompletedLessons(Array.isArray(data.completed) ? data.completed : [], lessons);
+  return {
+    version: PROGRESS_FORMAT_VERSION,
+    completed,
+    current: typeof data.current === 'number' && lessons.some((lesson) => lesson.id === data.current) ? data.current : 0,
+    started_at: typeof data.started_at === 'string' ? data.started_at : fresh.started_at,
+    last_accessed: typeof data.last_accessed === 'string' ? data.last_accessed : fresh.last_accessed,
+  };
+}
+
+function readJson(filePath: string): unknown {
+  try {
+    return JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Load progress. On first run, progress from the bash TUI is carried over;
+ * an unreadable file starts fresh rather than blocking the tutorial.
+ */
+export function readProgress(
+  filePath: string = getProgressFilePath(),
+  legacyPath: string = getLegacyProgressFilePath(),
+  lessons: Lesson[] = LESSONS,
+): LearningProgress {
+  if (fs.existsSync(filePath)) {
+    return parseProgress(readJson(filePath), lessons) ?? createProgress();
+  }
+  if (fs.existsSync(legacyPath)) {
+    return migrateLegacyProgress(readJson(legacyPath), lessons);
+  }
+  return createProgress();
+}
+
+/**
+ * Write progress via a temp file and rename, like the bash TUI's mktemp + mv
+ */
+export function writeProgress(progress: LearningProgress, filePath: string = getProgressFilePath()): void {
+  const dir = path.dirname(filePath);
+  fs.mkdirSync(dir, { recursive: true });
+  const tempPath = path.join(dir, `.learning_progress.${process.pid}.${Date.now()}.tmp`);
+  try {
+    fs.writeFileSync(tempPath, `${JSON.stringify(progress, null, 2)}\n`, { mode: 0o600 });
+    fs.renameSync(tempPath, filePath);
+  } catch (err) {
+    fs.rmSync(tempPath, { force: true });
+    throw err;
+  }
+}
+
+/**
+ * Mark a lesson complete (pure) and move `current` to the next unfinished lesson
+ */
+export function completeLesson(
+  progress: LearningProgress,
+  lessonId: number,
+  lessons: Lesson[] = LESSONS,
+): LearningProgress {
+  const completed = normalizeCompletedLessons([...progress.completed, lessonId], lessons);
+  const next = getNextUncompletedLesson(completed, lessons);
+  return { ...progress, completed, current: next?.id ?? lessonId, last_accessed: new Date().toISOString() };
+}
+
+/**
+ * The value to store under COMPLETED_LESSONS_KEY in the browser
+ */
+export function exportProgress(progress: LearningProgress): string {
+  return JSON.stringify(progress.completed);
+}
+
+/**
+ * Apply exported progress. Accepts the Learning Hub's localStorage value
+ * (`[0,1,2]`), an object keyed by COMPLETED_LESSONS_KEY, or a progress file.
+ *
+ * @param mode - `merge` keeps lessons already completed here; `replace` does not
+ * @throws Error if the input is not JSON or holds no lesson list
+ */
+export function importProgress(
+  progress: LearningProgress,
+  input: string,
+  mode: 'merge' | 'replace' = 'merge',
+  lessons: Lesson[] = LESSONS,
+): LearningProgress {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(input);
+  } catch {
+    throw new Error('Progress import must be JSON, e.g. [0,1,2]');
+  }
+
+  let imported: unknown;
+  if (Array.isArray(raw)) {
+    imported = raw;
+  } else if (typeof raw === 'object' && raw !== null) {
+    const record = raw as Record<string, unknown>;
+    imported = record[COMPLETED_LESSONS_KEY] ?? record.completed;
+  }
+  if (!Array.isArray(imported)) {
+    throw new Error(`Expected a list of lesson ids or an object with "${COMPLETED_LESSONS_KEY}" or "completed"`);
+  }
+
+  const completed = normalizeCompletedLessons(
+    mode === 'merge' ? [...progress.completed, ...imported] : imported,
+    lessons,
+  );
+  return {
+    ...progress,
+    completed,
+    current: getNextUncompletedLesson(completed, lessons)?.id ?? progress.current,
+    last_accessed: new Date().toISOString(),
+  };
+}
@@ -0,0 +1,305 @@
+#!/usr/bin/env bun
+/**
+ * ACFS Onboarding TUI
+ * Terminal version of the Learning Hub: same lessons, ids and progress format
+ * as the website (apps/web/lib/lessons.ts, lessonProgress.ts).
+ *
+ * Usage:
+ *   bun run src/onboard.ts                  # interactive menu
+ *   bun run src/onboard.ts show <id|slug>
+ *   bun run src/onboard.ts check <id|slug>  # validate the lesson's exercises
+ *   bun run src/onboard.ts export           # progress for the website
+ *   bun run src/onboard.ts import <file|->  # progress from the website
+ */
+
+import { spawnSync } from 'child_process';
+import * as fs from 'fs';
+import * as readline from 'readline/promises';
+import { checkLesson, getLessonExercises } from './lib/exercises';
+import type { LessonCheck } from './lib/exercises';
+import { LESSONS, findLesson, getLessonWebUrl, resolveLessonFile } from './lib/lessons';
+import type { Lesson } from './lib/lessons';
+import { renderMarkdown } from './lib/markdown';
+import {
+  COMPLETED_LESSONS_KEY,
+  completeLesson,
+  createProgress,
+  exportProgress,
+  getCompletionPercentage,
+  getNextUncompletedLesson,
+  getProgressFilePath,
+  importProgress,
+  readProgress,
+  writeProgress,
+} from './lib/progress';
+import type { LearningProgress } from './lib/progress';
+
+const COLOR = Boolean(process.stdout.isTTY) && !process.env.NO_COLOR;
+const paint = (style: string, text: string) => (COLOR ? `${style}${text}\x1b[0m` : text);
+const green = (text: string) => paint('\x1b[0;32m', text);
+const cyan = (text: string) => paint('\x1b[0;36m', text);
+const dim = (text: string) => paint('\x1b[2m', text);
+const bold = (text: string) => paint('\x1b[1m', text);
+const red = (text: string) => paint('\x1b[0;31m', text);
+
+function showHelp(): void {
+  console.log(`
+ACFS Onboarding
+
+Usage: acfs-onboard [command]
+
+Commands:
+  (none)                 Interactive lesson menu
+  list                   Lessons with completion status
+  show <id|slug>         Print a lesson
+  check <id|slug>        Check a lesson's exercises against this machine
+  complete <id|slug>     Mark a lesson complete (its exercises must pass)
+  export                 Print progress to paste into the Learning Hub
+  import <file|->        Merge progress exported from the Learning Hub
+                         (--replace to overwrite instead of merging)
+  reset                  Start over (the old file is kept as a backup)
+  --help                 Show this help message
+
+Progress is stored in ${getProgressFilePath()}
+(override with ACFS_LEARNING_PROGRESS_FILE). Lessons 0-19 use the same ids as
+the website, so exported progress lines up on both sides.
+`);
+}
+
+function progressBar(percent: number, width = 20): string {
+  const filled = Math.round((percent / 100) * width);
+  return `${green('█'.repeat(filled))}${dim('░'.repeat(width - filled))} ${percent}%`;
+}
+
+function formatLessonList(progress: LearningProgress): string {
+  const next = getNextUncompletedLesson(progress.completed);
+  const lines = [
+    bold('ACFS Learning Hub'),
+    `${progressBar(getCompletionPercentage(progress.completed))}  ${progress.completed.length}/${LESSONS.length} lessons`,
+    '',
+  ];
+  for (const lesson of LESSONS) {
+    const done = progress.completed.includes(lesson.id);
+    const marker = done ? green('✓') : lesson.id === next?.id ? cyan('→') : ' ';
+    const web = resolveLessonFile(lesson) ? '' : dim(' (web)');
+    lines.push(`${marker} ${String(lesson.id).padStart(2)}. ${lesson.title}${web} ${dim(`· ${lesson.duration}`)}`);
+  }
+  return lines.join('\n');
+}
+
+function formatExercises(lesson: Lesson): string[] {
+  const exercises = getLessonExercises(lesson);
+  if (exercises.length === 0) return [];
+  return [
+    '',
+    bold('Exercises'),
+    ...exercises.map((exercise) => `  ☐ ${exercise.task}`),
+    dim('  Completing this lesson checks these on this machine.'),
+  ];
+}
+
+function renderLesson(lesson: Lesson): string {
+  const header = [bold(`Lesson ${lesson.id}: ${lesson.title}`), dim(`${lesson.description} · ${lesson.duration}`), ''];
+  const file = resolveLessonFile(lesson);
+  if (!file) {
+    return [
+      ...header,
+      'This lesson is interactive and lives on the website:',
+      `  ${cyan(getLessonWebUrl(lesson))}`,
+      '',
+      'Mark it complete here once you have worked through it.',
+      ...formatExercises(lesson),
+    ].join('\n');
+  }
+  return [...header, renderMarkdown(fs.readFileSync(file, 'utf-8'), { color: COLOR }), ...formatExercises(lesson)].join('\n');
+}
+
+function formatLessonCheck(check: LessonCheck): string {
+  return check.outcomes
+    .map(({ exercise, result }) => {
+      const line = `${result.passed ? green('✓') : red('✗')} ${exercise.task}${result.detail ? dim(` (${result.detail})`) : ''}`;
+      return result.passed || !exercise.hint ? line : `${line}\n    ${dim('Try:')} ${cyan(exercise.hint)}`;
+    })
+    .join('\n');
+}
+
+/**
+ * Show long lessons through a pager when attached to a terminal
+ */
+function page(text: string): void {
+  if (!process.stdout.isTTY) {
+    console.log(text);
+    return;
+  }
+  const pager = process.env.PAGER || 'less -R';
+  const result = spawnSync(pager, { input: text, stdio: ['pipe', 'inherit', 'inherit'], shell: true });
+  if (result.error || result.status === 127) {
+    console.log(text);
+  }
+}
+
+function requireLesson(ref: string | undefined): Lesson {
+  const lesson = ref !== undefined ? findLesson(ref) : undefined;
+  if (!lesson) {
+    console.error(`${ref ? `Unknown lesson: ${ref}` : 'A lesson id or slug is required'} (0-${LESSONS.length - 1})`);
+    process.exit(2);
+  }
+  return lesson;
+}
+
+async function interactive(initial: LearningProgress): Promise<void> {
+  const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+  let progress = initial;
+  const save = (next: LearningProgress) => {
+    progress = next;
+    writeProgress(progress);
+  };
+
+  try {
+    let lesson: Lesson | undefined;
+    let showLesson = true;
+    for (;;) {
+      if (!lesson) {
+        console.clear();
+        console.log(formatLessonList(progress));
+        const answer = (await rl.question(`\nLesson number, ${bold('Enter')} for the next one, or ${bold('q')} to quit: `)).trim();
+        if (answer === 'q') return;
+        lesson = answer === '' ? (getNextUncompletedLesson(progress.completed) ?? LESSONS[0]) : findLesson(answer);
+        continue;
+      }
+
+      if (showLesson) {
+        save({ ...progress, current: lesson.id, last_accessed: new Date().toISOString() });
+        page(renderLesson(lesson));
+      }
+      showLesson = true;
+      const choice = (
+        await rl.question(`\n${bold('c')} complete & continue · ${bold('n')} next · ${bold('p')} previous · ${bold('m')} menu · ${bold('q')} quit: `)
+      ).trim();
+
+      const current: Lesson = lesson;
+      if (choice === 'c') {
+        const check = checkLesson(current);
+        if (check.outcomes.length > 0) {
+          console.log(`\n${formatLessonCheck(check)}`);
+        }
+        if (!check.passed) {
+          console.log(red('\nFinish the exercises above, then press c again.'));
+          showLesson = false;
+          continue;
+        }
+        save(completeLesson(progress, current.id));
+        console.log(green(`\n✓ ${current.title} complete`));
+        lesson = getNextUncompletedLesson(progress.completed);
+        if (!lesson) {
+          console.log(green('All lessons complete. Nice work!'));
+          return;
+        }
+      } else if (choice === 'n') {
+        lesson = LESSONS.find((candidate) => candidate.id === current.id + 1);
+      } else if (choice === 'p') {
+        lesson = LESSONS.find((candidate) => candidate.id === current.id - 1) ?? current;
+      } else if (choice === 'q') {
+        return;
+      } else {
+        lesson = undefined;
+      }
+    }
+  } finally {
+    rl.close();
+  }
+}
+
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+  if (args.includes('--help') || args.includes('-h')) {
+    showHelp();
+    process.exit(0);
+  }
+
+  const [command, target] = args.filter((arg) => !arg.startsWith('--'));
+  const progress = readProgress();
+
+  switch (command) {
+    case undefined:
+      if (!process.stdin.isTTY) {
+        console.log(formatLessonList(progress));
+        return;
+      }
+      await interactive(progress);
+      return;
+
+    case 'list':
+    case 'status':
+      console.log(formatLessonList(progress));
+      return;
+
+    case 'show':
+      console.log(renderLesson(requireLesson(target)));
+      return;
+
+    case 'check': {
+      const check = checkLesson(requireLesson(target));
+      console.log(check.outcomes.length > 0 ? formatLessonCheck(check) : 'This lesson has no exercises.');
+      process.exit(check.passed ? 0 : 1);
+    }
+
+    case 'complete': {
+      const lesson = requireLesson(target);
+      const check = checkLesson(lesson);
+      if (!check.passed) {
+        console.error(formatLessonCheck(check));
+        console.error(`\n${lesson.title} is not complete until its exercises pass.`);
+        process.exit(1);
+      }
+      writeProgress(completeLesson(progress, lesson.id));
+      console.log(`✓ ${lesson.title} marked complete`);
+      return;
+    }
+
+    case 'export':
+      console.log(exportProgress(progress));
+      console.error(
+        dim(`In the Learning Hub's browser console: localStorage.setItem("${COMPLETED_LESSONS_KEY}", '${exportProgress(progress)}')`),
+      );
+      return;
+
+    case 'import': {
+      if (!target) {
+        console.error('import requires a file path, or - to read stdin');
+        process.exit(2);
+      }
+      try {
+        const input = fs.readFileSync(target === '-' ? 0 : target, 'utf-8');
+        const next = importProgress(progress, input, args.includes('--replace') ? 'replace' : 'merge');
+        writeProgress(next);
+        console.log(`Imported progress: ${next.completed.length}/${LESSONS.length} lessons complete`);
+      } catch (err) {
+        console.error(`Import failed: ${(err as Error).message}`);
+        process.exit(1);
+      }
+      return;
+    }
+
+    case 'reset': {
+      const file = getProgressFilePath();
+      if (fs.existsSync(file)) {
+        const backup = `${file}.bak.${Date.now()}`;
+        fs.copyFileSync(file, backup);
+        console.log(dim(`Backed up previous progress to: ${backup}`));
+      }
+      writeProgress(createProgress());
+      console.log('Progress reset.');
+      return;
+    }
+
+    default:
+      console.error(`Unknown command: ${command} (see --help)`);
+      process.exit(2);
+  }
+}
+
+main().catch((error: unknown) => {
+  console.error('Error:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
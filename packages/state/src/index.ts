@@ -0,0 +1,49 @@
+/**
+ * @acfs/state
+ * Typed access to the ACFS installer state file (~/.acfs/state.json)
+ */
+
+// Export types
+export type {
+  AcfsState,
+  InstallMode,
+  PhaseId,
+  PhaseProgress,
+  PhaseStatus,
+  StateError,
+  StateErrorCode,
+  StateProgress,
+  StateResult,
+  UbuntuUpgradeStage,
+  UbuntuUpgradeState,
+  UbuntuUpgradeStep,
+} from './types.js';
+
+// Export schema types (inferred from Zod)
+export type { StateInput, StateOutput, StateV2Input } from './schema.js';
+
+// Export Zod schemas for advanced usage
+export {
+  STATE_SCHEMA_VERSION,
+  InstallModeSchema,
+  StateSchema,
+  StateV2Schema,
+  UbuntuUpgradeSchema,
+  UbuntuUpgradeStepSchema,
+} from './schema.js';
+
+// Export state file API
+export {
+  PHASE_IDS,
+  PHASE_NAMES,
+  isPhaseId,
+  getStateFilePath,
+  migrateState,
+  parseStateString,
+  readStateFile,
+  createInitialState,
+  writeStateFile,
+  updateStateFile,
+  summarizeProgress,
+} from './state.js';
+export type { InitialStateOptions } from './state.js';
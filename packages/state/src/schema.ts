@@ -0,0 +1,111 @@
+/**
+ * ACFS State Schema
+ * Zod schemas for validating ~/.acfs/state.json
+ */
+
+import { z } from 'zod';
+
+/**
+ * Current state.json schema version (ACFS_STATE_SCHEMA_VERSION)
+ */
+export const STATE_SCHEMA_VERSION = 3;
+
+/**
+ * Schema for the installation mode
+ */
+export const InstallModeSchema = z.enum(['vibe', 'safe']);
+
+/**
+ * Schema for a release-to-release Ubuntu upgrade hop
+ */
+export const UbuntuUpgradeStepSchema = z
+  .object({
+    from: z.string(),
+    to: z.string(),
+    started_at: z.string().optional(),
+    completed_at: z.string().optional(),
+  })
+  .passthrough();
+
+/**
+ * Schema for the ubuntu_upgrade section (v3)
+ */
+export const UbuntuUpgradeSchema = z
+  .object({
+    enabled: z.boolean(),
+    started_at: z.string().optional(),
+    original_version: z.string(),
+    target_version: z.string(),
+    upgrade_path: z.array(z.string()).default([]),
+    current_stage: z.enum([
+      'initializing',
+      'upgrading',
+      'step_complete',
+      'awaiting_reboot',
+      'resumed',
+      'error',
+      'completed',
+    ]),
+    completed_upgrades: z.array(UbuntuUpgradeStepSchema).default([]),
+    current_upgrade: UbuntuUpgradeStepSchema.nullable().default(null),
+    needs_reboot: z.boolean().default(false),
+    resume_after_reboot: z.boolean().default(false),
+    last_error: z.string().nullable().default(null),
+    completed_at: z.string().optional(),
+  })
+  .passthrough();
+
+/**
+ * Fields shared by v2 and v3. Optional-with-default fields match what
+ * state_init writes, so partially written v2 files still load.
+ * Unknown keys are kept so a round trip never drops data the bash side added.
+ */
+const stateFields = {
+  version: z.string(),
+  mode: InstallModeSchema,
+  started_at: z.string().optional(),
+  last_updated: z.string().optional(),
+  completed_phases: z.array(z.string()),
+  current_phase: z.string().nullable().default(null),
+  current_step: z.string().nullable().default(null),
+  phase_start_time: z.number().int().optional(),
+  failed_phase: z.string().nullable().default(null),
+  failed_step: z.string().nullable().default(null),
+  failed_error: z.string().nullable().default(null),
+  skipped_tools: z.array(z.string()).default([]),
+  skipped_phases: z.array(z.string()).default([]),
+  phase_durations: z.record(z.string(), z.number()).default({}),
+  target_user: z.string().optional(),
+  skip_postgres: z.boolean().optional(),
+  skip_vault: z.boolean().optional(),
+  skip_cloud: z.boolean().optional(),
+};
+
+/**
+ * Schema for a v2 state file (stable phase IDs, no ubuntu_upgrade)
+ */
+export const StateV2Schema = z
+  .object({
+    schema_version: z.literal(2),
+    ...stateFields,
+  })
+  .passthrough();
+
+/**
+ * Schema for a v3 state file
+ */
+export const StateSchema = z
+  .object({
+    schema_version: z.literal(STATE_SCHEMA_VERSION),
+    ...stateFields,
+    ubuntu_upgrade: UbuntuUpgradeSchema.optional(),
+  })
+  .passthrough();
+
+/**
+ * Type inference from schemas
+ */
+export type StateInput = z.input<typeof StateSchema>;
+export type StateOutput = z.output<typeof StateSchema>;
+
+export type StateV2Input = z.input<typeof StateV2Schema>;
@@ -0,0 +1,204 @@
+/**
+ * Tests for ACFS State File
+ *
+ * Loads fixture state files written by scripts/lib/state.sh (v1, v2, v3),
+ * checks migration and error codes, and exercises the atomic writer.
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import { mkdtempSync, readdirSync, readFileSync, rmSync, statSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { dirname, join, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import {
+  createInitialState,
+  getStateFilePath,
+  parseStateString,
+  readStateFile,
+  summarizeProgress,
+  updateStateFile,
+  writeStateFile,
+} from './state.js';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const FIXTURES = resolve(__dirname, '__fixtures__');
+const fixture = (name: string) => join(FIXTURES, name);
+
+describe('getStateFilePath', () => {
+  test('prefers ACFS_STATE_FILE, then ACFS_HOME, then HOME', () => {
+    expect(getStateFilePath({ ACFS_STATE_FILE: '/x/s.json', ACFS_HOME: '/y', HOME: '/z' })).toBe(
+      '/x/s.json'
+    );
+    expect(getStateFilePath({ ACFS_HOME: '/y', HOME: '/z' })).toBe('/y/state.json');
+    expect(getStateFilePath({ HOME: '/z' })).toBe('/z/.acfs/state.json');
+  });
+});
+
+describe('readStateFile', () => {
+  test('loads a v3 state file as-is', () => {
+    const result = readStateFile(fixture('v3-in-progress.json'));
+    expect(result.success).toBe(true);
+    expect(result.migratedFrom).toBeUndefined();
+    expect(result.data?.schema_version).toBe(3);
+    expect(result.data?.current_phase).toBe('cli_tools');
+    expect(result.data?.phase_start_time).toBe(1736937600);
+    expect(result.data?.ubuntu_upgrade).toBeUndefined();
+  });
+
+  test('loads the v3 ubuntu_upgrade section', () => {
+    const result = readStateFile(fixture('v3-ubuntu-upgrade.json'));
+    expect(result.success).toBe(true);
+    const upgrade = result.data?.ubuntu_upgrade;
+    expect(upgrade?.current_stage).toBe('awaiting_reboot');
+    expect(upgrade?.upgrade_path).toEqual(['25.04', '25.10']);
+    expect(upgrade?.completed_upgrades[0]).toEqual({
+      from: '24.04',
+      to: '25.04',
+      completed_at: '2025-01-15T10:58:00+00:00',
+    });
+  });
+
+  test('migrates v2 to v3, filling defaults and keeping unknown keys', () => {
+    const result = readStateFile(fixture('v2-failed.json'));
+    expect(result.success).toBe(true);
+    expect(result.migratedFrom).toBe(2);
+    expect(result.data?.schema_version).toBe(3);
+    expect(result.data?.skipped_tools).toEqual([]);
+    expect(result.data?.failed_phase).toBe('languages');
+    expect((result.data as unknown as Record<string, unknown>).yes_mode).toBe(true);
+  });
+
+  test('reports legacy v1 files', () => {
+    const result = readStateFile(fixture('v1-legacy.json'));
+    expect(result.success).toBe(false);
+    expect(result.error?.code).toBe('legacy_v1');
+  });
+
+  test('reports newer schema versions', () => {
+    const result = readStateFile(fixture('v4-future.json'));
+    expect(result.error?.code).toBe('unsupported_version');
+    expect(result.error?.message).toContain('v4');
+  });
+
+  test('reports corrupted JSON', () => {
+    expect(readStateFile(fixture('corrupted.json')).error?.code).toBe('invalid_json');
+  });
+
+  test('reports a missing file', () => {
+    expect(readStateFile(fixture('does-not-exist.json')).error?.code).toBe('not_found');
+  });
+});
+
+describe('parseStateString', () => {
+  test('reports schema violations with field paths', () => {
+    const result = parseStateString(
+      JSON.stringify({ schema_version: 3, version: '1', mode: 'yolo', completed_phases: [] })
+    );
+    expect(result.error?.code).toBe('invalid_schema');
+    expect(result.error?.message).toContain('mode');
+  });
+
+  test('rejects empty content and non-objects', () => {
+    expect(parseStateString('  \n').error?.code).toBe('invalid_json');
+    expect(parseStateString('[]').error?.code).toBe('invalid_schema');
+  });
+});
+
+describe('writeStateFile', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'acfs-state-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('round-trips state, creating the directory with an owner-only file', () => {
+    const path = join(dir, 'nested', 'state.json');
+    const state = createInitialState({ version: '0.5.0', mode: 'safe', targetUser: 'dev' });
+    writeStateFile(state, path);
+
+    const result = readStateFile(path);
+    expect(result.success).toBe(true);
+    expect(result.data?.mode).toBe('safe');
+    expect(result.data?.target_user).toBe('dev');
+    expect(statSync(path).mode & 0o777).toBe(0o600);
+    expect(readFileSync(path, 'utf-8').endsWith('}\n')).toBe(true);
+    expect(readdirSync(join(dir, 'nested'))).toEqual(['state.json']);
+  });
+
+  test('refuses invalid state and leaves the existing file untouched', () => {
+    const path = join(dir, 'state.json');
+    writeFileSync(path, readFileSync(fixture('v3-in-progress.json')));
+    const before = readFileSync(path, 'utf-8');
+
+    const bad = { ...createInitialState(), mode: 'yolo' } as unknown as Parameters<
+      typeof writeStateFile
+    >[0];
+    expect(() => writeStateFile(bad, path)).toThrow('mode');
+    expect(readFileSync(path, 'utf-8')).toBe(before);
+    expect(readdirSync(dir)).toEqual(['state.json']);
+  });
+
+  test('updateStateFile upgrades a v2 file on write', () => {
+    const path = join(dir, 'state.json');
+    writeFileSync(path, readFileSync(fixture('v2-failed.json')));
+
+    const result = updateStateFile(
+      (state) => ({ ...state, skipped_tools: [...state.skipped_tools, 'ntm'] }),
+      path
+    );
+    expect(result.success).toBe(true);
+    expect(result.migratedFrom).toBeUndefined();
+    expect(result.data?.skipped_tools).toEqual(['ntm']);
+
+    const onDisk = JSON.parse(readFileSync(path, 'utf-8'));
+    expect(onDisk.schema_version).toBe(3);
+    expect(onDisk.yes_mode).toBe(true);
+    expect(onDisk.last_updated).not.toBe('2024-12-02T08:20:00+00:00');
+  });
+
+  test('updateStateFile returns read errors without writing', () => {
+    const path = join(dir, 'state.json');
+    writeFileSync(path, readFileSync(fixture('v1-legacy.json')));
+    const before = readFileSync(path, 'utf-8');
+
+    const result = updateStateFile((state) => state, path);
+    expect(result.error?.code).toBe('legacy_v1');
+    expect(readFileSync(path, 'utf-8')).toBe(before);
+  });
+});
+
+describe('summarizeProgress', () => {
+  test('summarizes an in-progress install', () => {
+    const progress = summarizeProgress(readStateFile(fixture('v3-in-progress.json')).data!);
+    expect(progress.completed).toBe(3);
+    expect(progress.total).toBe(9);
+    expect(progress.percent).toBe(33);
+    expect(progress.currentStep).toBe('Installing ripgrep');
+    expect(progress.failure).toBeNull();
+    expect(progress.phases[0]).toEqual({
+      id: 'user_setup',
+      name: 'User Normalization',
+      status: 'completed',
+      durationSeconds: 12,
+    });
+    expect(progress.phases[3].status).toBe('in_progress');
+    expect(progress.phases[4].status).toBe('pending');
+  });
+
+  test('summarizes a failed install with skipped phases', () => {
+    const progress = summarizeProgress(readStateFile(fixture('v2-failed.json')).data!);
+    expect(progress.failure).toEqual({
+      phase: 'languages',
+      step: 'Installing Rust',
+      error: 'curl: (28) Operation timed out',
+    });
+    expect(progress.phases.find((p) => p.id === 'languages')?.status).toBe('failed');
+    expect(progress.phases.find((p) => p.id === 'cloud_db')?.status).toBe('skipped');
+    // 4 completed + 1 skipped of 9
+    expect(progress.percent).toBe(56);
+  });
+});
@@ -0,0 +1,373 @@
+/**
+ * ACFS State File
+ * Read, migrate and atomically write ~/.acfs/state.json
+ */
+
+import { randomBytes } from 'node:crypto';
+import {
+  closeSync,
+  existsSync,
+  fsyncSync,
+  mkdirSync,
+  openSync,
+  readFileSync,
+  renameSync,
+  unlinkSync,
+  writeSync,
+} from 'node:fs';
+import { homedir } from 'node:os';
+import { dirname, join } from 'node:path';
+import type { ZodError } from 'zod';
+import { STATE_SCHEMA_VERSION, StateSchema, StateV2Schema } from './schema.js';
+import type {
+  AcfsState,
+  InstallMode,
+  PhaseId,
+  PhaseStatus,
+  StateError,
+  StateProgress,
+  StateResult,
+} from './types.js';
+
+// ============================================================
+// Phases
+// ============================================================
+
+/**
+ * Installer phases in execution order (ACFS_PHASE_IDS)
+ */
+export const PHASE_IDS: readonly PhaseId[] = [
+  'user_setup',
+  'filesystem',
+  'shell_setup',
+  'cli_tools',
+  'languages',
+  'agents',
+  'cloud_db',
+  'stack',
+  'finalize',
+];
+
+/**
+ * Human-readable phase names (ACFS_PHASE_NAMES)
+ */
+export const PHASE_NAMES: Readonly<Record<PhaseId, string>> = {
+  user_setup: 'User Normalization',
+  filesystem: 'Filesystem Setup',
+  shell_setup: 'Shell Setup',
+  cli_tools: 'CLI Tools',
+  languages: 'Language Runtimes',
+  agents: 'Coding Agents',
+  cloud_db: 'Cloud & Database Tools',
+  stack: 'Dicklesworthstone Stack',
+  finalize: 'Final Wiring',
+};
+
+/**
+ * Check whether a string is a known phase ID
+ */
+export function isPhaseId(value: string): value is PhaseId {
+  return (PHASE_IDS as readonly string[]).includes(value);
+}
+
+// ============================================================
+// Location
+// ============================================================
+
+/**
+ * Resolve the state file path the same way state_get_file does:
+ * $ACFS_STATE_FILE, then $ACFS_HOME/state.json, then ~/.acfs/state.json
+ *
+ * @param env - Environment to read (default: process.env)
+ * @returns Absolute path to state.json
+ */
+export function getStateFilePath(env: NodeJS.ProcessEnv = process.env): string {
+  if (env.ACFS_STATE_FILE) return env.ACFS_STATE_FILE;
+  const acfsHome = env.ACFS_HOME || join(env.HOME || homedir(), '.acfs');
+  return join(acfsHome, 'state.json');
+}
+
+// ============================================================
+// Parsing and migration
+// ============================================================
+
+/**
+ * Timestamp in the shape `date -Iseconds` produces (no milliseconds)
+ */
+function nowIsoSeconds(): string {
+  return new Date().toISOString().replace(/\.\d{3}Z$/, 'Z');
+}
+
+function formatIssues(error: ZodError): string {
+  return error.issues
+    .map((issue) => `${issue.path.length > 0 ? issue.path.join('.') : '(root)'}: ${issue.message}`)
+    .join('; ');
+}
+
+function fail(code: StateError['code'], message: string): StateResult {
+  return { success: false, error: { code, message } };
+}
+
+/**
+ * Validate parsed JSON and migrate it to the current schema
+ *
+ * v2 files are upgraded in memory (v3 only adds the optional ubuntu_upgrade
+ * section). v1 files use numeric phases; like state_check_version, they are
+ * reported as legacy rather than guessed at.
+ *
+ * @param raw - Parsed state.json content
+ * @returns State in the current schema, or an error
+ */
+export function migrateState(raw: unknown): StateResult {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    return fail('invalid_schema', 'State file must contain a JSON object');
+  }
+
+  const version = (raw as { schema_version?: unknown }).schema_version;
+  if (version === undefined || version === 1) {
+    return fail('legacy_v1', 'Legacy v1 state file (numeric phases); a fresh install is recommended');
+  }
+  if (typeof version !== 'number' || !Number.isInteger(version)) {
+    return fail('invalid_schema', `schema_version must be an integer, got ${JSON.stringify(version)}`);
+  }
+  if (version > STATE_SCHEMA_VERSION) {
+    return fail(
+      'unsupported_version',
+      `State file has newer schema (v${version}) than supported (v${STATE_SCHEMA_VERSION})`
+    );
+  }
+
+  if (version === 2) {
+    const v2 = StateV2Schema.safeParse(raw);
+    if (!v2.success) return fail('invalid_schema', formatIssues(v2.error));
+    return {
+      success: true,
+      data: { ...v2.data, schema_version: STATE_SCHEMA_VERSION } as AcfsState,
+      migratedFrom: 2,
+    };
+  }
+
+  const result = StateSchema.safeParse(raw);
+  if (!result.success) return fail('invalid_schema', formatIssues(result.error));
+  return { success: true, data: result.data as AcfsState };
+}
+
+/**
+ * Parse state.json content
+ *
+ * @param content - Raw file content
+ * @returns State in the current schema, or an error
+ */
+export function parseStateString(content: string): StateResult {
+  if (content.trim() === '') {
+    return fail('invalid_json', 'State file is empty');
+  }
+  let raw: unknown;
+  try {
+    raw = JSON.parse(content);
+  } catch (err) {
+    return fail('invalid_json', `Corrupted JSON in state file: ${(err as Error).message}`);
+  }
+  return migrateState(raw);
+}
+
+/**
+ * Read and parse a state file
+ *
+ * @param path - State file path (default: getStateFilePath())
+ * @returns State in the current schema, or an error
+ *
+ * @example
+ * ```ts
+ * const result = readStateFile();
+ * if (result.success) {
+ *   console.log(summarizeProgress(result.data!).percent);
+ * } else if (result.error?.code === 'not_found') {
+ *   console.log('ACFS has not been installed yet');
+ * }
+ * ```
+ */
+export function readStateFile(path: string = getStateFilePath()): StateResult {
+  if (!existsSync(path)) {
+    return fail('not_found', `State file not found: ${path}`);
+  }
+  let content: string;
+  try {
+    content = readFileSync(path, 'utf-8');
+  } catch (err) {
+    return fail('unreadable', `Cannot read state file ${path}: ${(err as Error).message}`);
+  }
+  return parseStateString(content);
+}
+
+// ============================================================
+// Writing
+// ============================================================
+
+/**
+ * Options for createInitialState
+ */
+export interface InitialStateOptions {
+  version?: string;
+  mode?: InstallMode;
+  targetUser?: string;
+  skipPostgres?: boolean;
+  skipVault?: boolean;
+  skipCloud?: boolean;
+}
+
+/**
+ * Create a fresh state object matching state_init
+ */
+export function createInitialState(options: InitialStateOptions = {}): AcfsState {
+  const now = nowIsoSeconds();
+  return {
+    schema_version: STATE_SCHEMA_VERSION,
+    version: options.version ?? '0.1.0',
+    mode: options.mode ?? 'vibe',
+    started_at: now,
+    last_updated: now,
+    completed_phases: [],
+    current_phase: null,
+    current_step: null,
+    failed_phase: null,
+    failed_step: null,
+    failed_error: null,
+    skipped_tools: [],
+    skipped_phases: [],
+    phase_durations: {},
+    target_user: options.targetUser ?? 'ubuntu',
+    skip_postgres: options.skipPostgres ?? false,
+    skip_vault: options.skipVault ?? false,
+    skip_cloud: options.skipCloud ?? false,
+  };
+}
+
+function fsyncDirectory(dir: string): void {
+  try {
+    const fd = openSync(dir, 'r');
+    try {
+      fsyncSync(fd);
+    } finally {
+      closeSync(fd);
+    }
+  } catch {
+    // Directory fsync is best effort (unsupported on some platforms)
+  }
+}
+
+/**
+ * Write a state file atomically (same pattern as state_write_atomic):
+ * write a 0600 temp file in the target directory, fsync it, then rename it
+ * over the target. A crash mid-write leaves the previous file intact.
+ *
+ * The state is validated first and last_updated is refreshed, like state_save.
+ *
+ * @param state - State to write
+ * @param path - State file path (default: getStateFilePath())
+ * @throws Error if the state is invalid or the write fails (temp file is removed)
+ */
+export function writeStateFile(state: AcfsState, path: string = getStateFilePath()): void {
+  const validated = StateSchema.safeParse({ ...state, last_updated: nowIsoSeconds() });
+  if (!validated.success) {
+    throw new Error(`Refusing to write invalid state: ${formatIssues(validated.error)}`);
+  }
+
+  const dir = dirname(path);
+  mkdirSync(dir, { recursive: true });
+
+  // Never reuse a predictable temp path ('wx' fails if it exists)
+  const tempPath = join(dir, `.state.${randomBytes(6).toString('hex')}.tmp`);
+  const fd = openSync(tempPath, 'wx', 0o600);
+  try {
+    try {
+      writeSync(fd, `${JSON.stringify(validated.data, null, 2)}\n`);
+      fsyncSync(fd);
+    } finally {
+      closeSync(fd);
+    }
+    renameSync(tempPath, path);
+  } catch (err) {
+    try {
+      unlinkSync(tempPath);
+    } catch {
+      // Already renamed or never created
+    }
+    throw err;
+  }
+
+  fsyncDirectory(dir);
+}
+
+/**
+ * Read, modify and atomically write a state file (like state_update).
+ * A v2 file is written back as v3.
+ *
+ * @param update - Receives a copy of the current state and returns the new state
+ * @param path - State file path (default: getStateFilePath())
+ * @returns The written state, or the read error (nothing is written)
+ * @throws Error if the write fails
+ *
+ * @example
+ * ```ts
+ * updateStateFile((state) => ({ ...state, skipped_tools: [...state.skipped_tools, 'ntm'] }));
+ * ```
+ */
+export function updateStateFile(
+  update: (state: AcfsState) => AcfsState,
+  path: string = getStateFilePath()
+): StateResult {
+  const current = readStateFile(path);
+  if (!current.success || !current.data) return current;
+
+  const next = update(structuredClone(current.data));
+  writeStateFile(next, path);
+  return readStateFile(path);
+}
+
+// ============================================================
+// Progress
+// ============================================================
+
+/**
+ * Summarize install progress per phase for status displays
+ *
+ * @param state - Loaded state
+ * @returns Phase statuses in execution order plus totals
+ */
+export function summarizeProgress(state: AcfsState): StateProgress {
+  const completed = new Set(state.completed_phases);
+  const skipped = new Set(state.skipped_phases);
+
+  const phases = PHASE_IDS.map((id) => {
+    let status: PhaseStatus = 'pending';
+    if (completed.has(id)) status = 'completed';
+    else if (state.failed_phase === id) status = 'failed';
+    else if (state.current_phase === id) status = 'in_progress';
+    else if (skipped.has(id)) status = 'skipped';
+
+    const duration = state.phase_durations[id];
+    return {
+      id,
+      name: PHASE_NAMES[id],
+      status,
+      ...(status === 'completed' && duration !== undefined ? { durationSeconds: duration } : {}),
+    };
+  });
+
+  const done = phases.filter((phase) => phase.status === 'completed').length;
+  const settled = phases.filter(
+    (phase) => phase.status === 'completed' || phase.status === 'skipped'
+  ).length;
+
+  return {
+    phases,
+    completed: done,
+    total: PHASE_IDS.length,
+    percent: Math.round((settled / PHASE_IDS.length) * 100),
+    currentStep: state.current_phase ? state.current_step : null,
+    failure: state.failed_phase
+      ? { phase: state.failed_phase, step: state.failed_step, error: state.failed_error }
+      : null,
+  };
+}
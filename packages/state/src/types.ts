@@ -0,0 +1,167 @@
+/**
+ * ACFS State Types
+ * Type definitions for the installer state file (~/.acfs/state.json, schema v3)
+ */
+
+/**
+ * Stable installer phase identifiers (see ACFS_PHASE_IDS in scripts/lib/state.sh)
+ */
+export type PhaseId =
+  | 'user_setup'
+  | 'filesystem'
+  | 'shell_setup'
+  | 'cli_tools'
+  | 'languages'
+  | 'agents'
+  | 'cloud_db'
+  | 'stack'
+  | 'finalize';
+
+/**
+ * Installation mode (vibe = passwordless sudo, full permissions)
+ */
+export type InstallMode = 'vibe' | 'safe';
+
+/**
+ * Stages of a multi-reboot Ubuntu upgrade
+ */
+export type UbuntuUpgradeStage =
+  | 'initializing'
+  | 'upgrading'
+  | 'step_complete'
+  | 'awaiting_reboot'
+  | 'resumed'
+  | 'error'
+  | 'completed';
+
+/**
+ * One release-to-release hop of an Ubuntu upgrade
+ */
+export interface UbuntuUpgradeStep {
+  /** Release upgraded from (e.g., "24.04") */
+  from: string;
+  /** Release upgraded to (e.g., "25.04") */
+  to: string;
+  /** When the hop started (in-progress hop only) */
+  started_at?: string;
+  /** When the hop finished (completed hops only) */
+  completed_at?: string;
+}
+
+/**
+ * Ubuntu upgrade tracking (added in schema v3, present only while upgrading)
+ */
+export interface UbuntuUpgradeState {
+  enabled: boolean;
+  started_at?: string;
+  original_version: string;
+  target_version: string;
+  /** Releases still to pass through, in order */
+  upgrade_path: string[];
+  current_stage: UbuntuUpgradeStage;
+  completed_upgrades: UbuntuUpgradeStep[];
+  current_upgrade: UbuntuUpgradeStep | null;
+  needs_reboot: boolean;
+  resume_after_reboot: boolean;
+  last_error: string | null;
+  completed_at?: string;
+}
+
+/**
+ * Installer state (schema v3)
+ *
+ * Phase fields hold strings rather than PhaseId so a state file written by a
+ * newer installer with additional phases still loads.
+ */
+export interface AcfsState {
+  schema_version: 3;
+  /** ACFS version that created this state */
+  version: string;
+  mode: InstallMode;
+  started_at?: string;
+  last_updated?: string;
+  /** Phases that completed successfully, in completion order */
+  completed_phases: string[];
+  /** Phase currently in progress (null if idle) */
+  current_phase: string | null;
+  /** Step within the current phase (null if idle) */
+  current_step: string | null;
+  /** Unix timestamp (seconds) when the current phase started */
+  phase_start_time?: number;
+  failed_phase: string | null;
+  failed_step: string | null;
+  failed_error: string | null;
+  skipped_tools: string[];
+  skipped_phases: string[];
+  /** Seconds spent per completed phase */
+  phase_durations: Record<string, number>;
+  target_user?: string;
+  skip_postgres?: boolean;
+  skip_vault?: boolean;
+  skip_cloud?: boolean;
+  ubuntu_upgrade?: UbuntuUpgradeState;
+}
+
+/**
+ * Why a state file could not be loaded (mirrors state_validate return codes)
+ */
+export type StateErrorCode =
+  | 'not_found'
+  | 'unreadable'
+  | 'invalid_json'
+  | 'invalid_schema'
+  | 'unsupported_version'
+  | 'legacy_v1';
+
+/**
+ * A state loading error
+ */
+export interface StateError {
+  code: StateErrorCode;
+  message: string;
+}
+
+/**
+ * Result of reading or parsing a state file
+ */
+export interface StateResult {
+  /** Whether loading succeeded */
+  success: boolean;
+  /** State, migrated to the current schema (if successful) */
+  data?: AcfsState;
+  /** Schema version the file was migrated from (undefined if already current) */
+  migratedFrom?: number;
+  /** Loading error (if failed) */
+  error?: StateError;
+}
+
+/**
+ * Display status of a single phase
+ */
+export type PhaseStatus = 'completed' | 'in_progress' | 'failed' | 'skipped' | 'pending';
+
+/**
+ * Per-phase progress, in installer execution order
+ */
+export interface PhaseProgress {
+  id: PhaseId;
+  name: string;
+  status: PhaseStatus;
+  /** Seconds spent (completed phases only) */
+  durationSeconds?: number;
+}
+
+/**
+ * Install progress summary for status pages
+ */
+export interface StateProgress {
+  phases: PhaseProgress[];
+  completed: number;
+  total: number;
+  /** Completed or skipped phases as a whole percentage */
+  percent: number;
+  /** Current step description, when a phase is running */
+  currentStep: string | null;
+  /** Failure details, when the last run failed */
+  failure: { phase: string; step: string | null; error: string | null } | null;
+}
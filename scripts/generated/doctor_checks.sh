@@ -153,11 +153,31 @@ declare -a MANIFEST_CHECKS=(
     "stack.slb	Two-person rule for dangerous commands (optional guardrails)	export PATH=\"\$HOME/go/bin:\$PATH\" && slb >/dev/null 2>&1 || slb --help >/dev/null 2>&1	required"
     "acfs.workspace.1	Agent workspace with tmux session and project folder	test -d /data/projects/my_first_project	required"
     "acfs.workspace.2	Agent workspace with tmux session and project folder	grep -q \"alias agents=\" ~/.zshrc.local || grep -q \"alias agents=\" ~/.zshrc	required"
-    "acfs.onboard	Onboarding TUI tutorial	onboard --help || command -v onboard	required"
+    "acfs.onboard.1	Onboarding TUI tutorial	onboard --help || command -v onboard	required"
+    "acfs.onboard.2	Onboarding TUI tutorial	command -v acfs-auth	required"
+    "acfs.onboard.3	Onboarding TUI tutorial	command -v acfs-onboard	required"
     "acfs.update	ACFS update command wrapper	command -v acfs-update	required"
     "acfs.doctor	ACFS doctor command for health checks	acfs doctor --help || command -v acfs	required"
 )
 
+# Version checks: ID<TAB>WANTED<TAB>VERSION_CHECK_COMMAND (encoded like MANIFEST_CHECKS)
+declare -a MANIFEST_VERSION_CHECKS=(
+    "lang.bun	>=1.2.0	~/.bun/bin/bun --version"
+    "lang.uv	>=0.5.0	~/.local/bin/uv --version"
+    "lang.go	>=1.22	go version"
+)
+
+# Module conditions (when:), keyed by check ID without the .N suffix
+declare -gA MANIFEST_CHECK_WHEN=(
+)
+
+_manifest_check_not_applicable() {
+    local when="${MANIFEST_CHECK_WHEN[${1%.[0-9]*}]:-}"
+    [[ -n "$when" ]] || return 1
+    type -t acfs_when_matches >/dev/null 2>&1 || return 1
+    ! acfs_when_matches "$when"
+}
+
 # Run all manifest checks
 run_manifest_checks() {
     local passed=0
@@ -168,6 +188,11 @@ run_manifest_checks() {
         # Use tab as delimiter (safe - won't appear in commands)
         IFS=$'\t' read -r id desc cmd optional <<< "$check"
         cmd="$(printf '%b' "$cmd")"
+        if _manifest_check_not_applicable "$id"; then
+            echo -e "\033[0;33m[skip]\033[0m $id - not applicable on this system"
+            ((skipped += 1))
+            continue
+        fi
         
         if bash -o pipefail -c "$cmd" &>/dev/null; then
             echo -e "\033[0;32m[ok]\033[0m $id - $desc"
@@ -181,6 +206,31 @@ run_manifest_checks() {
         fi
     done
 
+    local wanted output installed
+    for check in "${MANIFEST_VERSION_CHECKS[@]}"; do
+        IFS=$'\t' read -r id wanted cmd <<< "$check"
+        cmd="$(printf '%b' "$cmd")"
+        if _manifest_check_not_applicable "$id"; then
+            echo -e "\033[0;33m[skip]\033[0m $id - not applicable on this system"
+            ((skipped += 1))
+        elif ! type -t acfs_version_satisfies >/dev/null 2>&1; then
+            echo -e "\033[0;33m[skip]\033[0m $id - version check unavailable (install_helpers.sh not loaded)"
+            ((skipped += 1))
+        elif ! output="$(bash -o pipefail -c "$cmd" 2>&1)"; then
+            echo -e "\033[0;33m[skip]\033[0m $id - not installed, manifest wants $wanted"
+            ((skipped += 1))
+        elif ! installed="$(acfs_version_extract "$output")"; then
+            echo -e "\033[0;31m[fail]\033[0m $id - could not parse installed version, manifest wants $wanted"
+            ((failed += 1))
+        elif acfs_version_satisfies "$installed" "$wanted"; then
+            echo -e "\033[0;32m[ok]\033[0m $id - installed v$installed, manifest wants $wanted"
+            ((passed += 1))
+        else
+            echo -e "\033[0;31m[fail]\033[0m $id - installed v$installed, manifest wants $wanted"
+            ((failed += 1))
+        fi
+    done
+
     echo ""
     echo "Passed: $passed, Failed: $failed, Skipped: $skipped"
     [[ $failed -eq 0 ]]
@@ -267,6 +267,38 @@ INSTALL_ACFS_ONBOARD
             return 1
         fi
     fi
+    if [[ "${DRY_RUN:-false}" = "true" ]]; then
+        log_info "dry-run: install: # Install acfs-auth and acfs-onboard: Bun sources under ~/.acfs/onboard, run by (target_user)"
+    else
+        if ! run_as_target_shell <<'INSTALL_ACFS_ONBOARD'
+# Install acfs-auth and acfs-onboard: Bun sources under ~/.acfs/onboard, run by
+# the bin/ wrappers with the bun on PATH (or ~/.bun/bin/bun)
+ACFS_RAW="${ACFS_RAW:-https://raw.githubusercontent.com/Dicklesworthstone/agentic_coding_flywheel_setup/main}"
+CURL_ARGS=(-fsSL)
+if curl --help all 2>/dev/null | grep -q -- '--proto'; then
+  CURL_ARGS=(--proto '=https' --proto-redir '=https' -fsSL)
+fi
+for rel in bin/acfs-auth bin/acfs-onboard src/acfs-auth.ts src/onboard.ts \
+  src/data/lessons.ts src/data/services.ts src/lib/authChecks.ts src/lib/authProbes.ts \
+  src/lib/authReport.ts src/lib/exercises.ts src/lib/lessons.ts src/lib/markdown.ts src/lib/progress.ts; do
+  mkdir -p "$(dirname ~/.acfs/onboard/"$rel")"
+  if [[ -n "${ACFS_BOOTSTRAP_DIR:-}" ]] && [[ -f "${ACFS_BOOTSTRAP_DIR}/packages/onboard/$rel" ]]; then
+    cp "${ACFS_BOOTSTRAP_DIR}/packages/onboard/$rel" ~/.acfs/onboard/"$rel"
+  elif [[ -f "packages/onboard/$rel" ]]; then
+    cp "packages/onboard/$rel" ~/.acfs/onboard/"$rel"
+  else
+    curl "${CURL_ARGS[@]}" "${ACFS_RAW}/packages/onboard/$rel" -o ~/.acfs/onboard/"$rel"
+  fi
+done
+chmod +x ~/.acfs/onboard/bin/acfs-auth ~/.acfs/onboard/bin/acfs-onboard
+ln -sf ~/.acfs/onboard/bin/acfs-auth ~/.local/bin/acfs-auth
+ln -sf ~/.acfs/onboard/bin/acfs-onboard ~/.local/bin/acfs-onboard
+INSTALL_ACFS_ONBOARD
+        then
+            log_error "acfs.onboard: install command failed: # Install acfs-auth and acfs-onboard: Bun sources under ~/.acfs/onboard, run by"
+            return 1
+        fi
+    fi
 
     # Verify
     if [[ "${DRY_RUN:-false}" = "true" ]]; then
@@ -280,6 +312,28 @@ INSTALL_ACFS_ONBOARD
             return 1
         fi
     fi
+    if [[ "${DRY_RUN:-false}" = "true" ]]; then
+        log_info "dry-run: verify: command -v acfs-auth (target_user)"
+    else
+        if ! run_as_target_shell <<'INSTALL_ACFS_ONBOARD'
+command -v acfs-auth
+INSTALL_ACFS_ONBOARD
+        then
+            log_error "acfs.onboard: verify failed: command -v acfs-auth"
+            return 1
+        fi
+    fi
+    if [[ "${DRY_RUN:-false}" = "true" ]]; then
+        log_info "dry-run: verify: command -v acfs-onboard (target_user)"
+    else
+        if ! run_as_target_shell <<'INSTALL_ACFS_ONBOARD'
+command -v acfs-onboard
+INSTALL_ACFS_ONBOARD
+        then
+            log_error "acfs.onboard: verify failed: command -v acfs-onboard"
+            return 1
+        fi
+    fi
 
     log_success "acfs.onboard installed"
 }
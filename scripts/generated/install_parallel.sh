@@ -0,0 +1,220 @@
+#!/usr/bin/env bash
+# shellcheck disable=SC1091
+# ============================================================
+# AUTO-GENERATED FROM acfs.manifest.yaml - DO NOT EDIT
+# Regenerate: bun run generate (from packages/manifest)
+# ============================================================
+
+set -euo pipefail
+
+# Ensure logging functions available
+ACFS_GENERATED_SCRIPT_DIR="$(cd "$(dirname "${BASH_SOURCE[0]}")" && pwd)"
+
+# When running a generated installer directly (not sourced by install.sh),
+# set sane defaults and derive ACFS paths from the script location so
+# contract validation passes and local assets are discoverable.
+if [[ "${BASH_SOURCE[0]}" = "${0}" ]]; then
+    # Match install.sh defaults
+    TARGET_USER="${TARGET_USER:-ubuntu}"
+    MODE="${MODE:-vibe}"
+
+    if [[ -z "${TARGET_HOME:-}" ]]; then
+        if [[ "${TARGET_USER}" == "root" ]]; then
+            TARGET_HOME="/root"
+        elif [[ "$(whoami 2>/dev/null || true)" == "${TARGET_USER}" ]]; then
+            TARGET_HOME="${HOME}"
+        else
+            TARGET_HOME="/home/${TARGET_USER}"
+        fi
+    fi
+
+    # Derive "bootstrap" paths from the repo layout (scripts/generated/.. -> repo root).
+    if [[ -z "${ACFS_BOOTSTRAP_DIR:-}" ]]; then
+        ACFS_BOOTSTRAP_DIR="$(cd "$ACFS_GENERATED_SCRIPT_DIR/../.." && pwd)"
+    fi
+
+    ACFS_LIB_DIR="${ACFS_LIB_DIR:-$ACFS_BOOTSTRAP_DIR/scripts/lib}"
+    ACFS_GENERATED_DIR="${ACFS_GENERATED_DIR:-$ACFS_BOOTSTRAP_DIR/scripts/generated}"
+    ACFS_ASSETS_DIR="${ACFS_ASSETS_DIR:-$ACFS_BOOTSTRAP_DIR/acfs}"
+    ACFS_CHECKSUMS_YAML="${ACFS_CHECKSUMS_YAML:-$ACFS_BOOTSTRAP_DIR/checksums.yaml}"
+    ACFS_MANIFEST_YAML="${ACFS_MANIFEST_YAML:-$ACFS_BOOTSTRAP_DIR/acfs.manifest.yaml}"
+
+    export TARGET_USER TARGET_HOME MODE
+    export ACFS_BOOTSTRAP_DIR ACFS_LIB_DIR ACFS_GENERATED_DIR ACFS_ASSETS_DIR ACFS_CHECKSUMS_YAML ACFS_MANIFEST_YAML
+fi
+if [[ -f "$ACFS_GENERATED_SCRIPT_DIR/../lib/logging.sh" ]]; then
+    source "$ACFS_GENERATED_SCRIPT_DIR/../lib/logging.sh"
+else
+    # Fallback logging functions if logging.sh not found
+    # Progress/status output should go to stderr so stdout stays clean for piping.
+    log_step() { echo "[*] $*" >&2; }
+    log_section() { echo "" >&2; echo "=== $* ===" >&2; }
+    log_success() { echo "[OK] $*" >&2; }
+    log_error() { echo "[ERROR] $*" >&2; }
+    log_warn() { echo "[WARN] $*" >&2; }
+    log_info() { echo "    $*" >&2; }
+fi
+
+# Source install helpers (run_as_*_shell, selection helpers)
+if [[ -f "$ACFS_GENERATED_SCRIPT_DIR/../lib/install_helpers.sh" ]]; then
+    source "$ACFS_GENERATED_SCRIPT_DIR/../lib/install_helpers.sh"
+fi
+
+# Source contract validation
+if [[ -f "$ACFS_GENERATED_SCRIPT_DIR/../lib/contract.sh" ]]; then
+    source "$ACFS_GENERATED_SCRIPT_DIR/../lib/contract.sh"
+fi
+
+# Optional security verification for upstream installer scripts.
+# Scripts that need it should call: acfs_security_init
+ACFS_SECURITY_READY=false
+acfs_security_init() {
+    if [[ "${ACFS_SECURITY_READY}" = "true" ]]; then
+        return 0
+    fi
+
+    local security_lib="$ACFS_GENERATED_SCRIPT_DIR/../lib/security.sh"
+    if [[ ! -f "$security_lib" ]]; then
+        log_error "Security library not found: $security_lib"
+        return 1
+    fi
+
+    # Use ACFS_CHECKSUMS_YAML if set by install.sh bootstrap (overrides security.sh default)
+    if [[ -n "${ACFS_CHECKSUMS_YAML:-}" ]]; then
+        export CHECKSUMS_FILE="${ACFS_CHECKSUMS_YAML}"
+    fi
+
+    # shellcheck source=../lib/security.sh
+    # shellcheck disable=SC1091  # runtime relative source
+    source "$security_lib"
+    load_checksums || { log_error "Failed to load checksums.yaml"; return 1; }
+    ACFS_SECURITY_READY=true
+    return 0
+}
+
+# Parallel master installer - runs dependency waves concurrently
+# Modules in a wave do not depend on each other; root modules (apt/dpkg lock)
+# never share a wave. Each module logs to $ACFS_PARALLEL_LOG_DIR/<module>.log.
+
+source "$ACFS_GENERATED_SCRIPT_DIR/install_base.sh"
+source "$ACFS_GENERATED_SCRIPT_DIR/install_users.sh"
+source "$ACFS_GENERATED_SCRIPT_DIR/install_filesystem.sh"
+source "$ACFS_GENERATED_SCRIPT_DIR/install_shell.sh"
+source "$ACFS_GENERATED_SCRIPT_DIR/install_cli.sh"
+source "$ACFS_GENERATED_SCRIPT_DIR/install_network.sh"
+source "$ACFS_GENERATED_SCRIPT_DIR/install_lang.sh"
+source "$ACFS_GENERATED_SCRIPT_DIR/install_tools.sh"
+source "$ACFS_GENERATED_SCRIPT_DIR/install_agents.sh"
+source "$ACFS_GENERATED_SCRIPT_DIR/install_db.sh"
+source "$ACFS_GENERATED_SCRIPT_DIR/install_cloud.sh"
+source "$ACFS_GENERATED_SCRIPT_DIR/install_stack.sh"
+source "$ACFS_GENERATED_SCRIPT_DIR/install_acfs.sh"
+
+# One entry per wave: space-separated module IDs
+ACFS_PARALLEL_WAVES=(
+  # Wave 1: phase 1, level 0
+  "base.system"
+  # Wave 2: phase 2, level 0
+  "users.ubuntu"
+  # Wave 3: phase 3, level 0
+  "base.filesystem"
+  # Wave 4: phase 4, level 0
+  "shell.zsh"
+  # Wave 5: phase 4, level 1
+  "shell.omz"
+  # Wave 6: phase 5, level 0
+  "cli.modern"
+  # Wave 7: phase 5, level 0
+  "network.tailscale"
+  # Wave 8: phase 6, level 0
+  "lang.bun lang.go tools.zoxide"
+  # Wave 9: phase 6, level 0
+  "lang.uv"
+  # Wave 10: phase 6, level 0
+  "lang.rust"
+  # Wave 11: phase 6, level 0
+  "lang.nvm"
+  # Wave 12: phase 6, level 0
+  "tools.atuin"
+  # Wave 13: phase 6, level 1
+  "tools.ast_grep"
+  # Wave 14: phase 7, level 0
+  "agents.claude agents.codex"
+  # Wave 15: phase 7, level 0
+  "agents.gemini"
+  # Wave 16: phase 8, level 0
+  "tools.vault cloud.wrangler cloud.supabase"
+  # Wave 17: phase 8, level 0
+  "db.postgres18 cloud.vercel"
+  # Wave 18: phase 9, level 0
+  "stack.ntm stack.mcp_agent_mail stack.ultimate_bug_scanner stack.beads_viewer stack.cass stack.cm stack.caam stack.slb"
+  # Wave 19: phase 10, level 0
+  "acfs.workspace acfs.onboard acfs.update acfs.doctor"
+)
+
+: "${ACFS_PARALLEL_JOBS:=4}"
+: "${ACFS_PARALLEL_LOG_DIR:=${TMPDIR:-/tmp}/acfs-install-parallel}"
+
+# Wait for job $1 of the current wave (uses pids/ids/failed from acfs_parallel_run_wave)
+_acfs_parallel_wait() {
+    local idx="$1"
+    local log_file="$ACFS_PARALLEL_LOG_DIR/${ids[idx]}.log"
+    if wait "${pids[idx]}"; then
+        log_success "${ids[idx]} (log: $log_file)"
+    else
+        log_error "${ids[idx]} failed (log: $log_file)"
+        failed=1
+    fi
+}
+
+# Run one wave: at most ACFS_PARALLEL_JOBS modules at a time, wait for all
+acfs_parallel_run_wave() {
+    local wave_num="$1"
+    shift
+    local -a pids=() ids=()
+    local module_id func i
+    local failed=0
+
+    log_step "Wave ${wave_num}: $*"
+    for module_id in "$@"; do
+        func="install_${module_id//./_}"
+        if [[ ${#pids[@]} -ge ${ACFS_PARALLEL_JOBS} ]]; then
+            _acfs_parallel_wait "$(( ${#pids[@]} - ACFS_PARALLEL_JOBS ))"
+        fi
+        ( "$func" ) >"$ACFS_PARALLEL_LOG_DIR/${module_id}.log" 2>&1 &
+        pids+=("$!")
+        ids+=("$module_id")
+    done
+
+    local first_unwaited=$(( ${#pids[@]} > ACFS_PARALLEL_JOBS ? ${#pids[@]} - ACFS_PARALLEL_JOBS : 0 ))
+    for (( i = first_unwaited; i < ${#pids[@]}; i++ )); do
+        _acfs_parallel_wait "$i"
+    done
+
+    return "$failed"
+}
+
+# Install all modules, wave by wave (stops at the first failed wave)
+install_parallel() {
+    log_section "ACFS Parallel Installation"
+    mkdir -p "$ACFS_PARALLEL_LOG_DIR"
+    log_info "Per-module logs: $ACFS_PARALLEL_LOG_DIR"
+
+    local wave_num=0
+    local wave
+    for wave in "${ACFS_PARALLEL_WAVES[@]}"; do
+        wave_num=$((wave_num + 1))
+        # shellcheck disable=SC2086  # wave is a space-separated module list
+        if ! acfs_parallel_run_wave "$wave_num" $wave; then
+            log_error "Wave ${wave_num} failed; not starting later waves"
+            return 1
+        fi
+    done
+
+    log_success "All modules installed!"
+}
+
+# Run if executed directly
+if [[ "${BASH_SOURCE[0]}" = "${0}" ]]; then
+    install_parallel
+fi
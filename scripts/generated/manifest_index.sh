@@ -6,7 +6,7 @@
 # ============================================================
 # Data-only manifest index. Safe to source.
 
-ACFS_MANIFEST_SHA256="817312c99cd140d93634cd649f53406b19a8544f366aeaa4f2f07250cde04c08"
+ACFS_MANIFEST_SHA256="54d8af0c639d5512ec7732d2fe30bb8f8a88ce3a66f1fe0d41d603fa6e5f8564"
 
 ACFS_MODULES_IN_ORDER=(
   "base.system"
@@ -274,4 +274,98 @@ declare -gA ACFS_MODULE_DEFAULT=(
   [acfs.doctor]="1"
 )
 
+declare -gA ACFS_MODULE_VERSION=(
+  [base.system]=""
+  [users.ubuntu]=""
+  [base.filesystem]=""
+  [shell.zsh]=""
+  [shell.omz]=""
+  [cli.modern]=""
+  [network.tailscale]=""
+  [lang.bun]=">=1.2.0"
+  [lang.uv]=">=0.5.0"
+  [lang.rust]=""
+  [lang.go]=">=1.22"
+  [lang.nvm]=""
+  [tools.atuin]=""
+  [tools.zoxide]=""
+  [tools.ast_grep]=""
+  [agents.claude]=""
+  [agents.codex]=""
+  [agents.gemini]=""
+  [tools.vault]=""
+  [db.postgres18]=""
+  [cloud.wrangler]=""
+  [cloud.supabase]=""
+  [cloud.vercel]=""
+  [stack.ntm]=""
+  [stack.mcp_agent_mail]=""
+  [stack.ultimate_bug_scanner]=""
+  [stack.beads_viewer]=""
+  [stack.cass]=""
+  [stack.cm]=""
+  [stack.caam]=""
+  [stack.slb]=""
+  [acfs.workspace]=""
+  [acfs.onboard]=""
+  [acfs.update]=""
+  [acfs.doctor]=""
+)
+
+declare -gA ACFS_MODULE_VERSION_CHECK=(
+  [base.system]=""
+  [users.ubuntu]=""
+  [base.filesystem]=""
+  [shell.zsh]=""
+  [shell.omz]=""
+  [cli.modern]=""
+  [network.tailscale]=""
+  [lang.bun]="~/.bun/bin/bun --version"
+  [lang.uv]="~/.local/bin/uv --version"
+  [lang.rust]=""
+  [lang.go]="go version"
+  [lang.nvm]=""
+  [tools.atuin]=""
+  [tools.zoxide]=""
+  [tools.ast_grep]=""
+  [agents.claude]=""
+  [agents.codex]=""
+  [agents.gemini]=""
+  [tools.vault]=""
+  [db.postgres18]=""
+  [cloud.wrangler]=""
+  [cloud.supabase]=""
+  [cloud.vercel]=""
+  [stack.ntm]=""
+  [stack.mcp_agent_mail]=""
+  [stack.ultimate_bug_scanner]=""
+  [stack.beads_viewer]=""
+  [stack.cass]=""
+  [stack.cm]=""
+  [stack.caam]=""
+  [stack.slb]=""
+  [acfs.workspace]=""
+  [acfs.onboard]=""
+  [acfs.update]=""
+  [acfs.doctor]=""
+)
+
+ACFS_PROFILES=(
+  "agents"
+  "db"
+  "full"
+)
+
+declare -gA ACFS_PROFILE_DESCRIPTION=(
+  [agents]="Coding agents + flywheel stack, no cloud or database tooling"
+  [db]="Database box (critical base setup + PostgreSQL 18)"
+  [full]="Everything, including optional cloud and database tooling"
+)
+
+declare -gA ACFS_PROFILE_MODULES=(
+  [agents]="base.system,users.ubuntu,base.filesystem,shell.zsh,shell.omz,cli.modern,lang.bun,lang.uv,lang.rust,lang.go,lang.nvm,tools.ast_grep,agents.claude,agents.codex,agents.gemini,stack.ntm,stack.mcp_agent_mail,stack.ultimate_bug_scanner,stack.beads_viewer,stack.cass,stack.cm,stack.caam,acfs.workspace,acfs.onboard,acfs.update,acfs.doctor"
+  [db]="base.system,users.ubuntu,base.filesystem,shell.zsh,shell.omz,lang.bun,lang.uv,lang.rust,lang.go,lang.nvm,db.postgres18,acfs.doctor"
+  [full]="base.system,users.ubuntu,base.filesystem,shell.zsh,shell.omz,cli.modern,network.tailscale,lang.bun,lang.uv,lang.rust,lang.go,lang.nvm,tools.atuin,tools.zoxide,tools.ast_grep,agents.claude,agents.codex,agents.gemini,tools.vault,db.postgres18,cloud.wrangler,cloud.supabase,cloud.vercel,stack.ntm,stack.mcp_agent_mail,stack.ultimate_bug_scanner,stack.beads_viewer,stack.cass,stack.cm,stack.caam,stack.slb,acfs.workspace,acfs.onboard,acfs.update,acfs.doctor"
+)
+
 ACFS_MANIFEST_INDEX_LOADED=true
@@ -0,0 +1,165 @@
+#!/usr/bin/env bash
+# shellcheck disable=SC1091
+# ============================================================
+# AUTO-GENERATED FROM acfs.manifest.yaml - DO NOT EDIT
+# Regenerate: bun run generate (from packages/manifest)
+# ============================================================
+
+set -euo pipefail
+
+# Ensure logging functions available
+ACFS_GENERATED_SCRIPT_DIR="$(cd "$(dirname "${BASH_SOURCE[0]}")" && pwd)"
+
+# When running a generated installer directly (not sourced by install.sh),
+# set sane defaults and derive ACFS paths from the script location so
+# contract validation passes and local assets are discoverable.
+if [[ "${BASH_SOURCE[0]}" = "${0}" ]]; then
+    # Match install.sh defaults
+    TARGET_USER="${TARGET_USER:-ubuntu}"
+    MODE="${MODE:-vibe}"
+
+    if [[ -z "${TARGET_HOME:-}" ]]; then
+        if [[ "${TARGET_USER}" == "root" ]]; then
+            TARGET_HOME="/root"
+        elif [[ "$(whoami 2>/dev/null || true)" == "${TARGET_USER}" ]]; then
+            TARGET_HOME="${HOME}"
+        else
+            TARGET_HOME="/home/${TARGET_USER}"
+        fi
+    fi
+
+    # Derive "bootstrap" paths from the repo layout (scripts/generated/.. -> repo root).
+    if [[ -z "${ACFS_BOOTSTRAP_DIR:-}" ]]; then
+        ACFS_BOOTSTRAP_DIR="$(cd "$ACFS_GENERATED_SCRIPT_DIR/../.." && pwd)"
+    fi
+
+    ACFS_LIB_DIR="${ACFS_LIB_DIR:-$ACFS_BOOTSTRAP_DIR/scripts/lib}"
+    ACFS_GENERATED_DIR="${ACFS_GENERATED_DIR:-$ACFS_BOOTSTRAP_DIR/scripts/generated}"
+    ACFS_ASSETS_DIR="${ACFS_ASSETS_DIR:-$ACFS_BOOTSTRAP_DIR/acfs}"
+    ACFS_CHECKSUMS_YAML="${ACFS_CHECKSUMS_YAML:-$ACFS_BOOTSTRAP_DIR/checksums.yaml}"
+    ACFS_MANIFEST_YAML="${ACFS_MANIFEST_YAML:-$ACFS_BOOTSTRAP_DIR/acfs.manifest.yaml}"
+
+    export TARGET_USER TARGET_HOME MODE
+    export ACFS_BOOTSTRAP_DIR ACFS_LIB_DIR ACFS_GENERATED_DIR ACFS_ASSETS_DIR ACFS_CHECKSUMS_YAML ACFS_MANIFEST_YAML
+fi
+if [[ -f "$ACFS_GENERATED_SCRIPT_DIR/../lib/logging.sh" ]]; then
+    source "$ACFS_GENERATED_SCRIPT_DIR/../lib/logging.sh"
+else
+    # Fallback logging functions if logging.sh not found
+    # Progress/status output should go to stderr so stdout stays clean for piping.
+    log_step() { echo "[*] $*" >&2; }
+    log_section() { echo "" >&2; echo "=== $* ===" >&2; }
+    log_success() { echo "[OK] $*" >&2; }
+    log_error() { echo "[ERROR] $*" >&2; }
+    log_warn() { echo "[WARN] $*" >&2; }
+    log_info() { echo "    $*" >&2; }
+fi
+
+# Source install helpers (run_as_*_shell, selection helpers)
+if [[ -f "$ACFS_GENERATED_SCRIPT_DIR/../lib/install_helpers.sh" ]]; then
+    source "$ACFS_GENERATED_SCRIPT_DIR/../lib/install_helpers.sh"
+fi
+
+# Source contract validation
+if [[ -f "$ACFS_GENERATED_SCRIPT_DIR/../lib/contract.sh" ]]; then
+    source "$ACFS_GENERATED_SCRIPT_DIR/../lib/contract.sh"
+fi
+
+# Optional security verification for upstream installer scripts.
+# Scripts that need it should call: acfs_security_init
+ACFS_SECURITY_READY=false
+acfs_security_init() {
+    if [[ "${ACFS_SECURITY_READY}" = "true" ]]; then
+        return 0
+    fi
+
+    local security_lib="$ACFS_GENERATED_SCRIPT_DIR/../lib/security.sh"
+    if [[ ! -f "$security_lib" ]]; then
+        log_error "Security library not found: $security_lib"
+        return 1
+    fi
+
+    # Use ACFS_CHECKSUMS_YAML if set by install.sh bootstrap (overrides security.sh default)
+    if [[ -n "${ACFS_CHECKSUMS_YAML:-}" ]]; then
+        export CHECKSUMS_FILE="${ACFS_CHECKSUMS_YAML}"
+    fi
+
+    # shellcheck source=../lib/security.sh
+    # shellcheck disable=SC1091  # runtime relative source
+    source "$security_lib"
+    load_checksums || { log_error "Failed to load checksums.yaml"; return 1; }
+    ACFS_SECURITY_READY=true
+    return 0
+}
+
+# Uninstall dispatcher - sources category uninstall scripts
+# Usage: uninstall_module <module-id>
+
+source "$ACFS_GENERATED_SCRIPT_DIR/uninstall_tools.sh"
+source "$ACFS_GENERATED_SCRIPT_DIR/uninstall_db.sh"
+source "$ACFS_GENERATED_SCRIPT_DIR/uninstall_cloud.sh"
+
+declare -gA ACFS_UNINSTALL_FUNC=(
+  [tools.ast_grep]="uninstall_tools_ast_grep"
+  [tools.vault]="uninstall_tools_vault"
+  [db.postgres18]="uninstall_db_postgres18"
+  [cloud.wrangler]="uninstall_cloud_wrangler"
+)
+
+declare -gA ACFS_UNINSTALL_DEPENDENTS=(
+  [tools.ast_grep]="stack.ultimate_bug_scanner"
+  [tools.vault]=""
+  [db.postgres18]=""
+  [cloud.wrangler]=""
+)
+
+# Returns 0 if a dependent module looks installed (no installed_check = installed)
+acfs_uninstall_dependent_installed() {
+    case "$1" in
+        stack.ultimate_bug_scanner)
+            run_as_target_shell >/dev/null 2>&1 <<'INSTALL_STACK_ULTIMATE_BUG_SCANNER'
+command -v ubs
+INSTALL_STACK_ULTIMATE_BUG_SCANNER
+            ;;
+        *)
+            return 0
+            ;;
+    esac
+}
+
+# Uninstall a single module (refuses while dependents are installed)
+uninstall_module() {
+    local module_id="${1:-}"
+    if [[ -z "$module_id" ]]; then
+        log_error "Usage: uninstall_module <module-id>"
+        return 1
+    fi
+
+    local func="${ACFS_UNINSTALL_FUNC[$module_id]:-}"
+    if [[ -z "$func" ]]; then
+        log_error "No uninstall steps defined for module: $module_id"
+        return 1
+    fi
+
+    local dependents="${ACFS_UNINSTALL_DEPENDENTS[$module_id]:-}"
+    local dependent
+    local -a blocking=()
+    for dependent in ${dependents//,/ }; do
+        if acfs_uninstall_dependent_installed "$dependent"; then
+            blocking+=("$dependent")
+        fi
+    done
+
+    if [[ ${#blocking[@]} -gt 0 ]]; then
+        log_error "Refusing to uninstall $module_id: required by ${blocking[*]}"
+        log_info "Uninstall the dependent modules first."
+        return 1
+    fi
+
+    "$func"
+}
+
+# Run if executed directly
+if [[ "${BASH_SOURCE[0]}" = "${0}" ]]; then
+    uninstall_module "$@"
+fi
@@ -16,6 +16,12 @@ if [[ -z "${ACFS_BLUE:-}" ]]; then
     source "$INSTALL_HELPERS_DIR/logging.sh" 2>/dev/null || true
 fi
 
+# Arch/WSL/container detection for module conditions
+if ! declare -f get_arch >/dev/null 2>&1; then
+    # shellcheck source=os_detect.sh
+    source "$INSTALL_HELPERS_DIR/os_detect.sh" 2>/dev/null || true
+fi
+
 # ------------------------------------------------------------
 # Selection state (populated by parse_args or manifest selection)
 # ------------------------------------------------------------
@@ -29,6 +35,7 @@ if [[ "${SKIP_MODULES+x}" != "x" ]]; then
     SKIP_MODULES=()
 fi
 : "${NO_DEPS:=false}"
+: "${ACFS_PROFILE:=}"
 : "${PRINT_PLAN:=false}"
 
 # ------------------------------------------------------------
@@ -197,6 +204,19 @@ acfs_resolve_selection() {
                 fi
             done
         done
+    elif [[ -n "${ACFS_PROFILE:-}" ]]; then
+        # Profile module sets are resolved (with deps) by the generator.
+        if [[ -z "${ACFS_PROFILE_MODULES[$ACFS_PROFILE]+x}" ]]; then
+            log_error "Unknown profile in --profile: $ACFS_PROFILE"
+            return 1
+        fi
+        local -a profile_modules=()
+        IFS=',' read -ra profile_modules <<< "${ACFS_PROFILE_MODULES[$ACFS_PROFILE]}"
+        for module in "${profile_modules[@]}"; do
+            [[ -n "$module" ]] || continue
+            desired["$module"]=1
+            start_reason["$module"]="profile $ACFS_PROFILE"
+        done
     else
         for module in "${ACFS_MODULES_IN_ORDER[@]}"; do
             local enabled="${ACFS_MODULE_DEFAULT["$module"]:-1}"
@@ -370,6 +390,8 @@ acfs_resolve_selection() {
                 ACFS_PLAN_EXCLUDE_REASON["$module"]="not selected"
             elif [[ "${#ONLY_PHASES[@]}" -gt 0 ]]; then
                 ACFS_PLAN_EXCLUDE_REASON["$module"]="filtered by phase"
+            elif [[ -n "${ACFS_PROFILE:-}" ]]; then
+                ACFS_PLAN_EXCLUDE_REASON["$module"]="not in profile $ACFS_PROFILE"
             else
                 ACFS_PLAN_EXCLUDE_REASON["$module"]="not selected"
             fi
@@ -745,6 +767,208 @@ command_exists_as_target() {
         _ "$cmd"
 }
 
+# ------------------------------------------------------------
+# Version pinning (manifest `version` / `version_check`)
+# ------------------------------------------------------------
+# Supported specs (mirrors VersionSpecSchema in packages/manifest):
+#   1.2.3 / 1.2 / 1.x   prefix match on the given components
+#   >=1.2.0             at least this version
+#   ^1.2.0              same major, at least this version (semver: ^0.2.0
+#                       stays within 0.2, ^0.0.3 means exactly 0.0.3)
+#   ~1.2.0              same major.minor, at least this version
+# Anything else, including "x" in a range, never matches (fail closed).
+
+# Extract the first dotted version number from arbitrary command output.
+# Example: "go version go1.22.2 linux/amd64" -> "1.22.2"
+acfs_version_extract() {
+    local text="${1:-}"
+    local version=""
+    version="$(grep -oE '[0-9]+(\.[0-9]+)+' <<< "$text" | head -n 1)" || true
+    if [[ -z "$version" ]]; then
+        version="$(grep -oE '[0-9]+' <<< "$text" | head -n 1)" || true
+    fi
+    [[ -n "$version" ]] || return 1
+    echo "$version"
+}
+
+# Compare two dotted versions numerically. Prints -1, 0 or 1.
+acfs_version_compare() {
+    local -a a=() b=()
+    IFS='.' read -r -a a <<< "${1:-0}"
+    IFS='.' read -r -a b <<< "${2:-0}"
+
+    local i max=$(( ${#a[@]} > ${#b[@]} ? ${#a[@]} : ${#b[@]} ))
+    for (( i = 0; i < max; i++ )); do
+        local x=$(( 10#${a[i]:-0} ))
+        local y=$(( 10#${b[i]:-0} ))
+        if (( x < y )); then
+            echo "-1"
+            return 0
+        elif (( x > y )); then
+            echo "1"
+            return 0
+        fi
+    done
+    echo "0"
+}
+
+# Returns 0 if an installed version satisfies a manifest version spec.
+acfs_version_satisfies() {
+    local installed="${1:-}"
+    local spec="${2:-}"
+
+    [[ -n "$installed" && -n "$spec" ]] || return 1
+
+    local op="" want="$spec"
+    case "$spec" in
+        ">="*) op=">="; want="${spec#>=}" ;;
+        "^"*) op="^"; want="${spec#^}" ;;
+        "~"*) op="~"; want="${spec#\~}" ;;
+    esac
+
+    # Reject non-numeric parts before any arithmetic: $(( 10#x )) is an error,
+    # and an error inside (( )) would otherwise read as "satisfied".
+    [[ "$installed" =~ ^[0-9]+(\.[0-9]+)*$ ]] || return 1
+    if [[ -z "$op" ]]; then
+        [[ "$want" =~ ^[0-9]+(\.([0-9]+|x))*$ ]] || return 1
+    else
+        [[ "$want" =~ ^[0-9]+(\.[0-9]+)*$ ]] || return 1
+    fi
+
+    local -a have_parts=() want_parts=()
+    IFS='.' read -r -a have_parts <<< "$installed"
+    IFS='.' read -r -a want_parts <<< "$want"
+
+    local i
+    case "$op" in
+        "")
+            # Prefix match: every given component must equal (x matches anything)
+            for (( i = 0; i < ${#want_parts[@]}; i++ )); do
+                [[ "${want_parts[i]}" == "x" ]] && continue
+                [[ -n "${have_parts[i]:-}" ]] || return 1
+                (( 10#${have_parts[i]} == 10#${want_parts[i]} )) || return 1
+            done
+            return 0
+            ;;
+        "^")
+            # Components up to and including the first non-zero one must equal
+            for (( i = 0; i < ${#want_parts[@]}; i++ )); do
+                (( 10#${have_parts[i]:-0} == 10#${want_parts[i]} )) || return 1
+                (( 10#${want_parts[i]} == 0 )) || break
+            done
+            ;;
+        "~")
+            (( 10#${have_parts[0]:-0} == 10#${want_parts[0]:-0} )) || return 1
+            (( 10#${have_parts[1]:-0} == 10#${want_parts[1]:-0} )) || return 1
+            ;;
+    esac
+
+    [[ "$(acfs_version_compare "$installed" "$want")" != "-1" ]]
+}
+
+# ------------------------------------------------------------
+# Module conditions (manifest `when:` / `variants`)
+# ------------------------------------------------------------
+# Conditions are encoded by the generator as "key=value" clauses joined by
+# ";" (list values joined by ","), e.g. "ubuntu=>=24.04;arch=arm64".
+# Detection can be overridden with ACFS_OS_VERSION, ACFS_ARCH and ACFS_VIRT.
+
+# Print the Ubuntu release (e.g. "24.04"); fails on other distributions.
+acfs_detect_ubuntu_version() {
+    if [[ -n "${ACFS_OS_VERSION:-}" ]]; then
+        echo "$ACFS_OS_VERSION"
+        return 0
+    fi
+    [[ -f /etc/os-release ]] || return 1
+    (
+        # shellcheck disable=SC1091
+        source /etc/os-release
+        [[ "${ID:-}" == "ubuntu" && -n "${VERSION_ID:-}" ]] || exit 1
+        echo "$VERSION_ID"
+    )
+}
+
+# Print the architecture as amd64/arm64 (get_arch in os_detect.sh).
+acfs_detect_arch() {
+    get_arch "${ACFS_ARCH:-}"
+}
+
+# Print bare_metal, vm, container or wsl (checks from os_detect.sh).
+acfs_detect_virt() {
+    if [[ -n "${ACFS_VIRT:-}" ]]; then
+        echo "$ACFS_VIRT"
+    elif is_wsl; then
+        echo "wsl"
+    elif is_container; then
+        echo "container"
+    elif is_vm; then
+        echo "vm"
+    else
+        echo "bare_metal"
+    fi
+}
+
+# Returns 0 if a release satisfies every space-separated comparator
+# (>=, <=, >, <, = or bare for equality), e.g. ">=22.04 <25.04".
+acfs_ubuntu_version_in_range() {
+    local version="${1:-}"
+    local range="${2:-}"
+    [[ -n "$version" ]] || return 1
+
+    local comparator op want cmp
+    for comparator in $range; do
+        case "$comparator" in
+            ">="*) op=">="; want="${comparator#>=}" ;;
+            "<="*) op="<="; want="${comparator#<=}" ;;
+            ">"*) op=">"; want="${comparator#>}" ;;
+            "<"*) op="<"; want="${comparator#<}" ;;
+            "="*) op="="; want="${comparator#=}" ;;
+            *) op="="; want="$comparator" ;;
+        esac
+        cmp="$(acfs_version_compare "$version" "$want")"
+        case "$op" in
+            ">=") [[ "$cmp" != "-1" ]] || return 1 ;;
+            "<=") [[ "$cmp" != "1" ]] || return 1 ;;
+            ">") [[ "$cmp" == "1" ]] || return 1 ;;
+            "<") [[ "$cmp" == "-1" ]] || return 1 ;;
+            "=") [[ "$cmp" == "0" ]] || return 1 ;;
+        esac
+    done
+    return 0
+}
+
+# Returns 0 if this system matches an encoded condition (empty matches).
+acfs_when_matches() {
+    local spec="${1:-}"
+    [[ -n "$spec" ]] || return 0
+
+    local -a clauses=()
+    IFS=';' read -r -a clauses <<< "$spec"
+
+    local clause key value have
+    for clause in "${clauses[@]}"; do
+        key="${clause%%=*}"
+        value="${clause#*=}"
+        case "$key" in
+            ubuntu)
+                have="$(acfs_detect_ubuntu_version)" || return 1
+                acfs_ubuntu_version_in_range "$have" "$value" || return 1
+                ;;
+            arch) have="$(acfs_detect_arch)" ;;
+            virt) have="$(acfs_detect_virt)" ;;
+            mode) have="${MODE:-vibe}" ;;
+            *)
+                log_warn "Unknown module condition: $key"
+                return 1
+                ;;
+        esac
+        if [[ "$key" != "ubuntu" && ",$value," != *",$have,"* ]]; then
+            return 1
+        fi
+    done
+    return 0
+}
+
 # ------------------------------------------------------------
 # Alias for backwards compatibility with install.sh
 # The canonical implementation is acfs_use_generated_for_category() above.
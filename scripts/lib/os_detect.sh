@@ -94,13 +94,14 @@ is_fresh_vps() {
     return 1
 }
 
-# Get architecture
+# Get architecture as amd64/arm64 (other values pass through)
+# Usage: get_arch [machine]   (defaults to uname -m)
 get_arch() {
-    local arch
-    arch=$(uname -m)
+    local arch="${1:-}"
+    [[ -n "$arch" ]] || arch=$(uname -m)
 
     case "$arch" in
-        x86_64)
+        x86_64|amd64)
             echo "amd64"
             ;;
         aarch64|arm64)
@@ -130,3 +131,25 @@ is_docker() {
     fi
     return 1
 }
+
+# Check if running in any container (Docker, Podman, LXC, systemd-nspawn)
+is_container() {
+    if is_docker; then
+        return 0
+    fi
+    if [[ -f /run/.containerenv ]]; then
+        return 0
+    fi
+    if command -v systemd-detect-virt &>/dev/null && systemd-detect-virt --container --quiet 2>/dev/null; then
+        return 0
+    fi
+    return 1
+}
+
+# Check if running in a virtual machine
+is_vm() {
+    if command -v systemd-detect-virt &>/dev/null && systemd-detect-virt --vm --quiet 2>/dev/null; then
+        return 0
+    fi
+    return 1
+}
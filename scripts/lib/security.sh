@@ -264,7 +264,7 @@ verify_checksum() {
         echo -e "  Fix:" >&2
         echo -e "    - End users: update ACFS to refresh checksums.yaml (re-run install.sh / update scripts)" >&2
         echo -e "    - Maintainers: regenerate checksums.yaml with:" >&2
-        echo -e "        ./scripts/lib/security.sh --update-checksums > checksums.yaml" >&2
+        echo -e "        ./scripts/lib/security.sh --update-checksums > checksums.yaml.new && mv checksums.yaml.new checksums.yaml" >&2
         return 1
     fi
 
@@ -292,7 +292,7 @@ fetch_and_run() {
         echo -e "  Fix:" >&2
         echo -e "    - End users: update ACFS to refresh checksums.yaml (re-run install.sh / update scripts)" >&2
         echo -e "    - Maintainers: regenerate checksums.yaml with:" >&2
-        echo -e "        ./scripts/lib/security.sh --update-checksums > checksums.yaml" >&2
+        echo -e "        ./scripts/lib/security.sh --update-checksums > checksums.yaml.new && mv checksums.yaml.new checksums.yaml" >&2
         return 1
     fi
 
@@ -422,7 +422,26 @@ print_upstream_urls() {
 }
 
 # Print URLs with current checksums (for updating checksums.yaml)
+#
+# The previous checksums.yaml is read first so its history: section is carried
+# over and every hash being replaced is appended to it, in the layout written by
+# serializeChecksums in packages/manifest/src/checksums.ts. Write to a new file
+# and move it into place: "> checksums.yaml" truncates the file before it is read.
 print_current_checksums() {
+    if [[ ! -t 1 && -e "$CHECKSUMS_FILE" && /dev/stdout -ef "$CHECKSUMS_FILE" ]]; then
+        echo -e "${RED}Error:${NC} output is redirected to $CHECKSUMS_FILE, which the shell already emptied." >&2
+        echo "  Restore it (git checkout checksums.yaml) and run:" >&2
+        echo "    ./scripts/lib/security.sh --update-checksums > checksums.yaml.new && mv checksums.yaml.new checksums.yaml" >&2
+        return 1
+    fi
+
+    declare -A previous_history=()
+    if load_checksums 2>/dev/null; then
+        load_checksum_history previous_history
+    fi
+    local replaced_at
+    replaced_at="$(date +%Y-%m-%d)"
+
     # Progress info to stderr (not part of YAML output)
     echo "" >&2
     echo -e "${CYAN}Generating checksums.yaml...${NC}" >&2
@@ -445,11 +464,27 @@ print_current_checksums() {
         }
         echo "done" >&2
 
+        local previous="${LOADED_CHECKSUMS[$name]:-}"
+        if [[ -n "$previous" && "$sha256" != "FETCH_FAILED" && "$sha256" != "$previous" ]]; then
+            previous_history["$name"]+="    - sha256: \"$previous\""$'\n'"      replaced_at: \"$replaced_at\""$'\n'
+        fi
+
         echo "  $name:"
         echo "    url: \"$url\""
         echo "    sha256: \"$sha256\""
         echo ""
     done
+
+    if [[ "${#previous_history[@]}" -gt 0 ]]; then
+        echo "# Previously pinned checksums (oldest first)"
+        echo "history:"
+        local tool
+        while IFS= read -r tool; do
+            echo "  $tool:"
+            printf '%s' "${previous_history[$tool]}"
+        done < <(printf '%s\n' "${!previous_history[@]}" | LC_ALL=C sort)
+        echo ""
+    fi
 }
 
 # ============================================================
@@ -531,6 +566,37 @@ load_checksums() {
     done < "$file"
 }
 
+# Read the history: section of a checksums file into an associative array
+# (named by $1) of tool -> its raw entry lines, oldest first.
+# shellcheck disable=SC2178  # nameref to the caller's associative array
+load_checksum_history() {
+    local -n _history="$1"
+    local file="${2:-$CHECKSUMS_FILE}"
+    local in_history=false
+    local current_tool=""
+
+    [[ -r "$file" ]] || return 1
+
+    while IFS= read -r line || [[ -n "$line" ]]; do
+        line="${line%$'\r'}"
+        [[ "$line" =~ ^[[:space:]]*# ]] && continue
+        [[ -z "${line//[[:space:]]/}" ]] && continue
+
+        if [[ "$line" =~ ^[^[:space:]] ]]; then
+            [[ "$line" =~ ^history:[[:space:]]*$ ]] && in_history=true || in_history=false
+            current_tool=""
+            continue
+        fi
+        [[ "$in_history" == "true" ]] || continue
+
+        if [[ "$line" =~ ^"  "([A-Za-z0-9_-]+):[[:space:]]*$ ]]; then
+            current_tool="${BASH_REMATCH[1]}"
+        elif [[ -n "$current_tool" ]]; then
+            _history["$current_tool"]+="$line"$'\n'
+        fi
+    done < "$file"
+}
+
 # Get checksum for a tool
 get_checksum() {
     local tool="$1"
@@ -1003,7 +1069,7 @@ verify_all_installers() {
         echo "  - Potential security issue (rare)"
         echo ""
         echo "To update checksums after review:"
-        echo "  ./scripts/lib/security.sh --update-checksums > checksums.yaml"
+        echo "  ./scripts/lib/security.sh --update-checksums > checksums.yaml.new && mv checksums.yaml.new checksums.yaml"
         return 1
     fi
 }
@@ -1142,7 +1208,7 @@ Usage:
 
 Commands:
   --print              Print all upstream URLs
-  --update-checksums   Generate checksums.yaml content
+  --update-checksums   Generate checksums.yaml content (keeps its history:)
   --verify             Verify all installers against saved checksums
   --checksum URL       Calculate SHA256 of a URL
   --help               Show this help
@@ -1152,7 +1218,7 @@ Options:
 
 Examples:
   ./security.sh --print
-  ./security.sh --update-checksums > checksums.yaml
+  ./security.sh --update-checksums > checksums.yaml.new && mv checksums.yaml.new checksums.yaml
   ./security.sh --verify
   ./security.sh --verify --json
   ./security.sh --checksum https://bun.sh/install
@@ -44,6 +44,7 @@ reset_selection() {
     SKIP_CATEGORIES=()
     NO_DEPS=false
     PRINT_PLAN=false
+    ACFS_PROFILE=""
 
     # Clear effective arrays
     ACFS_EFFECTIVE_PLAN=()
@@ -204,6 +205,36 @@ test_only_phase_unknown_fails() {
     fi
 }
 
+# ============================================================
+# Test Cases: --profile Selection
+# ============================================================
+
+test_profile_selects_resolved_modules() {
+    local name="--profile selects the generator-resolved module set"
+    reset_selection
+    ACFS_PROFILE="db"
+
+    if acfs_resolve_selection 2>/dev/null; then
+        if should_run_module "db.postgres18" && should_run_module "base.system" && ! should_run_module "agents.claude"; then
+            test_pass "$name"
+            return
+        fi
+    fi
+    test_fail "$name"
+}
+
+test_profile_unknown_fails() {
+    local name="--profile with unknown profile fails"
+    reset_selection
+    ACFS_PROFILE="no-such-profile"
+
+    if ! acfs_resolve_selection 2>/dev/null; then
+        test_pass "$name"
+    else
+        test_fail "$name" "Should fail for unknown profile"
+    fi
+}
+
 # ============================================================
 # Test Cases: --skip Module Exclusion
 # ============================================================
@@ -642,6 +673,123 @@ test_generated_env_var_csv_override() {
     test_fail "$name"
 }
 
+# ============================================================
+# Test Cases: Version Pinning
+# ============================================================
+
+test_version_extract() {
+    local name="acfs_version_extract finds the first dotted version"
+    local got=""
+    got="$(acfs_version_extract "go version go1.22.2 linux/amd64")"
+
+    if [[ "$got" == "1.22.2" ]] && ! acfs_version_extract "no digits here" >/dev/null; then
+        test_pass "$name"
+        return
+    fi
+    test_fail "$name" "got '$got'"
+}
+
+test_version_satisfies_specs() {
+    local name="acfs_version_satisfies handles prefix, >=, ^ and ~ specs"
+    local -a ok=("1.22.2 1.22" "1.2.7 1.x" "1.10.0 >=1.9" "1.3.0 ^1.2.0" "1.2.5 ~1.2.0"
+        "0.2.9 ^0.2.1" "0.0.3 ^0.0.3")
+    local -a bad=("1.23.0 1.22" "2.1 1.x" "1.1.9 >=1.2.0" "2.0.0 ^1.2.0" "1.3.0 ~1.2.0"
+        "0.3.0 ^0.2.1" "0.0.4 ^0.0.3" "1.3.0 >=1.x" "1.3.0 ^1.x" "1.3.0 >=abc")
+    local pair
+
+    for pair in "${ok[@]}"; do
+        # shellcheck disable=SC2086  # split "installed spec" pair
+        if ! acfs_version_satisfies $pair; then
+            test_fail "$name" "expected match: $pair"
+            return
+        fi
+    done
+    for pair in "${bad[@]}"; do
+        # shellcheck disable=SC2086  # split "installed spec" pair
+        if acfs_version_satisfies $pair; then
+            test_fail "$name" "expected mismatch: $pair"
+            return
+        fi
+    done
+    test_pass "$name"
+}
+
+test_version_pins_in_index() {
+    local name="Manifest index exposes version pins"
+
+    if [[ -n "${ACFS_MODULE_VERSION[lang.bun]:-}" && -n "${ACFS_MODULE_VERSION_CHECK[lang.bun]:-}" ]]; then
+        test_pass "$name"
+        return
+    fi
+    test_fail "$name"
+}
+
+test_ubuntu_version_in_range() {
+    local name="acfs_ubuntu_version_in_range handles comparators and ranges"
+    local -a ok=("24.04|>=24.04" "24.10|>=22.04 <25.04" "25.10|25.10" "22.04|<=22.04")
+    local -a bad=("22.04|>=24.04" "25.04|>=22.04 <25.04" "24.04|=24.10" "25.10|>25.10")
+    local pair
+
+    for pair in "${ok[@]}"; do
+        if ! acfs_ubuntu_version_in_range "${pair%%|*}" "${pair#*|}"; then
+            test_fail "$name" "expected match: $pair"
+            return
+        fi
+    done
+    for pair in "${bad[@]}"; do
+        if acfs_ubuntu_version_in_range "${pair%%|*}" "${pair#*|}"; then
+            test_fail "$name" "expected mismatch: $pair"
+            return
+        fi
+    done
+    test_pass "$name"
+}
+
+test_when_matches_conditions() {
+    local name="acfs_when_matches evaluates encoded module conditions"
+
+    if ACFS_OS_VERSION=24.04 ACFS_ARCH=aarch64 ACFS_VIRT=vm MODE=safe \
+        acfs_when_matches "ubuntu=>=24.04;arch=amd64,arm64;virt=vm;mode=safe" \
+        && acfs_when_matches "" \
+        && ! ACFS_OS_VERSION=22.04 acfs_when_matches "ubuntu=>=24.04" \
+        && ! ACFS_ARCH=x86_64 acfs_when_matches "arch=arm64" \
+        && ! ACFS_VIRT=wsl acfs_when_matches "virt=bare_metal,vm" \
+        && ! MODE=vibe acfs_when_matches "mode=safe"; then
+        test_pass "$name"
+        return
+    fi
+    test_fail "$name"
+}
+
+test_detect_virt_uses_os_detect() {
+    local name="acfs_detect_virt builds on os_detect.sh checks"
+    local got
+
+    # Stub the os_detect.sh checks in a subshell (WSL wins over container)
+    got="$(
+        is_wsl() { return 0; }
+        is_docker() { return 0; }
+        acfs_detect_virt
+    )"
+    [[ "$got" == "wsl" ]] || { test_fail "$name" "expected wsl, got $got"; return; }
+
+    got="$(
+        is_wsl() { return 1; }
+        is_docker() { return 0; }
+        acfs_detect_virt
+    )"
+    [[ "$got" == "container" ]] || { test_fail "$name" "expected container, got $got"; return; }
+
+    got="$(
+        is_wsl() { return 1; }
+        is_container() { return 1; }
+        is_vm() { return 0; }
+        acfs_detect_virt
+    )"
+    [[ "$got" == "vm" ]] || { test_fail "$name" "expected vm, got $got"; return; }
+    test_pass "$name"
+}
+
 # ============================================================
 # Run Tests
 # ============================================================
@@ -666,6 +814,10 @@ test_only_phase_selects_modules
 test_only_phase_includes_deps
 test_only_phase_unknown_fails
 
+# --profile tests
+test_profile_selects_resolved_modules
+test_profile_unknown_fails
+
 # --skip tests
 test_skip_removes_module
 test_skip_leaves_others
@@ -706,6 +858,16 @@ test_generated_global_override
 test_generated_per_category_override
 test_generated_env_var_csv_override
 
+# Version pinning tests
+test_version_extract
+test_version_satisfies_specs
+test_version_pins_in_index
+
+# Module condition tests
+test_ubuntu_version_in_range
+test_when_matches_conditions
+test_detect_virt_uses_os_detect
+
 echo ""
 echo "====================================="
 echo "Passed: $TESTS_PASSED, Failed: $TESTS_FAILED"
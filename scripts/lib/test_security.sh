@@ -419,6 +419,59 @@ test_known_installers_all_https() {
     fi
 }
 
+# ============================================================
+# Test Cases: --update-checksums history
+# ============================================================
+
+test_update_checksums_keeps_history() {
+    local name="print_current_checksums carries history and records replaced hashes"
+    local old_hash="e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855"
+    local new_hash="1111111111111111111111111111111111111111111111111111111111111111"
+    local older_hash="2222222222222222222222222222222222222222222222222222222222222222"
+
+    cp "$TEST_TMP_DIR/checksums.yaml" "$TEST_TMP_DIR/history.yaml"
+    cat >> "$TEST_TMP_DIR/history.yaml" << EOF
+
+# Previously pinned checksums (oldest first)
+history:
+  test_tool:
+    - sha256: "$older_hash"
+      replaced_at: "2026-01-01"
+EOF
+
+    local output
+    output="$(
+        CHECKSUMS_FILE="$TEST_TMP_DIR/history.yaml"
+        KNOWN_INSTALLERS=(
+            [test_tool]="https://example.com/install.sh"
+            [another_tool]="https://example.com/another.sh"
+        )
+        fetch_checksum() {
+            case "$1" in
+                *install.sh) echo "$new_hash" ;;
+                *) echo "ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad" ;;
+            esac
+        }
+        print_current_checksums 2>/dev/null
+    )"
+    echo "$output" > "$TEST_TMP_DIR/updated.yaml"
+
+    local -A history=()
+    load_checksum_history history "$TEST_TMP_DIR/updated.yaml"
+    load_checksums "$TEST_TMP_DIR/updated.yaml"
+
+    local expected="    - sha256: \"$older_hash\""$'\n'"      replaced_at: \"2026-01-01\""$'\n'
+    expected+="    - sha256: \"$old_hash\""$'\n'"      replaced_at: \"$(date +%Y-%m-%d)\""$'\n'
+
+    if [[ "${history[test_tool]:-}" == "$expected" ]] &&
+        [[ -z "${history[another_tool]:-}" ]] &&
+        [[ "$(get_checksum test_tool)" == "$new_hash" ]]; then
+        test_pass "$name"
+    else
+        test_fail "$name" "Got: $output"
+    fi
+}
+
 # ============================================================
 # Run Tests
 # ============================================================
@@ -465,6 +518,9 @@ test_non_retryable_exit_code_success
 test_known_installers_has_entries
 test_known_installers_all_https
 
+# --update-checksums history tests
+test_update_checksums_keeps_history
+
 echo ""
 echo "==================="
 echo "Passed: $TESTS_PASSED, Failed: $TESTS_FAILED"